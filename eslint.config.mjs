@@ -15,7 +15,11 @@ export default defineConfig(
         ...globals.browser,
       },
       parserOptions: {
-        project: './packages/onion-lasagna/tsconfig.eslint.json',
+        project: [
+          './packages/onion-lasagna/tsconfig.eslint.json',
+          './packages/persistence/onion-lasagna-kysely/tsconfig.eslint.json',
+          './packages/tooling/onion-lasagna-testing/tsconfig.eslint.json',
+        ],
         tsconfigRootDir: import.meta.dirname,
       },
     },
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Base class for infrastructure adapters that call third-party
+ * HTTP APIs described with `defineRoute`/`defineRouter`.
+ *
+ * @module unified/client/base-http-outbound-adapter
+ */
+
+import type {
+  RouterConfig,
+  RouterDefinition,
+  PrettifyDeep,
+} from '@cosmneo/onion-lasagna/http/route';
+import {
+  BaseOutboundAdapter,
+  DEFAULT_REDACTED_KEYS,
+  ErrorCodes,
+  ExternalServiceError,
+  NetworkError,
+  RedactingLogger,
+  TimeoutError,
+  type LoggerPort,
+} from '@cosmneo/onion-lasagna';
+import { createClient } from './create-client';
+import type { ClientConfig, InferClient } from './client-types';
+import { ClientError } from './client-types';
+
+/**
+ * Configuration for a {@link BaseHttpOutboundAdapter}.
+ */
+export interface HttpOutboundAdapterConfig extends ClientConfig {
+  /**
+   * Name of the service in error messages and log entries.
+   * @default The adapter class name
+   */
+  readonly serviceName?: string;
+
+  /**
+   * Whether to validate successful responses against the route's response
+   * schemas. Unlike `createClient`, adapters validate by default: a
+   * third-party API is not under our control.
+   * @default true
+   */
+  readonly validateResponses?: boolean;
+
+  /**
+   * Logger for outbound requests and responses. Entries go through a
+   * `RedactingLogger`, so credentials in headers and bodies are not written.
+   */
+  readonly logger?: LoggerPort;
+
+  /**
+   * Keys redacted from logged headers, bodies and URL query parameters.
+   * @default DEFAULT_REDACTED_KEYS
+   */
+  readonly redactKeys?: readonly string[];
+}
+
+/**
+ * Base class for outbound adapters that call a third-party HTTP API.
+ *
+ * The API is described by a router of `defineRoute` definitions, from
+ * which the adapter builds a typed `client`. Calls through the client:
+ *
+ * - validate successful responses against the route's response schemas
+ * - translate failures into infrastructure errors:
+ *
+ * | Failure                            | Error                                            |
+ * | ---------------------------------- | ------------------------------------------------ |
+ * | Timeout, abort, HTTP 408 / 504     | `TimeoutError`                                   |
+ * | Connection failure                 | `NetworkError` with the system `errno`           |
+ * | Other non-2xx status               | `ExternalServiceError` with `status` and `responseBody` |
+ * | Response not matching its schema   | `ExternalServiceError` with code `INVALID_RESPONSE` |
+ *
+ * The underlying `ClientError` is kept as `cause`. With a `logger`, each
+ * request and response is logged at debug level and failed ones at warn
+ * level, with credentials redacted.
+ *
+ * As an outbound adapter, all methods also get the error translation and
+ * resilience policies of `BaseOutboundAdapter`.
+ *
+ * @typeParam T - Router config describing the third-party API
+ *
+ * @example
+ * ```typescript
+ * const stripeApi = defineRouter({
+ *   charges: {
+ *     create: defineRoute({
+ *       method: 'POST',
+ *       path: '/v1/charges',
+ *       request: { body: { schema: zodSchema(createChargeSchema) } },
+ *       responses: { 200: { schema: zodSchema(chargeSchema) } },
+ *     }),
+ *   },
+ * });
+ *
+ * class StripePaymentGateway
+ *   extends BaseHttpOutboundAdapter<typeof stripeApi.routes>
+ *   implements PaymentGatewayPort
+ * {
+ *   constructor(apiKey: string, logger: LoggerPort) {
+ *     super(stripeApi, {
+ *       baseUrl: 'https://api.stripe.com',
+ *       headers: { Authorization: `Bearer ${apiKey}` },
+ *       serviceName: 'Stripe',
+ *       logger,
+ *     });
+ *   }
+ *
+ *   async charge(amount: number, currency: string): Promise<string> {
+ *     const charge = await this.client.charges.create({ body: { amount, currency } });
+ *     return charge.id;
+ *   }
+ * }
+ * ```
+ */
+export abstract class BaseHttpOutboundAdapter<T extends RouterConfig> extends BaseOutboundAdapter {
+  /**
+   * Typed client for the third-party API.
+   */
+  protected readonly client: PrettifyDeep<InferClient<T>>;
+
+  /**
+   * @param router - Router describing the third-party API
+   * @param config - Client, logging and validation configuration
+   */
+  constructor(router: T | RouterDefinition<T>, config: HttpOutboundAdapterConfig) {
+    super();
+    const serviceName = config.serviceName ?? this.constructor.name;
+    const redactKeys = config.redactKeys ?? DEFAULT_REDACTED_KEYS;
+    const logger =
+      config.logger &&
+      new RedactingLogger(config.logger, { keys: redactKeys }).child({ service: serviceName });
+
+    const client = createClient(router, {
+      ...config,
+      validateResponses: config.validateResponses ?? true,
+      fetch: logger ? loggingFetch(config.fetch ?? fetch, logger, redactKeys) : config.fetch,
+    });
+    this.client = mapClientErrors(client, serviceName);
+  }
+}
+
+/**
+ * Wraps a fetch implementation to log each attempt.
+ */
+function loggingFetch(
+  fetchFn: typeof fetch,
+  logger: LoggerPort,
+  redactKeys: readonly string[],
+): typeof fetch {
+  const keys = new Set(redactKeys.map(normalizeKey));
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    // createClient always passes a Request; reading a clone leaves it unconsumed
+    const request = input instanceof Request ? input : undefined;
+    const target = {
+      method: request?.method ?? init?.method ?? 'GET',
+      url: redactUrl(request?.url ?? String(input), keys),
+    };
+    logger.debug('Outbound HTTP request', {
+      ...target,
+      headers: headersToObject(new Headers(request?.headers ?? init?.headers)),
+      body: request ? await readBody(request) : undefined,
+    });
+
+    const startedAt = performance.now();
+    let response: Response;
+    try {
+      response = await fetchFn(input, init);
+    } catch (error) {
+      logger.warn('Outbound HTTP request failed', {
+        ...target,
+        durationMs: performance.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    const durationMs = performance.now() - startedAt;
+    if (response.ok) {
+      logger.debug('Outbound HTTP response', { ...target, status: response.status, durationMs });
+    } else {
+      logger.warn('Outbound HTTP request failed', {
+        ...target,
+        status: response.status,
+        durationMs,
+        body: await readBody(response),
+      });
+    }
+    return response;
+  }) as typeof fetch;
+}
+
+/**
+ * Reads a request or response body for logging without consuming it.
+ */
+async function readBody(message: Request | Response): Promise<unknown> {
+  if (!message.body) return undefined;
+  try {
+    const text = await message.clone().text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replaces the values of redacted query parameters in a URL. The
+ * `RedactingLogger` only sees the URL as one string value.
+ */
+function redactUrl(url: string, keys: ReadonlySet<string>): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return url;
+  const hashStart = url.indexOf('#', queryStart);
+  const query = url.slice(queryStart + 1, hashStart === -1 ? undefined : hashStart);
+  const redacted = query
+    .split('&')
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      const name = separator === -1 ? pair : pair.slice(0, separator);
+      return keys.has(normalizeKey(decodeQueryComponent(name))) ? `${name}=[REDACTED]` : pair;
+    })
+    .join('&');
+  return url.slice(0, queryStart + 1) + redacted + (hashStart === -1 ? '' : url.slice(hashStart));
+}
+
+function decodeQueryComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Normalizes a key the way `RedactingLogger` does: case, `-` and `_` are ignored.
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Recursively wraps client methods so that `ClientError`s are rethrown as
+ * infrastructure errors.
+ */
+function mapClientErrors<C>(client: C, serviceName: string): C {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(client as Record<string, unknown>)) {
+    if (typeof value === 'function') {
+      mapped[key] = async (...args: unknown[]) => {
+        try {
+          return await (value as (...args: unknown[]) => Promise<unknown>)(...args);
+        } catch (error) {
+          throw toInfraError(error, serviceName);
+        }
+      };
+    } else if (typeof value === 'object' && value !== null) {
+      mapped[key] = mapClientErrors(value, serviceName);
+    }
+  }
+  return mapped as C;
+}
+
+/**
+ * Translates a `ClientError` into the matching infrastructure error.
+ */
+function toInfraError(error: unknown, serviceName: string): unknown {
+  if (!(error instanceof ClientError)) return error;
+  const { status, statusText, body } = error;
+
+  if (status === 0) {
+    if (statusText === 'Timeout' || statusText === 'Aborted') {
+      return new TimeoutError({
+        message: `${serviceName} request ${statusText === 'Timeout' ? 'timed out' : 'was aborted'}`,
+        cause: error,
+      });
+    }
+    return new NetworkError({
+      message: `${serviceName} is unreachable: ${error.message}`,
+      errno: systemErrorCode(error.cause),
+      cause: error,
+    });
+  }
+
+  if (statusText === 'Invalid Response') {
+    return new ExternalServiceError({
+      message: `${serviceName} returned an invalid response: ${error.message}`,
+      code: ErrorCodes.Infra.INVALID_RESPONSE,
+      status,
+      responseBody: body,
+      cause: error,
+    });
+  }
+
+  if (status === 408 || status === 504) {
+    return new TimeoutError({
+      message: `${serviceName} timed out with HTTP ${status}`,
+      cause: error,
+    });
+  }
+
+  return new ExternalServiceError({
+    message: `${serviceName} responded with HTTP ${status}`,
+    status,
+    responseBody: body,
+    cause: error,
+  });
+}
+
+/**
+ * Finds the system error code (e.g. `ECONNREFUSED`) in a cause chain.
+ */
+function systemErrorCode(error: unknown): string | undefined {
+  let current = error;
+  for (let depth = 0; current != null && depth < 5; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
@@ -9,6 +9,7 @@ import type {
   RouterConfig,
   PathParams,
   HasPathParams,
+  InferRouteErrors,
   PrettifyDeep,
 } from '@cosmneo/onion-lasagna/http/route';
 
@@ -69,6 +70,14 @@ export interface ClientConfig {
    */
   readonly onResponse?: (response: Response) => Response | Promise<Response>;
 
+  /**
+   * Whether to validate successful response bodies against the schema the
+   * route declares for the received status. A mismatch throws a
+   * `ClientError` with status text `'Invalid Response'`.
+   * @default false
+   */
+  readonly validateResponses?: boolean;
+
   /**
    * Error handler.
    * Called when a request fails.
@@ -126,16 +135,20 @@ export interface ClientConfig {
 
 /**
  * Error thrown by the client.
+ *
+ * @typeParam TStatus - HTTP status code (0 for network errors)
+ * @typeParam TBody - Parsed response body
  */
-export class ClientError extends Error {
+export class ClientError<TStatus extends number = number, TBody = unknown> extends Error {
   constructor(
     message: string,
-    public readonly status: number,
+    public readonly status: TStatus,
     public readonly statusText: string,
-    public readonly body?: unknown,
+    public readonly body?: TBody,
     public readonly response?: Response,
+    cause?: unknown,
   ) {
-    super(message);
+    super(message, cause !== undefined ? { cause } : undefined);
     this.name = 'ClientError';
   }
 
@@ -161,6 +174,50 @@ export class ClientError extends Error {
   }
 }
 
+/**
+ * Union of the errors a route declares in its `responses` (4xx/5xx),
+ * one `ClientError` per status with the matching body type.
+ * Resolves to `never` when the route declares no error responses.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.users.create({ body });
+ * } catch (error) {
+ *   if (isDeclaredError(error, api.routes.users.create)) {
+ *     if (error.status === 409) showEmailTaken(error.body.message);
+ *   }
+ * }
+ * ```
+ */
+export type InferClientError<TRoute extends RouteDefinition> =
+  InferRouteErrors<TRoute> extends infer TErrors
+    ? TErrors extends { readonly status: infer S extends number; readonly body: infer B }
+      ? ClientError<S, B>
+      : never
+    : never;
+
+/**
+ * Checks whether an error is a `ClientError` with a status the route declares
+ * in its `responses`, narrowing it to the route's declared error union.
+ *
+ * Network errors and undeclared statuses return `false`.
+ *
+ * @param error - Any caught error
+ * @param route - The route definition that was called
+ * @returns True if the error is one of the route's declared errors
+ */
+export function isDeclaredError<TRoute extends RouteDefinition>(
+  error: unknown,
+  route: TRoute,
+): error is InferClientError<TRoute> {
+  return (
+    error instanceof ClientError &&
+    error.status >= 400 &&
+    route.responses?.[String(error.status)] !== undefined
+  );
+}
+
 // ============================================================================
 // Request Types
 // ============================================================================
@@ -9,6 +9,7 @@
  */
 
 import type {
+  RouteDefinition,
   RouterConfig,
   RouterDefinition,
   PrettifyDeep,
@@ -179,7 +180,7 @@ function parseRetryAfterMs(retryAfterHeader: string | null): number | undefined
  * Creates a method for a single route.
  */
 function createRouteMethod(
-  route: { method: string; path: string; request?: unknown },
+  route: Pick<RouteDefinition, 'method' | 'path' | 'responses'>,
   config: ClientConfig,
 ): (input?: Record<string, unknown>, options?: ClientCallOptions) => Promise<unknown> {
   return async (input?: Record<string, unknown>, options?: ClientCallOptions) => {
@@ -388,11 +389,21 @@ function createRouteMethod(
         }
 
         const contentType = response.headers.get('Content-Type');
-        if (contentType?.includes('application/json')) {
-          return await response.json();
+        const data: unknown = contentType?.includes('application/json')
+          ? await response.json()
+          : await response.text();
+
+        const invalidResponse = config.validateResponses
+          ? responseValidationError(route, response, data)
+          : undefined;
+        if (invalidResponse) {
+          if (config.onError) {
+            await config.onError(invalidResponse);
+          }
+          throw invalidResponse;
         }
 
-        return await response.text();
+        return data;
       } catch (error) {
         if (error instanceof ClientError) {
           throw error;
@@ -419,7 +430,14 @@ function createRouteMethod(
           errorStatus = 'Network Error';
         }
 
-        const clientError = new ClientError(errorMessage, 0, errorStatus, undefined, undefined);
+        const clientError = new ClientError(
+          errorMessage,
+          0,
+          errorStatus,
+          undefined,
+          undefined,
+          error,
+        );
 
         // Don't retry timeouts, user-initiated aborts, or non-idempotent methods
         if (attempt < retryAttempts && !isAbortError && !isExternalAbort && isMethodRetryable) {
@@ -449,6 +467,37 @@ function createRouteMethod(
   };
 }
 
+/**
+ * Validates a successful response body against the schema the route
+ * declares for its status. Statuses without a schema are not checked.
+ *
+ * Returns a `ClientError` with status text `'Invalid Response'` on mismatch.
+ */
+function responseValidationError(
+  route: Pick<RouteDefinition, 'responses'>,
+  response: Response,
+  data: unknown,
+): ClientError | undefined {
+  const schema = route.responses?.[String(response.status)]?.schema;
+  if (!schema) return undefined;
+
+  const result = schema.validate(data);
+  if (result.success) return undefined;
+
+  const issues = result.issues
+    .map((issue) =>
+      issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+    )
+    .join('; ');
+  return new ClientError(
+    `Response validation failed: ${issues}`,
+    response.status,
+    'Invalid Response',
+    data,
+    response,
+  );
+}
+
 /**
  * Sleep helper for retry delays.
  */
@@ -1,8 +1,9 @@
 /**
  * @fileoverview Standalone HTTP client and test utilities for onion-lasagna.
  *
- * Provides the type-safe HTTP client (`createClient`) and test utilities
- * (`createMockClient`, `mockSequence`) for onion-lasagna routers.
+ * Provides the type-safe HTTP client (`createClient`), a base class for
+ * adapters calling third-party APIs (`BaseHttpOutboundAdapter`) and test
+ * utilities (`createMockClient`, `mockSequence`) for onion-lasagna routers.
  *
  * @module unified/client
  *
@@ -38,8 +39,13 @@ export type {
   ClientResponse,
   ClientMethod,
   InferClient,
+  InferClientError,
 } from './client-types';
-export { ClientError } from './client-types';
+export { ClientError, isDeclaredError } from './client-types';
+
+// HTTP outbound adapter
+export { BaseHttpOutboundAdapter } from './base-http-outbound-adapter';
+export type { HttpOutboundAdapterConfig } from './base-http-outbound-adapter';
 
 // Mock client
 export { createMockClient, mockSequence } from './create-mock-client';
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Tests for BaseHttpOutboundAdapter.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  ErrorCodes,
+  ExternalServiceError,
+  NetworkError,
+  TimeoutError,
+  type LoggerPort,
+} from '@cosmneo/onion-lasagna';
+import { defineRoute, defineRouter } from '@cosmneo/onion-lasagna/http/route';
+import { zodSchema } from '@cosmneo/onion-lasagna-zod';
+import {
+  BaseHttpOutboundAdapter,
+  type HttpOutboundAdapterConfig,
+} from '../base-http-outbound-adapter';
+import { ClientError } from '../client-types';
+
+const ratesApi = defineRouter({
+  rates: {
+    latest: defineRoute({
+      method: 'GET',
+      path: '/rates/:base',
+      responses: {
+        200: { schema: zodSchema(z.object({ base: z.string(), rate: z.number() })) },
+      },
+    }),
+    convert: defineRoute({
+      method: 'GET',
+      path: '/convert',
+      request: {
+        query: { schema: zodSchema(z.object({ amount: z.string(), api_key: z.string() })) },
+      },
+      responses: { 200: { schema: zodSchema(z.object({ amount: z.number() })) } },
+    }),
+    publish: defineRoute({
+      method: 'POST',
+      path: '/rates',
+      request: {
+        body: { schema: zodSchema(z.object({ base: z.string(), password: z.string() })) },
+      },
+      responses: { 201: { description: 'Created' } },
+    }),
+  },
+});
+
+class FxRatesAdapter extends BaseHttpOutboundAdapter<typeof ratesApi.routes> {
+  constructor(config: Omit<HttpOutboundAdapterConfig, 'baseUrl'>) {
+    super(ratesApi, { baseUrl: 'https://fx.example.com', serviceName: 'FX', ...config });
+  }
+
+  async latestRate(base: string): Promise<number> {
+    const { rate } = await this.client.rates.latest({ pathParams: { base } });
+    return rate;
+  }
+
+  async convert(amount: string): Promise<number> {
+    const result = await this.client.rates.convert({ query: { amount, api_key: 'k-123' } });
+    return result.amount;
+  }
+
+  async publish(base: string): Promise<void> {
+    await this.client.rates.publish({ body: { base, password: 'hunter2' } });
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createMockLogger() {
+  const child: LoggerPort = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+  const logger: LoggerPort = { ...child, child: vi.fn(() => child) };
+  return { logger, child };
+}
+
+describe('BaseHttpOutboundAdapter', () => {
+  it('calls the API through the typed client', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ base: 'EUR', rate: 1.1 }));
+
+    const rate = await new FxRatesAdapter({ fetch }).latestRate('EUR');
+
+    expect(rate).toBe(1.1);
+    const request = fetch.mock.calls[0]![0] as Request;
+    expect(request.url).toBe('https://fx.example.com/rates/EUR');
+  });
+
+  describe('error mapping', () => {
+    it('maps non-2xx statuses to ExternalServiceError with status and body', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ error: 'unknown base' }, 422));
+
+      const error = await new FxRatesAdapter({ fetch }).latestRate('XXX').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ExternalServiceError);
+      expect((error as ExternalServiceError).message).toBe('FX responded with HTTP 422');
+      expect((error as ExternalServiceError).status).toBe(422);
+      expect((error as ExternalServiceError).responseBody).toEqual({ error: 'unknown base' });
+      expect((error as ExternalServiceError).cause).toBeInstanceOf(ClientError);
+    });
+
+    it('maps responses not matching their schema to INVALID_RESPONSE', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ base: 'EUR', rate: 'high' }));
+
+      const error = await new FxRatesAdapter({ fetch }).latestRate('EUR').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ExternalServiceError);
+      expect((error as ExternalServiceError).code).toBe(ErrorCodes.Infra.INVALID_RESPONSE);
+      expect((error as ExternalServiceError).responseBody).toEqual({ base: 'EUR', rate: 'high' });
+    });
+
+    it('skips response validation when disabled', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ base: 'EUR', rate: 'high' }));
+
+      const rate = await new FxRatesAdapter({ fetch, validateResponses: false }).latestRate('EUR');
+
+      expect(rate).toBe('high');
+    });
+
+    it('maps HTTP 504 to TimeoutError', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response('', { status: 504 }));
+
+      await expect(new FxRatesAdapter({ fetch }).latestRate('EUR')).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    });
+
+    it('maps client timeouts to TimeoutError', async () => {
+      const fetch = vi.fn(
+        (_input: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init?.signal?.addEventListener('abort', () =>
+              reject(new DOMException('aborted', 'AbortError')),
+            );
+          }),
+      );
+
+      const error = await new FxRatesAdapter({ fetch, timeout: 5 })
+        .latestRate('EUR')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).message).toBe('FX request timed out');
+    });
+
+    it('maps connection failures to NetworkError with the system error code', async () => {
+      const fetch = vi.fn().mockRejectedValue(
+        new TypeError('fetch failed', {
+          cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+        }),
+      );
+
+      const error = await new FxRatesAdapter({ fetch }).latestRate('EUR').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as NetworkError).errno).toBe('ECONNREFUSED');
+      expect((error as NetworkError).message).toBe('FX is unreachable: fetch failed');
+    });
+  });
+
+  describe('logging', () => {
+    it('logs requests and responses with credentials redacted', async () => {
+      const { logger, child } = createMockLogger();
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+
+      await new FxRatesAdapter({
+        fetch,
+        logger,
+        headers: { Authorization: 'Bearer secret-token' },
+      }).publish('EUR');
+
+      expect(logger.child).toHaveBeenCalledWith({ service: 'FX' });
+      expect(child.debug).toHaveBeenCalledWith(
+        'Outbound HTTP request',
+        expect.objectContaining({
+          method: 'POST',
+          url: 'https://fx.example.com/rates',
+          headers: expect.objectContaining({ authorization: '[REDACTED]' }),
+          body: { base: 'EUR', password: '[REDACTED]' },
+        }),
+      );
+      expect(child.debug).toHaveBeenCalledWith(
+        'Outbound HTTP response',
+        expect.objectContaining({ status: 201 }),
+      );
+      expect(fetch.mock.calls[0]![0]).toBeInstanceOf(Request);
+      expect(await (fetch.mock.calls[0]![0] as Request).json()).toEqual({
+        base: 'EUR',
+        password: 'hunter2',
+      });
+    });
+
+    it('redacts credentials in the logged query string', async () => {
+      const { logger, child } = createMockLogger();
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ amount: 11 }));
+
+      await new FxRatesAdapter({ fetch, logger }).convert('10');
+
+      expect(child.debug).toHaveBeenCalledWith(
+        'Outbound HTTP request',
+        expect.objectContaining({
+          url: 'https://fx.example.com/convert?amount=10&api_key=[REDACTED]',
+        }),
+      );
+      expect((fetch.mock.calls[0]![0] as Request).url).toContain('api_key=k-123');
+    });
+
+    it('logs failed responses at warn level with custom redaction', async () => {
+      const { logger, child } = createMockLogger();
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ error: 'nope', iban: 'DE89' }, 500));
+
+      await new FxRatesAdapter({ fetch, logger, redactKeys: ['iban'] })
+        .latestRate('EUR')
+        .catch(() => undefined);
+
+      expect(child.warn).toHaveBeenCalledWith(
+        'Outbound HTTP request failed',
+        expect.objectContaining({ status: 500, body: { error: 'nope', iban: '[REDACTED]' } }),
+      );
+    });
+  });
+});
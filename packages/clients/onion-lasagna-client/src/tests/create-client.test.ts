@@ -5,7 +5,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 import { createClient } from '../create-client';
-import { ClientError } from '../client-types';
+import { ClientError, isDeclaredError } from '../client-types';
 import { defineRoute, defineRouter } from '@cosmneo/onion-lasagna/http/route';
 import { zodSchema } from '@cosmneo/onion-lasagna-zod';
 
@@ -445,6 +445,57 @@ describe('createClient', () => {
         expect(clientError.message).toBe('Network failure');
       }
     });
+
+    it('keeps the original network error as cause', async () => {
+      const networkError = new TypeError('fetch failed');
+      const mockFetch = vi.fn().mockRejectedValue(networkError);
+
+      const client = createClient(
+        { list: listUsersRoute },
+        { baseUrl: 'http://localhost:3000', fetch: mockFetch },
+      );
+
+      const error = await client.list().catch((e: unknown) => e);
+
+      expect((error as ClientError).cause).toBe(networkError);
+    });
+
+    it('narrows errors declared in the route responses with isDeclaredError', async () => {
+      const createWithErrorsRoute = defineRoute({
+        method: 'POST',
+        path: '/users',
+        responses: {
+          201: { description: 'Created' },
+          409: { description: 'Conflict' },
+        },
+      });
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ message: 'Email taken', errorCode: 'EMAIL_TAKEN' }), {
+            status: 409,
+            statusText: 'Conflict',
+            headers: { 'Content-Type': 'application/json' },
+          }),
+        )
+        .mockResolvedValueOnce(new Response('', { status: 500, statusText: 'Server Error' }));
+
+      const client = createClient(
+        { create: createWithErrorsRoute },
+        { baseUrl: 'http://localhost:3000', fetch: mockFetch },
+      );
+
+      const declared = await client.create().catch((error: unknown) => error);
+      expect(isDeclaredError(declared, createWithErrorsRoute)).toBe(true);
+      if (isDeclaredError(declared, createWithErrorsRoute)) {
+        expect(declared.status).toBe(409);
+        expect(declared.body?.errorCode).toBe('EMAIL_TAKEN');
+      }
+
+      const undeclared = await client.create().catch((error: unknown) => error);
+      expect(undeclared).toBeInstanceOf(ClientError);
+      expect(isDeclaredError(undeclared, createWithErrorsRoute)).toBe(false);
+    });
   });
 
   describe('interceptors', () => {
@@ -1403,4 +1454,78 @@ describe('createClient', () => {
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
   });
+  describe('response validation', () => {
+    const getValidatedUserRoute = defineRoute({
+      method: 'GET',
+      path: '/users/:userId',
+      responses: {
+        200: { schema: zodSchema(z.object({ id: z.string(), name: z.string() })) },
+        202: { description: 'Accepted' },
+      },
+    });
+
+    function jsonResponse(body: unknown, status = 200): Response {
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    it('does not validate by default', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({ id: 1 }));
+
+      const client = createClient(
+        { get: getValidatedUserRoute },
+        { baseUrl: 'http://localhost:3000', fetch: mockFetch },
+      );
+
+      await expect(client.get({ pathParams: { userId: '1' } })).resolves.toEqual({ id: 1 });
+    });
+
+    it('returns bodies matching the schema of the status', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({ id: '1', name: 'Ada' }));
+
+      const client = createClient(
+        { get: getValidatedUserRoute },
+        { baseUrl: 'http://localhost:3000', fetch: mockFetch, validateResponses: true },
+      );
+
+      await expect(client.get({ pathParams: { userId: '1' } })).resolves.toEqual({
+        id: '1',
+        name: 'Ada',
+      });
+    });
+
+    it('throws an Invalid Response ClientError on mismatch', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({ id: 1 }));
+      const onError = vi.fn();
+
+      const client = createClient(
+        { get: getValidatedUserRoute },
+        { baseUrl: 'http://localhost:3000', fetch: mockFetch, validateResponses: true, onError },
+      );
+
+      const error = await client.get({ pathParams: { userId: '1' } }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ClientError);
+      expect((error as ClientError).status).toBe(200);
+      expect((error as ClientError).statusText).toBe('Invalid Response');
+      expect((error as ClientError).body).toEqual({ id: 1 });
+      expect((error as ClientError).message).toMatch(/^Response validation failed: id: /);
+      expect(onError).toHaveBeenCalledWith(error);
+    });
+
+    it('skips statuses without a schema', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({ queued: true }, 202));
+
+      const client = createClient(
+        { get: getValidatedUserRoute },
+        { baseUrl: 'http://localhost:3000', fetch: mockFetch, validateResponses: true },
+      );
+
+      await expect(client.get({ pathParams: { userId: '1' } })).resolves.toEqual({
+        queued: true,
+      });
+    });
+  });
 });
@@ -0,0 +1,64 @@
+/**
+ * Base shape of a bus message. Carries its result type at the type level only.
+ *
+ * @typeParam TKind - Message kind (`'command'` or `'query'`)
+ * @typeParam TResult - Output type of the message handler
+ */
+export interface Message<TKind extends string = string, TResult = unknown> {
+  /**
+   * Type-level information. Not present at runtime.
+   */
+  readonly _types: {
+    readonly kind: TKind;
+    readonly result: TResult;
+  };
+}
+
+/**
+ * Extracts the result type of a message.
+ *
+ * @example
+ * ```typescript
+ * class CreateUser extends Command<{ userId: string }> { ... }
+ * type Output = MessageResult<CreateUser>; // { userId: string }
+ * ```
+ */
+export type MessageResult<TMessage> =
+  TMessage extends Message<string, infer TResult> ? TResult : never;
+
+/**
+ * Constructor of a message class. Used as the registration key on a bus.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type MessageClass<TMessage> = new (...args: any[]) => TMessage;
+
+/**
+ * Handles one message type.
+ *
+ * Any `BaseInboundPort` whose input accepts the message qualifies, so
+ * existing use cases can be registered as-is.
+ */
+export interface MessageHandler<TInput, TOutput> {
+  execute(input: TInput): Promise<TOutput>;
+}
+
+/**
+ * Bus-level middleware, run around every dispatched message.
+ *
+ * Middleware receives the message and a `next` function that runs the rest
+ * of the chain and the handler. It can act before and after `next()`,
+ * replace the output, or reject the message by throwing.
+ *
+ * @example
+ * ```typescript
+ * const audit: BusMiddleware<Command> = async (command, next) => {
+ *   const output = await next();
+ *   await auditLog.record(command.constructor.name, command);
+ *   return output;
+ * };
+ * ```
+ */
+export type BusMiddleware<TMessage extends Message = Message> = (
+  message: TMessage,
+  next: () => Promise<unknown>,
+) => Promise<unknown>;
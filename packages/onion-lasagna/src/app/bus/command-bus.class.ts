@@ -0,0 +1,22 @@
+import type { Command } from './command.class';
+import { MessageBus } from './message-bus.class';
+
+/**
+ * In-process command bus.
+ *
+ * Maps each {@link Command} class to one handler and dispatches commands with
+ * their declared output type.
+ *
+ * @example
+ * ```typescript
+ * const commandBus = new CommandBus()
+ *   .use(loggingMiddleware)
+ *   .register(CreateUser, createUserUseCase)
+ *   .register(DeleteUser, deleteUserUseCase);
+ *
+ * const { userId } = await commandBus.execute(new CreateUser('ada@example.com', 'Ada'));
+ * ```
+ */
+export class CommandBus extends MessageBus<Command<unknown>> {
+  protected readonly kind = 'command';
+}
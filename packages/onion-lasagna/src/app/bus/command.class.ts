@@ -0,0 +1,31 @@
+import type { Message } from './bus.type';
+
+/**
+ * Base class for commands dispatched through a {@link CommandBus}.
+ *
+ * A command is an intent to change state. Its fields are the handler input,
+ * and `TResult` is the handler output, so `commandBus.execute(command)` is
+ * typed without a cast.
+ *
+ * @typeParam TResult - Output of the command handler (default: void)
+ *
+ * @example
+ * ```typescript
+ * class CreateUser extends Command<{ userId: string }> {
+ *   constructor(
+ *     readonly email: string,
+ *     readonly name: string,
+ *   ) {
+ *     super();
+ *   }
+ * }
+ *
+ * const { userId } = await commandBus.execute(new CreateUser('ada@example.com', 'Ada'));
+ * ```
+ */
+export abstract class Command<TResult = void> implements Message<'command', TResult> {
+  declare readonly _types: {
+    readonly kind: 'command';
+    readonly result: TResult;
+  };
+}
@@ -0,0 +1,6 @@
+export * from './bus.type';
+export * from './command-bus.class';
+export * from './command.class';
+export * from './message-bus.class';
+export * from './query-bus.class';
+export * from './query.class';
@@ -0,0 +1,132 @@
+import type {
+  BusMiddleware,
+  Message,
+  MessageClass,
+  MessageHandler,
+  MessageResult,
+} from './bus.type';
+import { MessageBusError } from '../exceptions/message-bus.error';
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+
+/**
+ * In-process message bus that maps message classes to handlers.
+ *
+ * Shared base of {@link CommandBus} and {@link QueryBus}. Each message class
+ * has exactly one handler. Middleware runs around every dispatch, the first
+ * registered outermost.
+ *
+ * Handlers are keyed by the message's class, so messages must be class
+ * instances: plain objects, even ones matching a schema, cannot be
+ * dispatched. Validate untrusted data before building the message, or
+ * declare an `inputSchema` on the handling use case.
+ *
+ * @typeParam TBase - Message type accepted by the bus
+ */
+export abstract class MessageBus<TBase extends Message> {
+  private readonly handlers = new Map<MessageClass<TBase>, MessageHandler<TBase, unknown>>();
+  private middleware: readonly BusMiddleware<TBase>[] = [];
+
+  /**
+   * Message kind used in error messages (e.g. `'command'`).
+   */
+  protected abstract readonly kind: string;
+
+  /**
+   * Registers the handler for a message class.
+   *
+   * @param type - Message class
+   * @param handler - Handler, typically a use case
+   * @returns The bus, for chaining
+   * @throws {MessageBusError} When a handler is already registered for the class
+   *   (code `HANDLER_ALREADY_REGISTERED`)
+   */
+  register<TMessage extends TBase>(
+    type: MessageClass<TMessage>,
+    handler: MessageHandler<NoInfer<TMessage>, MessageResult<NoInfer<TMessage>>>,
+  ): this {
+    if (this.handlers.has(type)) {
+      throw new MessageBusError({
+        message: `A handler is already registered for ${this.kind} "${type.name}".`,
+        code: ErrorCodes.App.HANDLER_ALREADY_REGISTERED,
+      });
+    }
+    this.handlers.set(type, handler as MessageHandler<TBase, unknown>);
+    return this;
+  }
+
+  /**
+   * Appends middleware that runs around every dispatched message.
+   *
+   * @param middleware - Middleware to append
+   * @returns The bus, for chaining
+   */
+  use(...middleware: BusMiddleware<TBase>[]): this {
+    this.middleware = [...this.middleware, ...middleware];
+    return this;
+  }
+
+  /**
+   * Checks whether a handler is registered for a message class.
+   *
+   * @param type - Message class
+   * @returns `true` if a handler is registered
+   */
+  handles(type: MessageClass<TBase>): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Dispatches a message to its handler through the middleware chain.
+   *
+   * @param message - Message instance
+   * @returns Promise resolving to the handler output
+   * @throws {MessageBusError} When no handler is registered for the message class
+   *   (code `HANDLER_NOT_REGISTERED`)
+   */
+  async execute<TMessage extends TBase>(message: TMessage): Promise<MessageResult<TMessage>> {
+    const type = message.constructor as MessageClass<TBase>;
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new MessageBusError({
+        message: `No handler registered for ${this.kind} "${type.name}".`,
+      });
+    }
+
+    const dispatch = (index: number): Promise<unknown> => {
+      const middleware = this.middleware[index];
+      if (!middleware) return handler.execute(message);
+      return middleware(message, () => dispatch(index + 1));
+    };
+    return dispatch(0) as Promise<MessageResult<TMessage>>;
+  }
+
+  /**
+   * Creates a use-case-shaped adapter that dispatches through the bus.
+   *
+   * Transports accept any object with `execute(input)`, so the adapter can
+   * be passed as `useCase` to HTTP, GraphQL, event or schedule handlers in
+   * place of a concrete use case.
+   *
+   * @param toMessage - Builds the message from the transport input
+   * @returns An object whose `execute()` dispatches the built message
+   *
+   * @example
+   * ```typescript
+   * serverRoutes(userRouter)
+   *   .handle('users.create', {
+   *     requestMapper: (req) => ({ email: req.body.email, name: req.body.name }),
+   *     useCase: commandBus.route((input: { email: string; name: string }) =>
+   *       new CreateUser(input.email, input.name),
+   *     ),
+   *     responseMapper: (output) => ({ status: 201, body: output }),
+   *   })
+   * ```
+   */
+  route<TInput, TMessage extends TBase>(
+    toMessage: (input: TInput) => TMessage,
+  ): MessageHandler<TInput, MessageResult<TMessage>> {
+    return {
+      execute: (input) => this.execute(toMessage(input)),
+    };
+  }
+}
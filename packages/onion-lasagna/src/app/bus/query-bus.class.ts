@@ -0,0 +1,19 @@
+import type { Query } from './query.class';
+import { MessageBus } from './message-bus.class';
+
+/**
+ * In-process query bus.
+ *
+ * Maps each {@link Query} class to one handler and dispatches queries with
+ * their declared output type.
+ *
+ * @example
+ * ```typescript
+ * const queryBus = new QueryBus().register(GetUser, getUserUseCase);
+ *
+ * const user = await queryBus.execute(new GetUser('user-1'));
+ * ```
+ */
+export class QueryBus extends MessageBus<Query<unknown>> {
+  protected readonly kind = 'query';
+}
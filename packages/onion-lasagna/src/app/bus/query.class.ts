@@ -0,0 +1,28 @@
+import type { Message } from './bus.type';
+
+/**
+ * Base class for queries dispatched through a {@link QueryBus}.
+ *
+ * A query reads state without changing it. Its fields are the handler input,
+ * and `TResult` is the handler output, so `queryBus.execute(query)` is typed
+ * without a cast.
+ *
+ * @typeParam TResult - Output of the query handler
+ *
+ * @example
+ * ```typescript
+ * class GetUser extends Query<UserDto> {
+ *   constructor(readonly userId: string) {
+ *     super();
+ *   }
+ * }
+ *
+ * const user = await queryBus.execute(new GetUser('user-1'));
+ * ```
+ */
+export abstract class Query<TResult = unknown> implements Message<'query', TResult> {
+  declare readonly _types: {
+    readonly kind: 'query';
+    readonly result: TResult;
+  };
+}
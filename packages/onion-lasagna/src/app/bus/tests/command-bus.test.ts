@@ -0,0 +1,159 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { CommandBus } from '../command-bus.class';
+import { Command } from '../command.class';
+import { Query } from '../query.class';
+import type { MessageResult } from '../bus.type';
+import { BaseInboundAdapter } from '../../classes/base-inbound-adapter.class';
+import { MessageBusError } from '../../exceptions/message-bus.error';
+
+class CreateUser extends Command<{ userId: string }> {
+  constructor(
+    readonly email: string,
+    readonly name: string,
+  ) {
+    super();
+  }
+}
+
+class DeleteUser extends Command {
+  constructor(readonly userId: string) {
+    super();
+  }
+}
+
+class GetUser extends Query<{ name: string }> {
+  constructor(readonly userId: string) {
+    super();
+  }
+}
+
+class CreateUserUseCase extends BaseInboundAdapter<
+  { email: string; name: string },
+  { userId: string }
+> {
+  protected async handle(input: { email: string; name: string }): Promise<{ userId: string }> {
+    return { userId: `user-${input.name.toLowerCase()}` };
+  }
+}
+
+describe('CommandBus', () => {
+  it('should dispatch a command to its registered use case', async () => {
+    const bus = new CommandBus().register(CreateUser, new CreateUserUseCase());
+
+    const output = await bus.execute(new CreateUser('ada@example.com', 'Ada'));
+
+    expect(output).toEqual({ userId: 'user-ada' });
+  });
+
+  it('should infer the output type from the command', () => {
+    const bus = new CommandBus()
+      .register(CreateUser, new CreateUserUseCase())
+      .register(DeleteUser, { execute: async () => undefined });
+
+    expectTypeOf<MessageResult<CreateUser>>().toEqualTypeOf<{ userId: string }>();
+    expectTypeOf(bus.execute(new CreateUser('a', 'b'))).resolves.toEqualTypeOf<{
+      userId: string;
+    }>();
+    expectTypeOf(bus.execute(new DeleteUser('user-1'))).resolves.toBeVoid();
+  });
+
+  it('should pass the command instance to the handler', async () => {
+    const handler = { execute: vi.fn(async () => undefined) };
+    const bus = new CommandBus().register(DeleteUser, handler);
+    const command = new DeleteUser('user-1');
+
+    await bus.execute(command);
+
+    expect(handler.execute).toHaveBeenCalledWith(command);
+  });
+
+  it('should throw when no handler is registered', async () => {
+    const bus = new CommandBus();
+
+    const error = await bus.execute(new DeleteUser('user-1')).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MessageBusError);
+    expect(error).toMatchObject({
+      code: 'HANDLER_NOT_REGISTERED',
+      message: 'No handler registered for command "DeleteUser".',
+    });
+  });
+
+  it('should reject a second handler for the same command', () => {
+    const bus = new CommandBus().register(CreateUser, new CreateUserUseCase());
+
+    expect(() => bus.register(CreateUser, new CreateUserUseCase())).toThrow(
+      expect.objectContaining({
+        code: 'HANDLER_ALREADY_REGISTERED',
+        message: 'A handler is already registered for command "CreateUser".',
+      }),
+    );
+  });
+
+  it('should report whether a command is handled', () => {
+    const bus = new CommandBus().register(CreateUser, new CreateUserUseCase());
+
+    expect(bus.handles(CreateUser)).toBe(true);
+    expect(bus.handles(DeleteUser)).toBe(false);
+  });
+
+  it('should not accept queries', () => {
+    const bus = new CommandBus();
+
+    // @ts-expect-error - queries are dispatched through the QueryBus
+    expect(() => bus.handles(GetUser)).not.toThrow();
+  });
+
+  describe('middleware', () => {
+    it('should run middleware around the handler in registration order', async () => {
+      const calls: string[] = [];
+      const bus = new CommandBus()
+        .use(async (_command, next) => {
+          calls.push('outer:before');
+          const output = await next();
+          calls.push('outer:after');
+          return output;
+        })
+        .use(async (command, next) => {
+          calls.push(`inner:${command.constructor.name}`);
+          return next();
+        })
+        .register(DeleteUser, {
+          execute: async () => {
+            calls.push('handler');
+          },
+        });
+
+      await bus.execute(new DeleteUser('user-1'));
+
+      expect(calls).toEqual(['outer:before', 'inner:DeleteUser', 'handler', 'outer:after']);
+    });
+
+    it('should let middleware reject a command before the handler runs', async () => {
+      const handler = { execute: vi.fn(async () => undefined) };
+      const bus = new CommandBus()
+        .use(async () => {
+          throw new Error('Read-only mode');
+        })
+        .register(DeleteUser, handler);
+
+      await expect(bus.execute(new DeleteUser('user-1'))).rejects.toThrow('Read-only mode');
+      expect(handler.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('route', () => {
+    it('should build a use-case-shaped adapter that dispatches through the bus', async () => {
+      const bus = new CommandBus().register(CreateUser, new CreateUserUseCase());
+
+      const useCase = bus.route(
+        (input: { email: string; name: string }) => new CreateUser(input.email, input.name),
+      );
+      const output = await useCase.execute({ email: 'grace@example.com', name: 'Grace' });
+
+      expect(output).toEqual({ userId: 'user-grace' });
+      expectTypeOf(useCase.execute).parameter(0).toEqualTypeOf<{ email: string; name: string }>();
+      expectTypeOf(useCase.execute).returns.resolves.toEqualTypeOf<{ userId: string }>();
+    });
+  });
+});
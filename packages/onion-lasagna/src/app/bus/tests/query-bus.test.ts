@@ -0,0 +1,51 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { QueryBus } from '../query-bus.class';
+import { Query } from '../query.class';
+import { Command } from '../command.class';
+
+class GetUser extends Query<{ id: string; name: string }> {
+  constructor(readonly userId: string) {
+    super();
+  }
+}
+
+class CreateUser extends Command<{ userId: string }> {
+  constructor(readonly email: string) {
+    super();
+  }
+}
+
+describe('QueryBus', () => {
+  it('should dispatch a query to its handler with the declared output type', async () => {
+    const bus = new QueryBus().register(GetUser, {
+      execute: async (query) => ({ id: query.userId, name: 'Ada' }),
+    });
+
+    const user = await bus.execute(new GetUser('user-1'));
+
+    expect(user).toEqual({ id: 'user-1', name: 'Ada' });
+    expectTypeOf(user).toEqualTypeOf<{ id: string; name: string }>();
+  });
+
+  it('should throw when no handler is registered', async () => {
+    await expect(new QueryBus().execute(new GetUser('user-1'))).rejects.toThrow(
+      'No handler registered for query "GetUser".',
+    );
+  });
+
+  it('should not accept commands', () => {
+    const bus = new QueryBus();
+
+    // @ts-expect-error - commands are dispatched through the CommandBus
+    expect(() => bus.handles(CreateUser)).not.toThrow();
+  });
+
+  it('should reject handlers whose output does not match the query', () => {
+    const bus = new QueryBus();
+
+    expect(() =>
+      // @ts-expect-error - GetUser declares { id, name } as its output
+      bus.register(GetUser, { execute: async () => ({ id: 'user-1' }) }),
+    ).not.toThrow();
+  });
+});
@@ -4,15 +4,29 @@ import { wrapErrorUnlessAsync } from '../../global/utils/wrap-error.util';
 import { UseCaseError } from '../exceptions/use-case.error';
 import { DomainError } from '../../domain/exceptions/domain.error';
 import { InfraError } from '../../infra/exceptions/infra.error';
+import { OutputSchemaError } from '../../global/exceptions/output-schema.error';
+import type { ResultValue } from '../../global/interfaces/types/result.type';
+import { isResult, ok } from '../../global/utils/result.util';
+import type { SchemaAdapter } from '../../global/interfaces/types/schema-adapter.type';
+import type { ValidationIssue } from '../../global/interfaces/types/validation.type';
+import type { PolicyActor, PolicyRequirement } from './policy.class';
+import type {
+  UseCaseInterceptor,
+  UseCaseInvocation,
+} from '../interceptors/use-case-interceptor.type';
 
 /**
  * Abstract base class for use case handlers (inbound adapters).
  *
  * Implements the {@link BaseInboundPort} interface and provides:
  * - Two-phase execution: `authorize()` runs before `handle()`
+ * - Optional `inputSchema`/`outputSchema` validation, whoever the caller is
+ * - Declarative policy checks through `requiredPolicy`, before `authorize()`
  * - Typed context passing from authorization to business logic
  * - Automatic error wrapping for unexpected exceptions
  * - Pass-through for known error types (UseCaseError, DomainError, InfraError)
+ * - An interceptor chain around `handle()` for cross-cutting concerns
+ *   (logging, transactions, metrics, caching)
  *
  * Subclasses can override `authorize()` to add authorization checks that run
  * before `handle()`. The authorization phase can return a typed context that
@@ -98,12 +112,110 @@ import { InfraError } from '../../infra/exceptions/infra.error';
  *   }
  * }
  * ```
+ *
+ * @example Declared policy
+ * ```typescript
+ * class DeletePostUseCase extends BaseInboundAdapter<DeletePostInput, void> {
+ *   protected override readonly requiredPolicy = {
+ *     policy: postPolicy,
+ *     action: 'posts:delete',
+ *     actor: (input: DeletePostInput) => input.actor,
+ *   };
+ *   // ...
+ * }
+ * ```
+ *
+ * @example Declared input and output schemas
+ * ```typescript
+ * export const createUserInputSchema = zodSchema(
+ *   z.object({ email: z.string().email(), name: z.string().min(1) }),
+ * );
+ *
+ * class CreateUserUseCase extends BaseInboundAdapter<CreateUserInput, CreateUserOutput> {
+ *   protected override readonly inputSchema = createUserInputSchema;
+ *   protected override readonly outputSchema = zodSchema(z.object({ userId: z.string() }));
+ *   // ...
+ * }
+ * ```
+ *
+ * @example Interceptors registered globally and per use case
+ * ```typescript
+ * // Once at bootstrap — runs around every use case
+ * BaseInboundAdapter.useGlobalInterceptors(createLoggingInterceptor(logger));
+ *
+ * class PlaceOrderUseCase extends BaseInboundAdapter<PlaceOrderInput, PlaceOrderOutput> {
+ *   protected override readonly interceptors: readonly UseCaseInterceptor[];
+ *
+ *   constructor(unitOfWork: UnitOfWorkPort, private readonly orderRepo: OrderRepository) {
+ *     super();
+ *     this.interceptors = [createTransactionInterceptor(unitOfWork)];
+ *   }
+ *   // ...
+ * }
+ * ```
  */
 export abstract class BaseInboundAdapter<
   TInput,
   TOutput,
   TAuthContext = void,
 > implements BaseInboundPort<TInput, TOutput> {
+  private static globalInterceptors: readonly UseCaseInterceptor[] = [];
+
+  /**
+   * Registers interceptors that run around every use case, outermost first.
+   * Global interceptors wrap the per-adapter {@link interceptors}.
+   *
+   * @param interceptors - Interceptors to append to the global chain
+   */
+  public static useGlobalInterceptors(...interceptors: UseCaseInterceptor[]): void {
+    BaseInboundAdapter.globalInterceptors = [
+      ...BaseInboundAdapter.globalInterceptors,
+      ...interceptors,
+    ];
+  }
+
+  /**
+   * Removes all global interceptors. Mainly useful in tests.
+   */
+  public static clearGlobalInterceptors(): void {
+    BaseInboundAdapter.globalInterceptors = [];
+  }
+
+  /**
+   * Interceptors for this use case, outermost first.
+   * They run inside the global interceptors, after `authorize()`.
+   */
+  protected readonly interceptors: readonly UseCaseInterceptor[] = [];
+
+  /**
+   * Schema the input is validated against before anything else runs,
+   * including interceptors. The validated (possibly transformed) data is
+   * what the rest of the execution receives.
+   *
+   * A failure throws an {@link ObjectValidationError} listing every issue.
+   */
+  protected readonly inputSchema?: SchemaAdapter<TInput, unknown>;
+
+  /**
+   * Schema the output of `handle()` is validated against. For result-mode
+   * use cases, it validates the value of `ok(...)` results; `err(...)`
+   * results are not checked.
+   *
+   * The validated (possibly transformed) data is what callers receive.
+   * A failure throws an {@link OutputSchemaError}, which transports
+   * report as a masked internal error rather than a client error.
+   */
+  protected readonly outputSchema?: SchemaAdapter<ResultValue<TOutput>, unknown>;
+
+  /**
+   * Policy checked before `authorize()`. A denial throws a `ForbiddenError`
+   * whose `code` is the denial reason.
+   *
+   * Checks that need a loaded resource belong in `authorize()`, using
+   * `policy.assert(actor, action, resource)` directly.
+   */
+  protected readonly requiredPolicy?: PolicyRequirement<TInput, PolicyActor, unknown>;
+
   /**
    * Authorization check that runs before handle().
    *
@@ -146,15 +258,23 @@ export abstract class BaseInboundAdapter<
    * Executes the use case with authorization and error boundary protection.
    *
    * Execution flow:
-   * 1. `authorize(input)` - Runs authorization checks, returns context
-   * 2. `handle(input, authContext)` - Runs business logic with the context
+   * 1. `inputSchema` - Validates the input, if declared
+   * 2. `requiredPolicy` - Checks the declared policy, if any
+   * 3. `authorize(input)` - Runs authorization checks, returns context
+   * 4. `handle(input, authContext)` - Runs business logic with the context
+   * 5. `outputSchema` - Validates the output, if declared
+   *
+   * Steps 4 and 5 run inside the global and per-adapter interceptor chain, so
+   * an interceptor that skips the use case (e.g. a cache hit) never skips the
+   * policy or authorization checks.
    *
    * Known error types are re-thrown as-is to preserve error semantics.
    * Unknown errors are wrapped in a UseCaseError to maintain error hierarchy.
    *
    * @param input - Input data
    * @returns Promise resolving to the output
-   * @throws {ObjectValidationError} For validation failures (propagated to controller)
+   * @throws {ObjectValidationError} For input validation failures (propagated to controller)
+   * @throws {OutputSchemaError} When the output breaks the declared `outputSchema`
    * @throws {UseCaseError} For use case failures or wrapped unknown errors
    * @throws {ForbiddenError} When authorization is denied
    * @throws {NotFoundError} When a required resource is not found
@@ -162,14 +282,87 @@ export abstract class BaseInboundAdapter<
    * @throws {InfraError} For infrastructure failures
    */
   public async execute(...args: TInput extends void ? [] : [input: TInput]): Promise<TOutput> {
-    const input = args[0] as TInput;
     return wrapErrorUnlessAsync(
       async () => {
+        const input = this.inputSchema
+          ? validateInput(this.inputSchema, args[0])
+          : (args[0] as TInput);
+        if (this.requiredPolicy) {
+          const { policy, action, actor, resource } = this.requiredPolicy;
+          policy.assert(actor(input), action, resource?.(input));
+        }
         const authContext = await this.authorize(input);
-        return this.handle(input, authContext);
+        return runInterceptors(
+          [...BaseInboundAdapter.globalInterceptors, ...this.interceptors],
+          { useCase: this.constructor.name, input },
+          async () => {
+            const output = await this.handle(input, authContext);
+            return this.outputSchema ? validateOutput(this.outputSchema, output) : output;
+          },
+        ) as Promise<TOutput>;
       },
       (cause) => new UseCaseError({ message: 'Unexpected use case handler error', cause }),
-      [ObjectValidationError, UseCaseError, DomainError, InfraError],
+      [ObjectValidationError, OutputSchemaError, UseCaseError, DomainError, InfraError],
     );
   }
 }
+
+/**
+ * Runs `handler` wrapped by `interceptors`, the first one outermost.
+ */
+function runInterceptors(
+  interceptors: readonly UseCaseInterceptor[],
+  invocation: UseCaseInvocation,
+  handler: () => Promise<unknown>,
+): Promise<unknown> {
+  const dispatch = (index: number): Promise<unknown> => {
+    const interceptor = interceptors[index];
+    if (!interceptor) return handler();
+    return interceptor(invocation, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
+
+/**
+ * Validates use case input, returning the validated data.
+ */
+function validateInput<T>(schema: SchemaAdapter<T, unknown>, input: unknown): T {
+  const result = schema.validate(input);
+  if (result.success) return result.data;
+  throw new ObjectValidationError({
+    message: 'Use case input validation failed',
+    validationErrors: toValidationErrors(result.issues),
+  });
+}
+
+/**
+ * Validates use case output, or the value of an `ok(...)` result,
+ * returning the validated data.
+ */
+function validateOutput(schema: SchemaAdapter<unknown, unknown>, output: unknown): unknown {
+  if (isResult(output)) {
+    if (!output.ok) return output;
+    const result = schema.validate(output.value);
+    if (result.success) return ok(result.data);
+    throw outputValidationError(result.issues);
+  }
+  const result = schema.validate(output);
+  if (result.success) return result.data;
+  throw outputValidationError(result.issues);
+}
+
+function outputValidationError(issues: readonly ValidationIssue[]): OutputSchemaError {
+  const validationErrors = toValidationErrors(issues, ['output']);
+  const details = validationErrors.map((e) => `${e.field}: ${e.message}`).join('; ');
+  return new OutputSchemaError({
+    message: `Use case output validation failed: ${details}`,
+    validationErrors,
+  });
+}
+
+function toValidationErrors(issues: readonly ValidationIssue[], prefix: readonly string[] = []) {
+  return issues.map((issue) => ({
+    field: [...prefix, ...issue.path].join('.'),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,85 @@
+import type { CodedError } from '../../global/exceptions/coded-error.error';
+import type { Result } from '../../global/interfaces/types/result.type';
+import { err, type ErrorClass } from '../../global/utils/result.util';
+import { BaseInboundAdapter } from './base-inbound-adapter.class';
+
+/**
+ * Base class for use cases that return their expected failures as a typed
+ * {@link Result} instead of throwing them (opt-in result mode).
+ *
+ * `handle()` returns `ok(value)` or `err(error)`, where the error is one of
+ * the declared `TError` classes. The HTTP, GraphQL, event and schedule
+ * pipelines unwrap the result: the value goes to the response mapper and the
+ * error is mapped by the transport's error mapping, so neither the use case
+ * nor the mappers need try/catch.
+ *
+ * Errors listed in `declaredErrors` that are *thrown* (e.g. a `ForbiddenError`
+ * from `authorize()`) are converted to `err(...)` as well. Anything else keeps
+ * the {@link BaseInboundAdapter} behavior: known error types propagate and
+ * unknown errors are wrapped in a `UseCaseError`.
+ *
+ * @typeParam TInput - Input type (plain object)
+ * @typeParam TOutput - Success value type (plain object)
+ * @typeParam TError - Union of the declared error types
+ * @typeParam TAuthContext - Authorization context type passed from authorize() to handle() (default: void)
+ *
+ * @example
+ * ```typescript
+ * export const createUserErrors = [EmailTakenError, ForbiddenError] as const;
+ *
+ * class CreateUserUseCase extends BaseResultInboundAdapter<
+ *   CreateUserInput,
+ *   CreateUserOutput,
+ *   ErrorsOf<typeof createUserErrors>
+ * > {
+ *   protected override readonly declaredErrors = createUserErrors;
+ *
+ *   protected async handle(input: CreateUserInput) {
+ *     if (await this.users.existsByEmail(input.email)) {
+ *       return err(new EmailTakenError({ message: 'Email already registered' }));
+ *     }
+ *     const user = await this.users.create(input);
+ *     return ok({ userId: user.id.value });
+ *   }
+ * }
+ * ```
+ */
+export abstract class BaseResultInboundAdapter<
+  TInput,
+  TOutput,
+  TError extends CodedError = never,
+  TAuthContext = void,
+> extends BaseInboundAdapter<TInput, Result<TOutput, TError>, TAuthContext> {
+  /**
+   * Error classes this use case may fail with.
+   *
+   * Thrown instances of these classes are returned as `err(...)`. The same
+   * list can be passed to `errorResponses()` to document the route.
+   */
+  protected readonly declaredErrors: readonly ErrorClass<TError>[] = [];
+
+  /**
+   * Executes the use case and returns its result.
+   *
+   * @param input - Input data
+   * @returns Promise resolving to `ok(output)` or `err(declaredError)`
+   * @throws {ObjectValidationError} For validation failures that are not declared
+   * @throws {UseCaseError} For undeclared use case failures or wrapped unknown errors
+   * @throws {DomainError} For undeclared domain invariant violations
+   * @throws {InfraError} For infrastructure failures
+   */
+  public override async execute(
+    ...args: Parameters<
+      BaseInboundAdapter<TInput, Result<TOutput, TError>, TAuthContext>['execute']
+    >
+  ): Promise<Result<TOutput, TError>> {
+    try {
+      return await super.execute(...args);
+    } catch (error) {
+      if (this.declaredErrors.some((Type) => error instanceof Type)) {
+        return err(error as TError);
+      }
+      throw error;
+    }
+  }
+}
@@ -1 +1,4 @@
 export * from './base-inbound-adapter.class';
+export * from './base-result-inbound-adapter.class';
+export * from './policy.class';
+export * from './transactional-outbox.class';
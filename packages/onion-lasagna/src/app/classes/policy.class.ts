@@ -0,0 +1,202 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { ForbiddenError } from '../exceptions/forbidden.error';
+
+/**
+ * Minimal shape of the party performing an action.
+ * Applications extend it with their own attributes (id, tenant, plan, ...).
+ */
+export interface PolicyActor {
+  /** Role names, expanded to permissions by the policy. */
+  readonly roles?: readonly string[];
+  /** Permissions granted directly, in addition to those from roles. */
+  readonly permissions?: readonly string[];
+}
+
+/**
+ * Attribute-based rule that must hold for an action to be allowed.
+ *
+ * @typeParam TActor - Actor type
+ * @typeParam TResource - Resource type
+ */
+export interface PolicyRule<TActor extends PolicyActor, TResource> {
+  /** Action the rule applies to. Supports `resource:*` and `*` wildcards. */
+  readonly action: string;
+  /**
+   * Condition over the actor and the resource (if one was given).
+   *
+   * Declared as a method so a policy over an application actor can be used
+   * where a `Policy<PolicyActor, unknown>` is expected.
+   */
+  when(actor: TActor, resource: TResource | undefined): boolean;
+  /** Machine-readable denial reason (default: `POLICY_CONDITION_FAILED`). */
+  readonly reason?: string;
+}
+
+/**
+ * Declaration of an authorization policy.
+ *
+ * @typeParam TActor - Actor type
+ * @typeParam TResource - Resource type
+ */
+export interface PolicyDefinition<TActor extends PolicyActor, TResource> {
+  /** Permissions granted by each role. Supports `resource:*` and `*` wildcards. */
+  readonly roles?: Readonly<Record<string, readonly string[]>>;
+  /** Attribute-based rules checked after the permission check passes. */
+  readonly rules?: readonly PolicyRule<TActor, TResource>[];
+}
+
+/**
+ * Outcome of evaluating a policy.
+ */
+export interface PolicyDecision {
+  readonly allowed: boolean;
+  /** Machine-readable reason, present when the action is denied. */
+  readonly reason?: string;
+}
+
+/**
+ * Policy a use case declares through `BaseInboundAdapter.requiredPolicy`.
+ *
+ * @typeParam TInput - Use case input type
+ * @typeParam TActor - Actor type
+ * @typeParam TResource - Resource type
+ */
+export interface PolicyRequirement<
+  TInput,
+  TActor extends PolicyActor = PolicyActor,
+  TResource = unknown,
+> {
+  readonly policy: Policy<TActor, TResource>;
+  /** Action the use case performs (e.g. `'posts:update'`). */
+  readonly action: string;
+  /** Extracts the actor from the use case input. */
+  readonly actor: (input: TInput) => TActor;
+  /** Extracts the resource from the use case input, for attribute-based rules. */
+  readonly resource?: (input: TInput) => TResource;
+}
+
+/**
+ * Declarative authorization policy combining roles and attribute-based rules.
+ *
+ * An action is allowed when the actor holds a matching permission (directly
+ * or through a role) and every rule for the action holds. Denials carry a
+ * machine-readable reason: `MISSING_PERMISSION`, `POLICY_CONDITION_FAILED`,
+ * or the rule's own `reason`. {@link Policy.assert} raises them as a
+ * {@link ForbiddenError} whose `code` is the reason.
+ *
+ * @typeParam TActor - Actor type
+ * @typeParam TResource - Resource type
+ *
+ * @example
+ * ```typescript
+ * const postPolicy = new Policy<AppActor, Post>({
+ *   roles: {
+ *     admin: ['*'],
+ *     editor: ['posts:*'],
+ *     author: ['posts:read', 'posts:update'],
+ *   },
+ *   rules: [
+ *     {
+ *       action: 'posts:update',
+ *       when: (actor, post) => actor.roles.includes('editor') || post?.authorId === actor.id,
+ *       reason: 'NOT_POST_AUTHOR',
+ *     },
+ *   ],
+ * });
+ *
+ * postPolicy.can(actor, 'posts:update', post); // true for the author
+ * postPolicy.assert(actor, 'posts:delete'); // throws ForbiddenError (MISSING_PERMISSION)
+ * ```
+ */
+export class Policy<TActor extends PolicyActor = PolicyActor, TResource = unknown> {
+  private readonly roles: Readonly<Record<string, readonly string[]>>;
+  private readonly rules: readonly PolicyRule<TActor, TResource>[];
+
+  constructor(definition: PolicyDefinition<TActor, TResource>) {
+    this.roles = definition.roles ?? {};
+    this.rules = definition.rules ?? [];
+  }
+
+  /**
+   * Returns every permission the actor holds, directly or through roles.
+   *
+   * @param actor - The actor
+   * @returns Granted permissions (may contain wildcards)
+   */
+  permissionsOf(actor: TActor): ReadonlySet<string> {
+    const granted = new Set(actor.permissions ?? []);
+    for (const role of actor.roles ?? []) {
+      // Own roles only: a role named after an Object.prototype member grants nothing
+      if (!Object.hasOwn(this.roles, role)) continue;
+      for (const permission of this.roles[role] ?? []) granted.add(permission);
+    }
+    return granted;
+  }
+
+  /**
+   * Evaluates whether the actor may perform the action.
+   *
+   * @param actor - The actor
+   * @param action - The action (e.g. `'posts:update'`)
+   * @param resource - The resource, for attribute-based rules
+   * @returns The decision and, when denied, the reason
+   */
+  evaluate(actor: TActor, action: string, resource?: TResource): PolicyDecision {
+    const granted = [...this.permissionsOf(actor)].some((permission) =>
+      matchesAction(permission, action),
+    );
+    if (!granted) {
+      return { allowed: false, reason: ErrorCodes.App.MISSING_PERMISSION };
+    }
+
+    for (const rule of this.rules) {
+      if (matchesAction(rule.action, action) && !rule.when(actor, resource)) {
+        return { allowed: false, reason: rule.reason ?? ErrorCodes.App.POLICY_CONDITION_FAILED };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Checks whether the actor may perform the action.
+   *
+   * @param actor - The actor
+   * @param action - The action
+   * @param resource - The resource, for attribute-based rules
+   * @returns `true` if allowed
+   */
+  can(actor: TActor, action: string, resource?: TResource): boolean {
+    return this.evaluate(actor, action, resource).allowed;
+  }
+
+  /**
+   * Asserts that the actor may perform the action.
+   *
+   * @param actor - The actor
+   * @param action - The action
+   * @param resource - The resource, for attribute-based rules
+   * @throws {ForbiddenError} When denied, with the denial reason as `code`
+   */
+  assert(actor: TActor, action: string, resource?: TResource): void {
+    const decision = this.evaluate(actor, action, resource);
+    if (!decision.allowed) {
+      throw new ForbiddenError({
+        message:
+          decision.reason === ErrorCodes.App.MISSING_PERMISSION
+            ? `Missing permission "${action}"`
+            : `Not allowed to perform "${action}"`,
+        code: decision.reason,
+      });
+    }
+  }
+}
+
+/**
+ * Matches a permission or rule pattern against an action.
+ * `*` matches everything; `posts:*` matches every `posts:` action.
+ */
+function matchesAction(pattern: string, action: string): boolean {
+  if (pattern === '*' || pattern === action) return true;
+  return pattern.endsWith(':*') && action.startsWith(pattern.slice(0, -1));
+}
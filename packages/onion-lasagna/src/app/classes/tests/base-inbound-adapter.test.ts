@@ -1,12 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
 import { BaseInboundAdapter } from '../base-inbound-adapter.class';
 import { UseCaseError } from '../../exceptions/use-case.error';
 import { DomainError } from '../../../domain/exceptions/domain.error';
 import { InfraError } from '../../../infra/exceptions/infra.error';
 import { ObjectValidationError } from '../../../global/exceptions/object-validation.error';
+import { OutputSchemaError } from '../../../global/exceptions/output-schema.error';
 import { ForbiddenError } from '../../exceptions/forbidden.error';
 import { NotFoundError } from '../../exceptions/not-found.error';
 import { UnauthorizedError } from '../../exceptions/unauthorized.error';
+import type { UseCaseInterceptor } from '../../interceptors/use-case-interceptor.type';
+import { Policy } from '../policy.class';
+import { err, ok } from '../../../global/utils/result.util';
+import type { Result } from '../../../global/interfaces/types/result.type';
+import { zodSchema } from '../../../presentation/http/__test-utils__/zod-schema';
 
 // Plain types for input/output
 interface InputData {
@@ -536,4 +543,298 @@ describe('BaseInboundAdapter', () => {
       });
     });
   });
+
+  describe('interceptors', () => {
+    afterEach(() => {
+      BaseInboundAdapter.clearGlobalInterceptors();
+    });
+
+    const tracking =
+      (name: string, calls: string[]): UseCaseInterceptor =>
+      async (_invocation, next) => {
+        calls.push(`${name}:before`);
+        const output = await next();
+        calls.push(`${name}:after`);
+        return output;
+      };
+
+    class InterceptedUseCase extends BaseInboundAdapter<{ value: number }, { doubled: number }> {
+      protected override readonly interceptors: readonly UseCaseInterceptor[];
+
+      constructor(
+        interceptors: UseCaseInterceptor[],
+        private readonly calls: string[] = [],
+      ) {
+        super();
+        this.interceptors = interceptors;
+      }
+
+      protected override async authorize(): Promise<void> {
+        this.calls.push('authorize');
+      }
+
+      protected async handle(input: { value: number }): Promise<{ doubled: number }> {
+        this.calls.push('handle');
+        return { doubled: input.value * 2 };
+      }
+    }
+
+    it('should run global interceptors outside per-adapter interceptors', async () => {
+      const calls: string[] = [];
+      BaseInboundAdapter.useGlobalInterceptors(tracking('global1', calls));
+      BaseInboundAdapter.useGlobalInterceptors(tracking('global2', calls));
+      const useCase = new InterceptedUseCase([tracking('local', calls)], calls);
+
+      const result = await useCase.execute({ value: 21 });
+
+      expect(result).toEqual({ doubled: 42 });
+      expect(calls).toEqual([
+        'authorize',
+        'global1:before',
+        'global2:before',
+        'local:before',
+        'handle',
+        'local:after',
+        'global2:after',
+        'global1:after',
+      ]);
+    });
+
+    it('should pass the use case name and input to interceptors', async () => {
+      const invocations: unknown[] = [];
+      const useCase = new InterceptedUseCase([
+        async (invocation, next) => {
+          invocations.push(invocation);
+          return next();
+        },
+      ]);
+
+      await useCase.execute({ value: 1 });
+
+      expect(invocations).toEqual([{ useCase: 'InterceptedUseCase', input: { value: 1 } }]);
+    });
+
+    it('should allow an interceptor to short-circuit handle() but not authorize()', async () => {
+      const calls: string[] = [];
+      const useCase = new InterceptedUseCase([async () => ({ doubled: 0 })], calls);
+
+      const result = await useCase.execute({ value: 5 });
+
+      expect(result).toEqual({ doubled: 0 });
+      expect(calls).toEqual(['authorize']);
+    });
+
+    it('should expose raw errors to interceptors and wrap them afterwards', async () => {
+      const seen: unknown[] = [];
+      const useCase = new InterceptedUseCase([
+        async (_invocation, next) => {
+          try {
+            return await next();
+          } catch (error) {
+            seen.push(error);
+            throw error;
+          }
+        },
+        async () => {
+          throw new Error('boom');
+        },
+      ]);
+
+      await expect(useCase.execute({ value: 1 })).rejects.toThrow(UseCaseError);
+      expect(seen[0]).toBeInstanceOf(Error);
+      expect(seen[0]).not.toBeInstanceOf(UseCaseError);
+    });
+
+    it('should stop running global interceptors once cleared', async () => {
+      const calls: string[] = [];
+      BaseInboundAdapter.useGlobalInterceptors(tracking('global', calls));
+      BaseInboundAdapter.clearGlobalInterceptors();
+
+      await new InterceptedUseCase([], calls).execute({ value: 1 });
+
+      expect(calls).toEqual(['authorize', 'handle']);
+    });
+  });
+
+  describe('requiredPolicy', () => {
+    interface Actor {
+      id: string;
+      roles: string[];
+    }
+
+    interface ArchiveProjectInput {
+      actor: Actor;
+      project: { ownerId: string };
+    }
+
+    const projectPolicy = new Policy<Actor, { ownerId: string }>({
+      roles: { member: ['projects:archive'] },
+      rules: [
+        {
+          action: 'projects:archive',
+          when: (actor, project) => project?.ownerId === actor.id,
+          reason: 'NOT_PROJECT_OWNER',
+        },
+      ],
+    });
+
+    class ArchiveProjectUseCase extends BaseInboundAdapter<
+      ArchiveProjectInput,
+      { archived: true }
+    > {
+      authorized = false;
+
+      protected override readonly requiredPolicy = {
+        policy: projectPolicy,
+        action: 'projects:archive',
+        actor: (input: ArchiveProjectInput) => input.actor,
+        resource: (input: ArchiveProjectInput) => input.project,
+      };
+
+      protected override async authorize(): Promise<void> {
+        this.authorized = true;
+      }
+
+      protected async handle(): Promise<{ archived: true }> {
+        return { archived: true };
+      }
+    }
+
+    it('should run the use case when the policy allows it', async () => {
+      const useCase = new ArchiveProjectUseCase();
+
+      const result = await useCase.execute({
+        actor: { id: 'u-1', roles: ['member'] },
+        project: { ownerId: 'u-1' },
+      });
+
+      expect(result).toEqual({ archived: true });
+    });
+
+    it('should throw ForbiddenError before authorize() when the policy denies', async () => {
+      const useCase = new ArchiveProjectUseCase();
+
+      const error = await useCase
+        .execute({ actor: { id: 'u-1', roles: [] }, project: { ownerId: 'u-1' } })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect((error as ForbiddenError).code).toBe('MISSING_PERMISSION');
+      expect(useCase.authorized).toBe(false);
+    });
+
+    it('should surface the rule reason for attribute-based denials', async () => {
+      const useCase = new ArchiveProjectUseCase();
+
+      await expect(
+        useCase.execute({ actor: { id: 'u-1', roles: ['member'] }, project: { ownerId: 'u-2' } }),
+      ).rejects.toMatchObject({ code: 'NOT_PROJECT_OWNER' });
+    });
+  });
+
+  describe('schemas', () => {
+    const registerInputSchema = zodSchema(
+      z.object({ email: z.string().email(), name: z.string().trim().min(1) }),
+    );
+
+    class RegisterUseCase extends BaseInboundAdapter<
+      { email: string; name: string },
+      { id: string; name: string }
+    > {
+      protected override readonly inputSchema = registerInputSchema;
+      protected override readonly outputSchema = zodSchema(
+        z.object({ id: z.string().uuid(), name: z.string() }),
+      );
+      handled: unknown[] = [];
+
+      constructor(private readonly id = '4b3c0bf5-7f7a-4d56-a70f-2a1b9e0d6f2c') {
+        super();
+      }
+
+      protected async handle(input: { email: string; name: string }) {
+        this.handled.push(input);
+        return { id: this.id, name: input.name };
+      }
+    }
+
+    it('should pass validated input to handle()', async () => {
+      const useCase = new RegisterUseCase();
+
+      await useCase.execute({ email: 'a@b.co', name: '  Ada  ' });
+
+      expect(useCase.handled).toEqual([{ email: 'a@b.co', name: 'Ada' }]);
+    });
+
+    it('should throw ObjectValidationError with every input issue', async () => {
+      const useCase = new RegisterUseCase();
+
+      const error = await useCase.execute({ email: 'nope', name: ' ' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ObjectValidationError);
+      expect((error as ObjectValidationError).code).toBe('OBJECT_VALIDATION_ERROR');
+      expect((error as ObjectValidationError).validationErrors.map((e) => e.field)).toEqual([
+        'email',
+        'name',
+      ]);
+      expect(useCase.handled).toEqual([]);
+    });
+
+    it('should validate input before interceptors run', async () => {
+      const calls: string[] = [];
+      class InterceptedRegisterUseCase extends RegisterUseCase {
+        protected override readonly interceptors: readonly UseCaseInterceptor[] = [
+          async (invocation, next) => {
+            calls.push(JSON.stringify(invocation.input));
+            return next();
+          },
+        ];
+      }
+
+      await expect(
+        new InterceptedRegisterUseCase().execute({ email: 'nope', name: 'Ada' }),
+      ).rejects.toBeInstanceOf(ObjectValidationError);
+      await new InterceptedRegisterUseCase().execute({ email: 'a@b.co', name: ' Ada ' });
+
+      expect(calls).toEqual(['{"email":"a@b.co","name":"Ada"}']);
+    });
+
+    it('should reject output that does not match the output schema', async () => {
+      const useCase = new RegisterUseCase('not-a-uuid');
+
+      const error = await useCase
+        .execute({ email: 'a@b.co', name: 'Ada' })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OutputSchemaError);
+      expect((error as OutputSchemaError).code).toBe('OUTPUT_VALIDATION_ERROR');
+      expect((error as OutputSchemaError).message).toContain('output.id');
+    });
+
+    it('should return the validated output', async () => {
+      class UppercasingUseCase extends RegisterUseCase {
+        protected override readonly outputSchema = zodSchema(
+          z.object({ id: z.string().uuid(), name: z.string().toUpperCase() }),
+        );
+      }
+
+      const output = await new UppercasingUseCase().execute({ email: 'a@b.co', name: 'Ada' });
+
+      expect(output).toEqual({ id: '4b3c0bf5-7f7a-4d56-a70f-2a1b9e0d6f2c', name: 'ADA' });
+    });
+
+    it('should validate only ok(...) values in result mode', async () => {
+      class LookupUseCase extends BaseInboundAdapter<string, Result<{ id: string }, Error>> {
+        protected override readonly outputSchema = zodSchema(z.object({ id: z.string().min(3) }));
+
+        protected async handle(id: string) {
+          return id === 'missing' ? err(new Error('missing')) : ok({ id });
+        }
+      }
+      const useCase = new LookupUseCase();
+
+      await expect(useCase.execute('abc')).resolves.toEqual(ok({ id: 'abc' }));
+      await expect(useCase.execute('missing')).resolves.toMatchObject({ ok: false });
+      await expect(useCase.execute('ab')).rejects.toBeInstanceOf(OutputSchemaError);
+    });
+  });
 });
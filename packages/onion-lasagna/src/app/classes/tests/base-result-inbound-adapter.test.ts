@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { BaseResultInboundAdapter } from '../base-result-inbound-adapter.class';
+import { ConflictError } from '../../exceptions/conflict.error';
+import { ForbiddenError } from '../../exceptions/forbidden.error';
+import { NotFoundError } from '../../exceptions/not-found.error';
+import { UseCaseError } from '../../exceptions/use-case.error';
+import { ok, err, isResult, type ErrorsOf } from '../../../global/utils/result.util';
+
+class EmailTakenError extends ConflictError {
+  protected override get errorTypeName(): string {
+    return 'EmailTakenError';
+  }
+}
+
+const createUserErrors = [EmailTakenError, ForbiddenError] as const;
+
+interface CreateUserInput {
+  email: string;
+  requesterRole: string;
+}
+
+class CreateUserUseCase extends BaseResultInboundAdapter<
+  CreateUserInput,
+  { userId: string },
+  ErrorsOf<typeof createUserErrors>
+> {
+  protected override readonly declaredErrors = createUserErrors;
+
+  constructor(private readonly failure?: Error) {
+    super();
+  }
+
+  protected override async authorize(input: CreateUserInput): Promise<void> {
+    if (input.requesterRole !== 'admin') {
+      throw new ForbiddenError({ message: 'Admins only' });
+    }
+  }
+
+  protected async handle(input: CreateUserInput) {
+    if (this.failure) throw this.failure;
+    if (input.email === 'taken@example.com') {
+      return err(new EmailTakenError({ message: 'Email already registered' }));
+    }
+    return ok({ userId: 'user-1' });
+  }
+}
+
+describe('BaseResultInboundAdapter', () => {
+  it('should return the ok result of handle', async () => {
+    const result = await new CreateUserUseCase().execute({
+      email: 'jane@example.com',
+      requesterRole: 'admin',
+    });
+
+    expect(result).toEqual({ ok: true, value: { userId: 'user-1' } });
+    expect(isResult(result)).toBe(true);
+  });
+
+  it('should return the err result of handle', async () => {
+    const result = await new CreateUserUseCase().execute({
+      email: 'taken@example.com',
+      requesterRole: 'admin',
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(EmailTakenError);
+      expect(result.error.code).toBe('CONFLICT');
+    }
+  });
+
+  it('should convert thrown declared errors into err results', async () => {
+    const result = await new CreateUserUseCase().execute({
+      email: 'jane@example.com',
+      requesterRole: 'member',
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should keep throwing undeclared known errors', async () => {
+    const useCase = new CreateUserUseCase(new NotFoundError({ message: 'Team not found' }));
+
+    await expect(
+      useCase.execute({ email: 'jane@example.com', requesterRole: 'admin' }),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should wrap unknown errors in UseCaseError', async () => {
+    const useCase = new CreateUserUseCase(new Error('boom'));
+
+    await expect(
+      useCase.execute({ email: 'jane@example.com', requesterRole: 'admin' }),
+    ).rejects.toThrow(UseCaseError);
+  });
+});
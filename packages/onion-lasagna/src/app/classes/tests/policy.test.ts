@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { Policy, type PolicyActor } from '../policy.class';
+import { ForbiddenError } from '../../exceptions/forbidden.error';
+
+interface AppActor extends PolicyActor {
+  id: string;
+  roles: string[];
+}
+
+interface Post {
+  authorId: string;
+}
+
+const postPolicy = new Policy<AppActor, Post>({
+  roles: {
+    admin: ['*'],
+    editor: ['posts:*'],
+    author: ['posts:read', 'posts:update'],
+  },
+  rules: [
+    {
+      action: 'posts:update',
+      when: (actor, post) => actor.roles.includes('editor') || post?.authorId === actor.id,
+      reason: 'NOT_POST_AUTHOR',
+    },
+    {
+      action: 'posts:publish',
+      when: (_actor, post) => post !== undefined,
+    },
+  ],
+});
+
+const admin: AppActor = { id: 'u-admin', roles: ['admin'] };
+const editor: AppActor = { id: 'u-editor', roles: ['editor'] };
+const author: AppActor = { id: 'u-author', roles: ['author'] };
+const guest: AppActor = { id: 'u-guest', roles: [] };
+
+describe('Policy', () => {
+  describe('permissions', () => {
+    it('should grant permissions through roles', () => {
+      expect(postPolicy.can(author, 'posts:read')).toBe(true);
+      expect(postPolicy.can(guest, 'posts:read')).toBe(false);
+    });
+
+    it('should match resource and global wildcards', () => {
+      expect(postPolicy.can(editor, 'posts:delete')).toBe(true);
+      expect(postPolicy.can(editor, 'users:delete')).toBe(false);
+      expect(postPolicy.can(admin, 'users:delete')).toBe(true);
+    });
+
+    it('should grant permissions held directly by the actor', () => {
+      const actor = { id: 'u-1', roles: [], permissions: ['posts:read'] };
+
+      expect(postPolicy.can(actor, 'posts:read')).toBe(true);
+      expect(postPolicy.permissionsOf(author)).toEqual(new Set(['posts:read', 'posts:update']));
+    });
+
+    it('should ignore unknown roles', () => {
+      expect(postPolicy.can({ id: 'u-1', roles: ['ghost'] }, 'posts:read')).toBe(false);
+    });
+
+    it('should deny roles named after Object.prototype members', () => {
+      const actor = { id: 'u-1', roles: ['toString', 'constructor', '__proto__'] };
+
+      expect(postPolicy.evaluate(actor, 'posts:read')).toEqual({
+        allowed: false,
+        reason: 'MISSING_PERMISSION',
+      });
+      expect(postPolicy.permissionsOf(actor)).toEqual(new Set());
+    });
+  });
+
+  describe('rules', () => {
+    it('should apply attribute-based rules over actor and resource', () => {
+      expect(postPolicy.can(author, 'posts:update', { authorId: 'u-author' })).toBe(true);
+      expect(postPolicy.can(author, 'posts:update', { authorId: 'u-other' })).toBe(false);
+      expect(postPolicy.can(editor, 'posts:update', { authorId: 'u-other' })).toBe(true);
+    });
+
+    it('should check permissions before rules', () => {
+      expect(postPolicy.evaluate(guest, 'posts:update', { authorId: 'u-guest' })).toEqual({
+        allowed: false,
+        reason: 'MISSING_PERMISSION',
+      });
+    });
+
+    it('should report the rule reason, or POLICY_CONDITION_FAILED by default', () => {
+      expect(postPolicy.evaluate(author, 'posts:update', { authorId: 'u-other' })).toEqual({
+        allowed: false,
+        reason: 'NOT_POST_AUTHOR',
+      });
+      expect(postPolicy.evaluate(editor, 'posts:publish')).toEqual({
+        allowed: false,
+        reason: 'POLICY_CONDITION_FAILED',
+      });
+      expect(postPolicy.evaluate(editor, 'posts:publish', { authorId: 'u-1' })).toEqual({
+        allowed: true,
+      });
+    });
+  });
+
+  describe('assert', () => {
+    it('should not throw when allowed', () => {
+      expect(() => postPolicy.assert(admin, 'posts:delete')).not.toThrow();
+    });
+
+    it('should throw ForbiddenError with the reason as code', () => {
+      try {
+        postPolicy.assert(author, 'posts:update', { authorId: 'u-other' });
+        expect.fail('Expected ForbiddenError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ForbiddenError);
+        expect((error as ForbiddenError).code).toBe('NOT_POST_AUTHOR');
+        expect((error as ForbiddenError).message).toBe('Not allowed to perform "posts:update"');
+      }
+    });
+
+    it('should name the missing permission', () => {
+      expect(() => postPolicy.assert(author, 'posts:delete')).toThrow(
+        'Missing permission "posts:delete"',
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TransactionalOutbox } from '../transactional-outbox.class';
+import { BaseAggregateRoot } from '../../../domain/classes/base-aggregate-root.class';
+import { BaseDomainEvent } from '../../../domain/classes/base-domain-event.class';
+import { BaseValueObject } from '../../../domain/classes/base-value-object.class';
+import { InMemoryOutboxStore } from '../../../infra/classes/in-memory-outbox-store.class';
+import type { UnitOfWorkPort } from '../../../global/interfaces/ports/unit-of-work.port';
+
+class OrderId extends BaseValueObject<string> {
+  static create(value: string): OrderId {
+    return new OrderId(value);
+  }
+}
+
+class OrderPlaced extends BaseDomainEvent<{ total: number }> {
+  constructor(orderId: string, total: number) {
+    super('OrderPlaced', orderId, { total });
+  }
+}
+
+class Order extends BaseAggregateRoot<OrderId, { total: number }> {
+  static place(id: string, total: number): Order {
+    const order = new Order(OrderId.create(id), { total });
+    order.addDomainEvent(new OrderPlaced(id, total));
+    return order;
+  }
+}
+
+/** Records commits and rollbacks instead of talking to a database. */
+class RecordingUnitOfWork implements UnitOfWorkPort {
+  commits = 0;
+  rollbacks = 0;
+
+  async atomicExecute<T>(work: () => Promise<T>): Promise<T> {
+    try {
+      const result = await work();
+      this.commits++;
+      return result;
+    } catch (error) {
+      this.rollbacks++;
+      throw error;
+    }
+  }
+}
+
+describe('TransactionalOutbox', () => {
+  let unitOfWork: RecordingUnitOfWork;
+  let outbox: InMemoryOutboxStore;
+  let transactional: TransactionalOutbox;
+
+  beforeEach(() => {
+    unitOfWork = new RecordingUnitOfWork();
+    outbox = new InMemoryOutboxStore();
+    transactional = new TransactionalOutbox({ unitOfWork, outbox });
+  });
+
+  it('should append recorded events inside the transaction and return the result', async () => {
+    const order = Order.place('order-1', 100);
+
+    const result = await transactional.atomicExecute(async (recorder) => {
+      recorder.record(order);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(unitOfWork.commits).toBe(1);
+    expect(outbox.messages().map((m) => m.event.eventName)).toEqual(['OrderPlaced']);
+    expect(outbox.messages()[0]!.event.payload).toEqual({ total: 100 });
+  });
+
+  it('should pull the events from recorded aggregates', async () => {
+    const order = Order.place('order-1', 100);
+
+    await transactional.atomicExecute(async (recorder) => recorder.record(order));
+
+    expect(order.hasDomainEvents).toBe(false);
+  });
+
+  it('should preserve recording order across aggregates', async () => {
+    const first = Order.place('order-1', 1);
+    const second = Order.place('order-2', 2);
+
+    await transactional.atomicExecute(async (recorder) => recorder.record(second, first));
+
+    expect(outbox.messages().map((m) => m.event.aggregateId)).toEqual(['order-2', 'order-1']);
+  });
+
+  it('should append each aggregate once when recorded twice', async () => {
+    const order = Order.place('order-1', 100);
+
+    await transactional.atomicExecute(async (recorder) => {
+      recorder.record(order);
+      recorder.record(order);
+    });
+
+    expect(outbox.messages()).toHaveLength(1);
+  });
+
+  it('should keep events on the aggregate when the work throws', async () => {
+    const order = Order.place('order-1', 100);
+
+    await expect(
+      transactional.atomicExecute(async (recorder) => {
+        recorder.record(order);
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(unitOfWork.rollbacks).toBe(1);
+    expect(outbox.messages()).toHaveLength(0);
+    expect(order.hasDomainEvents).toBe(true);
+  });
+
+  it('should roll back and keep events when the append fails', async () => {
+    const order = Order.place('order-1', 100);
+    outbox.append = async () => {
+      throw new Error('outbox unavailable');
+    };
+
+    await expect(
+      transactional.atomicExecute(async (recorder) => recorder.record(order)),
+    ).rejects.toThrow('outbox unavailable');
+
+    expect(unitOfWork.rollbacks).toBe(1);
+    expect(order.hasDomainEvents).toBe(true);
+  });
+
+  it('should be usable as a plain UnitOfWorkPort', async () => {
+    const port: UnitOfWorkPort = transactional;
+
+    await expect(port.atomicExecute(async () => 42)).resolves.toBe(42);
+    expect(outbox.messages()).toHaveLength(0);
+  });
+});
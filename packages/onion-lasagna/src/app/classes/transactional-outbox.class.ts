@@ -0,0 +1,99 @@
+import type { BaseDomainEvent } from '../../domain/classes/base-domain-event.class';
+import type { UnitOfWorkPort } from '../../global/interfaces/ports/unit-of-work.port';
+import type { OutboxPort } from '../interfaces/ports/outbox.port';
+
+/**
+ * Anything that buffers domain events, typically a `BaseAggregateRoot`.
+ */
+export interface DomainEventSource {
+  peekDomainEvents(): readonly BaseDomainEvent[];
+  pullDomainEvents(): BaseDomainEvent[];
+}
+
+/**
+ * Collects the aggregates whose events must be stored with the transaction.
+ */
+export interface OutboxRecorder {
+  /**
+   * Registers aggregates whose pending domain events are appended to the
+   * outbox when the work function completes. Registering the same aggregate
+   * twice has no effect.
+   */
+  record(...sources: DomainEventSource[]): void;
+}
+
+/**
+ * Options for {@link TransactionalOutbox}.
+ */
+export interface TransactionalOutboxOptions {
+  /** The unit of work that owns the transaction. */
+  unitOfWork: UnitOfWorkPort;
+
+  /** The outbox store, bound to the same transaction as `unitOfWork`. */
+  outbox: OutboxPort;
+}
+
+/**
+ * Unit of work that stores pulled domain events in the outbox atomically
+ * with the state change that raised them.
+ *
+ * The work function receives an {@link OutboxRecorder}. After it resolves —
+ * still inside `unitOfWork.atomicExecute` — the pending events of every
+ * recorded aggregate are appended to the outbox and then pulled from the
+ * aggregates. If the work or the append throws, the transaction rolls back
+ * and the events stay on the aggregates.
+ *
+ * Implements {@link UnitOfWorkPort}, so it can replace a plain unit of work
+ * in existing use cases.
+ *
+ * @example
+ * ```typescript
+ * class PlaceOrderUseCase extends BaseInboundAdapter<Input, Output> {
+ *   constructor(
+ *     private readonly unitOfWork: TransactionalOutbox,
+ *     private readonly orders: OrderRepository,
+ *   ) { super(); }
+ *
+ *   protected async handle(input: Input): Promise<Output> {
+ *     return this.unitOfWork.atomicExecute(async (outbox) => {
+ *       const order = Order.place(input);
+ *       await this.orders.save(order);
+ *       outbox.record(order);
+ *       return { orderId: order.id.value };
+ *     });
+ *   }
+ * }
+ * ```
+ */
+export class TransactionalOutbox implements UnitOfWorkPort {
+  private readonly unitOfWork: UnitOfWorkPort;
+  private readonly outbox: OutboxPort;
+
+  constructor(options: TransactionalOutboxOptions) {
+    this.unitOfWork = options.unitOfWork;
+    this.outbox = options.outbox;
+  }
+
+  /**
+   * Executes the work in a transaction and appends the recorded events.
+   *
+   * @param work - The async function to execute within the transaction
+   * @returns The result of the work function
+   */
+  public async atomicExecute<T>(work: (recorder: OutboxRecorder) => Promise<T>): Promise<T> {
+    return this.unitOfWork.atomicExecute(async () => {
+      const sources = new Set<DomainEventSource>();
+      const result = await work({
+        record: (...recorded) => recorded.forEach((source) => sources.add(source)),
+      });
+
+      const events = [...sources].flatMap((source) => source.peekDomainEvents());
+      if (events.length > 0) {
+        await this.outbox.append(events.map((event) => event.toJSON()));
+      }
+      sources.forEach((source) => source.pullDomainEvents());
+
+      return result;
+    });
+  }
+}
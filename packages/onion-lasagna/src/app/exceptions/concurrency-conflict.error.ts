@@ -0,0 +1,81 @@
+import { ErrorCodes, type AppErrorCode } from '../../global/exceptions/error-codes.const';
+import { ConflictError } from './conflict.error';
+
+/**
+ * Error thrown when a write is rejected by optimistic concurrency control.
+ *
+ * Indicates that the aggregate was modified by another process between the
+ * time it was loaded and the time it was saved: the version held by the
+ * caller no longer matches the version stored by the repository.
+ *
+ * **When to throw:**
+ * - `RepositoryPort.save` finds a stored version different from `aggregate.version`
+ * - An update with `WHERE version = N` affects zero rows
+ * - A delete targets an aggregate that has since been modified
+ *
+ * @example
+ * ```typescript
+ * const stored = await this.db.orders.findVersion(order.id.value);
+ * if (stored !== order.version) {
+ *   throw new ConcurrencyConflictError({
+ *     message: `Order ${order.id.value} was modified concurrently`,
+ *     expectedVersion: order.version,
+ *     actualVersion: stored,
+ *   });
+ * }
+ * ```
+ *
+ * @extends ConflictError
+ */
+export class ConcurrencyConflictError extends ConflictError {
+  protected override get errorTypeName(): string {
+    return 'ConcurrencyConflictError';
+  }
+
+  /** Version the caller loaded and expected to still be stored. */
+  readonly expectedVersion: number | undefined;
+
+  /** Version actually stored (`undefined` when the aggregate no longer exists). */
+  readonly actualVersion: number | undefined;
+
+  /**
+   * Creates a new ConcurrencyConflictError instance.
+   *
+   * @param options - Error configuration
+   * @param options.message - Description of the conflicting write
+   * @param options.code - Machine-readable error code (default: 'CONCURRENCY_CONFLICT')
+   * @param options.cause - Optional underlying error
+   * @param options.expectedVersion - Version held by the caller
+   * @param options.actualVersion - Version found in storage
+   */
+  constructor({
+    message,
+    code = ErrorCodes.App.CONCURRENCY_CONFLICT,
+    cause,
+    expectedVersion,
+    actualVersion,
+  }: {
+    message: string;
+    code?: AppErrorCode | string;
+    cause?: unknown;
+    expectedVersion?: number;
+    actualVersion?: number;
+  }) {
+    super({ message, code, cause });
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+
+  /**
+   * Creates a ConcurrencyConflictError from a caught error.
+   *
+   * @param cause - The original caught error
+   * @returns A new ConcurrencyConflictError instance with the cause attached
+   */
+  static override fromError(cause: unknown): ConcurrencyConflictError {
+    return new ConcurrencyConflictError({
+      message: cause instanceof Error ? cause.message : 'Concurrency conflict',
+      cause,
+    });
+  }
+}
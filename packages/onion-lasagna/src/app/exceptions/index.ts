@@ -1,6 +1,8 @@
 export * from './use-case.error';
 export * from './not-found.error';
 export * from './conflict.error';
+export * from './concurrency-conflict.error';
 export * from './unprocessable.error';
 export * from './forbidden.error';
 export * from './unauthorized.error';
+export * from './message-bus.error';
@@ -0,0 +1,55 @@
+import { CodedError } from '../../global/exceptions/coded-error.error';
+import { ErrorCodes, type AppErrorCode } from '../../global/exceptions/error-codes.const';
+
+/**
+ * Error thrown when a {@link CommandBus} or {@link QueryBus} is wired
+ * incorrectly.
+ *
+ * These are programming errors, not request failures, so the error does not
+ * extend {@link UseCaseError}: transports report it as a masked internal
+ * error.
+ *
+ * **When thrown:**
+ * - A message is dispatched without a registered handler
+ *   (code `HANDLER_NOT_REGISTERED`)
+ * - A second handler is registered for the same message class
+ *   (code `HANDLER_ALREADY_REGISTERED`)
+ */
+export class MessageBusError extends CodedError {
+  protected override get errorTypeName(): string {
+    return 'MessageBusError';
+  }
+
+  /**
+   * Creates a new MessageBusError instance.
+   *
+   * @param options - Error configuration
+   * @param options.message - Human-readable error description
+   * @param options.code - Machine-readable error code (default: 'HANDLER_NOT_REGISTERED')
+   * @param options.cause - Optional underlying error
+   */
+  constructor({
+    message,
+    code = ErrorCodes.App.HANDLER_NOT_REGISTERED,
+    cause,
+  }: {
+    message: string;
+    code?: AppErrorCode | string;
+    cause?: unknown;
+  }) {
+    super({ message, code, cause });
+  }
+
+  /**
+   * Creates a MessageBusError from a caught error.
+   *
+   * @param cause - The original caught error
+   * @returns A new MessageBusError instance with the cause attached
+   */
+  static override fromError(cause: unknown): MessageBusError {
+    return new MessageBusError({
+      message: cause instanceof Error ? cause.message : 'Message bus error',
+      cause,
+    });
+  }
+}
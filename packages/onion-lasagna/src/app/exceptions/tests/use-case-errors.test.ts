@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { UseCaseError } from '../use-case.error';
 import { ConflictError } from '../conflict.error';
+import { ConcurrencyConflictError } from '../concurrency-conflict.error';
 import { NotFoundError } from '../not-found.error';
 import { UnprocessableError } from '../unprocessable.error';
 import { CodedError } from '../../../global/exceptions/coded-error.error';
@@ -122,6 +123,64 @@ describe('ConflictError', () => {
   });
 });
 
+describe('ConcurrencyConflictError', () => {
+  describe('constructor', () => {
+    it('should create with message and default code', () => {
+      const error = new ConcurrencyConflictError({ message: 'Order was modified' });
+
+      expect(error.message).toBe('Order was modified');
+      expect(error.code).toBe('CONCURRENCY_CONFLICT');
+      expect(error.name).toBe('ConcurrencyConflictError');
+    });
+
+    it('should expose expected and actual versions', () => {
+      const error = new ConcurrencyConflictError({
+        message: 'Stale write',
+        expectedVersion: 3,
+        actualVersion: 4,
+      });
+
+      expect(error.expectedVersion).toBe(3);
+      expect(error.actualVersion).toBe(4);
+    });
+
+    it('should leave versions undefined when omitted', () => {
+      const error = new ConcurrencyConflictError({ message: 'Stale write' });
+
+      expect(error.expectedVersion).toBeUndefined();
+      expect(error.actualVersion).toBeUndefined();
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should be instance of ConflictError', () => {
+      const error = new ConcurrencyConflictError({ message: 'Test' });
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error).toBeInstanceOf(UseCaseError);
+      expect(error).toBeInstanceOf(CodedError);
+    });
+  });
+
+  describe('fromError', () => {
+    it('should create from Error instance', () => {
+      const original = new Error('0 rows updated');
+      const error = ConcurrencyConflictError.fromError(original);
+
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect(error.message).toBe('0 rows updated');
+      expect(error.cause).toBe(original);
+    });
+
+    it('should handle non-Error values', () => {
+      const error = ConcurrencyConflictError.fromError(42);
+
+      expect(error.message).toBe('Concurrency conflict');
+      expect(error.cause).toBe(42);
+    });
+  });
+});
+
 describe('NotFoundError', () => {
   describe('constructor', () => {
     it('should create with message and default code', () => {
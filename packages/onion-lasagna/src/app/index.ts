@@ -1,3 +1,6 @@
+export * from './bus';
 export * from './classes';
 export * from './exceptions';
+export * from './interceptors';
 export * from './interfaces';
+export * from './tenancy';
@@ -0,0 +1,85 @@
+import type { CachePort } from '../../global/interfaces/ports/cache.port';
+import { isResult, ok } from '../../global/utils/result.util';
+import type { UseCaseInterceptor, UseCaseInvocation } from './use-case-interceptor.type';
+
+/**
+ * Options for {@link createCacheInterceptor}.
+ */
+export interface CacheInterceptorOptions {
+  /** Cache to read from and write to. */
+  readonly cache: CachePort;
+
+  /**
+   * Builds the cache key for an invocation.
+   * Return `undefined` to bypass the cache (e.g. for commands).
+   */
+  readonly key: (invocation: UseCaseInvocation) => string | undefined;
+
+  /** Time-to-live in seconds. If omitted, entries do not expire. */
+  readonly ttl?: number;
+}
+
+/**
+ * Stored cache entry. `result` marks values that were returned as `ok(...)`,
+ * so a hit is rebuilt as a result rather than a plain value.
+ */
+interface CacheEntry {
+  readonly value: unknown;
+  readonly result?: true;
+}
+
+/**
+ * Creates a read-through cache interceptor for query use cases.
+ *
+ * On a hit, the cached output is returned and `handle()` does not run.
+ * On a miss, the use case runs and its output is stored. Thrown errors and
+ * `err(...)` results are never cached.
+ *
+ * The policy check and `authorize()` run before the interceptor chain, so a
+ * hit is only served to actors allowed to run the use case. If the output
+ * differs per actor, include the actor in the key.
+ *
+ * @param options - Cache, key builder and TTL
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * class GetUserUseCase extends BaseInboundAdapter<{ userId: string }, UserDto> {
+ *   protected override readonly interceptors: readonly UseCaseInterceptor[];
+ *
+ *   constructor(cache: CachePort, private readonly users: UserRepository) {
+ *     super();
+ *     this.interceptors = [
+ *       createCacheInterceptor({
+ *         cache,
+ *         key: ({ input }) => `user:${(input as { userId: string }).userId}`,
+ *         ttl: 60,
+ *       }),
+ *     ];
+ *   }
+ *   // ...
+ * }
+ * ```
+ */
+export function createCacheInterceptor(options: CacheInterceptorOptions): UseCaseInterceptor {
+  const { cache, key, ttl } = options;
+
+  return async (invocation, next) => {
+    const cacheKey = key(invocation);
+    if (cacheKey === undefined) return next();
+
+    const cached = await cache.get<CacheEntry>(cacheKey);
+    if (cached !== undefined) {
+      return cached.result ? ok(cached.value) : cached.value;
+    }
+
+    const output = await next();
+    if (isResult(output)) {
+      if (output.ok)
+        await cache.set<CacheEntry>(cacheKey, { value: output.value, result: true }, { ttl });
+    } else {
+      await cache.set<CacheEntry>(cacheKey, { value: output }, { ttl });
+    }
+    return output;
+  };
+}
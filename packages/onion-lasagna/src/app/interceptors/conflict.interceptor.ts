@@ -0,0 +1,57 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { DbError } from '../../infra/exceptions/db.error';
+import { ConflictError } from '../exceptions/conflict.error';
+import type { UseCaseInterceptor } from './use-case-interceptor.type';
+
+/**
+ * Options for {@link createConflictInterceptor}.
+ */
+export interface ConflictInterceptorOptions {
+  /**
+   * Message of the `ConflictError`. Constraint names are kept out of it by
+   * default, since they describe the schema.
+   * @default 'Resource already exists'
+   */
+  readonly message?: string | ((error: DbError) => string);
+}
+
+/**
+ * Creates an interceptor that surfaces unique constraint violations as a
+ * {@link ConflictError}.
+ *
+ * Outbound adapters report duplicate keys as a `DbError` with code
+ * `DB_UNIQUE_VIOLATION`; without this interceptor they reach the caller
+ * as an infrastructure failure.
+ *
+ * @param options - Conflict options
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * BaseInboundAdapter.useGlobalInterceptors(
+ *   createConflictInterceptor({
+ *     message: (error) =>
+ *       error.constraint === 'users_email_key' ? 'Email already registered' : 'Resource already exists',
+ *   }),
+ * );
+ * ```
+ */
+export function createConflictInterceptor(
+  options: ConflictInterceptorOptions = {},
+): UseCaseInterceptor {
+  const { message = 'Resource already exists' } = options;
+
+  return async (_invocation, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      if (error instanceof DbError && error.code === ErrorCodes.Infra.DB_UNIQUE_VIOLATION) {
+        throw new ConflictError({
+          message: typeof message === 'function' ? message(error) : message,
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { isResult } from '../../global/utils/result.util';
+import type { UseCaseInterceptor } from './use-case-interceptor.type';
+
+/**
+ * Duration measurement of a single use case execution.
+ */
+export interface UseCaseDurationMetric {
+  /** Name of the use case class. */
+  readonly useCase: string;
+
+  /** Wall-clock duration in milliseconds. */
+  readonly durationMs: number;
+
+  /**
+   * - `success` — Completed with an output or `ok(...)` result.
+   * - `failure` — Returned an `err(...)` result.
+   * - `error` — Threw.
+   */
+  readonly outcome: 'success' | 'failure' | 'error';
+
+  /** Code of the error, for `failure` and `error` outcomes when available. */
+  readonly errorCode?: string;
+}
+
+/**
+ * Creates an interceptor that measures how long each use case takes.
+ *
+ * The recorder is called once per execution, after it finishes. Errors thrown
+ * by the recorder are ignored so metrics never break a use case.
+ *
+ * @param record - Receives each measurement (e.g. forwards it to a histogram)
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * BaseInboundAdapter.useGlobalInterceptors(
+ *   createDurationMetricsInterceptor(({ useCase, durationMs, outcome }) =>
+ *     useCaseDuration.observe({ useCase, outcome }, durationMs / 1000),
+ *   ),
+ * );
+ * ```
+ */
+export function createDurationMetricsInterceptor(
+  record: (metric: UseCaseDurationMetric) => void,
+): UseCaseInterceptor {
+  const safeRecord = (metric: UseCaseDurationMetric): void => {
+    try {
+      record(metric);
+    } catch {
+      // Metrics must not affect the use case outcome
+    }
+  };
+
+  return async (invocation, next) => {
+    const startedAt = performance.now();
+    try {
+      const output = await next();
+      const failed = isResult(output) && !output.ok;
+      safeRecord({
+        useCase: invocation.useCase,
+        durationMs: performance.now() - startedAt,
+        outcome: failed ? 'failure' : 'success',
+        ...(failed ? errorCodeOf(output.error) : {}),
+      });
+      return output;
+    } catch (error) {
+      safeRecord({
+        useCase: invocation.useCase,
+        durationMs: performance.now() - startedAt,
+        outcome: 'error',
+        ...errorCodeOf(error),
+      });
+      throw error;
+    }
+  };
+}
+
+function errorCodeOf(error: unknown): { errorCode?: string } {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? { errorCode: code } : {};
+}
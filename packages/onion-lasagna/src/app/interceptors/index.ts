@@ -0,0 +1,6 @@
+export * from './cache.interceptor';
+export * from './conflict.interceptor';
+export * from './duration-metrics.interceptor';
+export * from './logging.interceptor';
+export * from './transaction.interceptor';
+export * from './use-case-interceptor.type';
@@ -0,0 +1,68 @@
+import type { LoggerPort } from '../../global/interfaces/ports/logger.port';
+import { isResult } from '../../global/utils/result.util';
+import type { UseCaseInterceptor } from './use-case-interceptor.type';
+
+/**
+ * Options for {@link createLoggingInterceptor}.
+ */
+export interface LoggingInterceptorOptions {
+  /**
+   * Whether to log the use case input at debug level when it starts.
+   * Off by default, since inputs may contain personal data.
+   * @default false
+   */
+  readonly logInput?: boolean;
+}
+
+/**
+ * Creates an interceptor that logs every use case execution to a {@link LoggerPort}.
+ *
+ * - Start: `debug` (with the input when `logInput` is set)
+ * - Success: `info` with the duration
+ * - `err(...)` result: `warn` with the error code
+ * - Thrown error: `error` with the error message and code
+ *
+ * Log entries are written to a child logger bound to `{ useCase }`.
+ *
+ * @param logger - Logger to write to
+ * @param options - Logging options
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * BaseInboundAdapter.useGlobalInterceptors(createLoggingInterceptor(logger));
+ * ```
+ */
+export function createLoggingInterceptor(
+  logger: LoggerPort,
+  options: LoggingInterceptorOptions = {},
+): UseCaseInterceptor {
+  return async (invocation, next) => {
+    const log = logger.child({ useCase: invocation.useCase });
+    const startedAt = performance.now();
+    log.debug('Use case started', options.logInput ? { input: invocation.input } : undefined);
+
+    try {
+      const output = await next();
+      const durationMs = performance.now() - startedAt;
+      if (isResult(output) && !output.ok) {
+        log.warn('Use case returned an error', { durationMs, ...describeError(output.error) });
+      } else {
+        log.info('Use case completed', { durationMs });
+      }
+      return output;
+    } catch (error) {
+      log.error('Use case failed', {
+        durationMs: performance.now() - startedAt,
+        ...describeError(error),
+      });
+      throw error;
+    }
+  };
+}
+
+function describeError(error: unknown): Record<string, unknown> {
+  if (!(error instanceof Error)) return { error: String(error) };
+  const code = (error as { code?: unknown }).code;
+  return { error: error.message, errorName: error.name, ...(code ? { errorCode: code } : {}) };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createCacheInterceptor } from '../cache.interceptor';
+import { NotFoundError } from '../../exceptions/not-found.error';
+import { ForbiddenError } from '../../exceptions/forbidden.error';
+import { BaseInboundAdapter } from '../../classes/base-inbound-adapter.class';
+import { Policy } from '../../classes/policy.class';
+import type { UseCaseInterceptor } from '../use-case-interceptor.type';
+import { ok, err, isResult } from '../../../global/utils/result.util';
+import type { CachePort } from '../../../global/interfaces/ports/cache.port';
+
+function createMemoryCache() {
+  const store = new Map<string, unknown>();
+  const cache: CachePort = {
+    get: vi.fn(async (key: string) => store.get(key)) as CachePort['get'],
+    set: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    has: vi.fn(async (key: string) => store.has(key)),
+  };
+  return { cache, store };
+}
+
+const key = ({ input }: { input: unknown }) => `user:${(input as { userId: string }).userId}`;
+const invocation = { useCase: 'GetUserUseCase', input: { userId: '42' } };
+
+describe('createCacheInterceptor', () => {
+  it('should run the use case on a miss and store its output', async () => {
+    const { cache } = createMemoryCache();
+    const interceptor = createCacheInterceptor({ cache, key, ttl: 60 });
+    const next = vi.fn(async () => ({ name: 'Ada' }));
+
+    const output = await interceptor(invocation, next);
+
+    expect(output).toEqual({ name: 'Ada' });
+    expect(next).toHaveBeenCalledOnce();
+    expect(cache.set).toHaveBeenCalledWith('user:42', { value: { name: 'Ada' } }, { ttl: 60 });
+  });
+
+  it('should return the cached output on a hit without running the use case', async () => {
+    const { cache } = createMemoryCache();
+    const interceptor = createCacheInterceptor({ cache, key });
+    await interceptor(invocation, async () => ({ name: 'Ada' }));
+    const next = vi.fn(async () => ({ name: 'Grace' }));
+
+    const output = await interceptor(invocation, next);
+
+    expect(output).toEqual({ name: 'Ada' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should rebuild ok results on a hit', async () => {
+    const { cache } = createMemoryCache();
+    const interceptor = createCacheInterceptor({ cache, key });
+    await interceptor(invocation, async () => ok({ name: 'Ada' }));
+
+    const output = await interceptor(invocation, async () => ok({ name: 'Grace' }));
+
+    expect(isResult(output)).toBe(true);
+    expect(output).toEqual(ok({ name: 'Ada' }));
+  });
+
+  it('should not cache err results', async () => {
+    const { cache, store } = createMemoryCache();
+    const interceptor = createCacheInterceptor({ cache, key });
+
+    await interceptor(invocation, async () => err(new NotFoundError({ message: 'No user' })));
+
+    expect(store.size).toBe(0);
+  });
+
+  it('should not cache thrown errors', async () => {
+    const { cache, store } = createMemoryCache();
+    const interceptor = createCacheInterceptor({ cache, key });
+
+    await expect(
+      interceptor(invocation, async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(store.size).toBe(0);
+  });
+
+  it('should bypass the cache when the key builder returns undefined', async () => {
+    const { cache } = createMemoryCache();
+    const interceptor = createCacheInterceptor({ cache, key: () => undefined });
+    const next = vi.fn(async () => 'fresh');
+
+    await interceptor(invocation, next);
+    await interceptor(invocation, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(cache.get).not.toHaveBeenCalled();
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+
+  describe('inside a use case', () => {
+    interface Actor {
+      id: string;
+      roles: string[];
+    }
+
+    interface GetReportInput {
+      actor: Actor;
+      reportId: string;
+    }
+
+    const reportPolicy = new Policy<Actor>({ roles: { analyst: ['reports:read'] } });
+
+    class GetReportUseCase extends BaseInboundAdapter<GetReportInput, { title: string }> {
+      protected override readonly interceptors: readonly UseCaseInterceptor[];
+      protected override readonly requiredPolicy = {
+        policy: reportPolicy,
+        action: 'reports:read',
+        actor: (input: GetReportInput) => input.actor,
+      };
+      handled = 0;
+
+      constructor(cache: CachePort) {
+        super();
+        this.interceptors = [
+          createCacheInterceptor({
+            cache,
+            key: ({ input }) => `report:${(input as GetReportInput).reportId}`,
+          }),
+        ];
+      }
+
+      protected async handle(): Promise<{ title: string }> {
+        this.handled++;
+        return { title: 'Q3 revenue' };
+      }
+    }
+
+    it('should check the policy before serving a cache hit', async () => {
+      const { cache } = createMemoryCache();
+      const useCase = new GetReportUseCase(cache);
+      await useCase.execute({ actor: { id: 'u-1', roles: ['analyst'] }, reportId: 'r-1' });
+
+      await expect(
+        useCase.execute({ actor: { id: 'u-2', roles: [] }, reportId: 'r-1' }),
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      expect(useCase.handled).toBe(1);
+      expect(cache.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
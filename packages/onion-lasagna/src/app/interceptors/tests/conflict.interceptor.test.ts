@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createConflictInterceptor } from '../conflict.interceptor';
+import { ConflictError } from '../../exceptions/conflict.error';
+import { DbError } from '../../../infra/exceptions/db.error';
+import { ErrorCodes } from '../../../global/exceptions/error-codes.const';
+
+const invocation = { useCase: 'RegisterUserUseCase', input: {} };
+
+const uniqueViolation = new DbError({
+  message: 'Unique constraint violation in insert',
+  code: ErrorCodes.Infra.DB_UNIQUE_VIOLATION,
+  constraint: 'users_email_key',
+});
+
+describe('createConflictInterceptor', () => {
+  it('should pass outputs through', async () => {
+    const interceptor = createConflictInterceptor();
+
+    await expect(interceptor(invocation, async () => ({ id: 'u-1' }))).resolves.toEqual({
+      id: 'u-1',
+    });
+  });
+
+  it('should turn unique violations into ConflictError', async () => {
+    const interceptor = createConflictInterceptor();
+
+    const error = await interceptor(invocation, async () => {
+      throw uniqueViolation;
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).message).toBe('Resource already exists');
+    expect((error as ConflictError).code).toBe('CONFLICT');
+    expect((error as ConflictError).cause).toBe(uniqueViolation);
+  });
+
+  it('should build the message from the violation', async () => {
+    const interceptor = createConflictInterceptor({
+      message: (error) => `Duplicate ${error.constraint}`,
+    });
+
+    await expect(
+      interceptor(invocation, async () => {
+        throw uniqueViolation;
+      }),
+    ).rejects.toThrow('Duplicate users_email_key');
+  });
+
+  it('should rethrow other errors unchanged', async () => {
+    const interceptor = createConflictInterceptor();
+    const deadlock = new DbError({ message: 'Deadlock', code: ErrorCodes.Infra.DB_DEADLOCK });
+
+    await expect(
+      interceptor(invocation, async () => {
+        throw deadlock;
+      }),
+    ).rejects.toBe(deadlock);
+  });
+});
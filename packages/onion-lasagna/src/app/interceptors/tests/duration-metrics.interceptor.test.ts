@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createDurationMetricsInterceptor,
+  type UseCaseDurationMetric,
+} from '../duration-metrics.interceptor';
+import { ConflictError } from '../../exceptions/conflict.error';
+import { err } from '../../../global/utils/result.util';
+
+const invocation = { useCase: 'GetUserUseCase', input: {} };
+
+describe('createDurationMetricsInterceptor', () => {
+  it('should record successful executions', async () => {
+    const metrics: UseCaseDurationMetric[] = [];
+    const interceptor = createDurationMetricsInterceptor((metric) => metrics.push(metric));
+
+    await interceptor(invocation, async () => ({ id: '1' }));
+
+    expect(metrics).toEqual([
+      { useCase: 'GetUserUseCase', durationMs: expect.any(Number), outcome: 'success' },
+    ]);
+    expect(metrics[0]!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should record err results as failures with their code', async () => {
+    const metrics: UseCaseDurationMetric[] = [];
+    const interceptor = createDurationMetricsInterceptor((metric) => metrics.push(metric));
+
+    await interceptor(invocation, async () =>
+      err(new ConflictError({ message: 'Taken', code: 'EMAIL_TAKEN' })),
+    );
+
+    expect(metrics[0]).toMatchObject({ outcome: 'failure', errorCode: 'EMAIL_TAKEN' });
+  });
+
+  it('should record thrown errors and rethrow them', async () => {
+    const metrics: UseCaseDurationMetric[] = [];
+    const interceptor = createDurationMetricsInterceptor((metric) => metrics.push(metric));
+    const error = new Error('boom');
+
+    await expect(
+      interceptor(invocation, async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(metrics[0]).toMatchObject({ outcome: 'error' });
+    expect(metrics[0]).not.toHaveProperty('errorCode');
+  });
+
+  it('should ignore errors thrown by the recorder', async () => {
+    const record = vi.fn(() => {
+      throw new Error('metrics backend down');
+    });
+    const interceptor = createDurationMetricsInterceptor(record);
+
+    await expect(interceptor(invocation, async () => 'done')).resolves.toBe('done');
+    expect(record).toHaveBeenCalledOnce();
+  });
+});
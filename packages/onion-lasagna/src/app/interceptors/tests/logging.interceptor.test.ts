@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLoggingInterceptor } from '../logging.interceptor';
+import { ConflictError } from '../../exceptions/conflict.error';
+import { ok, err } from '../../../global/utils/result.util';
+import type { LoggerPort } from '../../../global/interfaces/ports/logger.port';
+
+function createMockLogger() {
+  const child: LoggerPort = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+  const logger: LoggerPort = { ...child, child: vi.fn(() => child) };
+  return { logger, child };
+}
+
+const invocation = { useCase: 'CreateUserUseCase', input: { email: 'a@b.c' } };
+
+describe('createLoggingInterceptor', () => {
+  it('should log start and completion to a child logger bound to the use case', async () => {
+    const { logger, child } = createMockLogger();
+    const interceptor = createLoggingInterceptor(logger);
+
+    const output = await interceptor(invocation, async () => ({ id: '1' }));
+
+    expect(output).toEqual({ id: '1' });
+    expect(logger.child).toHaveBeenCalledWith({ useCase: 'CreateUserUseCase' });
+    expect(child.debug).toHaveBeenCalledWith('Use case started', undefined);
+    expect(child.info).toHaveBeenCalledWith('Use case completed', {
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should include the input only when logInput is set', async () => {
+    const { logger, child } = createMockLogger();
+    const interceptor = createLoggingInterceptor(logger, { logInput: true });
+
+    await interceptor(invocation, async () => undefined);
+
+    expect(child.debug).toHaveBeenCalledWith('Use case started', { input: invocation.input });
+  });
+
+  it('should warn when a result-mode use case returns err', async () => {
+    const { logger, child } = createMockLogger();
+    const interceptor = createLoggingInterceptor(logger);
+    const failure = err(new ConflictError({ message: 'Email taken', code: 'EMAIL_TAKEN' }));
+
+    const output = await interceptor(invocation, async () => failure);
+
+    expect(output).toBe(failure);
+    expect(child.info).not.toHaveBeenCalled();
+    expect(child.warn).toHaveBeenCalledWith(
+      'Use case returned an error',
+      expect.objectContaining({ error: 'Email taken', errorCode: 'EMAIL_TAKEN' }),
+    );
+  });
+
+  it('should log ok results as completed', async () => {
+    const { logger, child } = createMockLogger();
+    const interceptor = createLoggingInterceptor(logger);
+
+    await interceptor(invocation, async () => ok({ id: '1' }));
+
+    expect(child.info).toHaveBeenCalledWith('Use case completed', expect.any(Object));
+    expect(child.warn).not.toHaveBeenCalled();
+  });
+
+  it('should log thrown errors and rethrow them', async () => {
+    const { logger, child } = createMockLogger();
+    const interceptor = createLoggingInterceptor(logger);
+    const error = new Error('boom');
+
+    await expect(
+      interceptor(invocation, async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(child.error).toHaveBeenCalledWith(
+      'Use case failed',
+      expect.objectContaining({ error: 'boom', errorName: 'Error' }),
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createTransactionInterceptor } from '../transaction.interceptor';
+import { ConflictError } from '../../exceptions/conflict.error';
+import { ok, err } from '../../../global/utils/result.util';
+import type { UnitOfWorkPort } from '../../../global/interfaces/ports/unit-of-work.port';
+
+function createMockUnitOfWork() {
+  const events: string[] = [];
+  const unitOfWork: UnitOfWorkPort = {
+    async atomicExecute<T>(work: () => Promise<T>): Promise<T> {
+      events.push('begin');
+      try {
+        const output = await work();
+        events.push('commit');
+        return output;
+      } catch (error) {
+        events.push('rollback');
+        throw error;
+      }
+    },
+  };
+  return { unitOfWork, events };
+}
+
+const invocation = { useCase: 'TransferFundsUseCase', input: {} };
+
+describe('createTransactionInterceptor', () => {
+  it('should commit when the use case succeeds', async () => {
+    const { unitOfWork, events } = createMockUnitOfWork();
+    const interceptor = createTransactionInterceptor(unitOfWork);
+
+    const output = await interceptor(invocation, async () => {
+      events.push('work');
+      return { success: true };
+    });
+
+    expect(output).toEqual({ success: true });
+    expect(events).toEqual(['begin', 'work', 'commit']);
+  });
+
+  it('should commit ok results', async () => {
+    const { unitOfWork, events } = createMockUnitOfWork();
+    const interceptor = createTransactionInterceptor(unitOfWork);
+
+    await interceptor(invocation, async () => ok({ success: true }));
+
+    expect(events).toEqual(['begin', 'commit']);
+  });
+
+  it('should roll back and rethrow when the use case throws', async () => {
+    const { unitOfWork, events } = createMockUnitOfWork();
+    const interceptor = createTransactionInterceptor(unitOfWork);
+    const error = new Error('boom');
+
+    await expect(
+      interceptor(invocation, async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(events).toEqual(['begin', 'rollback']);
+  });
+
+  it('should roll back but still return err results', async () => {
+    const { unitOfWork, events } = createMockUnitOfWork();
+    const interceptor = createTransactionInterceptor(unitOfWork);
+    const failure = err(new ConflictError({ message: 'Insufficient funds' }));
+
+    const output = await interceptor(invocation, async () => failure);
+
+    expect(output).toBe(failure);
+    expect(events).toEqual(['begin', 'rollback']);
+  });
+});
@@ -0,0 +1,53 @@
+import type { UnitOfWorkPort } from '../../global/interfaces/ports/unit-of-work.port';
+import { isResult } from '../../global/utils/result.util';
+import type { UseCaseInterceptor } from './use-case-interceptor.type';
+
+/**
+ * Carries an `err(...)` result out of the transaction so it is rolled back.
+ */
+class RollbackSignal {
+  constructor(readonly output: unknown) {}
+}
+
+/**
+ * Creates an interceptor that runs each use case inside a {@link UnitOfWorkPort}
+ * transaction.
+ *
+ * The transaction is rolled back when the use case throws, and also when a
+ * result-mode use case returns `err(...)`; the result is still returned as-is.
+ *
+ * @param unitOfWork - Unit of work that opens the transaction
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * class TransferFundsUseCase extends BaseInboundAdapter<Input, Output> {
+ *   protected override readonly interceptors: readonly UseCaseInterceptor[];
+ *
+ *   constructor(unitOfWork: UnitOfWorkPort, private readonly accounts: AccountRepository) {
+ *     super();
+ *     this.interceptors = [createTransactionInterceptor(unitOfWork)];
+ *   }
+ *
+ *   protected async handle(input: Input): Promise<Output> {
+ *     await this.accounts.debit(input.fromId, input.amount);
+ *     await this.accounts.credit(input.toId, input.amount);
+ *     return { success: true };
+ *   }
+ * }
+ * ```
+ */
+export function createTransactionInterceptor(unitOfWork: UnitOfWorkPort): UseCaseInterceptor {
+  return async (_invocation, next) => {
+    try {
+      return await unitOfWork.atomicExecute(async () => {
+        const output = await next();
+        if (isResult(output) && !output.ok) throw new RollbackSignal(output);
+        return output;
+      });
+    } catch (error) {
+      if (error instanceof RollbackSignal) return error.output;
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * A single use case execution, as seen by interceptors.
+ */
+export interface UseCaseInvocation {
+  /** Name of the use case class (e.g. `'CreateUserUseCase'`). */
+  readonly useCase: string;
+
+  /** Input passed to `execute()`. */
+  readonly input: unknown;
+}
+
+/**
+ * Cross-cutting behavior wrapped around a use case execution.
+ *
+ * Interceptors form a chain around `handle()`. They run after `requiredPolicy`
+ * and `authorize()`, so skipping the use case never skips authorization. Each
+ * one receives the invocation and a `next` function that runs the rest of the
+ * chain. It can act before and after `next()`, replace its output, or skip
+ * it entirely (e.g. on a cache hit).
+ *
+ * The output is the use case output, or a `Result` for result-mode use
+ * cases. Errors thrown by `next()` are the raw errors from the use case,
+ * before `BaseInboundAdapter` wraps unknown ones in `UseCaseError`.
+ *
+ * @example
+ * ```typescript
+ * const tracing: UseCaseInterceptor = async (invocation, next) => {
+ *   const span = tracer.startSpan(invocation.useCase);
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     span.end();
+ *   }
+ * };
+ * ```
+ */
+export type UseCaseInterceptor = (
+  invocation: UseCaseInvocation,
+  next: () => Promise<unknown>,
+) => Promise<unknown>;
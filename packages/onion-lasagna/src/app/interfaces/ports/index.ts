@@ -1 +1,3 @@
 export * from './base-inbound.port';
+export * from './outbox.port';
+export * from './repository.port';
@@ -0,0 +1,122 @@
+import type { SerializedDomainEvent } from '../../../domain/classes/base-domain-event.class';
+
+/**
+ * Delivery state of an outbox message.
+ *
+ * - `pending` — Waiting for (re)delivery.
+ * - `delivered` — Delivered successfully; eligible for cleanup.
+ * - `dead` — Gave up after a permanent failure or too many attempts.
+ */
+export type OutboxMessageStatus = 'pending' | 'delivered' | 'dead';
+
+/**
+ * A domain event stored in the outbox together with its delivery bookkeeping.
+ */
+export interface OutboxMessage {
+  /** The serialized domain event, as produced by `BaseDomainEvent.toJSON()`. */
+  readonly event: SerializedDomainEvent;
+
+  /** Monotonic position assigned on append. Defines delivery order. */
+  readonly sequence: number;
+
+  /** Current delivery state. */
+  readonly status: OutboxMessageStatus;
+
+  /** Number of failed delivery attempts so far. */
+  readonly attempts: number;
+
+  /** Earliest time the message may be retried. `undefined` means immediately. */
+  readonly availableAt?: Date;
+
+  /** Reason of the last failed attempt, if any. */
+  readonly lastError?: string;
+}
+
+/**
+ * Options for {@link OutboxPort.fetchPending}.
+ */
+export interface FetchPendingOutboxOptions {
+  /** Maximum number of messages to return. */
+  readonly limit: number;
+
+  /** Reference time used to decide whether a retried message is due. */
+  readonly now: Date;
+}
+
+/**
+ * Outbound port for the transactional outbox.
+ *
+ * Domain events are appended inside the same transaction that persists the
+ * aggregate, so they are stored if and only if the state change commits.
+ * A relay later reads pending messages and delivers them to the events tier.
+ *
+ * Implementations must append through the connection of the surrounding
+ * `UnitOfWorkPort` transaction, otherwise the atomicity guarantee is lost.
+ *
+ * ## Ordering contract
+ *
+ * `fetchPending` returns pending messages in `sequence` order and never
+ * returns a message while an earlier pending message of the same
+ * `aggregateId` is waiting for a retry. This keeps delivery ordered per
+ * aggregate while unrelated aggregates keep flowing.
+ *
+ * @example
+ * ```typescript
+ * class PostgresOutbox extends BaseOutboundAdapter implements OutboxPort {
+ *   async append(events: readonly SerializedDomainEvent[]): Promise<void> {
+ *     await this.tx.insert(outboxMessages).values(events.map(toRow));
+ *   }
+ *   // ...
+ * }
+ * ```
+ */
+export interface OutboxPort {
+  /**
+   * Stores events for later delivery, preserving the given order.
+   *
+   * @param events - Serialized domain events to append
+   */
+  append(events: readonly SerializedDomainEvent[]): Promise<void>;
+
+  /**
+   * Returns pending messages that are due for delivery.
+   *
+   * @param options - Batch size and reference time
+   * @returns Messages in `sequence` order
+   */
+  fetchPending(options: FetchPendingOutboxOptions): Promise<OutboxMessage[]>;
+
+  /**
+   * Marks a message as delivered.
+   *
+   * @param eventId - The delivered event's id
+   * @param deliveredAt - Delivery time, used by {@link purgeDelivered}
+   */
+  markDelivered(eventId: string, deliveredAt: Date): Promise<void>;
+
+  /**
+   * Records a failed attempt and schedules the next one.
+   *
+   * @param eventId - The failed event's id
+   * @param failure - Failure reason and the earliest retry time
+   */
+  markRetry(eventId: string, failure: { reason: string; availableAt: Date }): Promise<void>;
+
+  /**
+   * Records a final failed attempt and stops delivering the message.
+   *
+   * Dead messages are kept for inspection and are never purged automatically.
+   *
+   * @param eventId - The failed event's id
+   * @param failure - Failure reason
+   */
+  markDead(eventId: string, failure: { reason: string }): Promise<void>;
+
+  /**
+   * Deletes delivered messages.
+   *
+   * @param cutoff - Only messages delivered at or before this time are removed
+   * @returns Number of removed messages
+   */
+  purgeDelivered(cutoff: Date): Promise<number>;
+}
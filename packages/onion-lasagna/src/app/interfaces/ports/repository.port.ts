@@ -0,0 +1,70 @@
+import type { BaseAggregateRoot } from '../../../domain/classes/base-aggregate-root.class';
+import type { BaseValueObject } from '../../../domain/classes/base-value-object.class';
+
+/**
+ * Outbound port for aggregate persistence with optimistic concurrency.
+ *
+ * A repository loads and stores whole aggregates by identity. Writes are
+ * guarded by `BaseEntity.version`: the aggregate's `version` is the version
+ * the caller loaded, and the repository must reject the write with a
+ * {@link ConcurrencyConflictError} when the stored version differs. A
+ * successful write stores the aggregate at `version + 1`.
+ *
+ * Bounded contexts extend this interface with their own query methods
+ * (`findByEmail`, `listPending`, ...) rather than redefining the basics.
+ *
+ * @typeParam TAggregate - The aggregate root type
+ * @typeParam TId - The aggregate identity type
+ *
+ * @example
+ * ```typescript
+ * interface OrderRepositoryPort extends RepositoryPort<Order, OrderId> {
+ *   findByCustomer(customerId: CustomerId): Promise<Order[]>;
+ * }
+ *
+ * class ConfirmOrderUseCase extends BaseInboundAdapter<ConfirmOrderInput, void> {
+ *   constructor(private readonly orders: OrderRepositoryPort) {
+ *     super();
+ *   }
+ *
+ *   protected async handle(input: ConfirmOrderInput): Promise<void> {
+ *     const order = await this.orders.findById(OrderId.create(input.orderId));
+ *     if (!order) throw new NotFoundError({ message: 'Order not found' });
+ *
+ *     order.confirm();
+ *     await this.orders.save(order); // throws ConcurrencyConflictError if stale
+ *   }
+ * }
+ * ```
+ */
+export interface RepositoryPort<
+  TAggregate extends BaseAggregateRoot<TId, object>,
+  TId extends BaseValueObject<unknown>,
+> {
+  /**
+   * Loads an aggregate by identity.
+   *
+   * @param id - The aggregate identity
+   * @returns The aggregate at its stored version, or `null` when absent
+   */
+  findById(id: TId): Promise<TAggregate | null>;
+
+  /**
+   * Inserts or updates an aggregate.
+   *
+   * An aggregate with `version` 0 is treated as new; any other version must
+   * match the stored one.
+   *
+   * @param aggregate - The aggregate to persist
+   * @throws {ConcurrencyConflictError} When the stored version does not match `aggregate.version`
+   */
+  save(aggregate: TAggregate): Promise<void>;
+
+  /**
+   * Removes an aggregate.
+   *
+   * @param aggregate - The aggregate to remove (its version must match the stored one)
+   * @throws {ConcurrencyConflictError} When the stored version does not match `aggregate.version`
+   */
+  delete(aggregate: TAggregate): Promise<void>;
+}
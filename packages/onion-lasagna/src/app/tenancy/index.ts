@@ -0,0 +1 @@
+export * from './tenant-context.util';
@@ -0,0 +1,45 @@
+import { ForbiddenError } from '../exceptions/forbidden.error';
+import { TenantId } from '../../domain/value-objects/tenant-id.vo';
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { getExecutionContext } from '../../global/utils/execution-context.util';
+
+/**
+ * Returns the tenant of the ambient execution context, or `undefined` when
+ * no tenant was resolved.
+ *
+ * @example
+ * ```typescript
+ * const tenantId = currentTenantId();
+ * const key = tenantId ? `plans:${tenantId.value}` : 'plans:default';
+ * ```
+ */
+export function currentTenantId(): TenantId | undefined {
+  const tenantId = getExecutionContext()?.tenantId;
+  return tenantId === undefined ? undefined : TenantId.create(tenantId);
+}
+
+/**
+ * Returns the tenant of the ambient execution context.
+ *
+ * @returns The current tenant
+ * @throws {ForbiddenError} `TENANT_REQUIRED` when no tenant was resolved
+ *
+ * @example
+ * ```typescript
+ * protected async handle(input: CreateProjectInput): Promise<CreateProjectOutput> {
+ *   const project = Project.create({ ...input, tenantId: requireTenantId() });
+ *   await this.projects.save(project);
+ *   return { projectId: project.id.value };
+ * }
+ * ```
+ */
+export function requireTenantId(): TenantId {
+  const tenantId = currentTenantId();
+  if (!tenantId) {
+    throw new ForbiddenError({
+      message: 'This operation requires a tenant',
+      code: ErrorCodes.App.TENANT_REQUIRED,
+    });
+  }
+  return tenantId;
+}
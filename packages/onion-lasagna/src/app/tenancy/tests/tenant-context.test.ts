@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { currentTenantId, requireTenantId } from '../tenant-context.util';
+import { ForbiddenError } from '../../exceptions/forbidden.error';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
+
+describe('tenant context', () => {
+  describe('currentTenantId', () => {
+    it('should return the tenant of the execution context', () => {
+      const tenantId = runWithExecutionContext({ correlationId: 'c-1', tenantId: 'acme' }, () =>
+        currentTenantId(),
+      );
+
+      expect(tenantId?.value).toBe('acme');
+    });
+
+    it('should return undefined without a tenant', () => {
+      expect(currentTenantId()).toBeUndefined();
+      expect(runWithExecutionContext({ correlationId: 'c-1' }, () => currentTenantId())).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe('requireTenantId', () => {
+    it('should return the tenant of the execution context', () => {
+      const tenantId = runWithExecutionContext({ correlationId: 'c-1', tenantId: 'acme' }, () =>
+        requireTenantId(),
+      );
+
+      expect(tenantId.value).toBe('acme');
+    });
+
+    it('should throw ForbiddenError with TENANT_REQUIRED without a tenant', () => {
+      let thrown: unknown;
+      try {
+        requireTenantId();
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ForbiddenError);
+      expect((thrown as ForbiddenError).code).toBe('TENANT_REQUIRED');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import type { BaseValueObject } from './base-value-object.class';
 import { BaseEntity } from './base-entity.class';
 import type { BaseDomainEvent } from './base-domain-event.class';
+import type { StateMachine } from './state-machine.class';
 import { PartialLoadError } from '../exceptions/partial-load.error';
 
 /**
@@ -130,6 +131,35 @@ export abstract class BaseAggregateRoot<
     this._domainEvents.push(event);
   }
 
+  /**
+   * Applies a state machine transition and records its domain event.
+   *
+   * The aggregate is passed to the transition's guard and event factory.
+   * Assign the returned state to the aggregate's status property.
+   *
+   * @param machine - The aggregate's lifecycle state machine
+   * @param from - The current state
+   * @param transition - The transition to apply
+   * @returns The new state
+   * @throws {InvariantViolationError} When the transition is illegal from `from` or its guard fails
+   *
+   * @example
+   * ```typescript
+   * ship(): void {
+   *   this._props.status = this.applyTransition(orderLifecycle, this.props.status, 'ship');
+   * }
+   * ```
+   */
+  protected applyTransition<TState extends string, TTransition extends string>(
+    machine: StateMachine<TState, TTransition, this>,
+    from: TState,
+    transition: TTransition,
+  ): TState {
+    const { state, event } = machine.transition(from, transition, this);
+    if (event) this.addDomainEvent(event);
+    return state;
+  }
+
   /**
    * Returns and clears all pending domain events.
    *
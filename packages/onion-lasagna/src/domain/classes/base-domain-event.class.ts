@@ -1,4 +1,39 @@
 import { randomUUID } from 'node:crypto';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+import { getExecutionContext } from '../../global/utils/execution-context.util';
+
+/**
+ * Plain-object form of a domain event, as produced by `toJSON()` and
+ * consumed by `fromJSON()` / `DomainEventRegistry.deserialize()`.
+ *
+ * @typeParam TPayload - The event-specific data payload type
+ */
+export interface SerializedDomainEvent<TPayload = unknown> {
+  eventId: string;
+  eventName: string;
+  /** Payload schema version. */
+  eventVersion: number;
+  aggregateId: string;
+  /** ISO-8601 timestamp. */
+  occurredOn: string;
+  payload: TPayload;
+  /** Correlation ID of the flow that raised the event. */
+  correlationId?: string;
+  /** ID of the request, event or run that caused the event. */
+  causationId?: string;
+  /** Tenant the event was raised for. */
+  tenantId?: string;
+}
+
+/**
+ * A concrete domain event class, regardless of its constructor signature.
+ *
+ * @typeParam TEvent - The event instance type
+ */
+export interface DomainEventClass<TEvent extends BaseDomainEvent = BaseDomainEvent> {
+  readonly prototype: TEvent;
+  readonly eventVersion: number;
+}
 
 /**
  * Base class for Domain Events in Domain-Driven Design.
@@ -12,6 +47,10 @@ import { randomUUID } from 'node:crypto';
  * - **Named in past tense**: e.g., OrderPlaced, UserRegistered, PaymentReceived
  * - **Contain relevant data**: Include all information needed by handlers
  * - **Raised by Aggregate Roots**: Events are collected and published after persistence
+ * - **Versioned**: `eventVersion` identifies the payload schema; bump it when the
+ *   payload shape changes and register an upcaster for stored older versions
+ * - **Traceable**: `correlationId`, `causationId` and `tenantId` are taken from
+ *   the ambient execution context when the event is created
  *
  * @typeParam TPayload - The event-specific data payload type
  *
@@ -46,11 +85,20 @@ import { randomUUID } from 'node:crypto';
  * ```
  */
 export abstract class BaseDomainEvent<TPayload = unknown> {
+  /**
+   * Payload schema version of this event class. Override in subclasses when
+   * the payload shape changes (e.g., `static override readonly eventVersion = 2;`).
+   */
+  static readonly eventVersion: number = 1;
+
   private readonly _eventId: string;
   private readonly _eventName: string;
   private readonly _aggregateId: string;
   private readonly _occurredOn: Date;
   private readonly _payload: TPayload;
+  private readonly _correlationId?: string;
+  private readonly _causationId?: string;
+  private readonly _tenantId?: string;
 
   /**
    * Deep clones an object, handling Date objects specially.
@@ -179,6 +227,11 @@ export abstract class BaseDomainEvent<TPayload = unknown> {
     // Clone the caller-supplied Date so external mutation doesn't affect the event (C01-2).
     this._occurredOn = occurredOn ? new Date(occurredOn.getTime()) : new Date();
     this._payload = BaseDomainEvent.cloneAndFreeze(payload);
+
+    const context = getExecutionContext();
+    this._correlationId = context?.correlationId;
+    this._causationId = context?.causationId;
+    this._tenantId = context?.tenantId;
   }
 
   /**
@@ -228,6 +281,38 @@ export abstract class BaseDomainEvent<TPayload = unknown> {
     return this._payload;
   }
 
+  /**
+   * Correlation ID of the flow that raised this event, if it was raised
+   * inside an execution context.
+   */
+  public get correlationId(): string | undefined {
+    return this._correlationId;
+  }
+
+  /**
+   * ID of the request, event or run that caused this event, if it was
+   * raised inside an execution context.
+   */
+  public get causationId(): string | undefined {
+    return this._causationId;
+  }
+
+  /**
+   * Tenant this event was raised for, if it was raised inside an execution
+   * context with a tenant.
+   */
+  public get tenantId(): string | undefined {
+    return this._tenantId;
+  }
+
+  /**
+   * Payload schema version, taken from the concrete class's static
+   * `eventVersion`.
+   */
+  public get eventVersion(): number {
+    return (this.constructor as typeof BaseDomainEvent).eventVersion;
+  }
+
   /**
    * Serializes the event to a plain object for persistence or messaging.
    *
@@ -240,25 +325,81 @@ export abstract class BaseDomainEvent<TPayload = unknown> {
    * // {
    * //   eventId: 'uuid',
    * //   eventName: 'OrderPlaced',
+   * //   eventVersion: 1,
    * //   aggregateId: '123',
    * //   occurredOn: '2024-01-15T10:30:00.000Z',
    * //   payload: { orderId: '123', ... }
    * // }
    * ```
    */
-  public toJSON(): {
-    eventId: string;
-    eventName: string;
-    aggregateId: string;
-    occurredOn: string;
-    payload: TPayload;
-  } {
+  public toJSON(): SerializedDomainEvent<TPayload> {
     return {
       eventId: this._eventId,
       eventName: this._eventName,
+      eventVersion: this.eventVersion,
       aggregateId: this._aggregateId,
       occurredOn: this._occurredOn.toISOString(),
       payload: this._payload,
+      ...(this._correlationId ? { correlationId: this._correlationId } : {}),
+      ...(this._causationId ? { causationId: this._causationId } : {}),
+      ...(this._tenantId ? { tenantId: this._tenantId } : {}),
     };
   }
+
+  /**
+   * Restores an event of the calling class from its serialized form.
+   *
+   * The instance is rebuilt without running the subclass constructor, so
+   * `eventId` and `occurredOn` are preserved exactly. The payload is cloned
+   * and deep-frozen like a freshly constructed event.
+   *
+   * The serialized `eventVersion` must equal the class's current version;
+   * older records should go through `DomainEventRegistry.deserialize()`,
+   * which upcasts them first. Records written before versioning (without
+   * `eventVersion`) are treated as version 1.
+   *
+   * @param json - The serialized event (as produced by `toJSON()`)
+   * @returns A typed event instance
+   * @throws {InvariantViolationError} When the version does not match or the timestamp is invalid
+   *
+   * @example
+   * ```typescript
+   * const stored = JSON.parse(row.body) as SerializedDomainEvent;
+   * const event = OrderPlacedEvent.fromJSON(stored);
+   * event instanceof OrderPlacedEvent; // true
+   * ```
+   */
+  public static fromJSON<TEvent extends BaseDomainEvent>(
+    this: DomainEventClass<TEvent>,
+    json: SerializedDomainEvent,
+  ): TEvent {
+    const version = json.eventVersion ?? 1;
+    if (version !== this.eventVersion) {
+      throw new InvariantViolationError({
+        message: `Cannot restore '${json.eventName}' v${version} as v${this.eventVersion}; upcast it first`,
+        code: 'EVENT_VERSION_MISMATCH',
+      });
+    }
+
+    const occurredOn = new Date(json.occurredOn);
+    if (Number.isNaN(occurredOn.getTime())) {
+      throw new InvariantViolationError({
+        message: `Invalid occurredOn timestamp for '${json.eventName}': ${json.occurredOn}`,
+        code: 'INVALID_EVENT_TIMESTAMP',
+      });
+    }
+
+    const event = Object.create(this.prototype) as TEvent;
+    Object.assign(event, {
+      _eventId: json.eventId,
+      _eventName: json.eventName,
+      _aggregateId: json.aggregateId,
+      _occurredOn: occurredOn,
+      _payload: BaseDomainEvent.cloneAndFreeze(json.payload),
+      _correlationId: json.correlationId,
+      _causationId: json.causationId,
+      _tenantId: json.tenantId,
+    });
+    return event;
+  }
 }
@@ -0,0 +1,258 @@
+import type { BaseValueObject } from './base-value-object.class';
+import { BaseAggregateRoot } from './base-aggregate-root.class';
+import { BaseDomainEvent } from './base-domain-event.class';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * A domain event as read back from an event store, paired with its position
+ * in the aggregate's stream (1-based).
+ *
+ * @typeParam TEvent - The domain event type
+ */
+export interface RecordedDomainEvent<TEvent extends BaseDomainEvent = BaseDomainEvent> {
+  /** Stream version produced by this event (the first event is version 1). */
+  readonly version: number;
+  /** The recorded event. */
+  readonly event: TEvent;
+}
+
+/**
+ * Point-in-time state of an event-sourced aggregate.
+ *
+ * Snapshots let rehydration start from `version` instead of replaying the
+ * whole stream; only events recorded after it need to be applied.
+ *
+ * @typeParam TState - The snapshot state type
+ */
+export interface AggregateSnapshot<TState> {
+  /** Stream version the state corresponds to. */
+  readonly version: number;
+  /** The aggregate state at that version. */
+  readonly state: TState;
+}
+
+/**
+ * Base class for event-sourced Aggregate Roots.
+ *
+ * Where {@link BaseAggregateRoot} persists state and merely *collects* domain
+ * events, an event-sourced aggregate *derives* its state from them: command
+ * methods call `apply(event)`, which runs the typed `when(event)` handler to
+ * mutate state and records the event as uncommitted. Loading replays the
+ * stored stream through the same `when` handler, so state transitions live
+ * in exactly one place.
+ *
+ * **Versioning:**
+ * - `version` is the stream version that was loaded (or last committed) —
+ *   the expected version when appending to the event store
+ * - `currentVersion` additionally counts uncommitted events
+ * - `pullDomainEvents()` hands the uncommitted events to the caller and
+ *   advances `version` past them; call it once they are appended
+ *
+ * @typeParam TId - The identity type (must extend BaseValueObject)
+ * @typeParam TProps - The state derived from events
+ * @typeParam TEvent - Union of the domain events this aggregate handles
+ * @typeParam TSnapshotState - Snapshot state type (defaults to `TProps`)
+ *
+ * @example
+ * ```typescript
+ * type LedgerEvent = LedgerOpened | FundsDeposited;
+ *
+ * class Ledger extends BaseEventSourcedAggregateRoot<LedgerId, LedgerProps, LedgerEvent> {
+ *   static open(id: LedgerId, owner: string): Ledger {
+ *     const ledger = new Ledger(id, { owner: '', balance: 0 });
+ *     ledger.apply(new LedgerOpened(id.value, { owner }));
+ *     return ledger;
+ *   }
+ *
+ *   static rehydrate(id: LedgerId, history: RecordedDomainEvent<LedgerEvent>[]): Ledger {
+ *     const ledger = new Ledger(id, { owner: '', balance: 0 });
+ *     ledger.loadFromHistory(history);
+ *     return ledger;
+ *   }
+ *
+ *   deposit(amount: number): void {
+ *     if (amount <= 0) throw new InvariantViolationError({ message: 'Amount must be positive' });
+ *     this.apply(new FundsDeposited(this.id.value, { amount }));
+ *   }
+ *
+ *   protected when(event: LedgerEvent): void {
+ *     if (event instanceof LedgerOpened) this._props.owner = event.payload.owner;
+ *     if (event instanceof FundsDeposited) this._props.balance += event.payload.amount;
+ *   }
+ * }
+ *
+ * // In an event-store repository
+ * async save(ledger: Ledger): Promise<void> {
+ *   await this.store.append(ledger.id.value, ledger.peekDomainEvents(), ledger.version);
+ *   ledger.pullDomainEvents();
+ * }
+ * ```
+ */
+export abstract class BaseEventSourcedAggregateRoot<
+  TId extends BaseValueObject<unknown>,
+  TProps extends object,
+  TEvent extends BaseDomainEvent = BaseDomainEvent,
+  TSnapshotState = TProps,
+> extends BaseAggregateRoot<TId, TProps> {
+  private _committedVersion: number;
+
+  /**
+   * Creates a new event-sourced Aggregate Root instance.
+   *
+   * @param id - The unique identifier for this aggregate
+   * @param props - The initial state, before any event is applied
+   * @param version - Optional stream version the state corresponds to (defaults to 0)
+   */
+  protected constructor(id: TId, props: TProps, version?: number) {
+    super(id, props, version);
+    this._committedVersion = super.version;
+  }
+
+  /**
+   * Mutates state in response to an event.
+   *
+   * Called both for new events (via `apply`) and during replay, so it must
+   * be deterministic and must not validate, raise events or perform I/O —
+   * the event is a fact that has already happened.
+   *
+   * @param event - The event to apply to the current state
+   */
+  protected abstract when(event: TEvent): void;
+
+  /**
+   * Applies a new event: mutates state via `when` and records the event as
+   * uncommitted. Call this from command methods after validating invariants.
+   *
+   * @param event - The newly raised event
+   */
+  protected apply(event: TEvent): void {
+    this.when(event);
+    super.addDomainEvent(event);
+  }
+
+  /**
+   * Routes events added through the state-based API through `apply`, so state
+   * and the uncommitted stream never diverge.
+   *
+   * @param event - The event to apply
+   */
+  protected override addDomainEvent(event: BaseDomainEvent): void {
+    this.apply(event as TEvent);
+  }
+
+  /**
+   * Rebuilds state from a stored stream, optionally starting from a snapshot.
+   *
+   * Events are applied strictly in the order given. Recorded events (with a
+   * stream `version`) are additionally checked for gaps and reordering, and
+   * those already covered by the snapshot are skipped.
+   *
+   * @param history - Stored events, oldest first
+   * @param snapshot - Optional snapshot to start from
+   * @throws {InvariantViolationError} When the aggregate has uncommitted events,
+   * an event belongs to another aggregate, or recorded versions are not contiguous
+   */
+  protected loadFromHistory(
+    history: Iterable<TEvent | RecordedDomainEvent<TEvent>>,
+    snapshot?: AggregateSnapshot<TSnapshotState>,
+  ): void {
+    this.assertNoUncommittedEvents('load history into');
+
+    if (snapshot) {
+      this.restoreSnapshotState(snapshot.state);
+      this._committedVersion = snapshot.version;
+    }
+
+    for (const entry of history) {
+      const recorded = entry instanceof BaseDomainEvent ? undefined : entry;
+      const event = recorded ? recorded.event : (entry as TEvent);
+
+      if (recorded && recorded.version <= this._committedVersion) continue;
+      if (recorded && recorded.version !== this._committedVersion + 1) {
+        throw new InvariantViolationError({
+          message: `Event stream out of order: expected version ${this._committedVersion + 1}, got ${recorded.version}`,
+          code: 'EVENT_STREAM_OUT_OF_ORDER',
+        });
+      }
+
+      const id = this.id.value;
+      if (typeof id === 'string' && event.aggregateId !== id) {
+        throw new InvariantViolationError({
+          message: `Event '${event.eventName}' belongs to aggregate '${event.aggregateId}', not '${id}'`,
+          code: 'EVENT_AGGREGATE_MISMATCH',
+        });
+      }
+
+      this.when(event);
+      this._committedVersion += 1;
+    }
+  }
+
+  /**
+   * Captures the current state as a snapshot.
+   *
+   * @returns A snapshot at the committed `version`
+   * @throws {InvariantViolationError} When there are uncommitted events
+   */
+  public toSnapshot(): AggregateSnapshot<TSnapshotState> {
+    this.assertNoUncommittedEvents('snapshot');
+    return { version: this._committedVersion, state: this.snapshotState() };
+  }
+
+  /**
+   * Produces the snapshot state. Defaults to a shallow copy of the props,
+   * which is sufficient when props are Value Objects; override to produce a
+   * serializable shape for persisted snapshots.
+   */
+  protected snapshotState(): TSnapshotState {
+    return { ...this.props } as unknown as TSnapshotState;
+  }
+
+  /**
+   * Restores state from a snapshot. Must mirror {@link snapshotState}.
+   *
+   * @param state - The snapshot state
+   */
+  protected restoreSnapshotState(state: TSnapshotState): void {
+    this._props = { ...state } as unknown as TProps;
+  }
+
+  /**
+   * Returns the uncommitted events and marks them as committed, advancing
+   * `version` by their count. Call after the events have been appended.
+   *
+   * @returns The events raised since the aggregate was loaded or last committed
+   */
+  public override pullDomainEvents(): BaseDomainEvent[] {
+    const events = super.pullDomainEvents();
+    this._committedVersion += events.length;
+    return events;
+  }
+
+  /**
+   * The loaded (or last committed) stream version. This is the expected
+   * version when appending the uncommitted events.
+   */
+  public override get version(): number {
+    return this._committedVersion;
+  }
+
+  /** The stream version including uncommitted events. */
+  public get currentVersion(): number {
+    return this._committedVersion + this.peekDomainEvents().length;
+  }
+
+  /** Returns the next stream version after the committed one. */
+  protected override nextVersion(): number {
+    return this._committedVersion + 1;
+  }
+
+  private assertNoUncommittedEvents(action: string): void {
+    if (this.hasDomainEvents) {
+      throw new InvariantViolationError({
+        message: `Cannot ${action} an aggregate with uncommitted events`,
+        code: 'UNCOMMITTED_EVENTS',
+      });
+    }
+  }
+}
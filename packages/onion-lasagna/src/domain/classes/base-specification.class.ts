@@ -0,0 +1,363 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { DomainError } from '../exceptions/domain.error';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+import { BaseValueObject } from './base-value-object.class';
+
+/**
+ * Comparison operators supported by {@link FilterCondition}.
+ *
+ * - `eq` / `ne` — Equal / not equal
+ * - `gt` / `gte` / `lt` / `lte` — Ordering (numbers, strings, dates)
+ * - `in` / `notIn` — Membership in the given array
+ * - `contains` — Substring of a string, or element of an array
+ * - `startsWith` / `endsWith` — String prefix / suffix
+ * - `isNull` — Field is `null` or `undefined` (no `value`)
+ */
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'isNull';
+
+/**
+ * Scalar value a field can be compared with.
+ * Dates are serialized as ISO strings by `JSON.stringify`.
+ */
+export type FilterScalar = string | number | boolean | Date | null;
+
+/**
+ * Leaf of the filter AST: compares one field with a value.
+ */
+export interface FilterCondition {
+  readonly type: 'condition';
+  /** Property path on the candidate, dot-separated for nested fields (e.g. `address.city`). */
+  readonly field: string;
+  readonly operator: FilterOperator;
+  /** Scalar, or array for `in` / `notIn`. Omitted for `isNull`. */
+  readonly value?: FilterScalar | readonly FilterScalar[];
+}
+
+/**
+ * Serializable filter AST produced by {@link BaseSpecification.toFilter}.
+ *
+ * Repository adapters translate it to their query language (SQL `WHERE`,
+ * Mongo query, ...) or evaluate it in memory with {@link matchesFilter}.
+ */
+export type SpecificationFilter =
+  | FilterCondition
+  | { readonly type: 'and'; readonly filters: readonly SpecificationFilter[] }
+  | { readonly type: 'or'; readonly filters: readonly SpecificationFilter[] }
+  | { readonly type: 'not'; readonly filter: SpecificationFilter };
+
+/**
+ * Overrides for the error raised by {@link BaseSpecification.assertSatisfiedBy}.
+ */
+export interface SpecificationViolationOptions {
+  /** Error message (default: the specification's `violationMessage`). */
+  message?: string;
+  /** Error code (default: the specification's `violationCode`). */
+  code?: string;
+}
+
+/**
+ * Base class for specifications: named, composable business predicates.
+ *
+ * A specification answers one question about a candidate (`isSatisfiedBy`)
+ * and can optionally describe the same rule as a {@link SpecificationFilter},
+ * so the predicate used by entities is also the one repositories query with.
+ *
+ * Specifications built from {@link BaseSpecification.where} and their
+ * compositions support both. Hand-written subclasses only need
+ * `isSatisfiedBy`; override `toFilter` to make them translatable.
+ *
+ * @typeParam T - The candidate type
+ *
+ * @example Custom specification
+ * ```typescript
+ * class OverdueInvoice extends BaseSpecification<Invoice> {
+ *   protected override get violationCode(): string {
+ *     return 'INVOICE_NOT_OVERDUE';
+ *   }
+ *
+ *   constructor(private readonly today: Date) {
+ *     super();
+ *   }
+ *
+ *   isSatisfiedBy(invoice: Invoice): boolean {
+ *     return invoice.status === 'open' && invoice.dueDate < this.today;
+ *   }
+ *
+ *   override toFilter(): SpecificationFilter {
+ *     return BaseSpecification.where<Invoice>('status', 'eq', 'open')
+ *       .and(BaseSpecification.where<Invoice>('dueDate', 'lt', this.today))
+ *       .toFilter();
+ *   }
+ * }
+ * ```
+ *
+ * @example Composition
+ * ```typescript
+ * const remindable = new OverdueInvoice(clock.now()).and(
+ *   BaseSpecification.where<Invoice>('remindersSent', 'lt', 3),
+ * );
+ *
+ * remindable.assertSatisfiedBy(invoice, { code: 'REMINDER_NOT_ALLOWED' });
+ * const invoices = await invoiceRepo.findMatching(remindable.toFilter());
+ * ```
+ */
+export abstract class BaseSpecification<T> {
+  /**
+   * Creates a translatable specification comparing one field of the candidate.
+   *
+   * Value objects found along the path are unwrapped to their `value`.
+   *
+   * @param field - Property path, dot-separated for nested fields
+   * @param operator - Comparison operator
+   * @param value - Value to compare with (omit for `isNull`)
+   */
+  static where<T>(
+    field: (keyof T & string) | (string & {}),
+    operator: FilterOperator,
+    value?: FilterScalar | readonly FilterScalar[],
+  ): BaseSpecification<T> {
+    return new FilterSpecification<T>({ type: 'condition', field, operator, value });
+  }
+
+  /**
+   * Default code of the error raised by {@link assertSatisfiedBy}.
+   * Override in subclasses to give each rule its own code.
+   */
+  protected get violationCode(): string {
+    return ErrorCodes.Domain.SPECIFICATION_NOT_SATISFIED;
+  }
+
+  /**
+   * Default message of the error raised by {@link assertSatisfiedBy}.
+   */
+  protected get violationMessage(): string {
+    return `${this.constructor.name} is not satisfied`;
+  }
+
+  /**
+   * Checks whether the candidate satisfies this specification.
+   *
+   * @param candidate - The object to test
+   */
+  abstract isSatisfiedBy(candidate: T): boolean;
+
+  /**
+   * Describes this specification as a filter AST.
+   *
+   * @throws {DomainError} If the specification only exists as an in-memory predicate
+   *   (code `SPECIFICATION_NOT_TRANSLATABLE`)
+   */
+  public toFilter(): SpecificationFilter {
+    throw new DomainError({
+      message: `${this.constructor.name} cannot be translated to a filter. Override toFilter() to support it.`,
+      code: ErrorCodes.Domain.SPECIFICATION_NOT_TRANSLATABLE,
+    });
+  }
+
+  /**
+   * Throws if the candidate does not satisfy this specification.
+   *
+   * @param candidate - The object to test
+   * @param options - Overrides for the error message and code
+   * @throws {InvariantViolationError} When the specification is not satisfied
+   */
+  public assertSatisfiedBy(candidate: T, options: SpecificationViolationOptions = {}): void {
+    if (this.isSatisfiedBy(candidate)) return;
+    throw new InvariantViolationError({
+      message: options.message ?? this.violationMessage,
+      code: options.code ?? this.violationCode,
+    });
+  }
+
+  /** Satisfied when both this and `other` are satisfied. */
+  public and(other: BaseSpecification<T>): BaseSpecification<T> {
+    return new AndSpecification([this, other]);
+  }
+
+  /** Satisfied when this or `other` is satisfied. */
+  public or(other: BaseSpecification<T>): BaseSpecification<T> {
+    return new OrSpecification([this, other]);
+  }
+
+  /** Satisfied when this is not satisfied. */
+  public not(): BaseSpecification<T> {
+    return new NotSpecification(this);
+  }
+}
+
+/** @internal Leaf specification backed by a filter condition. */
+class FilterSpecification<T> extends BaseSpecification<T> {
+  constructor(private readonly condition: FilterCondition) {
+    super();
+  }
+
+  protected override get violationMessage(): string {
+    return `Expected "${this.condition.field}" to satisfy "${this.condition.operator}"`;
+  }
+
+  isSatisfiedBy(candidate: T): boolean {
+    return matchesFilter(this.condition, candidate);
+  }
+
+  override toFilter(): SpecificationFilter {
+    return this.condition;
+  }
+}
+
+/** @internal Conjunction of specifications. */
+class AndSpecification<T> extends BaseSpecification<T> {
+  constructor(private readonly specs: readonly BaseSpecification<T>[]) {
+    super();
+  }
+
+  isSatisfiedBy(candidate: T): boolean {
+    return this.specs.every((spec) => spec.isSatisfiedBy(candidate));
+  }
+
+  override toFilter(): SpecificationFilter {
+    return { type: 'and', filters: this.specs.map((spec) => spec.toFilter()) };
+  }
+}
+
+/** @internal Disjunction of specifications. */
+class OrSpecification<T> extends BaseSpecification<T> {
+  constructor(private readonly specs: readonly BaseSpecification<T>[]) {
+    super();
+  }
+
+  isSatisfiedBy(candidate: T): boolean {
+    return this.specs.some((spec) => spec.isSatisfiedBy(candidate));
+  }
+
+  override toFilter(): SpecificationFilter {
+    return { type: 'or', filters: this.specs.map((spec) => spec.toFilter()) };
+  }
+}
+
+/** @internal Negation of a specification. */
+class NotSpecification<T> extends BaseSpecification<T> {
+  constructor(private readonly spec: BaseSpecification<T>) {
+    super();
+  }
+
+  isSatisfiedBy(candidate: T): boolean {
+    return !this.spec.isSatisfiedBy(candidate);
+  }
+
+  override toFilter(): SpecificationFilter {
+    return { type: 'not', filter: this.spec.toFilter() };
+  }
+}
+
+/**
+ * Evaluates a filter AST against a candidate in memory.
+ *
+ * Reference semantics for adapters translating the AST: value objects are
+ * compared by their `value`, dates by timestamp, and ordering operators are
+ * `false` when either side is `null` or `undefined`.
+ *
+ * @param filter - The filter to evaluate
+ * @param candidate - The object to test
+ * @returns `true` if the candidate matches
+ *
+ * @example
+ * ```typescript
+ * const active = orders.filter((order) => matchesFilter(spec.toFilter(), order));
+ * ```
+ */
+export function matchesFilter(filter: SpecificationFilter, candidate: unknown): boolean {
+  switch (filter.type) {
+    case 'and':
+      return filter.filters.every((f) => matchesFilter(f, candidate));
+    case 'or':
+      return filter.filters.some((f) => matchesFilter(f, candidate));
+    case 'not':
+      return !matchesFilter(filter.filter, candidate);
+    case 'condition':
+      return matchesCondition(filter, candidate);
+  }
+}
+
+function matchesCondition(condition: FilterCondition, candidate: unknown): boolean {
+  const actual = resolveField(candidate, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'isNull':
+      return actual === null || actual === undefined;
+    case 'eq':
+      return isEqual(actual, expected);
+    case 'ne':
+      return !isEqual(actual, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some((item) => isEqual(actual, item));
+    case 'notIn':
+      return Array.isArray(expected) && !expected.some((item) => isEqual(actual, item));
+    case 'gt':
+      return compare(actual, expected, (a, b) => a > b);
+    case 'gte':
+      return compare(actual, expected, (a, b) => a >= b);
+    case 'lt':
+      return compare(actual, expected, (a, b) => a < b);
+    case 'lte':
+      return compare(actual, expected, (a, b) => a <= b);
+    case 'contains':
+      if (typeof actual === 'string')
+        return typeof expected === 'string' && actual.includes(expected);
+      return Array.isArray(actual) && actual.some((item) => isEqual(unwrap(item), expected));
+    case 'startsWith':
+      return (
+        typeof actual === 'string' && typeof expected === 'string' && actual.startsWith(expected)
+      );
+    case 'endsWith':
+      return (
+        typeof actual === 'string' && typeof expected === 'string' && actual.endsWith(expected)
+      );
+  }
+}
+
+function resolveField(candidate: unknown, path: string): unknown {
+  let current: unknown = candidate;
+  for (const key of path.split('.')) {
+    current = unwrap(current);
+    if (current === null || current === undefined) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return unwrap(current);
+}
+
+function unwrap(value: unknown): unknown {
+  return value instanceof BaseValueObject ? value.value : value;
+}
+
+function toComparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  return toComparable(actual ?? null) === toComparable(expected ?? null);
+}
+
+function compare(
+  actual: unknown,
+  expected: unknown,
+  predicate: (a: number | string, b: number | string) => boolean,
+): boolean {
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+  if (typeof a === 'number' && typeof b === 'number') return predicate(a, b);
+  if (typeof a === 'string' && typeof b === 'string') return predicate(a, b);
+  return false;
+}
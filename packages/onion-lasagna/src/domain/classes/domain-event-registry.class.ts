@@ -0,0 +1,168 @@
+import {
+  BaseDomainEvent,
+  type DomainEventClass,
+  type SerializedDomainEvent,
+} from './base-domain-event.class';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Transforms an event payload from one schema version to the next.
+ *
+ * @typeParam TFrom - Payload shape at the source version
+ * @typeParam TTo - Payload shape at the source version + 1
+ */
+export type EventUpcaster<TFrom = unknown, TTo = unknown> = (payload: TFrom) => TTo;
+
+/**
+ * Registry of domain event classes and payload upcasters.
+ *
+ * Turns serialized events read from an event store, outbox or queue back
+ * into typed {@link BaseDomainEvent} instances. Records written with an
+ * older `eventVersion` are upcast one version at a time (v1 → v2 → v3)
+ * until they match the registered class's current `eventVersion`.
+ *
+ * @example
+ * ```typescript
+ * class OrderPlacedEvent extends BaseDomainEvent<OrderPlacedV3> {
+ *   static override readonly eventVersion = 3;
+ *   // ...
+ * }
+ *
+ * const events = new DomainEventRegistry()
+ *   .register('OrderPlaced', OrderPlacedEvent)
+ *   .addUpcaster<OrderPlacedV1, OrderPlacedV2>('OrderPlaced', 1, (p) => ({ ...p, currency: 'USD' }))
+ *   .addUpcaster<OrderPlacedV2, OrderPlacedV3>('OrderPlaced', 2, ({ total, ...p }) => ({
+ *     ...p,
+ *     totalMinor: Math.round(total * 100),
+ *   }));
+ *
+ * const event = events.deserialize(JSON.parse(message.body));
+ * // → OrderPlacedEvent with a v3 payload, whatever version was stored
+ * ```
+ */
+export class DomainEventRegistry {
+  private readonly eventClasses = new Map<string, DomainEventClass>();
+  private readonly upcasters = new Map<string, Map<number, EventUpcaster>>();
+
+  /**
+   * Registers the class that represents an event name.
+   *
+   * @param eventName - The event name (as passed to the event constructor)
+   * @param eventClass - The concrete event class
+   * @returns The registry, for chaining
+   * @throws {InvariantViolationError} When the event name is already registered
+   */
+  register(eventName: string, eventClass: DomainEventClass): this {
+    if (this.eventClasses.has(eventName)) {
+      throw new InvariantViolationError({
+        message: `Domain event '${eventName}' is already registered`,
+        code: 'DUPLICATE_DOMAIN_EVENT',
+      });
+    }
+    this.eventClasses.set(eventName, eventClass);
+    return this;
+  }
+
+  /**
+   * Registers an upcaster from `fromVersion` to `fromVersion + 1`.
+   *
+   * @param eventName - The event name
+   * @param fromVersion - The payload version the upcaster accepts
+   * @param upcaster - Transforms the payload to the next version
+   * @returns The registry, for chaining
+   * @throws {InvariantViolationError} When an upcaster for that version already exists
+   */
+  addUpcaster<TFrom, TTo>(
+    eventName: string,
+    fromVersion: number,
+    upcaster: EventUpcaster<TFrom, TTo>,
+  ): this {
+    const chain = this.upcasters.get(eventName) ?? new Map<number, EventUpcaster>();
+    if (chain.has(fromVersion)) {
+      throw new InvariantViolationError({
+        message: `Upcaster for '${eventName}' v${fromVersion} is already registered`,
+        code: 'DUPLICATE_EVENT_UPCASTER',
+      });
+    }
+    chain.set(fromVersion, upcaster as EventUpcaster);
+    this.upcasters.set(eventName, chain);
+    return this;
+  }
+
+  /**
+   * Checks whether an event name has a registered class.
+   *
+   * @param eventName - The event name
+   */
+  has(eventName: string): boolean {
+    return this.eventClasses.has(eventName);
+  }
+
+  /**
+   * Upcasts a serialized event to the current version of its registered
+   * class, without instantiating it.
+   *
+   * @param json - The serialized event
+   * @returns The serialized event at the current version
+   * @throws {InvariantViolationError} When the event is unknown, an upcaster
+   * in the chain is missing, or the record is newer than the registered class
+   */
+  upcast(json: SerializedDomainEvent): SerializedDomainEvent {
+    const eventClass = this.resolve(json.eventName);
+    const targetVersion = eventClass.eventVersion;
+    let version = json.eventVersion ?? 1;
+
+    if (version > targetVersion) {
+      throw new InvariantViolationError({
+        message: `'${json.eventName}' v${version} is newer than the registered v${targetVersion}`,
+        code: 'EVENT_VERSION_MISMATCH',
+      });
+    }
+
+    let payload = json.payload;
+    const chain = this.upcasters.get(json.eventName);
+    while (version < targetVersion) {
+      const upcaster = chain?.get(version);
+      if (!upcaster) {
+        throw new InvariantViolationError({
+          message: `No upcaster registered for '${json.eventName}' v${version} → v${version + 1}`,
+          code: 'MISSING_EVENT_UPCASTER',
+        });
+      }
+      payload = upcaster(payload);
+      version += 1;
+    }
+
+    return { ...json, eventVersion: version, payload };
+  }
+
+  /**
+   * Restores a typed event instance from its serialized form, upcasting the
+   * payload first when it was stored with an older version.
+   *
+   * @typeParam TEvent - The expected event type
+   * @param json - The serialized event
+   * @returns The restored event instance
+   * @throws {InvariantViolationError} See {@link upcast}
+   */
+  deserialize<TEvent extends BaseDomainEvent = BaseDomainEvent>(
+    json: SerializedDomainEvent,
+  ): TEvent {
+    const eventClass = this.resolve(json.eventName) as DomainEventClass<TEvent>;
+    return BaseDomainEvent.fromJSON.call<DomainEventClass<TEvent>, [SerializedDomainEvent], TEvent>(
+      eventClass,
+      this.upcast(json),
+    );
+  }
+
+  private resolve(eventName: string): DomainEventClass {
+    const eventClass = this.eventClasses.get(eventName);
+    if (!eventClass) {
+      throw new InvariantViolationError({
+        message: `Unknown domain event '${eventName}'`,
+        code: 'UNKNOWN_DOMAIN_EVENT',
+      });
+    }
+    return eventClass;
+  }
+}
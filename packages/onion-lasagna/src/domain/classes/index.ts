@@ -1,4 +1,9 @@
 export * from './base-aggregate-root.class';
 export * from './base-domain-event.class';
 export * from './base-entity.class';
+export * from './base-event-sourced-aggregate-root.class';
+export * from './base-specification.class';
 export * from './base-value-object.class';
+export * from './domain-event-registry.class';
+export * from './state-machine.class';
+export * from './validation-collector.class';
@@ -0,0 +1,258 @@
+import type { BaseDomainEvent } from './base-domain-event.class';
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * A state change performed by a transition.
+ *
+ * @typeParam TState - Union of state names
+ * @typeParam TTransition - Union of transition names
+ */
+export interface StateChange<TState extends string = string, TTransition extends string = string> {
+  readonly transition: TTransition;
+  readonly from: TState;
+  readonly to: TState;
+}
+
+/**
+ * Declaration of a single transition.
+ *
+ * @typeParam TState - Union of state names
+ * @typeParam TTransition - The transition name
+ * @typeParam TContext - Object passed to guards and event factories (usually the aggregate)
+ */
+export interface TransitionDefinition<TState extends string, TTransition extends string, TContext> {
+  /** State(s) the transition may start from. */
+  readonly from: TState | readonly TState[];
+  /** State the transition leads to. */
+  readonly to: TState;
+  /** Extra condition that must hold for the transition to be allowed. */
+  readonly guard?: (context: TContext) => boolean;
+  /** Human-readable guard condition, used in error messages and diagrams. */
+  readonly guardDescription?: string;
+  /** Creates the domain event raised when the transition is applied. */
+  readonly event?: (context: TContext, change: StateChange<TState, TTransition>) => BaseDomainEvent;
+}
+
+/**
+ * Declaration of a state machine.
+ *
+ * @typeParam TState - Union of state names
+ * @typeParam TTransition - Union of transition names
+ * @typeParam TContext - Object passed to guards and event factories
+ */
+export interface StateMachineDefinition<
+  TState extends string,
+  TTransition extends string,
+  TContext,
+> {
+  /** Every state, in display order. */
+  readonly states: readonly TState[];
+  /** State new instances start in. */
+  readonly initial: TState;
+  /** Transitions keyed by name. */
+  readonly transitions: {
+    readonly [K in TTransition]: TransitionDefinition<TState, K, TContext>;
+  };
+}
+
+/**
+ * Result of applying a transition.
+ */
+export interface TransitionResult<TState extends string> {
+  /** The new state. */
+  readonly state: TState;
+  /** The domain event declared for the transition, if any. */
+  readonly event?: BaseDomainEvent;
+}
+
+/**
+ * Declarative state machine for aggregate lifecycles.
+ *
+ * Lists the states, the named transitions between them, optional guards
+ * and the domain event each transition raises. The machine holds no state
+ * itself: the aggregate keeps its current state and asks the machine to
+ * validate a transition, typically through
+ * `BaseAggregateRoot.applyTransition`, which also records the event.
+ *
+ * Illegal transitions throw an {@link InvariantViolationError} with code
+ * `ILLEGAL_STATE_TRANSITION`; failed guards use
+ * `STATE_TRANSITION_GUARD_FAILED`.
+ *
+ * @typeParam TState - Union of state names
+ * @typeParam TTransition - Union of transition names
+ * @typeParam TContext - Object passed to guards and event factories
+ *
+ * @example
+ * ```typescript
+ * const orderLifecycle = new StateMachine({
+ *   states: ['draft', 'placed', 'shipped', 'cancelled'],
+ *   initial: 'draft',
+ *   transitions: {
+ *     place: {
+ *       from: 'draft',
+ *       to: 'placed',
+ *       guard: (order: Order) => order.items.length > 0,
+ *       guardDescription: 'has items',
+ *       event: (order) => new OrderPlacedEvent({ orderId: order.id.value }),
+ *     },
+ *     ship: { from: 'placed', to: 'shipped' },
+ *     cancel: { from: ['draft', 'placed'], to: 'cancelled' },
+ *   },
+ * });
+ *
+ * orderLifecycle.can('shipped', 'cancel', order); // false
+ * orderLifecycle.toMermaid(); // stateDiagram-v2 ...
+ * ```
+ */
+export class StateMachine<const TState extends string, TTransition extends string, TContext> {
+  private readonly definition: StateMachineDefinition<TState, TTransition, TContext>;
+
+  /**
+   * Creates a state machine.
+   *
+   * @param definition - States, initial state and transitions
+   * @throws {InvariantViolationError} When the initial state or a transition
+   * refers to a state that is not listed
+   */
+  constructor(definition: StateMachineDefinition<TState, TTransition, TContext>) {
+    const known = new Set<string>(definition.states);
+    const referenced = [
+      definition.initial,
+      ...this.entries(definition).flatMap(([, transition]) => [
+        ...sources(transition),
+        transition.to,
+      ]),
+    ];
+    for (const state of referenced) {
+      if (!known.has(state)) {
+        throw new InvariantViolationError({
+          message: `State machine refers to unknown state '${state}'`,
+          code: 'UNKNOWN_STATE',
+        });
+      }
+    }
+    this.definition = definition;
+  }
+
+  /** Every state, in declaration order. */
+  get states(): readonly TState[] {
+    return this.definition.states;
+  }
+
+  /** State new instances start in. */
+  get initial(): TState {
+    return this.definition.initial;
+  }
+
+  /**
+   * Checks whether a transition may be applied.
+   *
+   * @param from - The current state
+   * @param transition - The transition name
+   * @param context - Passed to the guard
+   * @returns `true` when the transition starts from `from` and its guard passes
+   */
+  can(from: TState, transition: TTransition, context: TContext): boolean {
+    const definition = this.lookup(transition);
+    if (!definition || !sources(definition).includes(from)) return false;
+    return definition.guard?.(context) ?? true;
+  }
+
+  /**
+   * Lists the transitions that may be applied from a state.
+   *
+   * @param from - The current state
+   * @param context - Passed to the guards
+   */
+  allowedTransitions(from: TState, context: TContext): TTransition[] {
+    return this.entries(this.definition)
+      .map(([name]) => name)
+      .filter((name) => this.can(from, name, context));
+  }
+
+  /**
+   * Validates a transition and returns the new state and its domain event.
+   *
+   * @param from - The current state
+   * @param transition - The transition name
+   * @param context - Passed to the guard and the event factory
+   * @throws {InvariantViolationError} `ILLEGAL_STATE_TRANSITION` when the
+   * transition does not start from `from`, `STATE_TRANSITION_GUARD_FAILED`
+   * when its guard rejects it
+   */
+  transition(from: TState, transition: TTransition, context: TContext): TransitionResult<TState> {
+    const definition = this.lookup(transition);
+
+    if (!definition || !sources(definition).includes(from)) {
+      throw new InvariantViolationError({
+        message: `Cannot '${transition}' from state '${from}'`,
+        code: ErrorCodes.Domain.ILLEGAL_STATE_TRANSITION,
+      });
+    }
+
+    if (definition.guard && !definition.guard(context)) {
+      const condition = definition.guardDescription
+        ? ` (requires: ${definition.guardDescription})`
+        : '';
+      throw new InvariantViolationError({
+        message: `Cannot '${transition}' from state '${from}'${condition}`,
+        code: ErrorCodes.Domain.STATE_TRANSITION_GUARD_FAILED,
+      });
+    }
+
+    const change: StateChange<TState, TTransition> = { transition, from, to: definition.to };
+    return { state: definition.to, event: definition.event?.(context, change) };
+  }
+
+  /**
+   * Renders the machine as a Mermaid state diagram.
+   *
+   * Edges are labelled with the transition name and, when set, the guard
+   * description. States without outgoing transitions are marked as final.
+   */
+  toMermaid(): string {
+    const lines = ['stateDiagram-v2', `  [*] --> ${this.definition.initial}`];
+    const outgoing = new Set<string>();
+
+    for (const [name, transition] of this.entries(this.definition)) {
+      const label = transition.guardDescription ? `${name} [${transition.guardDescription}]` : name;
+      for (const from of sources(transition)) {
+        lines.push(`  ${from} --> ${transition.to}: ${label}`);
+        outgoing.add(from);
+      }
+    }
+
+    for (const state of this.definition.states) {
+      if (!outgoing.has(state)) lines.push(`  ${state} --> [*]`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Returns a declared transition. Own properties only, so names such as
+   * `'toString'` are unknown transitions rather than `Object.prototype` members.
+   */
+  private lookup(
+    transition: TTransition,
+  ): TransitionDefinition<TState, TTransition, TContext> | undefined {
+    const { transitions } = this.definition;
+    return Object.hasOwn(transitions, transition) ? transitions[transition] : undefined;
+  }
+
+  private entries(
+    definition: StateMachineDefinition<TState, TTransition, TContext>,
+  ): [TTransition, TransitionDefinition<TState, TTransition, TContext>][] {
+    return Object.entries(definition.transitions) as [
+      TTransition,
+      TransitionDefinition<TState, TTransition, TContext>,
+    ][];
+  }
+}
+
+function sources<TState extends string>(transition: {
+  readonly from: TState | readonly TState[];
+}): readonly TState[] {
+  return typeof transition.from === 'string' ? [transition.from] : transition.from;
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { BaseDomainEvent } from '../base-domain-event.class';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
 
 interface TestPayload {
   id: string;
@@ -17,6 +19,18 @@ class TestEvent extends BaseDomainEvent<TestPayload> {
   }
 }
 
+class VersionedEvent extends BaseDomainEvent<{ amountMinor: number }> {
+  static override readonly eventVersion = 2;
+
+  private constructor(aggregateId: string, payload: { amountMinor: number }) {
+    super('VersionedEvent', aggregateId, payload);
+  }
+
+  static create(aggregateId: string, amountMinor: number): VersionedEvent {
+    return new VersionedEvent(aggregateId, { amountMinor });
+  }
+}
+
 describe('BaseDomainEvent', () => {
   describe('payload immutability', () => {
     it('should not mutate the original payload object', () => {
@@ -244,6 +258,7 @@ describe('BaseDomainEvent', () => {
 
       expect(json.eventId).toBe(event.eventId);
       expect(json.eventName).toBe('TestEvent');
+      expect(json.eventVersion).toBe(1);
       expect(json.aggregateId).toBe('123');
       expect(json.occurredOn).toBe(event.occurredOn.toISOString());
       expect(json.payload).toEqual({
@@ -254,4 +269,92 @@ describe('BaseDomainEvent', () => {
       });
     });
   });
+
+  describe('eventVersion', () => {
+    it('should default to 1', () => {
+      const event = new TestEvent({
+        id: '1',
+        name: 'a',
+        nested: { value: 1, items: [] },
+        createdAt: new Date(),
+      });
+
+      expect(event.eventVersion).toBe(1);
+    });
+
+    it('should reflect the subclass static override', () => {
+      const event = VersionedEvent.create('agg-1', 500);
+
+      expect(event.eventVersion).toBe(2);
+      expect(event.toJSON().eventVersion).toBe(2);
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should round-trip an event through toJSON', () => {
+      const original = VersionedEvent.create('agg-1', 500);
+
+      const restored = VersionedEvent.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(restored).toBeInstanceOf(VersionedEvent);
+      expect(restored.eventId).toBe(original.eventId);
+      expect(restored.eventName).toBe('VersionedEvent');
+      expect(restored.aggregateId).toBe('agg-1');
+      expect(restored.occurredOn.getTime()).toBe(original.occurredOn.getTime());
+      expect(restored.payload).toEqual({ amountMinor: 500 });
+      expect(Object.isFrozen(restored.payload)).toBe(true);
+    });
+
+    it('should reject a record with a different eventVersion', () => {
+      const json = { ...VersionedEvent.create('agg-1', 500).toJSON(), eventVersion: 1 };
+
+      expect(() => VersionedEvent.fromJSON(json)).toThrow(InvariantViolationError);
+    });
+
+    it('should reject an invalid occurredOn timestamp', () => {
+      const json = { ...VersionedEvent.create('agg-1', 500).toJSON(), occurredOn: 'not-a-date' };
+
+      expect(() => VersionedEvent.fromJSON(json)).toThrow('Invalid occurredOn');
+    });
+  });
+
+  describe('correlation', () => {
+    it('should capture correlation and causation IDs from the execution context', () => {
+      const event = runWithExecutionContext({ correlationId: 'c-1', causationId: 'req-1' }, () =>
+        VersionedEvent.create('agg-1', 500),
+      );
+
+      expect(event.correlationId).toBe('c-1');
+      expect(event.causationId).toBe('req-1');
+      expect(event.toJSON()).toMatchObject({ correlationId: 'c-1', causationId: 'req-1' });
+    });
+
+    it('should capture the tenant from the execution context', () => {
+      const event = runWithExecutionContext({ correlationId: 'c-1', tenantId: 'acme' }, () =>
+        VersionedEvent.create('agg-1', 500),
+      );
+
+      expect(event.tenantId).toBe('acme');
+      expect(VersionedEvent.fromJSON(event.toJSON()).tenantId).toBe('acme');
+    });
+
+    it('should leave them out of toJSON outside of a context', () => {
+      const json = VersionedEvent.create('agg-1', 500).toJSON();
+
+      expect(json).not.toHaveProperty('correlationId');
+      expect(json).not.toHaveProperty('causationId');
+      expect(json).not.toHaveProperty('tenantId');
+    });
+
+    it('should restore them in fromJSON', () => {
+      const original = runWithExecutionContext({ correlationId: 'c-1', causationId: 'req-1' }, () =>
+        VersionedEvent.create('agg-1', 500),
+      );
+
+      const restored = VersionedEvent.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(restored.correlationId).toBe('c-1');
+      expect(restored.causationId).toBe('req-1');
+    });
+  });
 });
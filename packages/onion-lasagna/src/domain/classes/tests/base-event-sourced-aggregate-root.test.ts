@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BaseEventSourcedAggregateRoot,
+  type AggregateSnapshot,
+  type RecordedDomainEvent,
+} from '../base-event-sourced-aggregate-root.class';
+import { BaseValueObject } from '../base-value-object.class';
+import { BaseDomainEvent } from '../base-domain-event.class';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+class LedgerId extends BaseValueObject<string> {
+  static create(value: string): LedgerId {
+    return new LedgerId(value);
+  }
+}
+
+class LedgerOpened extends BaseDomainEvent<{ owner: string }> {
+  constructor(aggregateId: string, payload: { owner: string }) {
+    super('LedgerOpened', aggregateId, payload);
+  }
+}
+
+class FundsDeposited extends BaseDomainEvent<{ amount: number }> {
+  constructor(aggregateId: string, payload: { amount: number }) {
+    super('FundsDeposited', aggregateId, payload);
+  }
+}
+
+type LedgerEvent = LedgerOpened | FundsDeposited;
+
+interface LedgerProps {
+  owner: string;
+  balance: number;
+}
+
+class Ledger extends BaseEventSourcedAggregateRoot<LedgerId, LedgerProps, LedgerEvent> {
+  readonly applied: string[] = [];
+
+  static open(id: string, owner: string): Ledger {
+    const ledger = new Ledger(LedgerId.create(id), { owner: '', balance: 0 });
+    ledger.apply(new LedgerOpened(id, { owner }));
+    return ledger;
+  }
+
+  static rehydrate(
+    id: string,
+    history: Iterable<LedgerEvent | RecordedDomainEvent<LedgerEvent>>,
+    snapshot?: AggregateSnapshot<LedgerProps>,
+  ): Ledger {
+    const ledger = new Ledger(LedgerId.create(id), { owner: '', balance: 0 });
+    ledger.loadFromHistory(history, snapshot);
+    return ledger;
+  }
+
+  get owner(): string {
+    return this.props.owner;
+  }
+
+  get balance(): number {
+    return this.props.balance;
+  }
+
+  deposit(amount: number): void {
+    this.apply(new FundsDeposited(this.id.value, { amount }));
+  }
+
+  depositViaAddDomainEvent(amount: number): void {
+    this.addDomainEvent(new FundsDeposited(this.id.value, { amount }));
+  }
+
+  protected when(event: LedgerEvent): void {
+    this.applied.push(event.eventName);
+    if (event instanceof LedgerOpened) this._props.owner = event.payload.owner;
+    if (event instanceof FundsDeposited) this._props.balance += event.payload.amount;
+  }
+}
+
+describe('BaseEventSourcedAggregateRoot', () => {
+  describe('apply', () => {
+    it('should mutate state through when() and record the event as uncommitted', () => {
+      const ledger = Ledger.open('led-1', 'alice');
+      ledger.deposit(50);
+
+      expect(ledger.owner).toBe('alice');
+      expect(ledger.balance).toBe(50);
+      expect(ledger.peekDomainEvents().map((e) => e.eventName)).toEqual([
+        'LedgerOpened',
+        'FundsDeposited',
+      ]);
+    });
+
+    it('should route addDomainEvent through when()', () => {
+      const ledger = Ledger.open('led-1', 'alice');
+      ledger.depositViaAddDomainEvent(20);
+
+      expect(ledger.balance).toBe(20);
+      expect(ledger.peekDomainEvents()).toHaveLength(2);
+    });
+  });
+
+  describe('versioning', () => {
+    it('should keep version at the loaded version until events are pulled', () => {
+      const ledger = Ledger.open('led-1', 'alice');
+      ledger.deposit(10);
+
+      expect(ledger.version).toBe(0);
+      expect(ledger.currentVersion).toBe(2);
+    });
+
+    it('should advance version when uncommitted events are pulled', () => {
+      const ledger = Ledger.open('led-1', 'alice');
+      ledger.deposit(10);
+
+      const events = ledger.pullDomainEvents();
+
+      expect(events).toHaveLength(2);
+      expect(ledger.version).toBe(2);
+      expect(ledger.currentVersion).toBe(2);
+      expect(ledger.hasDomainEvents).toBe(false);
+    });
+  });
+
+  describe('loadFromHistory', () => {
+    it('should rebuild state from plain events in order', () => {
+      const ledger = Ledger.rehydrate('led-1', [
+        new LedgerOpened('led-1', { owner: 'alice' }),
+        new FundsDeposited('led-1', { amount: 5 }),
+        new FundsDeposited('led-1', { amount: 7 }),
+      ]);
+
+      expect(ledger.owner).toBe('alice');
+      expect(ledger.balance).toBe(12);
+      expect(ledger.version).toBe(3);
+      expect(ledger.hasDomainEvents).toBe(false);
+    });
+
+    it('should accept recorded events with contiguous versions', () => {
+      const ledger = Ledger.rehydrate('led-1', [
+        { version: 1, event: new LedgerOpened('led-1', { owner: 'alice' }) },
+        { version: 2, event: new FundsDeposited('led-1', { amount: 5 }) },
+      ]);
+
+      expect(ledger.version).toBe(2);
+      expect(ledger.balance).toBe(5);
+    });
+
+    it('should reject recorded events that are out of order', () => {
+      expect(() =>
+        Ledger.rehydrate('led-1', [
+          { version: 1, event: new LedgerOpened('led-1', { owner: 'alice' }) },
+          { version: 3, event: new FundsDeposited('led-1', { amount: 5 }) },
+        ]),
+      ).toThrow(InvariantViolationError);
+    });
+
+    it('should reject events from another aggregate', () => {
+      try {
+        Ledger.rehydrate('led-1', [new LedgerOpened('led-2', { owner: 'bob' })]);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvariantViolationError);
+        expect((error as InvariantViolationError).code).toBe('EVENT_AGGREGATE_MISMATCH');
+      }
+    });
+
+    it('should append new events after the loaded version', () => {
+      const ledger = Ledger.rehydrate('led-1', [new LedgerOpened('led-1', { owner: 'alice' })]);
+      ledger.deposit(3);
+
+      expect(ledger.version).toBe(1);
+      expect(ledger.currentVersion).toBe(2);
+      expect(ledger.pullDomainEvents().map((e) => e.eventName)).toEqual(['FundsDeposited']);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should capture state at the committed version', () => {
+      const ledger = Ledger.rehydrate('led-1', [
+        new LedgerOpened('led-1', { owner: 'alice' }),
+        new FundsDeposited('led-1', { amount: 10 }),
+      ]);
+
+      expect(ledger.toSnapshot()).toEqual({
+        version: 2,
+        state: { owner: 'alice', balance: 10 },
+      });
+    });
+
+    it('should refuse to snapshot with uncommitted events', () => {
+      const ledger = Ledger.open('led-1', 'alice');
+
+      expect(() => ledger.toSnapshot()).toThrow('uncommitted events');
+    });
+
+    it('should rehydrate from a snapshot and only replay later events', () => {
+      const snapshot = { version: 2, state: { owner: 'alice', balance: 10 } };
+
+      const ledger = Ledger.rehydrate(
+        'led-1',
+        [
+          { version: 2, event: new FundsDeposited('led-1', { amount: 10 }) },
+          { version: 3, event: new FundsDeposited('led-1', { amount: 1 }) },
+        ],
+        snapshot,
+      );
+
+      expect(ledger.balance).toBe(11);
+      expect(ledger.version).toBe(3);
+      expect(ledger.applied).toEqual(['FundsDeposited']);
+    });
+
+    it('should not share state with the snapshot it was restored from', () => {
+      const snapshot = { version: 1, state: { owner: 'alice', balance: 0 } };
+      const ledger = Ledger.rehydrate('led-1', [], snapshot);
+
+      ledger.deposit(5);
+
+      expect(snapshot.state.balance).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BaseSpecification,
+  matchesFilter,
+  type SpecificationFilter,
+} from '../base-specification.class';
+import { BaseValueObject } from '../base-value-object.class';
+import { DomainError } from '../../exceptions/domain.error';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+class Status extends BaseValueObject<string> {
+  static create(value: string): Status {
+    return new Status(value);
+  }
+}
+
+interface Customer {
+  name: string;
+  status: Status;
+  age: number;
+  tags: string[];
+  joinedAt: Date;
+  address: { city: string } | null;
+  deletedAt?: Date;
+}
+
+const alice: Customer = {
+  name: 'Alice',
+  status: Status.create('active'),
+  age: 34,
+  tags: ['vip', 'beta'],
+  joinedAt: new Date('2024-01-15T00:00:00.000Z'),
+  address: { city: 'Lisbon' },
+};
+
+const bob: Customer = {
+  name: 'Bob',
+  status: Status.create('suspended'),
+  age: 17,
+  tags: [],
+  joinedAt: new Date('2024-06-01T00:00:00.000Z'),
+  address: null,
+  deletedAt: new Date('2024-07-01T00:00:00.000Z'),
+};
+
+class Adult extends BaseSpecification<Customer> {
+  protected override get violationCode(): string {
+    return 'CUSTOMER_NOT_ADULT';
+  }
+
+  protected override get violationMessage(): string {
+    return 'Customer must be an adult';
+  }
+
+  isSatisfiedBy(customer: Customer): boolean {
+    return customer.age >= 18;
+  }
+
+  override toFilter(): SpecificationFilter {
+    return BaseSpecification.where<Customer>('age', 'gte', 18).toFilter();
+  }
+}
+
+class NamedAlice extends BaseSpecification<Customer> {
+  isSatisfiedBy(customer: Customer): boolean {
+    return customer.name === 'Alice';
+  }
+}
+
+const where = BaseSpecification.where<Customer>;
+
+describe('BaseSpecification', () => {
+  describe('isSatisfiedBy', () => {
+    it('should evaluate custom specifications', () => {
+      expect(new Adult().isSatisfiedBy(alice)).toBe(true);
+      expect(new Adult().isSatisfiedBy(bob)).toBe(false);
+    });
+  });
+
+  describe('composition', () => {
+    it('should combine with and', () => {
+      const spec = new Adult().and(where('status', 'eq', 'active'));
+
+      expect(spec.isSatisfiedBy(alice)).toBe(true);
+      expect(spec.isSatisfiedBy({ ...alice, status: Status.create('suspended') })).toBe(false);
+    });
+
+    it('should combine with or', () => {
+      const spec = new Adult().or(where('tags', 'contains', 'vip'));
+
+      expect(spec.isSatisfiedBy(bob)).toBe(false);
+      expect(spec.isSatisfiedBy({ ...bob, tags: ['vip'] })).toBe(true);
+    });
+
+    it('should negate with not', () => {
+      expect(new Adult().not().isSatisfiedBy(bob)).toBe(true);
+      expect(new Adult().not().isSatisfiedBy(alice)).toBe(false);
+    });
+
+    it('should not mutate the composed specifications', () => {
+      const adult = new Adult();
+      adult.and(where('age', 'lt', 0));
+
+      expect(adult.isSatisfiedBy(alice)).toBe(true);
+    });
+  });
+
+  describe('toFilter', () => {
+    it('should build a serializable AST from compositions', () => {
+      const spec = new Adult().and(
+        where('status', 'in', ['active', 'trial']).or(where('age', 'gt', 65).not()),
+      );
+
+      expect(JSON.parse(JSON.stringify(spec.toFilter()))).toEqual({
+        type: 'and',
+        filters: [
+          { type: 'condition', field: 'age', operator: 'gte', value: 18 },
+          {
+            type: 'or',
+            filters: [
+              { type: 'condition', field: 'status', operator: 'in', value: ['active', 'trial'] },
+              {
+                type: 'not',
+                filter: { type: 'condition', field: 'age', operator: 'gt', value: 65 },
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should throw for specifications without a filter', () => {
+      const spec = new NamedAlice().and(new Adult());
+
+      expect(() => spec.toFilter()).toThrow(DomainError);
+      expect(() => spec.toFilter()).toThrow(
+        expect.objectContaining({
+          code: 'SPECIFICATION_NOT_TRANSLATABLE',
+          message: expect.stringContaining('NamedAlice cannot be translated to a filter'),
+        }),
+      );
+    });
+
+    it('should evaluate to the same result as isSatisfiedBy', () => {
+      const spec = new Adult().and(where('deletedAt', 'isNull'));
+
+      for (const customer of [alice, bob]) {
+        expect(matchesFilter(spec.toFilter(), customer)).toBe(spec.isSatisfiedBy(customer));
+      }
+    });
+  });
+
+  describe('assertSatisfiedBy', () => {
+    it('should pass silently when satisfied', () => {
+      expect(() => new Adult().assertSatisfiedBy(alice)).not.toThrow();
+    });
+
+    it('should throw InvariantViolationError with the specification code and message', () => {
+      try {
+        new Adult().assertSatisfiedBy(bob);
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvariantViolationError);
+        expect((error as InvariantViolationError).code).toBe('CUSTOMER_NOT_ADULT');
+        expect((error as InvariantViolationError).message).toBe('Customer must be an adult');
+      }
+    });
+
+    it('should accept a code and message per call', () => {
+      expect(() =>
+        new Adult().assertSatisfiedBy(bob, { code: 'CHECKOUT_REQUIRES_ADULT', message: 'Nope' }),
+      ).toThrow(expect.objectContaining({ code: 'CHECKOUT_REQUIRES_ADULT', message: 'Nope' }));
+    });
+
+    it('should default to SPECIFICATION_NOT_SATISFIED', () => {
+      expect(() => new NamedAlice().assertSatisfiedBy(bob)).toThrow(
+        expect.objectContaining({
+          code: 'SPECIFICATION_NOT_SATISFIED',
+          message: 'NamedAlice is not satisfied',
+        }),
+      );
+    });
+
+    it('should describe failed field conditions', () => {
+      expect(() => where('age', 'gte', 18).assertSatisfiedBy(bob)).toThrow(
+        'Expected "age" to satisfy "gte"',
+      );
+    });
+  });
+});
+
+describe('matchesFilter', () => {
+  const condition = (
+    field: string,
+    operator: Parameters<typeof where>[1],
+    value?: Parameters<typeof where>[2],
+  ): SpecificationFilter => ({ type: 'condition', field, operator, value });
+
+  it('should unwrap value objects', () => {
+    expect(matchesFilter(condition('status', 'eq', 'active'), alice)).toBe(true);
+    expect(matchesFilter(condition('status', 'ne', 'active'), alice)).toBe(false);
+  });
+
+  it('should resolve nested paths and treat missing parents as undefined', () => {
+    expect(matchesFilter(condition('address.city', 'eq', 'Lisbon'), alice)).toBe(true);
+    expect(matchesFilter(condition('address.city', 'isNull'), bob)).toBe(true);
+  });
+
+  it('should compare dates by timestamp', () => {
+    const cutoff = new Date('2024-03-01T00:00:00.000Z');
+
+    expect(matchesFilter(condition('joinedAt', 'lt', cutoff), alice)).toBe(true);
+    expect(matchesFilter(condition('joinedAt', 'gte', cutoff), bob)).toBe(true);
+    expect(
+      matchesFilter(condition('joinedAt', 'eq', new Date('2024-01-15T00:00:00.000Z')), alice),
+    ).toBe(true);
+  });
+
+  it('should support ordering on numbers and strings only', () => {
+    expect(matchesFilter(condition('age', 'lte', 34), alice)).toBe(true);
+    expect(matchesFilter(condition('name', 'gt', 'Al'), alice)).toBe(true);
+    expect(matchesFilter(condition('age', 'gt', '10'), alice)).toBe(false);
+    expect(matchesFilter(condition('deletedAt', 'lt', new Date()), alice)).toBe(false);
+  });
+
+  it('should support membership operators', () => {
+    expect(matchesFilter(condition('age', 'in', [17, 34]), alice)).toBe(true);
+    expect(matchesFilter(condition('age', 'notIn', [17, 34]), alice)).toBe(false);
+    expect(matchesFilter(condition('age', 'in', 34), alice)).toBe(false);
+  });
+
+  it('should support string operators', () => {
+    expect(matchesFilter(condition('name', 'contains', 'lic'), alice)).toBe(true);
+    expect(matchesFilter(condition('name', 'startsWith', 'Al'), alice)).toBe(true);
+    expect(matchesFilter(condition('name', 'endsWith', 'ce'), alice)).toBe(true);
+    expect(matchesFilter(condition('age', 'startsWith', '3'), alice)).toBe(false);
+  });
+
+  it('should treat undefined and null as equal', () => {
+    expect(matchesFilter(condition('deletedAt', 'eq', null), alice)).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { DomainEventRegistry } from '../domain-event-registry.class';
+import { BaseDomainEvent, type SerializedDomainEvent } from '../base-domain-event.class';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+interface OrderPlacedV1 {
+  total: number;
+}
+
+interface OrderPlacedV2 {
+  total: number;
+  currency: string;
+}
+
+interface OrderPlacedV3 {
+  totalMinor: number;
+  currency: string;
+}
+
+class OrderPlacedEvent extends BaseDomainEvent<OrderPlacedV3> {
+  static override readonly eventVersion = 3;
+
+  constructor(orderId: string, payload: OrderPlacedV3) {
+    super('OrderPlaced', orderId, payload);
+  }
+}
+
+class OrderCancelledEvent extends BaseDomainEvent<{ reason: string }> {
+  constructor(orderId: string, payload: { reason: string }) {
+    super('OrderCancelled', orderId, payload);
+  }
+}
+
+function createRegistry(): DomainEventRegistry {
+  return new DomainEventRegistry()
+    .register('OrderPlaced', OrderPlacedEvent)
+    .register('OrderCancelled', OrderCancelledEvent)
+    .addUpcaster<OrderPlacedV1, OrderPlacedV2>('OrderPlaced', 1, (p) => ({
+      ...p,
+      currency: 'USD',
+    }))
+    .addUpcaster<OrderPlacedV2, OrderPlacedV3>('OrderPlaced', 2, ({ total, currency }) => ({
+      totalMinor: Math.round(total * 100),
+      currency,
+    }));
+}
+
+function stored(eventVersion: number | undefined, payload: unknown): SerializedDomainEvent {
+  return {
+    eventId: 'evt-1',
+    eventName: 'OrderPlaced',
+    eventVersion: eventVersion as number,
+    aggregateId: 'order-1',
+    occurredOn: '2024-01-15T10:30:00.000Z',
+    payload,
+  };
+}
+
+describe('DomainEventRegistry', () => {
+  describe('deserialize', () => {
+    it('should restore a current-version event without upcasting', () => {
+      const original = new OrderPlacedEvent('order-1', { totalMinor: 1999, currency: 'EUR' });
+
+      const restored = createRegistry().deserialize<OrderPlacedEvent>(original.toJSON());
+
+      expect(restored).toBeInstanceOf(OrderPlacedEvent);
+      expect(restored.eventId).toBe(original.eventId);
+      expect(restored.payload).toEqual({ totalMinor: 1999, currency: 'EUR' });
+    });
+
+    it('should upcast through every intermediate version', () => {
+      const restored = createRegistry().deserialize<OrderPlacedEvent>(stored(1, { total: 19.99 }));
+
+      expect(restored).toBeInstanceOf(OrderPlacedEvent);
+      expect(restored.eventVersion).toBe(3);
+      expect(restored.payload).toEqual({ totalMinor: 1999, currency: 'USD' });
+      expect(restored.occurredOn.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    });
+
+    it('should treat records without eventVersion as version 1', () => {
+      const restored = createRegistry().deserialize<OrderPlacedEvent>(
+        stored(undefined, { total: 1 }),
+      );
+
+      expect(restored.payload).toEqual({ totalMinor: 100, currency: 'USD' });
+    });
+
+    it('should restore events that were never versioned', () => {
+      const original = new OrderCancelledEvent('order-1', { reason: 'changed mind' });
+
+      const restored = createRegistry().deserialize(original.toJSON());
+
+      expect(restored).toBeInstanceOf(OrderCancelledEvent);
+    });
+
+    it('should reject unknown event names', () => {
+      const json = { ...stored(1, {}), eventName: 'Unknown' };
+
+      try {
+        createRegistry().deserialize(json);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvariantViolationError);
+        expect((error as InvariantViolationError).code).toBe('UNKNOWN_DOMAIN_EVENT');
+      }
+    });
+
+    it('should reject records newer than the registered class', () => {
+      expect(() => createRegistry().deserialize(stored(4, {}))).toThrow('newer than');
+    });
+  });
+
+  describe('upcast', () => {
+    it('should report a gap in the upcaster chain', () => {
+      const registry = new DomainEventRegistry()
+        .register('OrderPlaced', OrderPlacedEvent)
+        .addUpcaster('OrderPlaced', 1, (p) => p);
+
+      try {
+        registry.upcast(stored(1, { total: 1 }));
+        expect.unreachable();
+      } catch (error) {
+        expect((error as InvariantViolationError).code).toBe('MISSING_EVENT_UPCASTER');
+      }
+    });
+
+    it('should not mutate the input record', () => {
+      const json = stored(1, { total: 1 });
+
+      const upcasted = createRegistry().upcast(json);
+
+      expect(upcasted.eventVersion).toBe(3);
+      expect(json.eventVersion).toBe(1);
+      expect(json.payload).toEqual({ total: 1 });
+    });
+  });
+
+  describe('registration', () => {
+    it('should report registered event names', () => {
+      const registry = createRegistry();
+
+      expect(registry.has('OrderPlaced')).toBe(true);
+      expect(registry.has('Unknown')).toBe(false);
+    });
+
+    it('should reject duplicate event registrations', () => {
+      expect(() => createRegistry().register('OrderPlaced', OrderPlacedEvent)).toThrow(
+        InvariantViolationError,
+      );
+    });
+
+    it('should reject duplicate upcasters for the same version', () => {
+      expect(() => createRegistry().addUpcaster('OrderPlaced', 1, (p) => p)).toThrow(
+        InvariantViolationError,
+      );
+    });
+  });
+});
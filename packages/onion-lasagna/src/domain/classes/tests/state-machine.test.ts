@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { StateMachine, type StateChange } from '../state-machine.class';
+import { BaseAggregateRoot } from '../base-aggregate-root.class';
+import { BaseDomainEvent } from '../base-domain-event.class';
+import { BaseValueObject } from '../base-value-object.class';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+class OrderId extends BaseValueObject<string> {
+  static create(value: string): OrderId {
+    return new OrderId(value);
+  }
+}
+
+class OrderPlacedEvent extends BaseDomainEvent<{ itemCount: number }> {
+  constructor(orderId: string, itemCount: number) {
+    super('OrderPlaced', orderId, { itemCount });
+  }
+}
+
+class StateChangedEvent extends BaseDomainEvent<StateChange> {
+  constructor(change: StateChange) {
+    super('StateChanged', 'id-1', change);
+  }
+}
+
+type OrderStatus = 'draft' | 'placed' | 'shipped' | 'cancelled';
+
+interface OrderProps {
+  status: OrderStatus;
+  items: string[];
+}
+
+const orderLifecycle = new StateMachine({
+  states: ['draft', 'placed', 'shipped', 'cancelled'],
+  initial: 'draft',
+  transitions: {
+    place: {
+      from: 'draft',
+      to: 'placed',
+      guard: (order: Order) => order.items.length > 0,
+      guardDescription: 'has items',
+      event: (order) => new OrderPlacedEvent(order.id.value, order.items.length),
+    },
+    ship: { from: 'placed', to: 'shipped' },
+    cancel: { from: ['draft', 'placed'], to: 'cancelled' },
+  },
+});
+
+class Order extends BaseAggregateRoot<OrderId, OrderProps> {
+  static create(id: string, items: string[]): Order {
+    return new Order(OrderId.create(id), { status: orderLifecycle.initial, items });
+  }
+
+  get status(): OrderStatus {
+    return this.props.status;
+  }
+
+  get items(): readonly string[] {
+    return this.props.items;
+  }
+
+  place(): void {
+    this._props.status = this.applyTransition(orderLifecycle, this.props.status, 'place');
+  }
+
+  ship(): void {
+    this._props.status = this.applyTransition(orderLifecycle, this.props.status, 'ship');
+  }
+
+  cancel(): void {
+    this._props.status = this.applyTransition(orderLifecycle, this.props.status, 'cancel');
+  }
+}
+
+describe('StateMachine', () => {
+  describe('constructor', () => {
+    it('should reject transitions to unknown states', () => {
+      expect(
+        () =>
+          new StateMachine({
+            states: ['open'],
+            initial: 'open',
+            transitions: { close: { from: 'open', to: 'closed' as 'open' } },
+          }),
+      ).toThrow(expect.objectContaining({ code: 'UNKNOWN_STATE' }));
+    });
+  });
+
+  describe('transition', () => {
+    it('should return the target state and the declared event', () => {
+      const order = Order.create('order-1', ['sku-1']);
+      const result = orderLifecycle.transition('draft', 'place', order);
+
+      expect(result.state).toBe('placed');
+      expect(result.event).toBeInstanceOf(OrderPlacedEvent);
+      expect(result.event?.payload).toEqual({ itemCount: 1 });
+    });
+
+    it('should pass the state change to the event factory', () => {
+      const machine = new StateMachine({
+        states: ['open', 'closed'],
+        initial: 'open',
+        transitions: {
+          close: {
+            from: 'open',
+            to: 'closed',
+            event: (_context: null, change) => new StateChangedEvent(change),
+          },
+        },
+      });
+
+      expect(machine.transition('open', 'close', null).event?.payload).toEqual({
+        transition: 'close',
+        from: 'open',
+        to: 'closed',
+      });
+    });
+
+    it('should throw ILLEGAL_STATE_TRANSITION when the transition does not start from the state', () => {
+      const order = Order.create('order-1', ['sku-1']);
+
+      expect(() => orderLifecycle.transition('shipped', 'cancel', order)).toThrow(
+        InvariantViolationError,
+      );
+      expect(() => orderLifecycle.transition('shipped', 'cancel', order)).toThrow(
+        expect.objectContaining({
+          code: 'ILLEGAL_STATE_TRANSITION',
+          message: "Cannot 'cancel' from state 'shipped'",
+        }),
+      );
+    });
+
+    it('should throw ILLEGAL_STATE_TRANSITION for Object.prototype member names', () => {
+      const order = Order.create('order-1', ['sku-1']);
+      const lifecycle = orderLifecycle as StateMachine<OrderStatus, string, Order>;
+
+      for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+        expect(() => lifecycle.transition('draft', name, order)).toThrow(
+          expect.objectContaining({ code: 'ILLEGAL_STATE_TRANSITION' }),
+        );
+        expect(lifecycle.can('draft', name, order)).toBe(false);
+      }
+    });
+
+    it('should throw STATE_TRANSITION_GUARD_FAILED when the guard rejects', () => {
+      const order = Order.create('order-1', []);
+
+      expect(() => orderLifecycle.transition('draft', 'place', order)).toThrow(
+        expect.objectContaining({
+          code: 'STATE_TRANSITION_GUARD_FAILED',
+          message: "Cannot 'place' from state 'draft' (requires: has items)",
+        }),
+      );
+    });
+  });
+
+  describe('can / allowedTransitions', () => {
+    it('should report transitions allowed from a state', () => {
+      const empty = Order.create('order-1', []);
+      const filled = Order.create('order-2', ['sku-1']);
+
+      expect(orderLifecycle.can('placed', 'ship', filled)).toBe(true);
+      expect(orderLifecycle.can('draft', 'place', empty)).toBe(false);
+      expect(orderLifecycle.allowedTransitions('draft', filled)).toEqual(['place', 'cancel']);
+      expect(orderLifecycle.allowedTransitions('draft', empty)).toEqual(['cancel']);
+      expect(orderLifecycle.allowedTransitions('cancelled', filled)).toEqual([]);
+    });
+  });
+
+  describe('toMermaid', () => {
+    it('should render states, labelled transitions and final states', () => {
+      expect(orderLifecycle.toMermaid()).toBe(
+        [
+          'stateDiagram-v2',
+          '  [*] --> draft',
+          '  draft --> placed: place [has items]',
+          '  placed --> shipped: ship',
+          '  draft --> cancelled: cancel',
+          '  placed --> cancelled: cancel',
+          '  shipped --> [*]',
+          '  cancelled --> [*]',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('BaseAggregateRoot.applyTransition', () => {
+    it('should update the state and record the event', () => {
+      const order = Order.create('order-1', ['sku-1']);
+
+      order.place();
+      order.ship();
+
+      expect(order.status).toBe('shipped');
+      expect(order.pullDomainEvents().map((event) => event.eventName)).toEqual(['OrderPlaced']);
+    });
+
+    it('should leave the aggregate unchanged when the transition is illegal', () => {
+      const order = Order.create('order-1', ['sku-1']);
+
+      expect(() => order.ship()).toThrow(InvariantViolationError);
+      expect(order.status).toBe('draft');
+      expect(order.hasDomainEvents).toBe(false);
+    });
+  });
+});
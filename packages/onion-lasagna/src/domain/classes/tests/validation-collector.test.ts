@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationCollector } from '../validation-collector.class';
+import { BaseEmailVo } from '../../value-objects/base-email.vo';
+import { BaseTextVo } from '../../value-objects/base-text.vo';
+import { DomainValidationError } from '../../exceptions/domain-validation.error';
+import { PartialLoadError } from '../../exceptions/partial-load.error';
+
+class UserNameVo extends BaseTextVo {
+  static override defaultMinLength = 2;
+}
+
+class ZipCodeVo extends BaseTextVo {
+  static override defaultPattern = /^\d{5}$/;
+}
+
+function createAddress(input: { zip: string; city: string }) {
+  return ValidationCollector.collect(
+    {
+      zip: () => ZipCodeVo.create(input.zip),
+      city: () => UserNameVo.create(input.city),
+    },
+    'Invalid address',
+  );
+}
+
+function captureError(fn: () => unknown): DomainValidationError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof DomainValidationError) return error;
+    throw error;
+  }
+  throw new Error('Expected DomainValidationError');
+}
+
+describe('ValidationCollector', () => {
+  describe('collect', () => {
+    it('should return the created values when every factory succeeds', () => {
+      const result = ValidationCollector.collect({
+        email: () => BaseEmailVo.create('jane@example.com'),
+        name: () => UserNameVo.create('Jane'),
+      });
+
+      expect(result.email).toBeInstanceOf(BaseEmailVo);
+      expect(result.name.value).toBe('Jane');
+    });
+
+    it('should report every violation in a single error', () => {
+      const error = captureError(() =>
+        ValidationCollector.collect(
+          {
+            email: () => BaseEmailVo.create('not-an-email'),
+            name: () => UserNameVo.create('J'),
+          },
+          'Invalid user',
+        ),
+      );
+
+      expect(error.message).toBe('Invalid user');
+      expect(error.code).toBe('DOMAIN_VALIDATION_ERROR');
+      expect(error.validationErrors).toEqual([
+        { field: 'email', message: 'Invalid email format', code: 'INVALID_EMAIL' },
+        { field: 'name', message: 'Text must be at least 2 characters', code: 'TEXT_TOO_SHORT' },
+      ]);
+    });
+
+    it('should prefix the field paths of nested validation errors', () => {
+      const error = captureError(() =>
+        ValidationCollector.collect({
+          name: () => UserNameVo.create('J'),
+          address: () => createAddress({ zip: 'abc', city: 'X' }),
+        }),
+      );
+
+      expect(error.validationErrors.map((violation) => violation.field)).toEqual([
+        'name',
+        'address.zip',
+        'address.city',
+      ]);
+    });
+
+    it('should rethrow errors that are not invariant violations', () => {
+      const partial = new PartialLoadError({ message: 'Not loaded' });
+
+      expect(() =>
+        ValidationCollector.collect({
+          name: () => UserNameVo.create('J'),
+          items: () => {
+            throw partial;
+          },
+        }),
+      ).toThrow(partial);
+    });
+  });
+
+  describe('capture / add / throwIfInvalid', () => {
+    it('should return undefined for failed factories and keep collecting', () => {
+      const collector = new ValidationCollector();
+
+      const email = collector.capture('email', () => BaseEmailVo.create('bad'));
+      const name = collector.capture('name', () => UserNameVo.create('Jane'));
+
+      expect(email).toBeUndefined();
+      expect(name?.value).toBe('Jane');
+      expect(collector.hasViolations).toBe(true);
+      expect(collector.violations).toHaveLength(1);
+    });
+
+    it('should record cross-field violations', () => {
+      const collector = new ValidationCollector()
+        .add('endsAt', 'Must be after startsAt', 'INVALID_DATE_RANGE')
+        .add('notes', 'Not allowed');
+
+      expect(collector.violations).toEqual([
+        { field: 'endsAt', message: 'Must be after startsAt', code: 'INVALID_DATE_RANGE' },
+        { field: 'notes', message: 'Not allowed', code: 'INVARIANT_VIOLATION' },
+      ]);
+      expect(() => collector.throwIfInvalid()).toThrow(DomainValidationError);
+      expect(() => collector.throwIfInvalid()).toThrow('Validation failed');
+    });
+
+    it('should not throw when there are no violations', () => {
+      const collector = new ValidationCollector();
+
+      expect(collector.hasViolations).toBe(false);
+      expect(() => collector.throwIfInvalid()).not.toThrow();
+    });
+  });
+});
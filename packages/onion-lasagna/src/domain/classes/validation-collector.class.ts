@@ -0,0 +1,153 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { DomainValidationError, type DomainViolation } from '../exceptions/domain-validation.error';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Factories keyed by field name, as accepted by {@link ValidationCollector.collect}.
+ */
+export type FieldFactories = Record<string, () => unknown>;
+
+/**
+ * Values produced by {@link FieldFactories}, keyed by field name.
+ */
+export type CollectedFields<TFactories extends FieldFactories> = {
+  [K in keyof TFactories]: ReturnType<TFactories[K]>;
+};
+
+/**
+ * Collects invariant violations from several value object or aggregate
+ * factories and reports them together (notification pattern).
+ *
+ * Value object factories throw {@link InvariantViolationError} on the first
+ * failed rule. The collector runs each factory, records the violation under
+ * a field path and keeps going. {@link throwIfInvalid} then raises a single
+ * {@link DomainValidationError} listing every violation. Nested
+ * `DomainValidationError`s (e.g. from a child aggregate's factory) are
+ * flattened with their field paths prefixed.
+ *
+ * Any other error thrown by a factory is rethrown immediately.
+ *
+ * @example All fields at once
+ * ```typescript
+ * static create(input: CreateUserInput): User {
+ *   const props = ValidationCollector.collect(
+ *     {
+ *       email: () => EmailVo.create(input.email),
+ *       name: () => UserNameVo.create(input.name),
+ *       address: () => Address.create(input.address),
+ *     },
+ *     'Invalid user',
+ *   );
+ *   return new User(UserId.generate(), props);
+ * }
+ * ```
+ *
+ * @example Cross-field rules
+ * ```typescript
+ * const violations = new ValidationCollector();
+ * const start = violations.capture('startsAt', () => DateVo.create(input.startsAt));
+ * const end = violations.capture('endsAt', () => DateVo.create(input.endsAt));
+ * if (start && end && end.isBefore(start)) {
+ *   violations.add('endsAt', 'Must be after startsAt', 'INVALID_DATE_RANGE');
+ * }
+ * violations.throwIfInvalid('Invalid booking');
+ * ```
+ */
+export class ValidationCollector {
+  private readonly _violations: DomainViolation[] = [];
+
+  /**
+   * Runs every factory and returns their values, or throws once with all
+   * violations.
+   *
+   * @param factories - Factories keyed by field name
+   * @param message - Message of the thrown error
+   * @returns The created values, keyed by field name
+   * @throws {DomainValidationError} When one or more factories violate an invariant
+   */
+  static collect<TFactories extends FieldFactories>(
+    factories: TFactories,
+    message?: string,
+  ): CollectedFields<TFactories> {
+    const collector = new ValidationCollector();
+    const values: Record<string, unknown> = {};
+
+    for (const [field, factory] of Object.entries(factories)) {
+      values[field] = collector.capture(field, factory);
+    }
+
+    collector.throwIfInvalid(message);
+    return values as CollectedFields<TFactories>;
+  }
+
+  /**
+   * Runs a factory, recording its invariant violations under `field`.
+   *
+   * @param field - Field path of the value (e.g. `'email'` or `'items.0.quantity'`)
+   * @param factory - Creates the value, typically a value object's `create`
+   * @returns The created value, or `undefined` when it violated an invariant
+   */
+  capture<T>(field: string, factory: () => T): T | undefined {
+    try {
+      return factory();
+    } catch (error) {
+      if (error instanceof DomainValidationError) {
+        for (const violation of error.validationErrors) {
+          this.add(joinPath(field, violation.field), violation.message, violation.code);
+        }
+        return undefined;
+      }
+      if (error instanceof InvariantViolationError) {
+        this.add(field, error.message, error.code);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Records a violation, e.g. for a rule spanning several fields.
+   *
+   * @param field - Field path of the violation
+   * @param message - Human-readable violation message
+   * @param code - Violation code (default: 'INVARIANT_VIOLATION')
+   * @returns The collector, for chaining
+   */
+  add(field: string, message: string, code: string = ErrorCodes.Domain.INVARIANT_VIOLATION): this {
+    this._violations.push({ field, message, code });
+    return this;
+  }
+
+  /**
+   * Whether any violation has been recorded.
+   */
+  get hasViolations(): boolean {
+    return this._violations.length > 0;
+  }
+
+  /**
+   * The violations recorded so far, in order.
+   */
+  get violations(): readonly DomainViolation[] {
+    return [...this._violations];
+  }
+
+  /**
+   * Throws a {@link DomainValidationError} listing every recorded violation.
+   * Does nothing when there are none.
+   *
+   * @param message - Message of the thrown error (default: 'Validation failed')
+   * @throws {DomainValidationError} When at least one violation was recorded
+   */
+  throwIfInvalid(message = 'Validation failed'): void {
+    if (this.hasViolations) {
+      throw new DomainValidationError({ message, validationErrors: [...this._violations] });
+    }
+  }
+}
+
+function joinPath(prefix: string, field: string): string {
+  if (!field) return prefix;
+  if (!prefix) return field;
+  return `${prefix}.${field}`;
+}
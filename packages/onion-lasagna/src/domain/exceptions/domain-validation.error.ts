@@ -0,0 +1,93 @@
+import { ErrorCodes, type DomainErrorCode } from '../../global/exceptions/error-codes.const';
+import type { ValidationError } from '../../global/interfaces/types/validation-error.type';
+import { DomainError } from './domain.error';
+
+/**
+ * A single invariant violation on a field.
+ */
+export interface DomainViolation extends ValidationError {
+  /** Code of the underlying violation (e.g. `'INVALID_EMAIL'`). */
+  code: string;
+}
+
+/**
+ * Error thrown when one or more invariants fail while building domain objects.
+ *
+ * Collects every violation instead of stopping at the first one, so a
+ * request with several invalid fields is rejected once with all of them.
+ * Usually raised by {@link ValidationCollector}.
+ *
+ * Unlike other domain errors, it is not masked: the HTTP layer maps it to
+ * 400 Bad Request with one `errorItems` entry per violation, like
+ * `InvalidRequestError`.
+ *
+ * **When to throw:**
+ * - Several value objects of an input fail validation
+ * - Factory methods checking multiple cross-field rules
+ *
+ * @example
+ * ```typescript
+ * throw new DomainValidationError({
+ *   message: 'Invalid user',
+ *   validationErrors: [
+ *     { field: 'email', message: 'Invalid email', code: 'INVALID_EMAIL' },
+ *     { field: 'name', message: 'Name is too short', code: 'INVARIANT_VIOLATION' },
+ *   ],
+ * });
+ * ```
+ *
+ * @extends DomainError
+ */
+export class DomainValidationError extends DomainError {
+  protected override get errorTypeName(): string {
+    return 'DomainValidationError';
+  }
+
+  /**
+   * Field-level violations.
+   *
+   * Each entry contains:
+   * - `field`: Dot-notation path to the invalid field
+   * - `message`: Human-readable violation message
+   * - `code`: Code of the underlying violation
+   */
+  readonly validationErrors: DomainViolation[];
+
+  /**
+   * Creates a new DomainValidationError instance.
+   *
+   * @param options - Error configuration
+   * @param options.message - Summary of the validation failure
+   * @param options.code - Machine-readable error code (default: 'DOMAIN_VALIDATION_ERROR')
+   * @param options.cause - Optional underlying error
+   * @param options.validationErrors - Field-level violations
+   */
+  constructor({
+    message,
+    code = ErrorCodes.Domain.DOMAIN_VALIDATION_ERROR,
+    cause,
+    validationErrors,
+  }: {
+    message: string;
+    code?: DomainErrorCode | string;
+    cause?: unknown;
+    validationErrors: DomainViolation[];
+  }) {
+    super({ message, code, cause });
+    this.validationErrors = validationErrors;
+  }
+
+  /**
+   * Creates a DomainValidationError from a caught error.
+   *
+   * @param cause - The original caught error
+   * @returns A new DomainValidationError instance with the cause attached
+   */
+  static override fromError(cause: unknown): DomainValidationError {
+    return new DomainValidationError({
+      message: cause instanceof Error ? cause.message : 'Domain validation failed',
+      cause,
+      validationErrors: [],
+    });
+  }
+}
@@ -15,6 +15,7 @@ import { ErrorCodes, type DomainErrorCode } from '../../global/exceptions/error-
  *
  * **Child classes:**
  * - {@link InvariantViolationError} - Value object or entity invariant failures
+ * - {@link DomainValidationError} - Several invariant failures, collected by field
  * - {@link PartialLoadError} - Incomplete aggregate reconstitution
  *
  * @example
@@ -1,3 +1,4 @@
 export * from './domain.error';
+export * from './domain-validation.error';
 export * from './invariant-violation.error';
 export * from './partial-load.error';
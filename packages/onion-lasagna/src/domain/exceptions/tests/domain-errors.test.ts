@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { DomainError } from '../domain.error';
 import { InvariantViolationError } from '../invariant-violation.error';
 import { PartialLoadError } from '../partial-load.error';
+import { DomainValidationError } from '../domain-validation.error';
 import { CodedError } from '../../../global/exceptions/coded-error.error';
 
 describe('DomainError', () => {
@@ -180,6 +181,45 @@ describe('PartialLoadError', () => {
   });
 });
 
+describe('DomainValidationError', () => {
+  describe('constructor', () => {
+    it('should create with message, violations and default code', () => {
+      const error = new DomainValidationError({
+        message: 'Invalid user',
+        validationErrors: [{ field: 'email', message: 'Invalid email', code: 'INVALID_EMAIL' }],
+      });
+
+      expect(error.message).toBe('Invalid user');
+      expect(error.code).toBe('DOMAIN_VALIDATION_ERROR');
+      expect(error.name).toBe('DomainValidationError');
+      expect(error.validationErrors).toEqual([
+        { field: 'email', message: 'Invalid email', code: 'INVALID_EMAIL' },
+      ]);
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should be instance of DomainError', () => {
+      const error = new DomainValidationError({ message: 'Test', validationErrors: [] });
+
+      expect(error).toBeInstanceOf(DomainError);
+      expect(error).not.toBeInstanceOf(InvariantViolationError);
+    });
+  });
+
+  describe('fromError', () => {
+    it('should create from Error with no violations', () => {
+      const original = new Error('Original message');
+      const error = DomainValidationError.fromError(original);
+
+      expect(error).toBeInstanceOf(DomainValidationError);
+      expect(error.message).toBe('Original message');
+      expect(error.validationErrors).toEqual([]);
+      expect(error.cause).toBe(original);
+    });
+  });
+});
+
 describe('error hierarchy', () => {
   it('should allow catching DomainError to catch all subtypes', () => {
     const errors: DomainError[] = [
@@ -0,0 +1,271 @@
+/**
+ * Base cursor pagination value object.
+ *
+ * Represents keyset pagination parameters for list queries. Unlike
+ * {@link BasePaginationVo}, pages are addressed by the sort key of the last
+ * item seen, so queries stay fast and stable on large, frequently-written
+ * tables.
+ *
+ * Cursors are opaque to clients: the sort key is encoded as base64url JSON
+ * and signed with HMAC-SHA256. A cursor that was modified, truncated or
+ * signed with another secret is rejected by `create()`.
+ *
+ * **Properties:**
+ * - `cursor`: The encoded cursor, or `null` for the first page
+ * - `limit`: Number of items per page
+ *
+ * **Constraint Properties:**
+ * - `cursorSecret`: Secret used to sign cursors (must be overridden to use cursors)
+ * - `maxLimit`: Maximum allowed limit (default: 100)
+ * - `defaultLimit`: Limit used when none is given (default: 20)
+ *
+ * @example Subclass with a secret
+ * ```typescript
+ * class UserCursorPaginationVo extends BaseCursorPaginationVo {
+ *   static override get cursorSecret(): string {
+ *     return config.paginationSecret;
+ *   }
+ * }
+ * ```
+ *
+ * @example Usage in a repository
+ * ```typescript
+ * async findPage(pagination: UserCursorPaginationVo): Promise<CursorPaginatedData<User>> {
+ *   const position = pagination.position;
+ *   const rows = await this.db.user.findMany({
+ *     where: position && {
+ *       id: { [position.direction === 'after' ? 'gt' : 'lt']: position.key.id },
+ *     },
+ *     orderBy: { id: position?.direction === 'before' ? 'desc' : 'asc' },
+ *     take: pagination.fetchLimit,
+ *   });
+ *
+ *   return pagination.toPage(rows, (row) => ({ id: row.id }));
+ * }
+ * ```
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { CursorPaginatedData } from '../../global/interfaces/types/pagination.type';
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { BaseValueObject } from '../classes/base-value-object.class';
+import { DomainError } from '../exceptions/domain.error';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Sort key values stored in a cursor, keyed by column or field name.
+ */
+export type CursorKey = Readonly<Record<string, string | number | boolean | null>>;
+
+/**
+ * Decoded cursor: the key of a boundary item and which side of it to read.
+ *
+ * - `after` — Items that sort after the key (next page)
+ * - `before` — Items that sort before the key (previous page)
+ */
+export interface CursorPosition {
+  readonly key: CursorKey;
+  readonly direction: 'after' | 'before';
+}
+
+/**
+ * Value object for cursor pagination parameters.
+ *
+ * @extends BaseValueObject<{ cursor: string | null; limit: number }>
+ */
+export class BaseCursorPaginationVo extends BaseValueObject<{
+  cursor: string | null;
+  limit: number;
+}> {
+  /**
+   * Secret used to sign and verify cursors. Override in subclass.
+   *
+   * @throws {DomainError} When not overridden and a cursor is encoded or decoded
+   *   (code `CURSOR_SECRET_MISSING`)
+   */
+  static get cursorSecret(): string {
+    throw new DomainError({
+      message: `${this.name} has no cursorSecret. Override the static cursorSecret getter to sign cursors.`,
+      code: ErrorCodes.Domain.CURSOR_SECRET_MISSING,
+    });
+  }
+
+  /** Maximum allowed limit. Override in subclass. */
+  // eslint-disable-next-line @typescript-eslint/class-literal-property-style
+  static get maxLimit(): number {
+    return 100;
+  }
+
+  /** Limit used when none is given. Override in subclass. */
+  // eslint-disable-next-line @typescript-eslint/class-literal-property-style
+  static get defaultLimit(): number {
+    return 20;
+  }
+
+  /**
+   * Creates a cursor pagination value object.
+   * @param value - The pagination parameters
+   * @param value.cursor - Encoded cursor from a previous page (omit for the first page)
+   * @param value.limit - Items per page (must be >= 1 and <= maxLimit, default: defaultLimit)
+   * @throws {InvariantViolationError} When the limit is out of bounds or the cursor is invalid
+   */
+  static create(value: { cursor?: string | null; limit?: number }): BaseCursorPaginationVo {
+    const cursor = value.cursor ?? null;
+    const limit = value.limit ?? this.defaultLimit;
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvariantViolationError({
+        message: 'Limit must be a positive integer',
+        code: 'INVALID_LIMIT',
+      });
+    }
+
+    if (limit > this.maxLimit) {
+      throw new InvariantViolationError({
+        message: `Limit must be at most ${this.maxLimit}`,
+        code: 'LIMIT_TOO_LARGE',
+      });
+    }
+
+    if (cursor !== null) {
+      this.decodeCursor(cursor);
+    }
+
+    return new this({ cursor, limit });
+  }
+
+  /**
+   * Encodes and signs a cursor.
+   *
+   * @param key - Sort key values of the boundary item
+   * @param direction - Which side of the key the cursor points to (default: `'after'`)
+   * @returns Opaque, URL-safe cursor string
+   */
+  static encodeCursor(key: CursorKey, direction: CursorPosition['direction'] = 'after'): string {
+    const payload = Buffer.from(
+      JSON.stringify({ k: key, d: direction === 'after' ? 'a' : 'b' }),
+    ).toString('base64url');
+    return `${payload}.${sign(payload, this.cursorSecret)}`;
+  }
+
+  /**
+   * Verifies and decodes a cursor produced by {@link encodeCursor}.
+   *
+   * @param cursor - The encoded cursor
+   * @throws {InvariantViolationError} When the cursor is malformed or its signature does not match
+   */
+  static decodeCursor(cursor: string): CursorPosition {
+    const [payload, signature, ...rest] = cursor.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      throw invalidCursor();
+    }
+
+    const expected = Buffer.from(sign(payload, this.cursorSecret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw invalidCursor();
+    }
+
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw invalidCursor();
+    }
+
+    const { k: key, d: direction } = (decoded ?? {}) as { k?: unknown; d?: unknown };
+    if (!isCursorKey(key) || (direction !== 'a' && direction !== 'b')) {
+      throw invalidCursor();
+    }
+
+    return { key, direction: direction === 'a' ? 'after' : 'before' };
+  }
+
+  /** The encoded cursor, or `null` for the first page. */
+  get cursor(): string | null {
+    return this.value.cursor;
+  }
+
+  /** The number of items per page. */
+  get limit(): number {
+    return this.value.limit;
+  }
+
+  /**
+   * The decoded cursor, or `null` for the first page.
+   *
+   * Repositories filter on `key` and sort ascending for `after`,
+   * descending for `before`.
+   */
+  get position(): CursorPosition | null {
+    if (this.cursor === null) return null;
+    return (this.constructor as typeof BaseCursorPaginationVo).decodeCursor(this.cursor);
+  }
+
+  /**
+   * The number of rows to fetch: one more than `limit`, to detect
+   * whether another page exists without a count query.
+   */
+  get fetchLimit(): number {
+    return this.limit + 1;
+  }
+
+  /**
+   * Builds the page result from rows fetched with {@link fetchLimit}.
+   *
+   * Rows must be in query order: ascending for the first page and `after`
+   * cursors, descending for `before` cursors. Items are always returned in
+   * ascending order, and `hasMore` tells whether more items exist in the
+   * requested direction.
+   *
+   * @param rows - Up to `fetchLimit` rows, in query order
+   * @param keyOf - Extracts the sort key values of an item
+   * @returns The page with signed `nextCursor` / `prevCursor`
+   */
+  toPage<T>(rows: readonly T[], keyOf: (item: T) => CursorKey): CursorPaginatedData<T> {
+    const ctor = this.constructor as typeof BaseCursorPaginationVo;
+    const position = this.position;
+    const hasMore = rows.length > this.limit;
+    const page = rows.slice(0, this.limit);
+
+    if (position?.direction === 'before') {
+      const items = page.reverse();
+      const first = items[0];
+      const last = items[items.length - 1];
+      return {
+        items,
+        nextCursor: last === undefined ? null : ctor.encodeCursor(keyOf(last), 'after'),
+        prevCursor:
+          hasMore && first !== undefined ? ctor.encodeCursor(keyOf(first), 'before') : null,
+        hasMore,
+      };
+    }
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    return {
+      items: page,
+      nextCursor: hasMore && last !== undefined ? ctor.encodeCursor(keyOf(last), 'after') : null,
+      prevCursor:
+        position !== null && first !== undefined ? ctor.encodeCursor(keyOf(first), 'before') : null,
+      hasMore,
+    };
+  }
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function invalidCursor(): InvariantViolationError {
+  return new InvariantViolationError({
+    message: 'Cursor is invalid or has been tampered with',
+    code: 'INVALID_CURSOR',
+  });
+}
+
+function isCursorKey(value: unknown): value is CursorKey {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.values(value).every(
+    (v) => v === null || ['string', 'number', 'boolean'].includes(typeof v),
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Base filter value object.
+ *
+ * Represents the conjunction of field conditions a client asked a list
+ * query to match. Validates fields and operators against an optional
+ * whitelist and exposes the conditions as a {@link SpecificationFilter},
+ * the same AST repositories already translate for specifications.
+ *
+ * **Properties:**
+ * - `conditions`: Field conditions, all of which must match
+ *
+ * **Constraint Properties:**
+ * - `filterableFields`: Allowed operators per field (default: any)
+ *
+ * @example Subclass with a whitelist
+ * ```typescript
+ * class OrderFilterVo extends BaseFilterVo {
+ *   static override filterableFields = {
+ *     status: ['eq', 'in'],
+ *     total: ['gte', 'lte'],
+ *   };
+ * }
+ *
+ * const filter = OrderFilterVo.create([
+ *   { type: 'condition', field: 'status', operator: 'in', value: ['placed', 'shipped'] },
+ * ]);
+ * const orders = await orderRepo.findMatching(filter.toFilter());
+ * ```
+ */
+import type {
+  FilterCondition,
+  FilterOperator,
+  SpecificationFilter,
+} from '../classes/base-specification.class';
+import { BaseValueObject } from '../classes/base-value-object.class';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Allowed filter operators, keyed by field name.
+ */
+export type FilterableFields = Readonly<Record<string, readonly FilterOperator[]>>;
+
+/**
+ * Value object for filter criteria.
+ *
+ * @extends BaseValueObject<readonly FilterCondition[]>
+ */
+export class BaseFilterVo extends BaseValueObject<readonly FilterCondition[]> {
+  /** Allowed operators per field. `undefined` allows any field. Override in subclass. */
+  static filterableFields: FilterableFields | undefined = undefined;
+
+  /**
+   * Creates a filter value object.
+   * @param conditions - Field conditions to combine with `and` (may be empty)
+   * @throws {InvariantViolationError} When a field or operator is not allowed, or a value has the wrong shape
+   */
+  static create(conditions: readonly FilterCondition[]): BaseFilterVo {
+    for (const condition of conditions) {
+      const { field, operator } = condition;
+      const operators = this.filterableFields
+        ? allowedOperators(this.filterableFields, field)
+        : ALL_OPERATORS;
+
+      if (!field || !operators) {
+        throw new InvariantViolationError({
+          message: `Cannot filter by "${field}"`,
+          code: 'INVALID_FILTER_FIELD',
+        });
+      }
+
+      if (!operators.includes(operator)) {
+        throw new InvariantViolationError({
+          message: `Cannot filter "${field}" with "${operator}"`,
+          code: 'INVALID_FILTER_OPERATOR',
+        });
+      }
+
+      if (!hasValidValue(condition)) {
+        throw new InvariantViolationError({
+          message: `Invalid value for "${field}" with "${operator}"`,
+          code: 'INVALID_FILTER_VALUE',
+        });
+      }
+    }
+
+    return new this(
+      conditions.map(({ field, operator, value }) =>
+        operator === 'isNull'
+          ? { type: 'condition', field, operator }
+          : { type: 'condition', field, operator, value },
+      ),
+    );
+  }
+
+  /** Field conditions, all of which must match. */
+  get conditions(): readonly FilterCondition[] {
+    return this.value;
+  }
+
+  /** Whether no conditions are set. */
+  isEmpty(): boolean {
+    return this.value.length === 0;
+  }
+
+  /**
+   * The conditions as a filter AST: an `and` of all conditions
+   * (an empty `and` matches everything).
+   */
+  toFilter(): SpecificationFilter {
+    return { type: 'and', filters: this.value };
+  }
+}
+
+const ALL_OPERATORS: readonly FilterOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'isNull',
+];
+
+function allowedOperators(
+  fields: FilterableFields,
+  field: string,
+): readonly FilterOperator[] | undefined {
+  return Object.prototype.hasOwnProperty.call(fields, field) ? fields[field] : undefined;
+}
+
+function isScalar(value: unknown): boolean {
+  return (
+    value === null ||
+    value instanceof Date ||
+    ['string', 'number', 'boolean'].includes(typeof value)
+  );
+}
+
+function hasValidValue({ operator, value }: FilterCondition): boolean {
+  switch (operator) {
+    case 'isNull':
+      return value === undefined;
+    case 'in':
+    case 'notIn':
+      return Array.isArray(value) && value.every(isScalar);
+    default:
+      return !Array.isArray(value) && isScalar(value);
+  }
+}
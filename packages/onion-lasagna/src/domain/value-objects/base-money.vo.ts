@@ -0,0 +1,461 @@
+/**
+ * Base money value object with currency-safe decimal arithmetic.
+ *
+ * Stores an exact decimal amount together with its ISO 4217 currency code.
+ * Arithmetic runs on integer minor units (`bigint`), so no cents are lost
+ * to floating point. Operations that need rounding take a {@link MoneyRoundingMode}.
+ *
+ * **Properties:**
+ * - `amount`: Canonical decimal string at the currency's precision (e.g. `'12.30'`)
+ * - `currency`: Upper-case ISO 4217 code (e.g. `'EUR'`)
+ * - `amountMinor`: Amount in minor units (e.g. `1230`)
+ *
+ * **Constraint Properties:**
+ * - `allowedCurrencies`: Accepted currency codes (undefined = any ISO 4217 code)
+ *
+ * @example Creating and computing
+ * ```typescript
+ * const price = BaseMoneyVo.create({ amount: '19.99', currency: 'EUR' });
+ * const shipping = BaseMoneyVo.fromMinor({ amountMinor: 450, currency: 'EUR' });
+ *
+ * const total = price.add(shipping).multiply('1.23', 'halfEven'); // 30.12 EUR
+ * const [first, second, third] = total.allocate([1, 1, 1]); // 10.04, 10.04, 10.04
+ * ```
+ *
+ * @example Subclass restricting currencies
+ * ```typescript
+ * class PriceVo extends BaseMoneyVo {
+ *   static override allowedCurrencies = ['EUR', 'USD'];
+ * }
+ * ```
+ */
+import { BaseValueObject } from '../classes/base-value-object.class';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Rounding modes for money operations.
+ *
+ * - `halfEven` — To nearest, ties to even (banker's rounding)
+ * - `halfUp` — To nearest, ties away from zero
+ * - `halfDown` — To nearest, ties toward zero
+ * - `up` — Away from zero
+ * - `down` — Toward zero (truncate)
+ * - `ceiling` — Toward positive infinity
+ * - `floor` — Toward negative infinity
+ */
+export type MoneyRoundingMode =
+  | 'halfEven'
+  | 'halfUp'
+  | 'halfDown'
+  | 'up'
+  | 'down'
+  | 'ceiling'
+  | 'floor';
+
+/** Currencies whose minor unit is not 1/100 (ISO 4217). */
+const CURRENCY_DECIMALS: Readonly<Record<string, number>> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const AMOUNT_PATTERN = /^-?\d+(\.\d+)?$/;
+const FACTOR_PATTERN = /^([+-]?)(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Value object for monetary amounts.
+ *
+ * @extends BaseValueObject<{ amount: string; currency: string }>
+ */
+export class BaseMoneyVo extends BaseValueObject<{ amount: string; currency: string }> {
+  /** Accepted currency codes. Override in subclass. */
+  static allowedCurrencies: readonly string[] | undefined = undefined;
+
+  /**
+   * Number of decimals of a currency's minor unit.
+   * Override in subclass to support non-ISO currencies.
+   *
+   * @param currency - Upper-case currency code
+   */
+  static currencyDecimals(currency: string): number {
+    return CURRENCY_DECIMALS[currency] ?? 2;
+  }
+
+  /**
+   * Creates a money value object from a decimal string.
+   *
+   * @param value - The amount and currency
+   * @param value.amount - Decimal string (e.g. `'12.3'`), normalized to the currency precision
+   * @param value.currency - ISO 4217 code
+   * @param rounding - Rounding mode for amounts more precise than the currency allows.
+   *   When omitted, such amounts are rejected.
+   * @throws {InvariantViolationError} When the currency or amount is invalid
+   */
+  static create(value: BaseMoneyVo['value'], rounding?: MoneyRoundingMode): BaseMoneyVo {
+    const currency = this.validateCurrency(value.currency);
+
+    if (typeof value.amount !== 'string' || !AMOUNT_PATTERN.test(value.amount)) {
+      throw new InvariantViolationError({
+        message: 'Money amount must be a decimal string',
+        code: 'INVALID_MONEY_AMOUNT',
+      });
+    }
+
+    const decimals = this.currencyDecimals(currency);
+    const { units, scale } = parseDecimal(value.amount);
+    let minor: bigint;
+    if (scale <= decimals) {
+      minor = units * 10n ** BigInt(decimals - scale);
+    } else {
+      const divisor = 10n ** BigInt(scale - decimals);
+      if (!rounding && units % divisor !== 0n) {
+        throw new InvariantViolationError({
+          message: `${currency} amounts allow at most ${decimals} decimal places`,
+          code: 'MONEY_PRECISION_EXCEEDED',
+        });
+      }
+      minor = divideAndRound(units, divisor, rounding ?? 'halfEven');
+    }
+
+    return new this({ amount: formatMinor(minor, decimals), currency });
+  }
+
+  /**
+   * Creates a money value object from minor units (e.g. cents).
+   *
+   * @param value - The amount in minor units and currency
+   * @throws {InvariantViolationError} When the currency is invalid or the amount is not an integer
+   */
+  static fromMinor(value: { amountMinor: number | bigint; currency: string }): BaseMoneyVo {
+    const currency = this.validateCurrency(value.currency);
+    const { amountMinor } = value;
+
+    if (typeof amountMinor === 'number' && !Number.isSafeInteger(amountMinor)) {
+      throw new InvariantViolationError({
+        message: 'Minor units must be a safe integer',
+        code: 'INVALID_MONEY_AMOUNT',
+      });
+    }
+
+    return new this({
+      amount: formatMinor(BigInt(amountMinor), this.currencyDecimals(currency)),
+      currency,
+    });
+  }
+
+  /**
+   * Creates a zero amount.
+   *
+   * @param currency - ISO 4217 code
+   */
+  static zero(currency: string): BaseMoneyVo {
+    return this.fromMinor({ amountMinor: 0, currency });
+  }
+
+  private static validateCurrency(currency: string): string {
+    if (typeof currency !== 'string' || !CURRENCY_PATTERN.test(currency)) {
+      throw new InvariantViolationError({
+        message: 'Currency must be a 3-letter ISO 4217 code',
+        code: 'INVALID_CURRENCY',
+      });
+    }
+
+    if (this.allowedCurrencies !== undefined && !this.allowedCurrencies.includes(currency)) {
+      throw new InvariantViolationError({
+        message: `Currency ${currency} is not allowed`,
+        code: 'CURRENCY_NOT_ALLOWED',
+      });
+    }
+
+    return currency;
+  }
+
+  /** Canonical decimal string at the currency's precision. */
+  get amount(): string {
+    return this.value.amount;
+  }
+
+  /** ISO 4217 currency code. */
+  get currency(): string {
+    return this.value.currency;
+  }
+
+  /** Number of decimals of the currency's minor unit. */
+  get decimals(): number {
+    return (this.constructor as typeof BaseMoneyVo).currencyDecimals(this.currency);
+  }
+
+  /**
+   * The amount in minor units as a number.
+   *
+   * @throws {InvariantViolationError} When the amount exceeds `Number.MAX_SAFE_INTEGER`; use `toMinorUnits()`
+   */
+  get amountMinor(): number {
+    const minor = this.toMinorUnits();
+    if (minor > BigInt(Number.MAX_SAFE_INTEGER) || minor < BigInt(Number.MIN_SAFE_INTEGER)) {
+      throw new InvariantViolationError({
+        message: 'Amount exceeds the safe integer range; use toMinorUnits()',
+        code: 'MONEY_AMOUNT_UNSAFE',
+      });
+    }
+    return Number(minor);
+  }
+
+  /** The amount in minor units, exact. */
+  toMinorUnits(): bigint {
+    return parseDecimal(this.amount).units;
+  }
+
+  /** Whether the amount is zero. */
+  isZero(): boolean {
+    return this.toMinorUnits() === 0n;
+  }
+
+  /** Whether the amount is below zero. */
+  isNegative(): boolean {
+    return this.toMinorUnits() < 0n;
+  }
+
+  /** Whether the amount is above zero. */
+  isPositive(): boolean {
+    return this.toMinorUnits() > 0n;
+  }
+
+  /**
+   * Compares with another amount of the same currency.
+   *
+   * @returns `-1`, `0` or `1`
+   * @throws {InvariantViolationError} When currencies differ
+   */
+  compareTo(other: BaseMoneyVo): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    const a = this.toMinorUnits();
+    const b = other.toMinorUnits();
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  /** Whether this amount is greater than `other` (same currency). */
+  greaterThan(other: BaseMoneyVo): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  /** Whether this amount is less than `other` (same currency). */
+  lessThan(other: BaseMoneyVo): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  /**
+   * Adds an amount of the same currency.
+   *
+   * @throws {InvariantViolationError} When currencies differ
+   */
+  add(other: BaseMoneyVo): this {
+    this.assertSameCurrency(other);
+    return this.withMinorUnits(this.toMinorUnits() + other.toMinorUnits());
+  }
+
+  /**
+   * Subtracts an amount of the same currency.
+   *
+   * @throws {InvariantViolationError} When currencies differ
+   */
+  subtract(other: BaseMoneyVo): this {
+    this.assertSameCurrency(other);
+    return this.withMinorUnits(this.toMinorUnits() - other.toMinorUnits());
+  }
+
+  /**
+   * Multiplies by a factor and rounds to the currency precision.
+   *
+   * Pass decimal factors as strings (e.g. `'1.23'`) to avoid float artifacts.
+   *
+   * @param factor - Number or decimal string
+   * @param rounding - Rounding mode (default: `halfEven`)
+   * @throws {InvariantViolationError} When the factor is not a finite decimal
+   */
+  multiply(factor: number | string, rounding: MoneyRoundingMode = 'halfEven'): this {
+    const { units, scale } = parseFactor(factor);
+    return this.withMinorUnits(
+      divideAndRound(this.toMinorUnits() * units, 10n ** BigInt(scale), rounding),
+    );
+  }
+
+  /** Returns the amount with the opposite sign. */
+  negate(): this {
+    return this.withMinorUnits(-this.toMinorUnits());
+  }
+
+  /**
+   * Splits the amount proportionally to the given ratios without losing minor units.
+   *
+   * Each share is rounded toward zero, then the leftover minor units go one by
+   * one to the shares with the largest remainders (earlier shares win ties).
+   * The shares always sum to the original amount.
+   *
+   * @param ratios - Non-negative weights, at least one greater than zero
+   * @returns One amount per ratio, in the same order
+   * @throws {InvariantViolationError} When the ratios are invalid
+   *
+   * @example
+   * ```typescript
+   * BaseMoneyVo.create({ amount: '100.00', currency: 'EUR' }).allocate([1, 1, 1]);
+   * // 33.34, 33.33, 33.33
+   * ```
+   */
+  allocate(ratios: readonly (number | string)[]): this[] {
+    const parsed = ratios.map((ratio) => parseFactor(ratio));
+    if (parsed.length === 0 || parsed.some(({ units }) => units < 0n)) {
+      throw new InvariantViolationError({
+        message: 'Allocation ratios must be a non-empty list of non-negative numbers',
+        code: 'INVALID_ALLOCATION_RATIOS',
+      });
+    }
+
+    const scale = Math.max(...parsed.map((p) => p.scale));
+    const weights = parsed.map(({ units, scale: s }) => units * 10n ** BigInt(scale - s));
+    const total = weights.reduce((sum, weight) => sum + weight, 0n);
+    if (total === 0n) {
+      throw new InvariantViolationError({
+        message: 'At least one allocation ratio must be greater than zero',
+        code: 'INVALID_ALLOCATION_RATIOS',
+      });
+    }
+
+    const minor = this.toMinorUnits();
+    const sign = minor < 0n ? -1n : 1n;
+    const absolute = minor * sign;
+
+    const shares = weights.map((weight) => (absolute * weight) / total);
+    const remainders = weights.map((weight, index) => ({
+      index,
+      remainder: (absolute * weight) % total,
+    }));
+    let leftover = absolute - shares.reduce((sum, share) => sum + share, 0n);
+
+    remainders.sort((a, b) =>
+      a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1,
+    );
+    for (const { index } of remainders) {
+      if (leftover === 0n) break;
+      shares[index] = (shares[index] ?? 0n) + 1n;
+      leftover -= 1n;
+    }
+
+    return shares.map((share) => this.withMinorUnits(share * sign));
+  }
+
+  /** Formats as `'<amount> <currency>'`, e.g. `'12.30 EUR'`. */
+  override toString(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: BaseMoneyVo): void {
+    if (other.currency !== this.currency) {
+      throw new InvariantViolationError({
+        message: `Cannot combine ${this.currency} with ${other.currency}`,
+        code: 'CURRENCY_MISMATCH',
+      });
+    }
+  }
+
+  private withMinorUnits(minor: bigint): this {
+    const Ctor = this.constructor as new (value: BaseMoneyVo['value']) => this;
+    return new Ctor({ amount: formatMinor(minor, this.decimals), currency: this.currency });
+  }
+}
+
+// =============================================================================
+// Decimal helpers
+// =============================================================================
+
+/** Splits a decimal string into integer units and a power-of-ten scale. */
+function parseDecimal(amount: string): { units: bigint; scale: number } {
+  const negative = amount.startsWith('-');
+  const [whole = '0', fraction = ''] = amount.replace('-', '').split('.');
+  const units = BigInt(whole + fraction);
+  return { units: negative ? -units : units, scale: fraction.length };
+}
+
+/** Parses a multiplication factor or allocation ratio. */
+function parseFactor(factor: number | string): { units: bigint; scale: number } {
+  const text = typeof factor === 'number' ? String(factor) : factor.trim();
+  const match = FACTOR_PATTERN.exec(text);
+  if (!match) {
+    throw new InvariantViolationError({
+      message: `Invalid money factor: ${text}`,
+      code: 'INVALID_MONEY_FACTOR',
+    });
+  }
+
+  const [, sign = '', whole = '0', fraction = '', exponentText = '0'] = match;
+  let units = BigInt(whole + fraction);
+  let scale = fraction.length - Number(exponentText);
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { units: sign === '-' ? -units : units, scale };
+}
+
+/** Formats minor units as a decimal string with the given number of decimals. */
+function formatMinor(minor: bigint, decimals: number): string {
+  const negative = minor < 0n;
+  const digits = (negative ? -minor : minor).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals);
+  return `${negative ? '-' : ''}${whole}${decimals > 0 ? `.${fraction}` : ''}`;
+}
+
+/** Divides two integers and rounds the quotient with the given mode. */
+function divideAndRound(numerator: bigint, divisor: bigint, mode: MoneyRoundingMode): bigint {
+  const quotient = numerator / divisor;
+  const remainder = numerator % divisor;
+  if (remainder === 0n) return quotient;
+
+  const negative = numerator < 0n !== divisor < 0n;
+  const awayFromZero = negative ? quotient - 1n : quotient + 1n;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  const absDivisor = divisor < 0n ? -divisor : divisor;
+
+  switch (mode) {
+    case 'up':
+      return awayFromZero;
+    case 'down':
+      return quotient;
+    case 'ceiling':
+      return negative ? quotient : awayFromZero;
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'halfUp':
+      return twiceRemainder >= absDivisor ? awayFromZero : quotient;
+    case 'halfDown':
+      return twiceRemainder > absDivisor ? awayFromZero : quotient;
+    case 'halfEven':
+      if (twiceRemainder === absDivisor) return quotient % 2n === 0n ? quotient : awayFromZero;
+      return twiceRemainder > absDivisor ? awayFromZero : quotient;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Base sort value object.
+ *
+ * Represents an ordered list of sort fields for list queries. Validates
+ * fields against an optional whitelist so clients can only sort by
+ * columns the repository is prepared (and indexed) to sort by.
+ *
+ * **Properties:**
+ * - `fields`: Sort fields in priority order
+ *
+ * **Constraint Properties:**
+ * - `sortableFields`: Allowed field names (default: any)
+ * - `maxFields`: Maximum number of sort fields (default: 5)
+ *
+ * @example Subclass with a whitelist
+ * ```typescript
+ * class UserSortVo extends BaseSortVo {
+ *   static override sortableFields = ['createdAt', 'name'];
+ * }
+ *
+ * const sort = UserSortVo.parse('-createdAt,name');
+ * sort.fields; // [{ field: 'createdAt', direction: 'desc' }, { field: 'name', direction: 'asc' }]
+ * ```
+ */
+import { BaseValueObject } from '../classes/base-value-object.class';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Sort direction: ascending or descending.
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * A single sort criterion.
+ *
+ * @typeParam TField - Union of sortable field names
+ */
+export interface SortField<TField extends string = string> {
+  readonly field: TField;
+  readonly direction: SortDirection;
+}
+
+/**
+ * Value object for sort criteria.
+ *
+ * @extends BaseValueObject<readonly SortField[]>
+ */
+export class BaseSortVo extends BaseValueObject<readonly SortField[]> {
+  /** Allowed field names. `undefined` allows any field. Override in subclass. */
+  static sortableFields: readonly string[] | undefined = undefined;
+
+  /** Maximum number of sort fields. Override in subclass. */
+  // eslint-disable-next-line @typescript-eslint/class-literal-property-style
+  static get maxFields(): number {
+    return 5;
+  }
+
+  /**
+   * Creates a sort value object.
+   * @param fields - Sort fields in priority order (may be empty)
+   * @throws {InvariantViolationError} When a field is not sortable, repeated, or has an invalid direction
+   */
+  static create(fields: readonly SortField[]): BaseSortVo {
+    if (fields.length > this.maxFields) {
+      throw new InvariantViolationError({
+        message: `Sort accepts at most ${this.maxFields} fields`,
+        code: 'TOO_MANY_SORT_FIELDS',
+      });
+    }
+
+    const seen = new Set<string>();
+    for (const { field, direction } of fields) {
+      if (!field || (this.sortableFields && !this.sortableFields.includes(field))) {
+        throw new InvariantViolationError({
+          message: `Cannot sort by "${field}"`,
+          code: 'INVALID_SORT_FIELD',
+        });
+      }
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new InvariantViolationError({
+          message: `Sort direction must be "asc" or "desc"`,
+          code: 'INVALID_SORT_DIRECTION',
+        });
+      }
+      if (seen.has(field)) {
+        throw new InvariantViolationError({
+          message: `Cannot sort by "${field}" more than once`,
+          code: 'DUPLICATE_SORT_FIELD',
+        });
+      }
+      seen.add(field);
+    }
+
+    return new this(fields.map(({ field, direction }) => ({ field, direction })));
+  }
+
+  /**
+   * Parses a sort expression such as `'-createdAt,name'`.
+   *
+   * Fields are comma-separated; a `-` prefix sorts descending, no prefix
+   * (or `+`) ascending. An empty or missing expression means no sorting.
+   *
+   * @param expression - The sort expression
+   * @throws {InvariantViolationError} When the expression is malformed or fails {@link create}
+   */
+  static parse(expression: string | undefined): BaseSortVo {
+    return this.create(parseSortExpression(expression ?? ''));
+  }
+
+  /** Sort fields in priority order. */
+  get fields(): readonly SortField[] {
+    return this.value;
+  }
+
+  /** Whether no sort fields are set. */
+  isEmpty(): boolean {
+    return this.value.length === 0;
+  }
+
+  /** Formats as a sort expression, e.g. `'-createdAt,name'`. */
+  override toString(): string {
+    return this.value
+      .map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field))
+      .join(',');
+  }
+}
+
+function parseSortExpression(expression: string): SortField[] {
+  if (expression.trim() === '') return [];
+
+  return expression.split(',').map((token) => {
+    const trimmed = token.trim();
+    const direction: SortDirection = trimmed.startsWith('-') ? 'desc' : 'asc';
+    const field = /^[-+]/.test(trimmed) ? trimmed.slice(1) : trimmed;
+    if (!field) {
+      throw new InvariantViolationError({
+        message: `Invalid sort expression "${expression}"`,
+        code: 'INVALID_SORT_EXPRESSION',
+      });
+    }
+    return { field, direction };
+  });
+}
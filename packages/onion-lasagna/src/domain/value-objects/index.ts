@@ -1,7 +1,12 @@
 export * from './base-audit-by.vo';
 export * from './base-audit-on.vo';
+export * from './base-cursor-pagination.vo';
 export * from './base-email.vo';
+export * from './base-filter.vo';
+export * from './base-money.vo';
 export * from './base-pagination.vo';
+export * from './base-sort.vo';
 export * from './base-text.vo';
 export * from './base-uuid-v4.vo';
 export * from './base-uuid-v7.vo';
+export * from './tenant-id.vo';
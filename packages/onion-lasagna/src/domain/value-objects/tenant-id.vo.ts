@@ -0,0 +1,39 @@
+/**
+ * Tenant identifier value object.
+ *
+ * Identifies the tenant that owns data in a multi-tenant application.
+ * Tenant IDs are 1-64 characters of letters, digits, `-` and `_`, so they
+ * are safe in subdomains, cache keys and log fields.
+ *
+ * @example
+ * ```typescript
+ * const tenantId = TenantId.create('acme');
+ * console.log(tenantId.value); // "acme"
+ * ```
+ */
+import { BaseValueObject } from '../classes/base-value-object.class';
+import { InvariantViolationError } from '../exceptions/invariant-violation.error';
+
+/**
+ * Value object for tenant identifiers.
+ *
+ * @extends BaseValueObject<string>
+ */
+export class TenantId extends BaseValueObject<string> {
+  private static readonly TENANT_ID_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+
+  /**
+   * Creates a tenant ID value object.
+   * @param value - The tenant identifier string
+   * @throws {InvariantViolationError} When the identifier format is invalid
+   */
+  static create(value: TenantId['value']): TenantId {
+    if (!TenantId.TENANT_ID_REGEX.test(value)) {
+      throw new InvariantViolationError({
+        message: 'Invalid tenant ID format',
+        code: 'INVALID_TENANT_ID',
+      });
+    }
+    return new TenantId(value);
+  }
+}
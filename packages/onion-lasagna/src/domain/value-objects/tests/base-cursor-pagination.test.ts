@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { BaseCursorPaginationVo, type CursorKey } from '../base-cursor-pagination.vo';
+import { DomainError } from '../../exceptions/domain.error';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+class TestCursorPaginationVo extends BaseCursorPaginationVo {
+  static override get cursorSecret(): string {
+    return 'test-secret';
+  }
+}
+
+class OtherSecretCursorPaginationVo extends BaseCursorPaginationVo {
+  static override get cursorSecret(): string {
+    return 'other-secret';
+  }
+}
+
+interface Row {
+  id: number;
+}
+
+const rows = Array.from({ length: 10 }, (_, i) => ({ id: i + 1 }));
+const keyOf = (row: Row): CursorKey => ({ id: row.id });
+
+/** Simulates a keyset query on `rows` ordered by `id`. */
+function query(pagination: BaseCursorPaginationVo): Row[] {
+  const position = pagination.position;
+  if (!position) return rows.slice(0, pagination.fetchLimit);
+  const id = position.key['id'] as number;
+  if (position.direction === 'after') {
+    return rows.filter((row) => row.id > id).slice(0, pagination.fetchLimit);
+  }
+  return rows
+    .filter((row) => row.id < id)
+    .reverse()
+    .slice(0, pagination.fetchLimit);
+}
+
+describe('BaseCursorPaginationVo', () => {
+  describe('create', () => {
+    it('should create a first page with the default limit', () => {
+      const pagination = TestCursorPaginationVo.create({});
+
+      expect(pagination.value).toEqual({ cursor: null, limit: 20 });
+      expect(pagination.position).toBeNull();
+      expect(pagination.fetchLimit).toBe(21);
+    });
+
+    it('should reject non-positive or non-integer limits', () => {
+      expect(() => TestCursorPaginationVo.create({ limit: 0 })).toThrow(InvariantViolationError);
+      expect(() => TestCursorPaginationVo.create({ limit: 1.5 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_LIMIT' }),
+      );
+    });
+
+    it('should reject limits above maxLimit', () => {
+      expect(() => TestCursorPaginationVo.create({ limit: 101 })).toThrow(
+        expect.objectContaining({ code: 'LIMIT_TOO_LARGE' }),
+      );
+    });
+
+    it('should allow overriding maxLimit', () => {
+      class LargeCursorPaginationVo extends TestCursorPaginationVo {
+        static override get maxLimit(): number {
+          return 500;
+        }
+      }
+
+      expect(LargeCursorPaginationVo.create({ limit: 500 }).limit).toBe(500);
+    });
+
+    it('should accept a cursor it encoded', () => {
+      const cursor = TestCursorPaginationVo.encodeCursor({ id: 5, name: 'x' });
+      const pagination = TestCursorPaginationVo.create({ cursor, limit: 3 });
+
+      expect(pagination.cursor).toBe(cursor);
+      expect(pagination.position).toEqual({ key: { id: 5, name: 'x' }, direction: 'after' });
+    });
+  });
+
+  describe('tamper evidence', () => {
+    const cursor = TestCursorPaginationVo.encodeCursor({ id: 5 });
+
+    it('should produce opaque URL-safe cursors', () => {
+      expect(cursor).toMatch(/^[\w-]+\.[\w-]+$/);
+      expect(cursor).not.toContain('"id"');
+    });
+
+    it('should reject a cursor with a modified payload', () => {
+      const [, signature] = cursor.split('.');
+      const forged = Buffer.from(JSON.stringify({ k: { id: 999 }, d: 'a' })).toString('base64url');
+
+      expect(() => TestCursorPaginationVo.create({ cursor: `${forged}.${signature}` })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURSOR' }),
+      );
+    });
+
+    it('should reject a cursor signed with another secret', () => {
+      const foreign = OtherSecretCursorPaginationVo.encodeCursor({ id: 5 });
+
+      expect(() => TestCursorPaginationVo.create({ cursor: foreign })).toThrow(
+        InvariantViolationError,
+      );
+    });
+
+    it.each(['', 'garbage', `${cursor}.extra`, cursor.slice(0, -2)])(
+      'should reject malformed cursor %j',
+      (malformed) => {
+        expect(() => TestCursorPaginationVo.create({ cursor: malformed })).toThrow(
+          expect.objectContaining({ code: 'INVALID_CURSOR' }),
+        );
+      },
+    );
+
+    it('should require a cursorSecret to use cursors', () => {
+      expect(() => BaseCursorPaginationVo.create({ cursor })).toThrow(DomainError);
+      expect(() => BaseCursorPaginationVo.create({ cursor })).toThrow(
+        expect.objectContaining({
+          code: 'CURSOR_SECRET_MISSING',
+          message: expect.stringContaining('BaseCursorPaginationVo has no cursorSecret'),
+        }),
+      );
+      expect(BaseCursorPaginationVo.create({ limit: 5 }).limit).toBe(5);
+    });
+  });
+
+  describe('toPage', () => {
+    it('should page forward until the end', () => {
+      const first = TestCursorPaginationVo.create({ limit: 4 });
+      const page1 = first.toPage(query(first), keyOf);
+
+      expect(page1.items.map((r) => r.id)).toEqual([1, 2, 3, 4]);
+      expect(page1.hasMore).toBe(true);
+      expect(page1.prevCursor).toBeNull();
+
+      const second = TestCursorPaginationVo.create({ cursor: page1.nextCursor, limit: 4 });
+      const page2 = second.toPage(query(second), keyOf);
+
+      expect(page2.items.map((r) => r.id)).toEqual([5, 6, 7, 8]);
+      expect(page2.prevCursor).not.toBeNull();
+
+      const third = TestCursorPaginationVo.create({ cursor: page2.nextCursor, limit: 4 });
+      const page3 = third.toPage(query(third), keyOf);
+
+      expect(page3.items.map((r) => r.id)).toEqual([9, 10]);
+      expect(page3.hasMore).toBe(false);
+      expect(page3.nextCursor).toBeNull();
+    });
+
+    it('should page backward and return items in ascending order', () => {
+      const cursor = TestCursorPaginationVo.encodeCursor({ id: 9 }, 'before');
+      const back = TestCursorPaginationVo.create({ cursor, limit: 4 });
+      const page = back.toPage(query(back), keyOf);
+
+      expect(page.items.map((r) => r.id)).toEqual([5, 6, 7, 8]);
+      expect(page.hasMore).toBe(true);
+
+      const start = TestCursorPaginationVo.create({ cursor: page.prevCursor, limit: 4 });
+      const startPage = start.toPage(query(start), keyOf);
+
+      expect(startPage.items.map((r) => r.id)).toEqual([1, 2, 3, 4]);
+      expect(startPage.hasMore).toBe(false);
+      expect(startPage.prevCursor).toBeNull();
+
+      const forward = TestCursorPaginationVo.create({ cursor: startPage.nextCursor, limit: 4 });
+      expect(forward.toPage(query(forward), keyOf).items.map((r) => r.id)).toEqual([5, 6, 7, 8]);
+    });
+
+    it('should keep the subclass secret for generated cursors', () => {
+      const pagination = TestCursorPaginationVo.create({ limit: 2 });
+      const { nextCursor } = pagination.toPage(query(pagination), keyOf);
+
+      expect(() => OtherSecretCursorPaginationVo.create({ cursor: nextCursor })).toThrow(
+        InvariantViolationError,
+      );
+    });
+  });
+});
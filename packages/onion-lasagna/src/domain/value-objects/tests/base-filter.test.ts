@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { BaseFilterVo } from '../base-filter.vo';
+import { matchesFilter } from '../../classes/base-specification.class';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+class OrderFilterVo extends BaseFilterVo {
+  static override filterableFields = {
+    status: ['eq', 'in'] as const,
+    total: ['gte', 'lte'] as const,
+    cancelledAt: ['isNull'] as const,
+  };
+}
+
+describe('BaseFilterVo', () => {
+  describe('create', () => {
+    it('should accept whitelisted fields and operators', () => {
+      const filter = OrderFilterVo.create([
+        { type: 'condition', field: 'status', operator: 'in', value: ['placed', 'shipped'] },
+        { type: 'condition', field: 'total', operator: 'gte', value: 100 },
+        { type: 'condition', field: 'cancelledAt', operator: 'isNull' },
+      ]);
+
+      expect(filter.conditions).toHaveLength(3);
+      expect(filter.isEmpty()).toBe(false);
+    });
+
+    it('should reject fields outside the whitelist', () => {
+      expect(() =>
+        OrderFilterVo.create([
+          { type: 'condition', field: 'customerId', operator: 'eq', value: 'x' },
+        ]),
+      ).toThrow(expect.objectContaining({ code: 'INVALID_FILTER_FIELD' }));
+    });
+
+    it('should not treat inherited object keys as fields', () => {
+      expect(() =>
+        OrderFilterVo.create([
+          { type: 'condition', field: 'toString', operator: 'eq', value: 'x' },
+        ]),
+      ).toThrow(InvariantViolationError);
+    });
+
+    it('should reject operators not allowed for the field', () => {
+      expect(() =>
+        OrderFilterVo.create([{ type: 'condition', field: 'total', operator: 'eq', value: 5 }]),
+      ).toThrow(expect.objectContaining({ code: 'INVALID_FILTER_OPERATOR' }));
+    });
+
+    it.each([
+      { field: 'status', operator: 'in' as const, value: 'placed' },
+      { field: 'status', operator: 'eq' as const, value: ['placed'] },
+      { field: 'total', operator: 'gte' as const, value: undefined },
+      { field: 'cancelledAt', operator: 'isNull' as const, value: true },
+    ])('should reject $operator with value $value', ({ field, operator, value }) => {
+      expect(() => OrderFilterVo.create([{ type: 'condition', field, operator, value }])).toThrow(
+        expect.objectContaining({ code: 'INVALID_FILTER_VALUE' }),
+      );
+    });
+
+    it('should allow any field without a whitelist', () => {
+      expect(
+        BaseFilterVo.create([
+          { type: 'condition', field: 'anything', operator: 'contains', value: 'a' },
+        ]).conditions,
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('toFilter', () => {
+    it('should combine conditions with and', () => {
+      const filter = OrderFilterVo.create([
+        { type: 'condition', field: 'status', operator: 'eq', value: 'placed' },
+        { type: 'condition', field: 'total', operator: 'gte', value: 100 },
+      ]);
+
+      expect(matchesFilter(filter.toFilter(), { status: 'placed', total: 150 })).toBe(true);
+      expect(matchesFilter(filter.toFilter(), { status: 'placed', total: 50 })).toBe(false);
+    });
+
+    it('should match everything when empty', () => {
+      const filter = OrderFilterVo.create([]);
+
+      expect(filter.isEmpty()).toBe(true);
+      expect(matchesFilter(filter.toFilter(), { status: 'any' })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { BaseMoneyVo, type MoneyRoundingMode } from '../base-money.vo';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+const eur = (amount: string) => BaseMoneyVo.create({ amount, currency: 'EUR' });
+
+describe('BaseMoneyVo', () => {
+  describe('create', () => {
+    it('should normalize the amount to the currency precision', () => {
+      expect(eur('12.3').value).toEqual({ amount: '12.30', currency: 'EUR' });
+      expect(eur('7').amount).toBe('7.00');
+      expect(eur('-0.5').amount).toBe('-0.50');
+    });
+
+    it('should use the ISO 4217 minor unit of the currency', () => {
+      expect(BaseMoneyVo.create({ amount: '500', currency: 'JPY' }).amount).toBe('500');
+      expect(BaseMoneyVo.create({ amount: '1.5', currency: 'KWD' }).amount).toBe('1.500');
+    });
+
+    it('should reject amounts more precise than the currency', () => {
+      expect(() => eur('1.005')).toThrow(InvariantViolationError);
+      expect(() => eur('1.005')).toThrow('EUR amounts allow at most 2 decimal places');
+    });
+
+    it('should accept trailing zeros beyond the precision', () => {
+      expect(eur('1.500').amount).toBe('1.50');
+    });
+
+    it('should round extra precision when a rounding mode is given', () => {
+      expect(BaseMoneyVo.create({ amount: '1.005', currency: 'EUR' }, 'halfUp').amount).toBe(
+        '1.01',
+      );
+      expect(BaseMoneyVo.create({ amount: '1.005', currency: 'EUR' }, 'halfEven').amount).toBe(
+        '1.00',
+      );
+    });
+
+    it.each(['', '1,00', '1e3', '.5', 'abc', ' 1'])('should reject amount %j', (amount) => {
+      expect(() => eur(amount)).toThrow(expect.objectContaining({ code: 'INVALID_MONEY_AMOUNT' }));
+    });
+
+    it.each(['eur', 'EURO', 'E1R', ''])('should reject currency %j', (currency) => {
+      expect(() => BaseMoneyVo.create({ amount: '1', currency })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURRENCY' }),
+      );
+    });
+  });
+
+  describe('fromMinor', () => {
+    it('should create from minor units', () => {
+      const money = BaseMoneyVo.fromMinor({ amountMinor: 1234, currency: 'USD' });
+
+      expect(money.amount).toBe('12.34');
+      expect(money.amountMinor).toBe(1234);
+    });
+
+    it('should accept bigint beyond the safe integer range', () => {
+      const money = BaseMoneyVo.fromMinor({ amountMinor: 2n ** 60n, currency: 'USD' });
+
+      expect(money.toMinorUnits()).toBe(2n ** 60n);
+      expect(() => money.amountMinor).toThrow(
+        expect.objectContaining({ code: 'MONEY_AMOUNT_UNSAFE' }),
+      );
+    });
+
+    it('should reject non-integer minor units', () => {
+      expect(() => BaseMoneyVo.fromMinor({ amountMinor: 1.5, currency: 'USD' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_MONEY_AMOUNT' }),
+      );
+    });
+  });
+
+  describe('zero', () => {
+    it('should create a zero amount', () => {
+      const zero = BaseMoneyVo.zero('EUR');
+
+      expect(zero.amount).toBe('0.00');
+      expect(zero.isZero()).toBe(true);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add and subtract exactly', () => {
+      expect(eur('0.10').add(eur('0.20')).amount).toBe('0.30');
+      expect(eur('1.00').subtract(eur('1.01')).amount).toBe('-0.01');
+    });
+
+    it('should throw when mixing currencies', () => {
+      const usd = BaseMoneyVo.create({ amount: '1', currency: 'USD' });
+
+      expect(() => eur('1').add(usd)).toThrow(InvariantViolationError);
+      expect(() => eur('1').subtract(usd)).toThrow(
+        expect.objectContaining({ code: 'CURRENCY_MISMATCH' }),
+      );
+      expect(() => eur('1').compareTo(usd)).toThrow('Cannot combine EUR with USD');
+    });
+
+    it('should multiply by decimal strings and numbers', () => {
+      expect(eur('19.99').multiply('1.23').amount).toBe('24.59');
+      expect(eur('10.00').multiply(3).amount).toBe('30.00');
+      expect(eur('10.00').multiply(0.1).amount).toBe('1.00');
+      expect(eur('10.00').multiply('2.5e-1').amount).toBe('2.50');
+      expect(eur('10.00').multiply(-2).amount).toBe('-20.00');
+    });
+
+    it('should reject invalid factors', () => {
+      expect(() => eur('1').multiply(Number.NaN)).toThrow(
+        expect.objectContaining({ code: 'INVALID_MONEY_FACTOR' }),
+      );
+      expect(() => eur('1').multiply('1/3')).toThrow(InvariantViolationError);
+    });
+
+    it.each<[MoneyRoundingMode, string, string]>([
+      ['halfEven', '0.02', '-0.02'],
+      ['halfUp', '0.03', '-0.03'],
+      ['halfDown', '0.02', '-0.02'],
+      ['up', '0.03', '-0.03'],
+      ['down', '0.02', '-0.02'],
+      ['ceiling', '0.03', '-0.02'],
+      ['floor', '0.02', '-0.03'],
+    ])('should round ties with %s', (mode, positive, negative) => {
+      expect(eur('0.05').multiply('0.5', mode).amount).toBe(positive);
+      expect(eur('-0.05').multiply('0.5', mode).amount).toBe(negative);
+    });
+
+    it('should round non-ties to the nearest for half modes', () => {
+      expect(eur('0.07').multiply('0.6', 'halfDown').amount).toBe('0.04');
+      expect(eur('0.01').multiply('0.4', 'halfUp').amount).toBe('0.00');
+    });
+
+    it('should negate', () => {
+      expect(eur('1.50').negate().amount).toBe('-1.50');
+    });
+
+    it('should not mutate the operands', () => {
+      const a = eur('1.00');
+      a.add(eur('2.00'));
+
+      expect(a.amount).toBe('1.00');
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare amounts of the same currency', () => {
+      expect(eur('1.00').compareTo(eur('1'))).toBe(0);
+      expect(eur('1.00').greaterThan(eur('0.99'))).toBe(true);
+      expect(eur('1.00').lessThan(eur('0.99'))).toBe(false);
+      expect(eur('-1').isNegative()).toBe(true);
+      expect(eur('1').isPositive()).toBe(true);
+    });
+
+    it('should be equal by normalized value', () => {
+      expect(eur('1.5').equals(eur('1.50'))).toBe(true);
+      expect(eur('1.5').equals(BaseMoneyVo.create({ amount: '1.5', currency: 'USD' }))).toBe(false);
+    });
+  });
+
+  describe('allocate', () => {
+    const sum = (parts: BaseMoneyVo[]) => parts.reduce((total, part) => total.add(part));
+
+    it('should distribute leftover minor units to the first shares', () => {
+      const parts = eur('100.00').allocate([1, 1, 1]);
+
+      expect(parts.map((p) => p.amount)).toEqual(['33.34', '33.33', '33.33']);
+    });
+
+    it('should give leftovers to the largest remainders', () => {
+      const parts = eur('0.05').allocate([3, 7]);
+
+      expect(parts.map((p) => p.amount)).toEqual(['0.02', '0.03']);
+    });
+
+    it('should never lose minor units', () => {
+      const total = eur('1234.57');
+      const parts = total.allocate(['0.125', '0.5', 1, '0.333']);
+
+      expect(sum(parts).equals(total)).toBe(true);
+    });
+
+    it('should allocate negative amounts symmetrically', () => {
+      const parts = eur('-100.00').allocate([1, 1, 1]);
+
+      expect(parts.map((p) => p.amount)).toEqual(['-33.34', '-33.33', '-33.33']);
+    });
+
+    it('should allow zero ratios', () => {
+      expect(
+        eur('10')
+          .allocate([0, 1])
+          .map((p) => p.amount),
+      ).toEqual(['0.00', '10.00']);
+    });
+
+    it.each([[[]], [[0, 0]], [[1, -1]]])('should reject ratios %j', (ratios) => {
+      expect(() => eur('10').allocate(ratios)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ALLOCATION_RATIOS' }),
+      );
+    });
+  });
+
+  describe('subclass', () => {
+    class PriceVo extends BaseMoneyVo {
+      static override allowedCurrencies = ['EUR', 'USD'];
+    }
+
+    it('should restrict currencies', () => {
+      expect(() => PriceVo.create({ amount: '1', currency: 'GBP' })).toThrow(
+        expect.objectContaining({ code: 'CURRENCY_NOT_ALLOWED' }),
+      );
+    });
+
+    it('should keep the subclass through arithmetic', () => {
+      const price = PriceVo.create({ amount: '1', currency: 'EUR' });
+
+      expect(price).toBeInstanceOf(PriceVo);
+      expect(price.add(price)).toBeInstanceOf(PriceVo);
+      expect(price.allocate([1, 1])[0]).toBeInstanceOf(PriceVo);
+    });
+  });
+
+  describe('toString', () => {
+    it('should format amount and currency', () => {
+      expect(eur('12.3').toString()).toBe('12.30 EUR');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { BaseSortVo } from '../base-sort.vo';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+class UserSortVo extends BaseSortVo {
+  static override sortableFields = ['createdAt', 'name', 'email'];
+}
+
+describe('BaseSortVo', () => {
+  describe('parse', () => {
+    it('should parse directions from prefixes', () => {
+      const sort = UserSortVo.parse('-createdAt,name,+email');
+
+      expect(sort.fields).toEqual([
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'name', direction: 'asc' },
+        { field: 'email', direction: 'asc' },
+      ]);
+    });
+
+    it('should treat empty or missing expressions as no sorting', () => {
+      expect(UserSortVo.parse('').isEmpty()).toBe(true);
+      expect(UserSortVo.parse(undefined).isEmpty()).toBe(true);
+    });
+
+    it('should reject empty tokens', () => {
+      expect(() => UserSortVo.parse('name,,email')).toThrow(
+        expect.objectContaining({ code: 'INVALID_SORT_EXPRESSION' }),
+      );
+      expect(() => UserSortVo.parse('-')).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('create', () => {
+    it('should reject fields outside the whitelist', () => {
+      expect(() => UserSortVo.parse('password')).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_SORT_FIELD',
+          message: 'Cannot sort by "password"',
+        }),
+      );
+    });
+
+    it('should allow any field without a whitelist', () => {
+      expect(BaseSortVo.parse('anything').fields).toEqual([
+        { field: 'anything', direction: 'asc' },
+      ]);
+    });
+
+    it('should reject duplicate fields', () => {
+      expect(() => UserSortVo.parse('name,-name')).toThrow(
+        expect.objectContaining({ code: 'DUPLICATE_SORT_FIELD' }),
+      );
+    });
+
+    it('should reject invalid directions', () => {
+      expect(() =>
+        UserSortVo.create([{ field: 'name', direction: 'up' as unknown as 'asc' }]),
+      ).toThrow(expect.objectContaining({ code: 'INVALID_SORT_DIRECTION' }));
+    });
+
+    it('should reject more than maxFields fields', () => {
+      class SingleSortVo extends UserSortVo {
+        static override get maxFields(): number {
+          return 1;
+        }
+      }
+
+      expect(() => SingleSortVo.parse('name,email')).toThrow(
+        expect.objectContaining({ code: 'TOO_MANY_SORT_FIELDS' }),
+      );
+    });
+
+    it('should return an instance of the subclass', () => {
+      expect(UserSortVo.parse('name')).toBeInstanceOf(UserSortVo);
+    });
+  });
+
+  describe('toString', () => {
+    it('should format as a sort expression', () => {
+      expect(UserSortVo.parse('-createdAt, name').toString()).toBe('-createdAt,name');
+    });
+  });
+});
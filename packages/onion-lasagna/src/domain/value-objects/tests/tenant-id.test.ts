@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { TenantId } from '../tenant-id.vo';
+import { InvariantViolationError } from '../../exceptions/invariant-violation.error';
+
+describe('TenantId', () => {
+  describe('create', () => {
+    it('should create with a valid tenant ID', () => {
+      expect(TenantId.create('acme_eu-1').value).toBe('acme_eu-1');
+    });
+
+    it('should accept UUIDs', () => {
+      const uuid = '550e8400-e29b-41d4-a716-446655440000';
+
+      expect(TenantId.create(uuid).value).toBe(uuid);
+    });
+
+    it('should throw InvariantViolationError for an empty string', () => {
+      expect(() => TenantId.create('')).toThrow(InvariantViolationError);
+    });
+
+    it('should reject separators and whitespace', () => {
+      expect(() => TenantId.create('acme:eu')).toThrow('Invalid tenant ID format');
+      expect(() => TenantId.create('acme.eu')).toThrow(InvariantViolationError);
+      expect(() => TenantId.create('acme eu')).toThrow(InvariantViolationError);
+    });
+
+    it('should reject IDs longer than 64 characters', () => {
+      expect(TenantId.create('a'.repeat(64)).value).toHaveLength(64);
+      expect(() => TenantId.create('a'.repeat(65))).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('equals', () => {
+    it('should compare by value', () => {
+      expect(TenantId.create('acme').equals(TenantId.create('acme'))).toBe(true);
+      expect(TenantId.create('acme').equals(TenantId.create('globex'))).toBe(false);
+    });
+  });
+});
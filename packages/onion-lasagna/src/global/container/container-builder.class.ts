@@ -0,0 +1,203 @@
+import { Container, type Registration } from './container.class';
+import type { Token, TokenTypes } from './token.util';
+
+/**
+ * How long a resolved instance lives.
+ *
+ * - `singleton` — One instance for the whole container.
+ * - `scoped` — One instance per {@link ContainerScope} (request, event, run).
+ * - `transient` — A new instance every time it is resolved.
+ */
+export type Lifetime = 'singleton' | 'scoped' | 'transient';
+
+type AnyToken = Token<unknown>;
+
+type Factory<T, TDeps extends readonly AnyToken[]> = (...deps: TokenTypes<TDeps>) => T;
+
+/**
+ * Collects registrations and builds a {@link Container}.
+ *
+ * Dependencies are declared as token lists next to each factory, so the
+ * whole graph is checked by `build()` before anything is instantiated:
+ * missing registrations, cycles and singletons that capture scoped
+ * dependencies all fail at startup instead of on the first request.
+ *
+ * @example
+ * ```typescript
+ * const container = new ContainerBuilder()
+ *   .value(Clock, new SystemClock())
+ *   .singleton(Logger, () => new ConsoleLogger())
+ *   .singleton(UserRepository, [Database], (db) => new PgUserRepository(db))
+ *   .scopeValue(RequestContext)
+ *   .scoped(CreateUser, [UserRepository, Clock, RequestContext], (users, clock, ctx) =>
+ *     new CreateUserUseCase(users, clock, ctx.userId),
+ *   )
+ *   .build();
+ * ```
+ */
+export class ContainerBuilder {
+  private readonly registrations = new Map<AnyToken, Registration>();
+
+  /**
+   * Registers a dependency created once per container.
+   */
+  singleton<T>(token: Token<T>, factory: () => NoInfer<T>): this;
+  singleton<T, const TDeps extends readonly AnyToken[]>(
+    token: Token<T>,
+    deps: TDeps,
+    factory: Factory<NoInfer<T>, TDeps>,
+  ): this;
+  singleton(token: AnyToken, ...rest: unknown[]): this {
+    return this.add(token, 'singleton', rest);
+  }
+
+  /**
+   * Registers a dependency created once per scope.
+   */
+  scoped<T>(token: Token<T>, factory: () => NoInfer<T>): this;
+  scoped<T, const TDeps extends readonly AnyToken[]>(
+    token: Token<T>,
+    deps: TDeps,
+    factory: Factory<NoInfer<T>, TDeps>,
+  ): this;
+  scoped(token: AnyToken, ...rest: unknown[]): this {
+    return this.add(token, 'scoped', rest);
+  }
+
+  /**
+   * Registers a dependency created on every resolution.
+   */
+  transient<T>(token: Token<T>, factory: () => NoInfer<T>): this;
+  transient<T, const TDeps extends readonly AnyToken[]>(
+    token: Token<T>,
+    deps: TDeps,
+    factory: Factory<NoInfer<T>, TDeps>,
+  ): this;
+  transient(token: AnyToken, ...rest: unknown[]): this {
+    return this.add(token, 'transient', rest);
+  }
+
+  /**
+   * Registers an existing instance as a singleton.
+   */
+  value<T>(token: Token<T>, value: NoInfer<T>): this {
+    return this.add(token, 'singleton', [() => value]);
+  }
+
+  /**
+   * Declares a value supplied to each scope through
+   * `container.createScope([provide(token, value)])`, such as the request
+   * context. Scoped and transient dependencies may depend on it.
+   */
+  scopeValue<T>(token: Token<T>): this {
+    this.assertNotRegistered(token);
+    this.registrations.set(token, {
+      token,
+      lifetime: 'scope-value',
+      deps: [],
+      factory: () => {
+        throw new Error(`Scope value "${token.name}" was not provided to this scope.`);
+      },
+    });
+    return this;
+  }
+
+  /**
+   * Validates the dependency graph and creates the container.
+   *
+   * @returns The container
+   * @throws {Error} When a dependency is not registered, the graph has a
+   * cycle, or a singleton depends on a scoped value
+   */
+  build(): Container {
+    const registrations = new Map(this.registrations);
+
+    for (const registration of registrations.values()) {
+      for (const dep of registration.deps) {
+        if (!registrations.has(dep)) {
+          throw new Error(
+            `Cannot build container: "${registration.token.name}" depends on "${dep.name}", which is not registered.`,
+          );
+        }
+      }
+    }
+
+    assertAcyclic(registrations);
+    assertNoCaptiveDependencies(registrations);
+
+    return new Container(registrations);
+  }
+
+  private add(token: AnyToken, lifetime: Lifetime, rest: unknown[]): this {
+    this.assertNotRegistered(token);
+    const [deps, factory] = (rest.length === 1 ? [[], rest[0]] : rest) as [
+      readonly AnyToken[],
+      (...args: unknown[]) => unknown,
+    ];
+    this.registrations.set(token, { token, lifetime, deps, factory });
+    return this;
+  }
+
+  private assertNotRegistered(token: AnyToken): void {
+    if (this.registrations.has(token)) {
+      throw new Error(`"${token.name}" is already registered.`);
+    }
+  }
+}
+
+/**
+ * Depth-first search over declared dependencies, reporting the first cycle.
+ */
+function assertAcyclic(registrations: ReadonlyMap<AnyToken, Registration>): void {
+  const done = new Set<AnyToken>();
+  const path: AnyToken[] = [];
+
+  const visit = (token: AnyToken): void => {
+    if (done.has(token)) return;
+    const start = path.indexOf(token);
+    if (start !== -1) {
+      const cycle = [...path.slice(start), token].map((t) => t.name).join(' -> ');
+      throw new Error(`Cannot build container: dependency cycle ${cycle}.`);
+    }
+    path.push(token);
+    for (const dep of registrations.get(token)?.deps ?? []) visit(dep);
+    path.pop();
+    done.add(token);
+  };
+
+  for (const token of registrations.keys()) visit(token);
+}
+
+/**
+ * Rejects singletons that would hold on to the first scope's instances.
+ * Transients count as scoped when anything below them is scoped.
+ */
+function assertNoCaptiveDependencies(registrations: ReadonlyMap<AnyToken, Registration>): void {
+  const scopeBound = new Map<AnyToken, AnyToken | undefined>();
+
+  // Returns the scoped token the dependency ends up depending on, if any
+  const scopedSource = (token: AnyToken): AnyToken | undefined => {
+    if (scopeBound.has(token)) return scopeBound.get(token);
+    const registration = registrations.get(token);
+    let source: AnyToken | undefined;
+    if (registration?.lifetime === 'scoped' || registration?.lifetime === 'scope-value') {
+      source = token;
+    } else if (registration?.lifetime === 'transient') {
+      source = registration.deps.map(scopedSource).find(Boolean);
+    }
+    scopeBound.set(token, source);
+    return source;
+  };
+
+  for (const registration of registrations.values()) {
+    if (registration.lifetime !== 'singleton') continue;
+    for (const dep of registration.deps) {
+      const source = scopedSource(dep);
+      if (source) {
+        throw new Error(
+          `Cannot build container: singleton "${registration.token.name}" depends on scoped "${source.name}".`,
+        );
+      }
+    }
+  }
+}
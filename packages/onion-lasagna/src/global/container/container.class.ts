@@ -0,0 +1,143 @@
+import type { Lifetime } from './container-builder.class';
+import type { Token } from './token.util';
+
+type AnyToken = Token<unknown>;
+
+/**
+ * A registered dependency.
+ * @internal
+ */
+export interface Registration {
+  readonly token: AnyToken;
+  readonly lifetime: Lifetime | 'scope-value';
+  readonly deps: readonly AnyToken[];
+  readonly factory: (...deps: unknown[]) => unknown;
+}
+
+/**
+ * Anything that resolves tokens: a {@link Container} or a {@link ContainerScope}.
+ */
+export interface Resolver {
+  /**
+   * Resolves a token to its instance.
+   *
+   * @throws {Error} When the token is not registered, or is scoped and
+   * resolved outside a scope
+   */
+  resolve<T>(token: Token<T>): T;
+}
+
+/**
+ * A value supplied to a scope. Create with {@link provide}.
+ */
+export interface ScopeValue {
+  readonly token: AnyToken;
+  readonly value: unknown;
+}
+
+/**
+ * Pairs a token declared with `scopeValue()` with its value for one scope.
+ *
+ * @example
+ * ```typescript
+ * const scope = container.createScope([provide(RequestContext, ctx)]);
+ * ```
+ */
+export function provide<T>(token: Token<T>, value: NoInfer<T>): ScopeValue {
+  return { token, value };
+}
+
+/**
+ * Instances owned by one scope.
+ */
+interface ScopeState {
+  readonly instances: Map<AnyToken, unknown>;
+}
+
+/**
+ * Dependency container built by {@link ContainerBuilder}.
+ *
+ * Resolves singletons and transients directly. Scoped dependencies need a
+ * scope: create one per request, event or schedule run with `createScope()`.
+ */
+export class Container implements Resolver {
+  private readonly singletons = new Map<AnyToken, unknown>();
+
+  /**
+   * @internal Use {@link ContainerBuilder.build}.
+   */
+  constructor(private readonly registrations: ReadonlyMap<AnyToken, Registration>) {}
+
+  resolve<T>(token: Token<T>): T {
+    return this.resolveIn(token, undefined) as T;
+  }
+
+  /**
+   * Creates a scope with its own scoped instances.
+   *
+   * @param values - Values for tokens declared with `scopeValue()`
+   * @returns The scope
+   * @throws {Error} When a value is given for a token not declared with `scopeValue()`
+   */
+  createScope(values: readonly ScopeValue[] = []): ContainerScope {
+    const instances = new Map<AnyToken, unknown>();
+    for (const { token, value } of values) {
+      if (this.registrations.get(token)?.lifetime !== 'scope-value') {
+        throw new Error(`"${token.name}" is not declared as a scope value.`);
+      }
+      instances.set(token, value);
+    }
+    return new ContainerScope((token) => this.resolveIn(token, { instances }));
+  }
+
+  private resolveIn(token: AnyToken, scope: ScopeState | undefined): unknown {
+    const registration = this.registrations.get(token);
+    if (!registration) {
+      throw new Error(`No registration for "${token.name}".`);
+    }
+
+    switch (registration.lifetime) {
+      case 'singleton':
+        return this.cached(this.singletons, registration, undefined);
+      case 'transient':
+        return this.create(registration, scope);
+      case 'scoped':
+      case 'scope-value':
+        if (!scope) {
+          throw new Error(`Cannot resolve scoped "${token.name}" outside a scope.`);
+        }
+        return this.cached(scope.instances, registration, scope);
+    }
+  }
+
+  private cached(
+    instances: Map<AnyToken, unknown>,
+    registration: Registration,
+    scope: ScopeState | undefined,
+  ): unknown {
+    if (instances.has(registration.token)) return instances.get(registration.token);
+    const instance = this.create(registration, scope);
+    instances.set(registration.token, instance);
+    return instance;
+  }
+
+  private create(registration: Registration, scope: ScopeState | undefined): unknown {
+    const deps = registration.deps.map((dep) => this.resolveIn(dep, scope));
+    return registration.factory(...deps);
+  }
+}
+
+/**
+ * One request, event or schedule run. Scoped dependencies are created once
+ * per scope; singletons are shared with the container.
+ */
+export class ContainerScope implements Resolver {
+  /**
+   * @internal Use {@link Container.createScope}.
+   */
+  constructor(private readonly resolveToken: (token: AnyToken) => unknown) {}
+
+  resolve<T>(token: Token<T>): T {
+    return this.resolveToken(token) as T;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './container-builder.class';
+export * from './container.class';
+export * from './token.util';
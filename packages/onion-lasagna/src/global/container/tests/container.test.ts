@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { ContainerBuilder } from '../container-builder.class';
+import { provide } from '../container.class';
+import { createToken } from '../token.util';
+
+interface Clock {
+  now(): number;
+}
+
+interface RequestContext {
+  userId: string;
+}
+
+class Greeter {
+  constructor(
+    readonly clock: Clock,
+    readonly ctx: RequestContext,
+  ) {}
+
+  greet(): string {
+    return `hello ${this.ctx.userId} at ${this.clock.now()}`;
+  }
+}
+
+const ClockToken = createToken<Clock>('Clock');
+const RequestContextToken = createToken<RequestContext>('RequestContext');
+const GreeterToken = createToken<Greeter>('Greeter');
+const IdToken = createToken<number>('Id');
+
+function buildContainer() {
+  let nextId = 0;
+  return new ContainerBuilder()
+    .singleton(ClockToken, () => ({ now: () => 42 }))
+    .transient(IdToken, () => ++nextId)
+    .scopeValue(RequestContextToken)
+    .scoped(
+      GreeterToken,
+      [ClockToken, RequestContextToken],
+      (clock, ctx) => new Greeter(clock, ctx),
+    )
+    .build();
+}
+
+describe('Container', () => {
+  describe('lifetimes', () => {
+    it('should share singletons across the container and its scopes', () => {
+      const container = buildContainer();
+      const scope = container.createScope();
+
+      expect(container.resolve(ClockToken)).toBe(scope.resolve(ClockToken));
+    });
+
+    it('should create transients on every resolution', () => {
+      const container = buildContainer();
+
+      expect(container.resolve(IdToken)).toBe(1);
+      expect(container.resolve(IdToken)).toBe(2);
+    });
+
+    it('should create scoped instances once per scope', () => {
+      const container = buildContainer();
+      const first = container.createScope([provide(RequestContextToken, { userId: 'u-1' })]);
+      const second = container.createScope([provide(RequestContextToken, { userId: 'u-2' })]);
+
+      expect(first.resolve(GreeterToken)).toBe(first.resolve(GreeterToken));
+      expect(first.resolve(GreeterToken)).not.toBe(second.resolve(GreeterToken));
+      expect(second.resolve(GreeterToken).greet()).toBe('hello u-2 at 42');
+    });
+
+    it('should register existing instances as values', () => {
+      const clock = { now: () => 1 };
+      const container = new ContainerBuilder().value(ClockToken, clock).build();
+
+      expect(container.resolve(ClockToken)).toBe(clock);
+    });
+  });
+
+  describe('resolution errors', () => {
+    it('should reject scoped resolution outside a scope', () => {
+      expect(() => buildContainer().resolve(GreeterToken)).toThrow(
+        'Cannot resolve scoped "Greeter" outside a scope.',
+      );
+    });
+
+    it('should reject scope values that were not provided', () => {
+      const scope = buildContainer().createScope();
+
+      expect(() => scope.resolve(GreeterToken)).toThrow(
+        'Scope value "RequestContext" was not provided to this scope.',
+      );
+    });
+
+    it('should reject values for tokens not declared as scope values', () => {
+      expect(() => buildContainer().createScope([provide(ClockToken, { now: () => 0 })])).toThrow(
+        '"Clock" is not declared as a scope value.',
+      );
+    });
+
+    it('should reject unregistered tokens', () => {
+      expect(() => buildContainer().resolve(createToken<string>('Missing'))).toThrow(
+        'No registration for "Missing".',
+      );
+    });
+  });
+
+  describe('build', () => {
+    it('should reject duplicate registrations', () => {
+      const builder = new ContainerBuilder().singleton(IdToken, () => 1);
+
+      expect(() => builder.transient(IdToken, () => 2)).toThrow('"Id" is already registered.');
+    });
+
+    it('should reject dependencies that are not registered', () => {
+      const builder = new ContainerBuilder().singleton(IdToken, [ClockToken], (clock) =>
+        clock.now(),
+      );
+
+      expect(() => builder.build()).toThrow(
+        'Cannot build container: "Id" depends on "Clock", which is not registered.',
+      );
+    });
+
+    it('should detect dependency cycles', () => {
+      const A = createToken<number>('A');
+      const B = createToken<number>('B');
+      const C = createToken<number>('C');
+      const builder = new ContainerBuilder()
+        .singleton(A, [B], (b) => b)
+        .singleton(B, [C], (c) => c)
+        .singleton(C, [A], (a) => a);
+
+      expect(() => builder.build()).toThrow(
+        'Cannot build container: dependency cycle A -> B -> C -> A.',
+      );
+    });
+
+    it('should reject singletons that capture scoped dependencies through transients', () => {
+      const Message = createToken<string>('Message');
+      const Cached = createToken<string>('Cached');
+      const builder = new ContainerBuilder()
+        .scopeValue(RequestContextToken)
+        .transient(Message, [RequestContextToken], (ctx) => ctx.userId)
+        .singleton(Cached, [Message], (message) => message);
+
+      expect(() => builder.build()).toThrow(
+        'Cannot build container: singleton "Cached" depends on scoped "RequestContext".',
+      );
+    });
+
+    it('should not instantiate anything while building', () => {
+      let created = false;
+      new ContainerBuilder()
+        .singleton(IdToken, () => {
+          created = true;
+          return 1;
+        })
+        .build();
+
+      expect(created).toBe(false);
+    });
+  });
+
+  describe('types', () => {
+    it('should type factory arguments from the declared tokens', () => {
+      new ContainerBuilder()
+        .singleton(ClockToken, () => ({ now: () => 0 }))
+        // @ts-expect-error - the factory must return a number
+        .singleton(IdToken, [ClockToken], (clock) => clock);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Typed key for a dependency registered in a {@link ContainerBuilder}.
+ *
+ * Tokens are compared by identity, so two tokens with the same name are
+ * still different keys. The name is only used in error messages.
+ *
+ * @typeParam T - Type of the value the token resolves to
+ */
+export interface Token<T> {
+  /** Name shown in error messages (e.g. `'UserRepository'`). */
+  readonly name: string;
+
+  /**
+   * Phantom type marker. Never set at runtime.
+   * @internal
+   */
+  readonly _type?: T;
+}
+
+/**
+ * Resolved type of a {@link Token}.
+ */
+export type TokenType<T> = T extends Token<infer V> ? V : never;
+
+/**
+ * Resolved types of a tuple of tokens, in order.
+ */
+export type TokenTypes<T extends readonly Token<unknown>[]> = {
+  -readonly [K in keyof T]: TokenType<T[K]>;
+};
+
+/**
+ * Creates a typed dependency token.
+ *
+ * @param name - Name shown in error messages
+ * @returns A new token, distinct from every other token
+ *
+ * @example
+ * ```typescript
+ * export const Logger = createToken<LoggerPort>('Logger');
+ * export const UserRepository = createToken<UserRepositoryPort>('UserRepository');
+ * ```
+ */
+export function createToken<T>(name: string): Token<T> {
+  return Object.freeze({ name });
+}
@@ -31,8 +31,20 @@ export const ErrorCodes = {
     DOMAIN_ERROR: 'DOMAIN_ERROR',
     /** Business invariant was violated */
     INVARIANT_VIOLATION: 'INVARIANT_VIOLATION',
+    /** One or more invariants failed, collected by field */
+    DOMAIN_VALIDATION_ERROR: 'DOMAIN_VALIDATION_ERROR',
     /** Aggregate was partially loaded (missing required relations) */
     PARTIAL_LOAD: 'PARTIAL_LOAD',
+    /** Candidate does not satisfy a specification */
+    SPECIFICATION_NOT_SATISFIED: 'SPECIFICATION_NOT_SATISFIED',
+    /** Specification has no filter form and only works in memory */
+    SPECIFICATION_NOT_TRANSLATABLE: 'SPECIFICATION_NOT_TRANSLATABLE',
+    /** Cursor pagination has no secret to sign or verify cursors with */
+    CURSOR_SECRET_MISSING: 'CURSOR_SECRET_MISSING',
+    /** Transition is not allowed from the current state */
+    ILLEGAL_STATE_TRANSITION: 'ILLEGAL_STATE_TRANSITION',
+    /** Transition guard rejected the transition */
+    STATE_TRANSITION_GUARD_FAILED: 'STATE_TRANSITION_GUARD_FAILED',
   },
 
   /**
@@ -46,12 +58,30 @@ export const ErrorCodes = {
     NOT_FOUND: 'NOT_FOUND',
     /** Resource state conflict (e.g., duplicate, already exists) */
     CONFLICT: 'CONFLICT',
+    /** Stale write rejected by optimistic concurrency (version mismatch) */
+    CONCURRENCY_CONFLICT: 'CONCURRENCY_CONFLICT',
     /** Request is valid but cannot be processed due to business rules */
     UNPROCESSABLE: 'UNPROCESSABLE',
     /** Authorization denied - user lacks permission for this operation */
     FORBIDDEN: 'FORBIDDEN',
     /** Authentication required or invalid - user is not authenticated */
     UNAUTHORIZED: 'UNAUTHORIZED',
+    /** Policy denied - actor does not hold the required permission */
+    MISSING_PERMISSION: 'MISSING_PERMISSION',
+    /** Policy denied - an attribute-based rule rejected the action */
+    POLICY_CONDITION_FAILED: 'POLICY_CONDITION_FAILED',
+    /** A request with the same idempotency key is still being processed */
+    IDEMPOTENCY_KEY_IN_USE: 'IDEMPOTENCY_KEY_IN_USE',
+    /** An idempotency key was reused with a different request */
+    IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+    /** No tenant was resolved for an operation that requires one */
+    TENANT_REQUIRED: 'TENANT_REQUIRED',
+    /** Data belongs to a different tenant than the current one */
+    TENANT_MISMATCH: 'TENANT_MISMATCH',
+    /** No handler is registered on the bus for a command or query */
+    HANDLER_NOT_REGISTERED: 'HANDLER_NOT_REGISTERED',
+    /** A second handler was registered on the bus for a command or query */
+    HANDLER_ALREADY_REGISTERED: 'HANDLER_ALREADY_REGISTERED',
   },
 
   /**
@@ -63,12 +93,26 @@ export const ErrorCodes = {
     INFRA_ERROR: 'INFRA_ERROR',
     /** Database operation failed */
     DB_ERROR: 'DB_ERROR',
+    /** Write rejected by a unique or primary key constraint */
+    DB_UNIQUE_VIOLATION: 'DB_UNIQUE_VIOLATION',
+    /** Write rejected by a foreign key constraint */
+    DB_FOREIGN_KEY_VIOLATION: 'DB_FOREIGN_KEY_VIOLATION',
+    /** Transaction aborted to resolve a deadlock */
+    DB_DEADLOCK: 'DB_DEADLOCK',
+    /** Transaction aborted because it could not be serialized */
+    DB_SERIALIZATION_FAILURE: 'DB_SERIALIZATION_FAILURE',
     /** Network connectivity or communication error */
     NETWORK_ERROR: 'NETWORK_ERROR',
     /** Operation timed out */
     TIMEOUT_ERROR: 'TIMEOUT_ERROR',
     /** External/third-party service error */
     EXTERNAL_SERVICE_ERROR: 'EXTERNAL_SERVICE_ERROR',
+    /** External service response did not match its declared schema */
+    INVALID_RESPONSE: 'INVALID_RESPONSE',
+    /** Call rejected because the circuit breaker is open */
+    CIRCUIT_OPEN: 'CIRCUIT_OPEN',
+    /** Call rejected because the bulkhead has no free slot */
+    BULKHEAD_FULL: 'BULKHEAD_FULL',
   },
 
   /**
@@ -91,6 +135,8 @@ export const ErrorCodes = {
   Global: {
     /** Object/schema validation failed */
     OBJECT_VALIDATION_ERROR: 'OBJECT_VALIDATION_ERROR',
+    /** Use case output did not match its declared output schema */
+    OUTPUT_VALIDATION_ERROR: 'OUTPUT_VALIDATION_ERROR',
   },
 } as const;
 
@@ -1,3 +1,4 @@
 export * from './error-codes.const';
 export * from './coded-error.error';
 export * from './object-validation.error';
+export * from './output-schema.error';
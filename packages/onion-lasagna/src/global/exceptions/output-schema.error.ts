@@ -0,0 +1,72 @@
+import { CodedError } from './coded-error.error';
+import { ErrorCodes, type GlobalErrorCode } from './error-codes.const';
+import type { ValidationError } from '../interfaces/types/validation-error.type';
+
+/**
+ * Error thrown when a use case returns output that breaks its declared
+ * `outputSchema`.
+ *
+ * Unlike {@link ObjectValidationError}, this is a bug in the use case, not in
+ * the request. Transports treat it as an internal error: HTTP answers with a
+ * masked 500, GraphQL with a masked `INTERNAL_ERROR`, and events and schedules
+ * do not retry it.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await getUser.execute({ userId });
+ * } catch (error) {
+ *   if (error instanceof OutputSchemaError) {
+ *     logger.error(error.message, { validationErrors: error.validationErrors });
+ *   }
+ * }
+ * ```
+ */
+export class OutputSchemaError extends CodedError {
+  protected override get errorTypeName(): string {
+    return 'OutputSchemaError';
+  }
+
+  /**
+   * Array of field-level validation errors, with paths starting at `output`.
+   */
+  validationErrors: ValidationError[];
+
+  /**
+   * Creates a new OutputSchemaError instance.
+   *
+   * @param options - Error configuration
+   * @param options.message - Internal description of the failure (not exposed to clients)
+   * @param options.code - Machine-readable error code (default: 'OUTPUT_VALIDATION_ERROR')
+   * @param options.cause - Optional underlying error
+   * @param options.validationErrors - Array of field-level validation errors
+   */
+  constructor({
+    message,
+    code = ErrorCodes.Global.OUTPUT_VALIDATION_ERROR,
+    cause,
+    validationErrors,
+  }: {
+    message: string;
+    code?: GlobalErrorCode | string;
+    cause?: unknown;
+    validationErrors: ValidationError[];
+  }) {
+    super({ message, code, cause });
+    this.validationErrors = validationErrors;
+  }
+
+  /**
+   * Creates an OutputSchemaError from a caught error.
+   *
+   * @param cause - The original caught error
+   * @returns A new OutputSchemaError instance with the cause attached
+   */
+  static override fromError(cause: unknown): OutputSchemaError {
+    return new OutputSchemaError({
+      message: cause instanceof Error ? cause.message : 'Output validation failed',
+      cause,
+      validationErrors: [],
+    });
+  }
+}
@@ -1,3 +1,4 @@
+export * from './container';
 export * from './exceptions';
 export * from './interfaces';
 export * from './utils';
@@ -0,0 +1,44 @@
+/**
+ * Subject a feature flag is evaluated for.
+ */
+export interface FeatureFlagContext {
+  /** Tenant of the current operation. */
+  readonly tenantId?: string;
+
+  /** User of the current operation. */
+  readonly userId?: string;
+}
+
+/**
+ * Outbound port for feature flags.
+ *
+ * Implementations decide whether a flag is on for a subject, e.g. from a
+ * static config, a JSON file or a flag service. Unknown flags are off.
+ *
+ * Route, field, event handler and scheduled task definitions can declare a
+ * `featureFlag`; the transports evaluate it through this port before the
+ * handler runs. Use cases can inject the port to gate behaviour inside.
+ *
+ * @example
+ * ```typescript
+ * class CheckoutUseCase {
+ *   constructor(private readonly flags: FeatureFlagPort) {}
+ *
+ *   async execute(input: CheckoutInput) {
+ *     if (await this.flags.isEnabled('new-pricing', { tenantId: input.tenantId })) {
+ *       // ...
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface FeatureFlagPort {
+  /**
+   * Checks whether a flag is on.
+   *
+   * @param flag - Flag name
+   * @param context - Subject to evaluate for. Implementations may default
+   *   it to the current execution context.
+   */
+  isEnabled(flag: string, context?: FeatureFlagContext): Promise<boolean>;
+}
@@ -0,0 +1,73 @@
+/**
+ * State of an idempotency key.
+ *
+ * - `in-progress` — The first request or delivery is still being processed.
+ * - `completed` — Processing finished; `response` is replayed for duplicates.
+ *
+ * @typeParam TResponse - Stored response type
+ */
+export type IdempotencyRecord<TResponse = unknown> =
+  | { readonly status: 'in-progress' }
+  | { readonly status: 'completed'; readonly response: TResponse };
+
+/**
+ * Options for {@link IdempotencyStorePort} writes.
+ */
+export interface IdempotencyStoreOptions {
+  /** Time-to-live in seconds. The key is free again once it expires. */
+  readonly ttl: number;
+}
+
+/**
+ * Outbound port for idempotency keys.
+ *
+ * Transports claim a key before running a use case, store the first
+ * response once it completes, and replay that response for duplicates.
+ * `claim` must be atomic: when two callers race for the same key, exactly
+ * one of them gets `undefined`.
+ *
+ * Responses are plain JSON-serializable objects (`HandlerResponse`,
+ * `EventResult`).
+ *
+ * @example
+ * ```typescript
+ * class RedisIdempotencyStore extends BaseOutboundAdapter implements IdempotencyStorePort {
+ *   async claim<T>(key: string, { ttl }: IdempotencyStoreOptions) {
+ *     const claimed = await this.redis.set(key, IN_PROGRESS, 'EX', ttl, 'NX');
+ *     if (claimed) return undefined;
+ *     const raw = await this.redis.get(key);
+ *     return raw ? (JSON.parse(raw) as IdempotencyRecord<T>) : undefined;
+ *   }
+ *   // ...
+ * }
+ * ```
+ */
+export interface IdempotencyStorePort {
+  /**
+   * Claims a key for processing.
+   *
+   * @param key - Idempotency key
+   * @param options - TTL of the in-progress claim
+   * @returns `undefined` if the key was free and is now claimed, otherwise the existing record
+   */
+  claim<TResponse = unknown>(
+    key: string,
+    options: IdempotencyStoreOptions,
+  ): Promise<IdempotencyRecord<TResponse> | undefined>;
+
+  /**
+   * Stores the response of a claimed key, replacing the in-progress claim.
+   *
+   * @param key - Idempotency key
+   * @param response - Response to replay for duplicates
+   * @param options - TTL of the stored response
+   */
+  complete(key: string, response: unknown, options: IdempotencyStoreOptions): Promise<void>;
+
+  /**
+   * Releases a claimed key without storing a response, so it can be retried.
+   *
+   * @param key - Idempotency key
+   */
+  release(key: string): Promise<void>;
+}
@@ -1,6 +1,12 @@
 export type { CachePort, CacheSetOptions } from './cache.port';
 export type { ClockPort } from './clock.port';
 export type { EmailServicePort, EmailMessage } from './email-service.port';
+export type { FeatureFlagContext, FeatureFlagPort } from './feature-flag.port';
 export type { IdGeneratorPort } from './id-generator.port';
+export type {
+  IdempotencyRecord,
+  IdempotencyStoreOptions,
+  IdempotencyStorePort,
+} from './idempotency-store.port';
 export type { LoggerPort } from './logger.port';
 export type { UnitOfWorkPort } from './unit-of-work.port';
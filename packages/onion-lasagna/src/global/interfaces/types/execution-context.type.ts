@@ -0,0 +1,23 @@
+/**
+ * Ambient information about the work currently being processed.
+ *
+ * Established by the HTTP, GraphQL, event and schedule pipelines and
+ * readable anywhere below them with `getExecutionContext()`, without
+ * threading it through every call.
+ */
+export interface ExecutionContext {
+  /** Identifies the whole flow, across services and messages. */
+  readonly correlationId: string;
+
+  /**
+   * ID of the request, event or run being processed. Recorded as the
+   * causation of anything it produces (e.g. domain events).
+   */
+  readonly causationId?: string;
+
+  /** ID of the user or service performing the work. */
+  readonly actorId?: string;
+
+  /** Tenant the work belongs to. */
+  readonly tenantId?: string;
+}
@@ -1,2 +1,7 @@
+export * from './execution-context.type';
+export * from './json-schema.type';
 export * from './pagination.type';
+export * from './result.type';
+export * from './schema-adapter.type';
+export * from './validation.type';
 export * from './validation-error.type';
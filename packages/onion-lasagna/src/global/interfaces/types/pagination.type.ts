@@ -15,3 +15,25 @@ export interface PaginatedData<T> {
   items: T[];
   total: number;
 }
+
+/**
+ * Common cursor pagination input for use case queries.
+ */
+export interface CursorPaginationInput {
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Generic cursor-paginated result wrapper.
+ *
+ * Cursors are opaque strings; `null` means there is no page in that direction.
+ *
+ * @typeParam T - The type of items in the result
+ */
+export interface CursorPaginatedData<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasMore: boolean;
+}
@@ -0,0 +1,48 @@
+/**
+ * Successful outcome of an operation returning a {@link Result}.
+ *
+ * @typeParam T - The type of the value
+ */
+export interface Ok<T> {
+  readonly ok: true;
+  readonly value: T;
+}
+
+/**
+ * Failed outcome of an operation returning a {@link Result}.
+ *
+ * @typeParam E - The type of the error
+ */
+export interface Err<E> {
+  readonly ok: false;
+  readonly error: E;
+}
+
+/**
+ * Outcome of an operation that fails with a declared set of errors instead
+ * of throwing them.
+ *
+ * Narrow on `ok` to access the value or the error.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam E - Union of the declared error types
+ */
+export type Result<T, E> = Ok<T> | Err<E>;
+
+/**
+ * Extracts the success value type of a {@link Result}.
+ * Non-result types (including `any`) are returned unchanged.
+ */
+export type ResultValue<T> = 0 extends 1 & T
+  ? T
+  : T extends Ok<infer V>
+    ? V
+    : T extends Err<unknown>
+      ? never
+      : T;
+
+/**
+ * Extracts the error union of a {@link Result}.
+ * Resolves to `never` for non-result types.
+ */
+export type ResultError<T> = T extends Err<infer E> ? E : never;
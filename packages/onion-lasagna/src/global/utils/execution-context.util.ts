@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ExecutionContext } from '../interfaces/types/execution-context.type';
+
+const storage = new AsyncLocalStorage<ExecutionContext>();
+
+/**
+ * Runs `fn` with `context` as the ambient execution context.
+ *
+ * The context follows every async continuation started by `fn`. Nested calls
+ * replace it for their own duration only.
+ *
+ * @param context - Context visible to `fn` and everything it calls
+ * @param fn - Work to run
+ * @returns The return value of `fn`
+ *
+ * @example
+ * ```typescript
+ * // In a middleware, add the actor once authentication has run
+ * const current = getExecutionContext();
+ * return runWithExecutionContext({ ...current!, actorId: user.id }, next);
+ * ```
+ */
+export function runWithExecutionContext<T>(context: ExecutionContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the ambient execution context, or `undefined` outside of one.
+ */
+export function getExecutionContext(): ExecutionContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Reads the actor and tenant from the conventional `actorId` (or `userId`)
+ * and `tenantId` string fields of a handler context or message metadata.
+ *
+ * @param source - Handler context or metadata
+ * @returns The fields that are present
+ */
+export function executionIdentityOf(
+  source: Readonly<Record<string, unknown>>,
+): Pick<ExecutionContext, 'actorId' | 'tenantId'> {
+  const actorId = stringOrUndefined(source['actorId']) ?? stringOrUndefined(source['userId']);
+  const tenantId = stringOrUndefined(source['tenantId']);
+  return { ...(actorId ? { actorId } : {}), ...(tenantId ? { tenantId } : {}) };
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
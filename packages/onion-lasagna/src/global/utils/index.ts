@@ -1,2 +1,4 @@
+export * from './execution-context.util';
 export * from './field-changed.util';
+export * from './result.util';
 export * from './wrap-error.util';
@@ -0,0 +1,99 @@
+/**
+ * Result helpers for use cases that return their declared errors instead of
+ * throwing them.
+ *
+ * Values built with {@link ok} and {@link err} carry a stable brand so the
+ * transport pipelines can tell a {@link Result} apart from a plain output
+ * that happens to have an `ok` property.
+ *
+ * @example
+ * ```typescript
+ * async function findUser(id: string): Promise<Result<User, NotFoundError>> {
+ *   const user = await repo.findById(id);
+ *   if (!user) return err(new NotFoundError({ message: 'User not found' }));
+ *   return ok(user);
+ * }
+ *
+ * const result = await findUser('user-1');
+ * if (result.ok) {
+ *   console.log(result.value.email);
+ * } else {
+ *   console.log(result.error.code);
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { Err, Ok, Result } from '../interfaces/types/result.type';
+
+/**
+ * Stable symbol used to brand values created by {@link ok} and {@link err}.
+ *
+ * Uses `Symbol.for` so the brand is shared across multiple copies of the
+ * library, like `CODED_ERROR_TYPE`.
+ */
+export const RESULT_TYPE = Symbol.for('onion-lasagna.result');
+
+/**
+ * Constructor type for the error classes a result-mode use case declares.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ErrorClass<E extends Error = Error> = abstract new (...args: any[]) => E;
+
+/**
+ * Union of the instance types of a list of error classes.
+ *
+ * @example
+ * ```typescript
+ * const createUserErrors = [EmailTakenError, ForbiddenError] as const;
+ * type CreateUserError = ErrorsOf<typeof createUserErrors>; // EmailTakenError | ForbiddenError
+ * ```
+ */
+export type ErrorsOf<T extends readonly ErrorClass[]> = InstanceType<T[number]>;
+
+function brand<T extends object>(result: T): T {
+  Object.defineProperty(result, RESULT_TYPE, {
+    value: true,
+    enumerable: false,
+    writable: false,
+    configurable: false,
+  });
+  return Object.freeze(result);
+}
+
+/**
+ * Creates a successful result.
+ *
+ * @param value - The success value
+ * @returns A frozen `Ok` result
+ */
+export function ok<T>(value: T): Ok<T>;
+export function ok(): Ok<void>;
+export function ok<T>(value?: T): Ok<T | undefined> {
+  return brand({ ok: true as const, value });
+}
+
+/**
+ * Creates a failed result.
+ *
+ * @param error - The declared error
+ * @returns A frozen `Err` result
+ */
+export function err<E>(error: E): Err<E> {
+  return brand({ ok: false as const, error });
+}
+
+/**
+ * Checks whether a value was created by {@link ok} or {@link err}.
+ *
+ * @param value - Any value (typically a use case output)
+ * @returns True if the value is a branded result
+ */
+export function isResult(value: unknown): value is Result<unknown, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<symbol, unknown>)[RESULT_TYPE] === true
+  );
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  executionIdentityOf,
+  getExecutionContext,
+  runWithExecutionContext,
+} from '../execution-context.util';
+
+describe('execution context', () => {
+  describe('runWithExecutionContext / getExecutionContext', () => {
+    it('should return undefined outside of a context', () => {
+      expect(getExecutionContext()).toBeUndefined();
+    });
+
+    it('should expose the context to synchronous code', () => {
+      const seen = runWithExecutionContext({ correlationId: 'c-1' }, () => getExecutionContext());
+
+      expect(seen).toEqual({ correlationId: 'c-1' });
+      expect(getExecutionContext()).toBeUndefined();
+    });
+
+    it('should follow async continuations', async () => {
+      const seen = await runWithExecutionContext({ correlationId: 'c-1' }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getExecutionContext()?.correlationId;
+      });
+
+      expect(seen).toBe('c-1');
+    });
+
+    it('should keep concurrent contexts apart', async () => {
+      const read = (correlationId: string, delay: number) =>
+        runWithExecutionContext({ correlationId }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return getExecutionContext()?.correlationId;
+        });
+
+      expect(await Promise.all([read('a', 5), read('b', 1)])).toEqual(['a', 'b']);
+    });
+
+    it('should restore the outer context after a nested run', () => {
+      runWithExecutionContext({ correlationId: 'outer' }, () => {
+        const inner = runWithExecutionContext(
+          { correlationId: 'outer', actorId: 'user-1' },
+          () => getExecutionContext()?.actorId,
+        );
+
+        expect(inner).toBe('user-1');
+        expect(getExecutionContext()).toEqual({ correlationId: 'outer' });
+      });
+    });
+  });
+
+  describe('executionIdentityOf', () => {
+    it('should read actorId and tenantId', () => {
+      expect(executionIdentityOf({ actorId: 'a-1', tenantId: 't-1' })).toEqual({
+        actorId: 'a-1',
+        tenantId: 't-1',
+      });
+    });
+
+    it('should fall back to userId for the actor', () => {
+      expect(executionIdentityOf({ userId: 'u-1' })).toEqual({ actorId: 'u-1' });
+    });
+
+    it('should ignore missing, empty and non-string fields', () => {
+      expect(executionIdentityOf({ actorId: '', userId: 42, tenantId: null })).toEqual({});
+    });
+  });
+});
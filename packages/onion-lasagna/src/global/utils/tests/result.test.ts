@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ok, err, isResult } from '../result.util';
+import { NotFoundError } from '../../../app/exceptions/not-found.error';
+
+describe('result', () => {
+  describe('ok / err', () => {
+    it('should create a successful result', () => {
+      const result = ok({ id: '1' });
+
+      expect(result.ok).toBe(true);
+      expect(result.value).toEqual({ id: '1' });
+    });
+
+    it('should create a successful result without a value', () => {
+      expect(ok()).toEqual({ ok: true, value: undefined });
+    });
+
+    it('should create a failed result', () => {
+      const error = new NotFoundError({ message: 'User not found' });
+      const result = err(error);
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toBe(error);
+    });
+
+    it('should freeze results and keep the brand out of serialization', () => {
+      const result = ok({ id: '1' });
+
+      expect(Object.isFrozen(result)).toBe(true);
+      expect(JSON.parse(JSON.stringify(result))).toEqual({ ok: true, value: { id: '1' } });
+    });
+  });
+
+  describe('isResult', () => {
+    it('should recognize results created by ok and err', () => {
+      expect(isResult(ok(1))).toBe(true);
+      expect(isResult(err(new NotFoundError({ message: 'Missing' })))).toBe(true);
+    });
+
+    it('should not treat look-alike objects as results', () => {
+      expect(isResult({ ok: true, value: 1 })).toBe(false);
+      expect(isResult({ ok: false, error: new Error('x') })).toBe(false);
+      expect(isResult(null)).toBe(false);
+      expect(isResult(undefined)).toBe(false);
+      expect(isResult('ok')).toBe(false);
+    });
+  });
+});
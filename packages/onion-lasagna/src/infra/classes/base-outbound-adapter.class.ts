@@ -1,4 +1,13 @@
 import { InfraError } from '../exceptions/infra.error';
+import type { ExecutionContext } from '../../global/interfaces/types/execution-context.type';
+import { getExecutionContext } from '../../global/utils/execution-context.util';
+import { AdapterResilienceRegistry } from '../resilience/adapter-resilience-registry.class';
+import {
+  classifyInfraError,
+  defaultInfraErrorClassifiers,
+} from '../error-classifiers/classify-infra-error.util';
+import type { InfraErrorClassifier } from '../error-classifiers/infra-error-classifier.type';
+import type { AdapterResilience, CircuitState } from '../resilience/resilience-policy.type';
 
 /** @internal Function signature for wrapped methods. */
 type UnknownFn = (...args: unknown[]) => unknown;
@@ -36,6 +45,24 @@ type UnknownFn = (...args: unknown[]) => unknown;
  * If the thrown (or rejected) value is already an `instanceof InfraError`
  * it is re-thrown as-is so that the subtype and error code are preserved.
  *
+ * ### Error classification
+ *
+ * Other errors are turned into `InfraError` subclasses by a classifier
+ * chain: the adapter's `errorClassifiers`, then the global ones registered
+ * with `useErrorClassifiers()`, then the built-in classifiers for Node
+ * system errors, fetch/undici errors, `AbortError`s and SQL driver errors.
+ * Unrecognised errors become a generic `InfraError`.
+ *
+ * ### Resilience policies
+ *
+ * Subclasses may declare retry, circuit breaker, timeout and bulkhead
+ * policies in the `resilience` field, for all methods or per method. Calls
+ * to covered methods run through the policies before their errors are
+ * translated; covered methods always return a promise. Retries are decided
+ * on the classified error, so only transient failures are retried by
+ * default. Circuit breaker
+ * states are available from `circuitStates()` for health checks.
+ *
  * ### Configurability
  *
  * All wrapped properties are installed with `configurable: true` so that
@@ -76,8 +103,61 @@ type UnknownFn = (...args: unknown[]) => unknown;
  *   }
  * }
  * ```
+ *
+ * @example Resilience policies
+ * ```typescript
+ * class PaymentGatewayAdapter extends BaseOutboundAdapter implements PaymentGatewayPort {
+ *   protected override readonly resilience: AdapterResilience = {
+ *     default: {
+ *       retry: { maxAttempts: 3, backoffMs: exponentialBackoff(100, 2000) },
+ *       circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30_000 },
+ *       timeoutMs: 5000,
+ *     },
+ *     methods: {
+ *       charge: { retry: undefined }, // never retry a charge
+ *     },
+ *   };
+ * }
+ * ```
  */
 export abstract class BaseOutboundAdapter {
+  private static globalErrorClassifiers: readonly InfraErrorClassifier[] = [];
+
+  /**
+   * Registers classifiers that run for every adapter, before the built-in
+   * ones. Per-adapter {@link errorClassifiers} run before these.
+   *
+   * @param classifiers - Classifiers to append to the global chain
+   */
+  public static useErrorClassifiers(...classifiers: InfraErrorClassifier[]): void {
+    BaseOutboundAdapter.globalErrorClassifiers = [
+      ...BaseOutboundAdapter.globalErrorClassifiers,
+      ...classifiers,
+    ];
+  }
+
+  /**
+   * Removes all global error classifiers. Mainly useful in tests.
+   */
+  public static clearErrorClassifiers(): void {
+    BaseOutboundAdapter.globalErrorClassifiers = [];
+  }
+
+  /**
+   * Classifiers for this adapter's errors, tried before the global and
+   * built-in ones.
+   */
+  protected readonly errorClassifiers: readonly InfraErrorClassifier[] = [];
+
+  /**
+   * Resilience policies applied to the adapter's methods.
+   * Read on the first method call.
+   */
+  protected readonly resilience?: AdapterResilience;
+
+  /** @internal Built from `resilience` on first use. */
+  private resilienceRegistry: AdapterResilienceRegistry | undefined;
+
   /**
    * Initializes the adapter.
    *
@@ -134,6 +214,17 @@ export abstract class BaseOutboundAdapter {
         // Build the wrapper
         const methodName = prop;
         const wrapped: UnknownFn = (...args: unknown[]) => {
+          // Methods covered by resilience policies run through their pipeline
+          const pipeline = (receiver as BaseOutboundAdapter).resiliencePipeline(methodName);
+          if (pipeline) {
+            return pipeline
+              .execute(async () => Reflect.apply(raw as UnknownFn, receiver, args), methodName)
+              .catch((error: unknown) => {
+                if (error instanceof InfraError) throw error;
+                throw (receiver as BaseOutboundAdapter).createInfraError(error, methodName);
+              });
+          }
+
           let result: unknown;
           try {
             result = Reflect.apply(raw as UnknownFn, receiver, args);
@@ -202,21 +293,61 @@ export abstract class BaseOutboundAdapter {
     return proxy;
   }
 
+  /**
+   * Ambient execution context of the current call (correlation ID, actor,
+   * tenant), or `undefined` outside of a request, event or schedule run.
+   * Useful for tagging outgoing calls and rows.
+   */
+  protected get executionContext(): ExecutionContext | undefined {
+    return getExecutionContext();
+  }
+
+  /**
+   * States of the adapter's circuit breakers, for health checks. The
+   * breaker declared in `resilience.default` is reported as `default`,
+   * method-level breakers under their method name.
+   *
+   * @example
+   * ```typescript
+   * paymentGateway.circuitStates(); // { default: 'closed', refund: 'open' }
+   * ```
+   */
+  public circuitStates(): Readonly<Record<string, CircuitState>> {
+    return this.resiliencePipelines()?.circuitStates() ?? {};
+  }
+
+  /** @internal Pipeline of a method, if any policy covers it. */
+  private resiliencePipeline(methodName: string) {
+    return this.resiliencePipelines()?.pipelineFor(methodName);
+  }
+
+  /** @internal */
+  private resiliencePipelines(): AdapterResilienceRegistry | undefined {
+    if (!this.resilience) return undefined;
+    this.resilienceRegistry ??= new AdapterResilienceRegistry(
+      this.resilience,
+      (error, methodName) => this.createInfraError(error, methodName),
+    );
+    return this.resilienceRegistry;
+  }
+
   /**
    * Factory method for creating infrastructure errors.
    *
-   * Override this in subclasses to return specific error types
-   * (e.g., `DbError`, `NetworkError`, `ExternalServiceError`).
+   * Runs the classifier chain, so known failures become `DbError`,
+   * `NetworkError`, `TimeoutError` or `ExternalServiceError`. Override this
+   * in subclasses to take full control of the translation.
    *
    * @param error - The original error that was caught
    * @param methodName - Name of the method where the error occurred (for debugging)
    * @returns An InfraError instance wrapping the original error
    */
   protected createInfraError(error: unknown, methodName: string): InfraError {
-    return new InfraError({
-      message: `Outbound adapter error in ${methodName}`,
-      cause: error,
-    });
+    return classifyInfraError(error, methodName, [
+      ...this.errorClassifiers,
+      ...BaseOutboundAdapter.globalErrorClassifiers,
+      ...defaultInfraErrorClassifiers,
+    ]);
   }
 }
 
@@ -0,0 +1,56 @@
+import type { LoggerPort } from '../../global/interfaces/ports/logger.port';
+import { getExecutionContext } from '../../global/utils/execution-context.util';
+
+/**
+ * {@link LoggerPort} decorator that adds the ambient execution context
+ * (`correlationId`, `causationId`, `actorId`, `tenantId`) to every entry.
+ *
+ * The context is read when each entry is written, so one instance created
+ * at bootstrap logs the right IDs for every request, event or schedule run.
+ * Children created with `child()` stay context-aware. Fields passed in
+ * `data` win over context fields with the same name.
+ *
+ * @example
+ * ```typescript
+ * const logger = new ContextAwareLogger(new PinoLogger(pino()));
+ *
+ * // Inside an HTTP handler, event handler or schedule run:
+ * logger.info('User created', { userId });
+ * // → { correlationId: 'req_…', causationId: 'req_…', userId: '…' }
+ * ```
+ */
+export class ContextAwareLogger implements LoggerPort {
+  /**
+   * @param logger - Logger that receives the enriched entries
+   */
+  constructor(private readonly logger: LoggerPort) {}
+
+  debug(msg: string, data?: Record<string, unknown>): void {
+    this.logger.debug(msg, withContext(data));
+  }
+
+  info(msg: string, data?: Record<string, unknown>): void {
+    this.logger.info(msg, withContext(data));
+  }
+
+  warn(msg: string, data?: Record<string, unknown>): void {
+    this.logger.warn(msg, withContext(data));
+  }
+
+  error(msg: string, data?: Record<string, unknown>): void {
+    this.logger.error(msg, withContext(data));
+  }
+
+  child(bindings: Record<string, unknown>): LoggerPort {
+    return new ContextAwareLogger(this.logger.child(bindings));
+  }
+}
+
+function withContext(data?: Record<string, unknown>): Record<string, unknown> | undefined {
+  const context = getExecutionContext();
+  if (!context) return data;
+  const fields = Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined),
+  );
+  return { ...fields, ...data };
+}
@@ -0,0 +1,116 @@
+import { createHash } from 'node:crypto';
+import type {
+  FeatureFlagContext,
+  FeatureFlagPort,
+} from '../../global/interfaces/ports/feature-flag.port';
+import { getExecutionContext } from '../../global/utils/execution-context.util';
+
+/**
+ * Targeting rule of a single feature flag.
+ *
+ * Evaluated in order:
+ * 1. `enabled: false` turns the flag off for everyone.
+ * 2. Users in `users` and tenants in `tenants` always get the flag.
+ * 3. With a `percentage`, that share of subjects gets the flag. Subjects
+ *    are bucketed by user ID, falling back to tenant ID, so each one keeps
+ *    its answer across calls.
+ * 4. With only `users` / `tenants`, everyone else is off.
+ * 5. Otherwise the flag is on for everyone.
+ */
+export interface FeatureFlagRule {
+  /** Master switch. */
+  readonly enabled: boolean;
+
+  /** Share of subjects (0-100) that get the flag. */
+  readonly percentage?: number;
+
+  /** Tenant IDs that always get the flag. */
+  readonly tenants?: readonly string[];
+
+  /** User IDs that always get the flag. */
+  readonly users?: readonly string[];
+}
+
+/**
+ * Flag names mapped to rules. `true` / `false` are shorthands for
+ * `{ enabled: true }` / `{ enabled: false }`.
+ */
+export type FeatureFlagRules = Readonly<Record<string, FeatureFlagRule | boolean>>;
+
+/**
+ * Reference in-memory implementation of {@link FeatureFlagPort}.
+ *
+ * Without an explicit context, flags are evaluated for the tenant and actor
+ * of the current execution context. Intended for tests, local development
+ * and deployments with static flags.
+ *
+ * @example
+ * ```typescript
+ * const flags = new InMemoryFeatureFlagProvider({
+ *   'new-checkout': { enabled: true, percentage: 25, tenants: ['acme'] },
+ *   'legacy-export': false,
+ * });
+ *
+ * await flags.isEnabled('new-checkout', { tenantId: 'acme' }); // true
+ * ```
+ */
+export class InMemoryFeatureFlagProvider implements FeatureFlagPort {
+  private readonly rules: Map<string, FeatureFlagRule | boolean>;
+
+  constructor(rules: FeatureFlagRules = {}) {
+    this.rules = new Map(Object.entries(rules));
+  }
+
+  public async isEnabled(flag: string, context?: FeatureFlagContext): Promise<boolean> {
+    const rule = this.rules.get(flag);
+    if (rule === undefined) return false;
+    if (typeof rule === 'boolean') return rule;
+    return evaluateRule(flag, rule, context ?? ambientFeatureFlagContext());
+  }
+
+  /**
+   * Adds or replaces the rule of a flag.
+   *
+   * @param flag - Flag name
+   * @param rule - New rule
+   */
+  public set(flag: string, rule: FeatureFlagRule | boolean): void {
+    this.rules.set(flag, rule);
+  }
+
+  /**
+   * Replaces all rules.
+   *
+   * @param rules - New rules
+   */
+  public replaceAll(rules: FeatureFlagRules): void {
+    this.rules.clear();
+    for (const [flag, rule] of Object.entries(rules)) this.rules.set(flag, rule);
+  }
+}
+
+function evaluateRule(flag: string, rule: FeatureFlagRule, context: FeatureFlagContext): boolean {
+  if (!rule.enabled) return false;
+
+  const { tenantId, userId } = context;
+  if (userId !== undefined && rule.users?.includes(userId)) return true;
+  if (tenantId !== undefined && rule.tenants?.includes(tenantId)) return true;
+
+  if (rule.percentage !== undefined) {
+    const subject = userId ?? tenantId;
+    if (subject === undefined) return rule.percentage >= 100;
+    return bucketOf(flag, subject) < rule.percentage;
+  }
+
+  return rule.users === undefined && rule.tenants === undefined;
+}
+
+/** Stable bucket (0-99) of a subject for a flag. */
+function bucketOf(flag: string, subject: string): number {
+  return createHash('sha256').update(`${flag}:${subject}`).digest().readUInt32BE(0) % 100;
+}
+
+function ambientFeatureFlagContext(): FeatureFlagContext {
+  const executionContext = getExecutionContext();
+  return { tenantId: executionContext?.tenantId, userId: executionContext?.actorId };
+}
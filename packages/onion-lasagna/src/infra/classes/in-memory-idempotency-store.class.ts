@@ -0,0 +1,61 @@
+import type { ClockPort } from '../../global/interfaces/ports/clock.port';
+import type {
+  IdempotencyRecord,
+  IdempotencyStoreOptions,
+  IdempotencyStorePort,
+} from '../../global/interfaces/ports/idempotency-store.port';
+
+/** @internal Entry kept by the in-memory store. */
+interface IdempotencyEntry {
+  record: IdempotencyRecord;
+  expiresAt: number;
+}
+
+/**
+ * Reference in-memory implementation of {@link IdempotencyStorePort}.
+ *
+ * Responses are stored as JSON copies, so replays match what a durable
+ * store would return. Keys are only shared within one process — intended
+ * for tests and single-instance deployments.
+ *
+ * @example
+ * ```typescript
+ * const routes = serverRoutes(router)
+ *   .handle(...)
+ *   .build({ idempotency: { store: new InMemoryIdempotencyStore() } });
+ * ```
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStorePort {
+  private readonly entries = new Map<string, IdempotencyEntry>();
+
+  constructor(private readonly clock: ClockPort = { now: () => new Date() }) {}
+
+  public async claim<TResponse = unknown>(
+    key: string,
+    { ttl }: IdempotencyStoreOptions,
+  ): Promise<IdempotencyRecord<TResponse> | undefined> {
+    const now = this.clock.now().getTime();
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > now) {
+      return JSON.parse(JSON.stringify(existing.record)) as IdempotencyRecord<TResponse>;
+    }
+
+    this.entries.set(key, { record: { status: 'in-progress' }, expiresAt: now + ttl * 1000 });
+    return undefined;
+  }
+
+  public async complete(
+    key: string,
+    response: unknown,
+    { ttl }: IdempotencyStoreOptions,
+  ): Promise<void> {
+    this.entries.set(key, {
+      record: { status: 'completed', response: JSON.parse(JSON.stringify(response ?? null)) },
+      expiresAt: this.clock.now().getTime() + ttl * 1000,
+    });
+  }
+
+  public async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
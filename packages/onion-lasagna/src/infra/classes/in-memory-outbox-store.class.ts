@@ -0,0 +1,128 @@
+import type { SerializedDomainEvent } from '../../domain/classes/base-domain-event.class';
+import type {
+  FetchPendingOutboxOptions,
+  OutboxMessage,
+  OutboxPort,
+} from '../../app/interfaces/ports/outbox.port';
+
+/** @internal Mutable row kept by the in-memory store. */
+interface OutboxRow {
+  event: SerializedDomainEvent;
+  sequence: number;
+  status: OutboxMessage['status'];
+  attempts: number;
+  availableAt?: Date;
+  lastError?: string;
+  deliveredAt?: Date;
+}
+
+/**
+ * Reference in-memory implementation of {@link OutboxPort}.
+ *
+ * Events are stored as JSON copies, so handlers see the same plain payloads
+ * a durable store would return (dates become ISO strings). Appends are not
+ * rolled back with a surrounding transaction — intended for tests and
+ * single-process prototypes.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new InMemoryOutboxStore();
+ * const unitOfWork = new TransactionalOutbox({ unitOfWork: noopUnitOfWork, outbox });
+ * const relay = new OutboxRelay({ outbox, handlers: eventRoutes(router).build() });
+ * ```
+ */
+export class InMemoryOutboxStore implements OutboxPort {
+  private readonly rows = new Map<string, OutboxRow>();
+  private lastSequence = 0;
+
+  public async append(events: readonly SerializedDomainEvent[]): Promise<void> {
+    for (const event of events) {
+      if (this.rows.has(event.eventId)) continue;
+      this.rows.set(event.eventId, {
+        event: JSON.parse(JSON.stringify(event)) as SerializedDomainEvent,
+        sequence: ++this.lastSequence,
+        status: 'pending',
+        attempts: 0,
+      });
+    }
+  }
+
+  public async fetchPending({ limit, now }: FetchPendingOutboxOptions): Promise<OutboxMessage[]> {
+    const blocked = new Set<string>();
+    const due: OutboxMessage[] = [];
+
+    for (const row of this.rows.values()) {
+      if (due.length >= limit) break;
+      if (row.status !== 'pending' || blocked.has(row.event.aggregateId)) continue;
+      if (row.availableAt && row.availableAt.getTime() > now.getTime()) {
+        blocked.add(row.event.aggregateId);
+        continue;
+      }
+      due.push(this.toMessage(row));
+    }
+
+    return due;
+  }
+
+  public async markDelivered(eventId: string, deliveredAt: Date): Promise<void> {
+    const row = this.rows.get(eventId);
+    if (!row) return;
+    row.status = 'delivered';
+    row.deliveredAt = new Date(deliveredAt.getTime());
+  }
+
+  public async markRetry(
+    eventId: string,
+    failure: { reason: string; availableAt: Date },
+  ): Promise<void> {
+    const row = this.rows.get(eventId);
+    if (!row) return;
+    row.attempts += 1;
+    row.lastError = failure.reason;
+    row.availableAt = new Date(failure.availableAt.getTime());
+  }
+
+  public async markDead(eventId: string, failure: { reason: string }): Promise<void> {
+    const row = this.rows.get(eventId);
+    if (!row) return;
+    row.status = 'dead';
+    row.attempts += 1;
+    row.lastError = failure.reason;
+  }
+
+  public async purgeDelivered(cutoff: Date): Promise<number> {
+    let removed = 0;
+    for (const [eventId, row] of this.rows) {
+      const deliveredAt = row.deliveredAt?.getTime() ?? Infinity;
+      if (row.status === 'delivered' && deliveredAt <= cutoff.getTime()) {
+        this.rows.delete(eventId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Returns every stored message in `sequence` order, whatever its status.
+   * Useful for assertions in tests.
+   */
+  public messages(): OutboxMessage[] {
+    return [...this.rows.values()].map((row) => this.toMessage(row));
+  }
+
+  /** Removes all stored messages. */
+  public clear(): void {
+    this.rows.clear();
+  }
+
+  private toMessage(row: OutboxRow): OutboxMessage {
+    return {
+      event: row.event,
+      sequence: row.sequence,
+      status: row.status,
+      attempts: row.attempts,
+      availableAt: row.availableAt ? new Date(row.availableAt.getTime()) : undefined,
+      lastError: row.lastError,
+    };
+  }
+}
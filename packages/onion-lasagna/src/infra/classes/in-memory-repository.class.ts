@@ -0,0 +1,113 @@
+import type { BaseAggregateRoot } from '../../domain/classes/base-aggregate-root.class';
+import type { BaseValueObject } from '../../domain/classes/base-value-object.class';
+import type { RepositoryPort } from '../../app/interfaces/ports/repository.port';
+import { ConcurrencyConflictError } from '../../app/exceptions/concurrency-conflict.error';
+
+/**
+ * Options for {@link InMemoryRepository}.
+ *
+ * @typeParam TAggregate - The aggregate root type
+ */
+export interface InMemoryRepositoryOptions<TAggregate> {
+  /**
+   * Builds a detached copy of an aggregate at the given version.
+   *
+   * Called when storing (with `version + 1`) and again when loading, so
+   * callers never share an instance with the store. Typically delegates to
+   * the aggregate's own `reconstitute` factory.
+   */
+  reconstitute: (aggregate: TAggregate, version: number) => TAggregate;
+}
+
+/**
+ * Reference in-memory implementation of {@link RepositoryPort}.
+ *
+ * Enforces the same optimistic concurrency contract as a real adapter:
+ * `save` and `delete` reject stale aggregates with a
+ * {@link ConcurrencyConflictError}, and every successful `save` stores the
+ * aggregate at `version + 1`. Intended for tests and prototypes.
+ *
+ * Does not extend `BaseOutboundAdapter` on purpose — concurrency conflicts
+ * must reach the use case unchanged instead of being wrapped as `InfraError`.
+ *
+ * @typeParam TAggregate - The aggregate root type
+ * @typeParam TId - The aggregate identity type
+ *
+ * @example
+ * ```typescript
+ * const orders = new InMemoryRepository<Order, OrderId>({
+ *   reconstitute: (order, version) =>
+ *     Order.reconstitute(order.id, order.toSnapshot(), version),
+ * });
+ *
+ * await orders.save(Order.create(customerId, items)); // stored at version 1
+ *
+ * const a = await orders.findById(orderId);
+ * const b = await orders.findById(orderId);
+ * await orders.save(a!); // ok — stored at version 2
+ * await orders.save(b!); // throws ConcurrencyConflictError
+ * ```
+ */
+export class InMemoryRepository<
+  TAggregate extends BaseAggregateRoot<TId, object>,
+  TId extends BaseValueObject<unknown>,
+> implements RepositoryPort<TAggregate, TId> {
+  private readonly store = new Map<string, TAggregate>();
+  private readonly reconstitute: (aggregate: TAggregate, version: number) => TAggregate;
+
+  constructor(options: InMemoryRepositoryOptions<TAggregate>) {
+    this.reconstitute = options.reconstitute;
+  }
+
+  async findById(id: TId): Promise<TAggregate | null> {
+    const stored = this.store.get(toKey(id));
+    return stored ? this.reconstitute(stored, stored.version) : null;
+  }
+
+  async save(aggregate: TAggregate): Promise<void> {
+    const key = toKey(aggregate.id);
+    this.assertVersion(aggregate, this.store.get(key));
+    this.store.set(key, this.reconstitute(aggregate, aggregate.version + 1));
+  }
+
+  async delete(aggregate: TAggregate): Promise<void> {
+    const key = toKey(aggregate.id);
+    const stored = this.store.get(key);
+    if (!stored) return;
+    this.assertVersion(aggregate, stored);
+    this.store.delete(key);
+  }
+
+  /** Number of aggregates currently stored. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Removes every stored aggregate. */
+  clear(): void {
+    this.store.clear();
+  }
+
+  private assertVersion(aggregate: TAggregate, stored: TAggregate | undefined): void {
+    const expectedVersion = aggregate.version;
+    const actualVersion = stored?.version;
+    // A never-persisted aggregate (version 0) may only be inserted, and a
+    // loaded one may only overwrite the exact version it was loaded at.
+    if ((actualVersion ?? 0) === expectedVersion) return;
+
+    throw new ConcurrencyConflictError({
+      message:
+        actualVersion === undefined
+          ? `Aggregate ${toKey(aggregate.id)} no longer exists (expected version ${expectedVersion})`
+          : `Aggregate ${toKey(aggregate.id)} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`,
+      expectedVersion,
+      actualVersion,
+    });
+  }
+}
+
+/** @internal Derives a stable map key from an identity value object. */
+function toKey(id: BaseValueObject<unknown>): string {
+  const value = id.value;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
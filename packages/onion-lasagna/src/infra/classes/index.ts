@@ -1 +1,12 @@
 export * from './base-outbound-adapter.class';
+export * from './context-aware-logger.class';
+export * from './in-memory-feature-flag-provider.class';
+export * from './in-memory-idempotency-store.class';
+export * from './in-memory-outbox-store.class';
+export * from './in-memory-repository.class';
+export * from './json-file-feature-flag-provider.class';
+export * from './redacting-logger.class';
+export * from './sqlite-idempotency-store.class';
+export * from './sqlite-outbox-store.class';
+export * from './tenant-scoped-cache.class';
+export * from './tenant-scoped-repository.class';
@@ -0,0 +1,105 @@
+import { readFile } from 'node:fs/promises';
+import type { ClockPort } from '../../global/interfaces/ports/clock.port';
+import type { LoggerPort } from '../../global/interfaces/ports/logger.port';
+import type {
+  FeatureFlagContext,
+  FeatureFlagPort,
+} from '../../global/interfaces/ports/feature-flag.port';
+import { BaseOutboundAdapter } from './base-outbound-adapter.class';
+import {
+  InMemoryFeatureFlagProvider,
+  type FeatureFlagRules,
+} from './in-memory-feature-flag-provider.class';
+
+/**
+ * Options for {@link JsonFileFeatureFlagProvider}.
+ */
+export interface JsonFileFeatureFlagProviderOptions {
+  /** Seconds after which the file is read again (default: read once). */
+  refreshInterval?: number;
+
+  /** Clock used for refreshes (default: system clock). */
+  clock?: ClockPort;
+
+  /** Receives failed refreshes, which keep the last loaded rules in use. */
+  logger?: LoggerPort;
+}
+
+/**
+ * {@link FeatureFlagPort} backed by a JSON file of {@link FeatureFlagRules}.
+ *
+ * The file is read on the first evaluation and, with a `refreshInterval`,
+ * again once the interval has passed, so flags can change without a
+ * redeploy. Rules are evaluated like {@link InMemoryFeatureFlagProvider}.
+ *
+ * Read and parse failures are wrapped as `InfraError`. A failed first read
+ * throws; a failed refresh is logged and the last loaded rules stay in use
+ * until the next interval.
+ *
+ * @example
+ * ```typescript
+ * // flags.json
+ * // { "new-checkout": { "enabled": true, "percentage": 25 }, "legacy-export": false }
+ *
+ * const flags = new JsonFileFeatureFlagProvider('./flags.json', { refreshInterval: 30 });
+ * ```
+ */
+export class JsonFileFeatureFlagProvider extends BaseOutboundAdapter implements FeatureFlagPort {
+  private readonly flags = new InMemoryFeatureFlagProvider();
+  private readonly clock: ClockPort;
+  private loadedAt: number | undefined;
+  private loading: Promise<void> | undefined;
+
+  constructor(
+    private readonly path: string,
+    private readonly options: JsonFileFeatureFlagProviderOptions = {},
+  ) {
+    super();
+    this.clock = options.clock ?? { now: () => new Date() };
+  }
+
+  public async isEnabled(flag: string, context?: FeatureFlagContext): Promise<boolean> {
+    if (this.isStale()) {
+      this.loading ??= this.refresh().finally(() => {
+        this.loading = undefined;
+      });
+      await this.loading;
+    }
+    return this.flags.isEnabled(flag, context);
+  }
+
+  /**
+   * Reads the file again.
+   */
+  public async reload(): Promise<void> {
+    const rules: unknown = JSON.parse(await readFile(this.path, 'utf8'));
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+      throw new Error(`Feature flag file "${this.path}" must contain a JSON object`);
+    }
+    this.flags.replaceAll(rules as FeatureFlagRules);
+    this.loadedAt = this.clock.now().getTime();
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      await this.reload();
+    } catch (error) {
+      // Nothing to fall back on until the file has loaded once
+      if (this.loadedAt === undefined) throw error;
+      this.loadedAt = this.clock.now().getTime();
+      this.options.logger?.error('Feature flag refresh failed, keeping the last loaded rules', {
+        path: this.path,
+        error,
+      });
+    }
+  }
+
+  private isStale(): boolean {
+    if (this.loadedAt === undefined) return true;
+    const { refreshInterval } = this.options;
+    return (
+      refreshInterval !== undefined &&
+      this.clock.now().getTime() - this.loadedAt >= refreshInterval * 1000
+    );
+  }
+}
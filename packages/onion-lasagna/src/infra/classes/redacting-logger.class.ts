@@ -0,0 +1,127 @@
+import type { LoggerPort } from '../../global/interfaces/ports/logger.port';
+
+/**
+ * Keys redacted by {@link RedactingLogger} when no keys are given.
+ */
+export const DEFAULT_REDACTED_KEYS: readonly string[] = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'apiKey',
+  'password',
+  'secret',
+  'clientSecret',
+  'token',
+  'accessToken',
+  'refreshToken',
+];
+
+/**
+ * Options for {@link RedactingLogger}.
+ */
+export interface RedactingLoggerOptions {
+  /**
+   * Keys whose values are replaced, at any depth of the logged data and
+   * child bindings. Matching ignores case, `-` and `_`, so `apiKey` also
+   * covers `api_key` and `API-KEY`.
+   * @default DEFAULT_REDACTED_KEYS
+   */
+  readonly keys?: readonly string[];
+
+  /**
+   * Value written in place of redacted values.
+   * @default '[REDACTED]'
+   */
+  readonly censor?: string;
+}
+
+/**
+ * {@link LoggerPort} decorator that redacts secrets (credentials, tokens,
+ * cookies) from the data of every entry before it is written.
+ *
+ * Plain objects and arrays are walked recursively; other values are logged
+ * as-is. Children created with `child()` redact their bindings and stay
+ * redacting.
+ *
+ * @example
+ * ```typescript
+ * const logger = new RedactingLogger(new PinoLogger(pino()), {
+ *   keys: [...DEFAULT_REDACTED_KEYS, 'iban'],
+ * });
+ *
+ * logger.info('Payout created', { iban: 'DE89…', amount: 100 });
+ * // → { iban: '[REDACTED]', amount: 100 }
+ * ```
+ */
+export class RedactingLogger implements LoggerPort {
+  private readonly keys: ReadonlySet<string>;
+  private readonly censor: string;
+
+  /**
+   * @param logger - Logger that receives the redacted entries
+   * @param options - Redaction options
+   */
+  constructor(
+    private readonly logger: LoggerPort,
+    options: RedactingLoggerOptions = {},
+  ) {
+    this.keys = new Set((options.keys ?? DEFAULT_REDACTED_KEYS).map(normalizeKey));
+    this.censor = options.censor ?? '[REDACTED]';
+  }
+
+  debug(msg: string, data?: Record<string, unknown>): void {
+    this.logger.debug(msg, this.redact(data));
+  }
+
+  info(msg: string, data?: Record<string, unknown>): void {
+    this.logger.info(msg, this.redact(data));
+  }
+
+  warn(msg: string, data?: Record<string, unknown>): void {
+    this.logger.warn(msg, this.redact(data));
+  }
+
+  error(msg: string, data?: Record<string, unknown>): void {
+    this.logger.error(msg, this.redact(data));
+  }
+
+  child(bindings: Record<string, unknown>): LoggerPort {
+    return new RedactingLogger(this.logger.child(this.redact(bindings)), {
+      keys: [...this.keys],
+      censor: this.censor,
+    });
+  }
+
+  private redact<T extends Record<string, unknown> | undefined>(data: T): T {
+    return data && (this.redactValue(data, new WeakSet()) as T);
+  }
+
+  private redactValue(value: unknown, seen: WeakSet<object>): unknown {
+    if (Array.isArray(value)) {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
+      return value.map((item) => this.redactValue(item, seen));
+    }
+    if (!isPlainObject(value)) return value;
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        this.keys.has(normalizeKey(key)) ? this.censor : this.redactValue(item, seen),
+      ]),
+    );
+  }
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,132 @@
+import type { ClockPort } from '../../global/interfaces/ports/clock.port';
+import type {
+  IdempotencyRecord,
+  IdempotencyStoreOptions,
+  IdempotencyStorePort,
+} from '../../global/interfaces/ports/idempotency-store.port';
+import { DbError } from '../exceptions/db.error';
+import type { InfraError } from '../exceptions/infra.error';
+import { BaseOutboundAdapter } from './base-outbound-adapter.class';
+import type { SqliteDatabase } from './sqlite-outbox-store.class';
+
+/**
+ * Options for {@link SqliteIdempotencyStore}.
+ */
+export interface SqliteIdempotencyStoreOptions {
+  /** Table name. Must be a plain SQL identifier (default: `idempotency_keys`). */
+  tableName?: string;
+
+  /** Create the table if it does not exist (default: `true`). */
+  createTable?: boolean;
+
+  /** Clock used for expiry (default: system clock). */
+  clock?: ClockPort;
+}
+
+/** @internal Row shape returned by `SELECT`. */
+interface IdempotencyRow {
+  status: IdempotencyRecord['status'];
+  response: string | null;
+}
+
+/**
+ * SQLite implementation of {@link IdempotencyStorePort}.
+ *
+ * Works with any synchronous driver matching {@link SqliteDatabase}. Claims
+ * use `INSERT OR IGNORE` on the primary key, so concurrent processes sharing
+ * the database file cannot both claim the same key. Expired keys are
+ * replaced on the next claim.
+ *
+ * Responses are stored as JSON text. Driver errors are wrapped as `DbError`.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const idempotency = { store: new SqliteIdempotencyStore(new Database('app.db')) };
+ * const routes = serverRoutes(router).handle(...).build({ idempotency });
+ * ```
+ */
+export class SqliteIdempotencyStore extends BaseOutboundAdapter implements IdempotencyStorePort {
+  private readonly table: string;
+  private readonly clock: ClockPort;
+
+  constructor(
+    private readonly db: SqliteDatabase,
+    options: SqliteIdempotencyStoreOptions = {},
+  ) {
+    super();
+    const tableName = options.tableName ?? 'idempotency_keys';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new DbError({
+        message: `Invalid idempotency table name "${tableName}"`,
+        code: 'INVALID_IDEMPOTENCY_TABLE_NAME',
+      });
+    }
+    this.table = tableName;
+    this.clock = options.clock ?? { now: () => new Date() };
+
+    if (options.createTable ?? true) {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS ${this.table} (
+          key TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          response TEXT,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+    }
+  }
+
+  public async claim<TResponse = unknown>(
+    key: string,
+    { ttl }: IdempotencyStoreOptions,
+  ): Promise<IdempotencyRecord<TResponse> | undefined> {
+    const now = this.clock.now().getTime();
+
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ? AND expires_at <= ?`).run(key, now);
+    for (;;) {
+      const inserted = this.db
+        .prepare(
+          `INSERT OR IGNORE INTO ${this.table} (key, status, expires_at)
+            VALUES (?, 'in-progress', ?)`,
+        )
+        .run(key, now + ttl * 1000) as { changes?: number | bigint };
+      if (Number(inserted.changes) === 1) return undefined;
+
+      const [row] = this.db
+        .prepare(`SELECT status, response FROM ${this.table} WHERE key = ?`)
+        .all(key) as IdempotencyRow[];
+      // Released by another store between the insert and the read: claim again.
+      if (!row) continue;
+
+      return row.status === 'completed'
+        ? { status: 'completed', response: JSON.parse(row.response ?? 'null') as TResponse }
+        : { status: 'in-progress' };
+    }
+  }
+
+  public async complete(
+    key: string,
+    response: unknown,
+    { ttl }: IdempotencyStoreOptions,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${this.table} (key, status, response, expires_at)
+          VALUES (?, 'completed', ?, ?)`,
+      )
+      .run(key, JSON.stringify(response ?? null), this.clock.now().getTime() + ttl * 1000);
+  }
+
+  public async release(key: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  protected override createInfraError(error: unknown, methodName: string): InfraError {
+    return new DbError({
+      message: `Idempotency store error in ${methodName}`,
+      cause: error,
+    });
+  }
+}
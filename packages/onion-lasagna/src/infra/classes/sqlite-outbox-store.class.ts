@@ -0,0 +1,236 @@
+import type { SerializedDomainEvent } from '../../domain/classes/base-domain-event.class';
+import type {
+  FetchPendingOutboxOptions,
+  OutboxMessage,
+  OutboxPort,
+} from '../../app/interfaces/ports/outbox.port';
+import { DbError } from '../exceptions/db.error';
+import type { InfraError } from '../exceptions/infra.error';
+import { BaseOutboundAdapter } from './base-outbound-adapter.class';
+
+/**
+ * Minimal prepared statement shape shared by `better-sqlite3`,
+ * `bun:sqlite` and `node:sqlite`.
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal synchronous SQLite connection shape shared by `better-sqlite3`,
+ * `bun:sqlite` and `node:sqlite`. No driver is bundled — pass your own.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Options for {@link SqliteOutboxStore}.
+ */
+export interface SqliteOutboxStoreOptions {
+  /** Table name. Must be a plain SQL identifier (default: `outbox_messages`). */
+  tableName?: string;
+
+  /** Create the table and index if they do not exist (default: `true`). */
+  createTable?: boolean;
+}
+
+/** @internal Row shape returned by `SELECT`. */
+interface OutboxRow {
+  sequence: number;
+  event_id: string;
+  event_name: string;
+  event_version: number;
+  aggregate_id: string;
+  occurred_on: string;
+  payload: string;
+  correlation_id: string | null;
+  causation_id: string | null;
+  tenant_id: string | null;
+  status: OutboxMessage['status'];
+  attempts: number;
+  available_at: number | null;
+  last_error: string | null;
+}
+
+/**
+ * SQLite implementation of {@link OutboxPort}.
+ *
+ * Works with any synchronous driver matching {@link SqliteDatabase}. Because
+ * SQLite has one writer per connection, appending through the same
+ * connection your `UnitOfWorkPort` opened the transaction on keeps the
+ * outbox write atomic with the aggregate write.
+ *
+ * Payloads are stored as JSON text; the correlation, causation and tenant IDs
+ * go to their own nullable columns. Driver errors are wrapped as `DbError`.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const db = new Database('app.db');
+ * const outbox = new SqliteOutboxStore(db);
+ * const unitOfWork = new TransactionalOutbox({
+ *   unitOfWork: new SqliteUnitOfWork(db),
+ *   outbox,
+ * });
+ * ```
+ */
+export class SqliteOutboxStore extends BaseOutboundAdapter implements OutboxPort {
+  private readonly table: string;
+
+  constructor(
+    private readonly db: SqliteDatabase,
+    options: SqliteOutboxStoreOptions = {},
+  ) {
+    super();
+    const tableName = options.tableName ?? 'outbox_messages';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new DbError({
+        message: `Invalid outbox table name "${tableName}"`,
+        code: 'INVALID_OUTBOX_TABLE_NAME',
+      });
+    }
+    this.table = tableName;
+
+    if (options.createTable ?? true) {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS ${this.table} (
+          sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_id TEXT NOT NULL UNIQUE,
+          event_name TEXT NOT NULL,
+          event_version INTEGER NOT NULL,
+          aggregate_id TEXT NOT NULL,
+          occurred_on TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          correlation_id TEXT,
+          causation_id TEXT,
+          tenant_id TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          available_at INTEGER,
+          last_error TEXT,
+          delivered_at INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS ${this.table}_pending_idx
+          ON ${this.table} (status, aggregate_id, sequence);
+      `);
+    }
+  }
+
+  public async append(events: readonly SerializedDomainEvent[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO ${this.table}
+        (event_id, event_name, event_version, aggregate_id, occurred_on, payload,
+          correlation_id, causation_id, tenant_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    for (const event of events) {
+      insert.run(
+        event.eventId,
+        event.eventName,
+        event.eventVersion,
+        event.aggregateId,
+        event.occurredOn,
+        JSON.stringify(event.payload ?? null),
+        event.correlationId ?? null,
+        event.causationId ?? null,
+        event.tenantId ?? null,
+      );
+    }
+  }
+
+  public async fetchPending({ limit, now }: FetchPendingOutboxOptions): Promise<OutboxMessage[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM ${this.table} AS o
+          WHERE o.status = 'pending'
+            AND NOT EXISTS (
+              SELECT 1 FROM ${this.table} AS b
+                WHERE b.aggregate_id = o.aggregate_id
+                  AND b.status = 'pending'
+                  AND b.sequence <= o.sequence
+                  AND b.available_at > ?
+            )
+          ORDER BY o.sequence
+          LIMIT ?`,
+      )
+      .all(now.getTime(), limit) as OutboxRow[];
+
+    return rows.map((row) => this.toMessage(row));
+  }
+
+  public async markDelivered(eventId: string, deliveredAt: Date): Promise<void> {
+    this.db
+      .prepare(`UPDATE ${this.table} SET status = 'delivered', delivered_at = ? WHERE event_id = ?`)
+      .run(deliveredAt.getTime(), eventId);
+  }
+
+  public async markRetry(
+    eventId: string,
+    failure: { reason: string; availableAt: Date },
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE ${this.table}
+          SET attempts = attempts + 1, last_error = ?, available_at = ?
+          WHERE event_id = ?`,
+      )
+      .run(failure.reason, failure.availableAt.getTime(), eventId);
+  }
+
+  public async markDead(eventId: string, failure: { reason: string }): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE ${this.table}
+          SET status = 'dead', attempts = attempts + 1, last_error = ?
+          WHERE event_id = ?`,
+      )
+      .run(failure.reason, eventId);
+  }
+
+  public async purgeDelivered(cutoff: Date): Promise<number> {
+    const [{ count }] = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM ${this.table}
+          WHERE status = 'delivered' AND delivered_at <= ?`,
+      )
+      .all(cutoff.getTime()) as [{ count: number }];
+
+    this.db
+      .prepare(`DELETE FROM ${this.table} WHERE status = 'delivered' AND delivered_at <= ?`)
+      .run(cutoff.getTime());
+
+    return Number(count);
+  }
+
+  protected override createInfraError(error: unknown, methodName: string): InfraError {
+    return new DbError({
+      message: `Outbox store error in ${methodName}`,
+      cause: error,
+    });
+  }
+
+  private toMessage(row: OutboxRow): OutboxMessage {
+    return {
+      event: {
+        eventId: row.event_id,
+        eventName: row.event_name,
+        eventVersion: Number(row.event_version),
+        aggregateId: row.aggregate_id,
+        occurredOn: row.occurred_on,
+        payload: JSON.parse(row.payload) as unknown,
+        ...(row.correlation_id !== null ? { correlationId: row.correlation_id } : {}),
+        ...(row.causation_id !== null ? { causationId: row.causation_id } : {}),
+        ...(row.tenant_id !== null ? { tenantId: row.tenant_id } : {}),
+      },
+      sequence: Number(row.sequence),
+      status: row.status,
+      attempts: Number(row.attempts),
+      availableAt: row.available_at === null ? undefined : new Date(Number(row.available_at)),
+      lastError: row.last_error ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import type { CachePort, CacheSetOptions } from '../../global/interfaces/ports/cache.port';
+import { requireTenantId } from '../../app/tenancy/tenant-context.util';
+
+/**
+ * {@link CachePort} decorator that keeps each tenant's entries apart.
+ *
+ * Every key is prefixed with `tenant:<tenantId>:`, where the tenant comes
+ * from the ambient execution context. Calls made without a tenant are
+ * rejected, so a shared key can never leak one tenant's data to another.
+ *
+ * @example
+ * ```typescript
+ * const cache = new TenantScopedCache(new RedisCacheAdapter(redis));
+ *
+ * // Inside a request for tenant "acme":
+ * await cache.set('plans', plans); // stored as "tenant:acme:plans"
+ * ```
+ */
+export class TenantScopedCache implements CachePort {
+  /**
+   * @param cache - Cache that stores the prefixed entries
+   */
+  constructor(private readonly cache: CachePort) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(scopedKey(key));
+  }
+
+  async set<T>(key: string, value: T, options?: CacheSetOptions): Promise<void> {
+    await this.cache.set<T>(scopedKey(key), value, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(scopedKey(key));
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(scopedKey(key));
+  }
+}
+
+function scopedKey(key: string): string {
+  return `tenant:${requireTenantId().value}:${key}`;
+}
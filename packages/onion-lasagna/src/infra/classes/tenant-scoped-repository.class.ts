@@ -0,0 +1,83 @@
+import type { BaseAggregateRoot } from '../../domain/classes/base-aggregate-root.class';
+import type { BaseValueObject } from '../../domain/classes/base-value-object.class';
+import type { RepositoryPort } from '../../app/interfaces/ports/repository.port';
+import { ForbiddenError } from '../../app/exceptions/forbidden.error';
+import { requireTenantId } from '../../app/tenancy/tenant-context.util';
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+
+/**
+ * Options for {@link TenantScopedRepository}.
+ *
+ * @typeParam TAggregate - The aggregate root type
+ */
+export interface TenantScopedRepositoryOptions<TAggregate> {
+  /** Reads the ID of the tenant that owns an aggregate. */
+  tenantOf: (aggregate: TAggregate) => string;
+}
+
+/**
+ * {@link RepositoryPort} decorator that confines reads and writes to the
+ * tenant of the ambient execution context.
+ *
+ * - `findById` returns `null` for aggregates owned by another tenant, so
+ *   their existence is not revealed.
+ * - `save` and `delete` reject aggregates owned by another tenant with a
+ *   `ForbiddenError` (`TENANT_MISMATCH`).
+ * - Every call made without a tenant is rejected with a `ForbiddenError`
+ *   (`TENANT_REQUIRED`).
+ *
+ * Query methods added by a bounded context are not covered; filter them by
+ * `requireTenantId()` in the underlying adapter.
+ *
+ * @typeParam TAggregate - The aggregate root type
+ * @typeParam TId - The aggregate identity type
+ *
+ * @example
+ * ```typescript
+ * const projects = new TenantScopedRepository(new PgProjectRepository(db), {
+ *   tenantOf: (project) => project.tenantId.value,
+ * });
+ * ```
+ */
+export class TenantScopedRepository<
+  TAggregate extends BaseAggregateRoot<TId, object>,
+  TId extends BaseValueObject<unknown>,
+> implements RepositoryPort<TAggregate, TId> {
+  private readonly tenantOf: (aggregate: TAggregate) => string;
+
+  /**
+   * @param repository - Repository that stores the aggregates
+   * @param options - How to read an aggregate's tenant
+   */
+  constructor(
+    private readonly repository: RepositoryPort<TAggregate, TId>,
+    options: TenantScopedRepositoryOptions<TAggregate>,
+  ) {
+    this.tenantOf = options.tenantOf;
+  }
+
+  async findById(id: TId): Promise<TAggregate | null> {
+    const tenantId = requireTenantId().value;
+    const aggregate = await this.repository.findById(id);
+    return aggregate && this.tenantOf(aggregate) === tenantId ? aggregate : null;
+  }
+
+  async save(aggregate: TAggregate): Promise<void> {
+    this.assertOwned(aggregate);
+    await this.repository.save(aggregate);
+  }
+
+  async delete(aggregate: TAggregate): Promise<void> {
+    this.assertOwned(aggregate);
+    await this.repository.delete(aggregate);
+  }
+
+  private assertOwned(aggregate: TAggregate): void {
+    if (this.tenantOf(aggregate) !== requireTenantId().value) {
+      throw new ForbiddenError({
+        message: 'Aggregate belongs to a different tenant',
+        code: ErrorCodes.App.TENANT_MISMATCH,
+      });
+    }
+  }
+}
@@ -1,7 +1,14 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { BaseOutboundAdapter } from '../base-outbound-adapter.class';
 import { InfraError } from '../../exceptions/infra.error';
 import { DbError } from '../../exceptions/db.error';
+import { TimeoutError } from '../../exceptions/timeout.error';
+import { NetworkError } from '../../exceptions/network.error';
+import { ExternalServiceError } from '../../exceptions/external-service.error';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
+import { ErrorCodes } from '../../../global/exceptions/error-codes.const';
+import type { AdapterResilience } from '../../resilience/resilience-policy.type';
+import type { InfraErrorClassifier } from '../../error-classifiers/infra-error-classifier.type';
 
 // Module-scope classes — no per-test factory workaround needed since the
 // prototype-dedup bug has been fixed (each instance is independently wrapped).
@@ -195,6 +202,216 @@ describe('BaseOutboundAdapter', () => {
     });
   });
 
+  describe('execution context', () => {
+    class TaggingRepo extends BaseOutboundAdapter {
+      async currentTenant(): Promise<string | undefined> {
+        return this.executionContext?.tenantId;
+      }
+    }
+
+    it('should expose the ambient execution context to adapter methods', async () => {
+      const repo = new TaggingRepo();
+
+      const tenantId = await runWithExecutionContext(
+        { correlationId: 'c-1', tenantId: 't-1' },
+        () => repo.currentTenant(),
+      );
+
+      expect(tenantId).toBe('t-1');
+    });
+
+    it('should be undefined outside of a context', async () => {
+      await expect(new TaggingRepo().currentTenant()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('error classification', () => {
+    class UserRepo extends BaseOutboundAdapter {
+      async insert(): Promise<void> {
+        throw Object.assign(new Error('duplicate key value'), {
+          code: '23505',
+          constraint: 'users_email_key',
+        });
+      }
+
+      async ping(): Promise<void> {
+        throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+      }
+
+      async teapot(): Promise<void> {
+        throw new Error('teapot');
+      }
+    }
+
+    const classifyTeapot: InfraErrorClassifier = (error, { methodName, cause }) =>
+      error instanceof Error && error.message === 'teapot'
+        ? new ExternalServiceError({ message: `Teapot in ${methodName}`, status: 418, cause })
+        : undefined;
+
+    afterEach(() => {
+      BaseOutboundAdapter.clearErrorClassifiers();
+    });
+
+    it('should classify known driver and system errors', async () => {
+      const repo = new UserRepo();
+
+      const insertError = await repo.insert().catch((e: unknown) => e);
+
+      expect(insertError).toBeInstanceOf(DbError);
+      expect((insertError as DbError).code).toBe(ErrorCodes.Infra.DB_UNIQUE_VIOLATION);
+      expect((insertError as DbError).constraint).toBe('users_email_key');
+      await expect(repo.ping()).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('should run per-adapter classifiers first', async () => {
+      class TeapotRepo extends UserRepo {
+        protected override readonly errorClassifiers = [classifyTeapot];
+      }
+
+      await expect(new TeapotRepo().teapot()).rejects.toBeInstanceOf(ExternalServiceError);
+      await expect(new UserRepo().teapot()).rejects.not.toBeInstanceOf(ExternalServiceError);
+    });
+
+    it('should run global classifiers for every adapter', async () => {
+      BaseOutboundAdapter.useErrorClassifiers(classifyTeapot);
+
+      await expect(new UserRepo().teapot()).rejects.toMatchObject({ status: 418 });
+    });
+  });
+
+  describe('resilience policies', () => {
+    class FlakyGateway extends BaseOutboundAdapter {
+      protected override readonly resilience: AdapterResilience = {
+        default: {
+          retry: { maxAttempts: 3 },
+          circuitBreaker: { failureThreshold: 10, resetTimeoutMs: 1000 },
+        },
+        methods: {
+          charge: { retry: undefined },
+          refund: { circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 1000 } },
+          ping: false,
+        },
+      };
+
+      public readonly calls = { fetchRates: 0, lookup: 0, charge: 0, refund: 0 };
+
+      async fetchRates(): Promise<string> {
+        this.calls.fetchRates++;
+        if (this.calls.fetchRates < 3)
+          throw Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' });
+        return 'rates';
+      }
+
+      async lookup(): Promise<void> {
+        this.calls.lookup++;
+        throw Object.assign(new Error('ECONNREFUSED'), { code: 'ECONNREFUSED' });
+      }
+
+      async charge(): Promise<void> {
+        this.calls.charge++;
+        throw new Error('declined');
+      }
+
+      async refund(): Promise<void> {
+        this.calls.refund++;
+        throw new Error('unavailable');
+      }
+
+      ping(): string {
+        return 'pong';
+      }
+    }
+
+    class SlowGateway extends BaseOutboundAdapter {
+      protected override readonly resilience: AdapterResilience = {
+        default: { timeoutMs: 10 },
+      };
+
+      async slow(): Promise<string> {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return 'late';
+      }
+    }
+
+    it('should retry failing calls according to the default policy', async () => {
+      const gateway = new FlakyGateway();
+
+      await expect(gateway.fetchRates()).resolves.toBe('rates');
+      expect(gateway.calls.fetchRates).toBe(3);
+    });
+
+    it('should decide retries on errors classified by the adapter', async () => {
+      class BusyGateway extends BaseOutboundAdapter {
+        protected override readonly errorClassifiers: InfraErrorClassifier[] = [
+          (error, { methodName, cause }) =>
+            error instanceof Error && error.message === 'busy'
+              ? new NetworkError({ message: `Busy in ${methodName}`, cause })
+              : undefined,
+        ];
+        protected override readonly resilience: AdapterResilience = {
+          default: { retry: { maxAttempts: 2 } },
+        };
+
+        public calls = 0;
+
+        async send(): Promise<void> {
+          this.calls++;
+          throw new Error(this.calls === 1 ? 'busy' : 'rejected');
+        }
+      }
+      const gateway = new BusyGateway();
+
+      await expect(gateway.send()).rejects.toThrow(InfraError);
+      expect(gateway.calls).toBe(2);
+    });
+
+    it('should apply method-level overrides on top of the default policy', async () => {
+      const gateway = new FlakyGateway();
+
+      await expect(gateway.charge()).rejects.toThrow(InfraError);
+      expect(gateway.calls.charge).toBe(1);
+    });
+
+    it('should wrap the last error with createInfraError after retries', async () => {
+      const gateway = new FlakyGateway();
+
+      const error = await gateway.lookup().catch((e: unknown) => e);
+
+      expect(gateway.calls.lookup).toBe(3);
+      expect(error).toBeInstanceOf(InfraError);
+      expect((error as InfraError).cause).toMatchObject({ message: 'ECONNREFUSED' });
+    });
+
+    it('should leave methods opted out with false untouched', () => {
+      const gateway = new FlakyGateway();
+
+      expect(gateway.ping()).toBe('pong');
+    });
+
+    it('should let TimeoutError through unwrapped', async () => {
+      const error = await new SlowGateway().slow().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should report shared and method-level circuit states', async () => {
+      const gateway = new FlakyGateway();
+
+      expect(gateway.circuitStates()).toEqual({ default: 'closed', refund: 'closed' });
+
+      await gateway.refund().catch(() => undefined);
+
+      expect(gateway.circuitStates()).toEqual({ default: 'closed', refund: 'open' });
+      await expect(gateway.refund()).rejects.toMatchObject({
+        code: ErrorCodes.Infra.CIRCUIT_OPEN,
+      });
+    });
+
+    it('should report no circuit states without policies', () => {
+      expect(new TestRepository().circuitStates()).toEqual({});
+    });
+  });
+
   describe('promise handling', () => {
     it('should handle rejected promises', async () => {
       class RejectingRepo extends BaseOutboundAdapter {
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ContextAwareLogger } from '../context-aware-logger.class';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
+import type { LoggerPort } from '../../../global/interfaces/ports/logger.port';
+
+function createMockLogger() {
+  const child: LoggerPort = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+  const logger: LoggerPort = { ...child, child: vi.fn(() => child) };
+  return { logger, child };
+}
+
+describe('ContextAwareLogger', () => {
+  it('should pass entries through unchanged outside of a context', () => {
+    const { logger } = createMockLogger();
+
+    new ContextAwareLogger(logger).info('hello', { a: 1 });
+
+    expect(logger.info).toHaveBeenCalledWith('hello', { a: 1 });
+  });
+
+  it('should add the defined context fields to every level', () => {
+    const { logger } = createMockLogger();
+    const contextAware = new ContextAwareLogger(logger);
+
+    runWithExecutionContext({ correlationId: 'c-1', causationId: 'req-1' }, () => {
+      contextAware.debug('d');
+      contextAware.info('i', { a: 1 });
+      contextAware.warn('w');
+      contextAware.error('e');
+    });
+
+    const fields = { correlationId: 'c-1', causationId: 'req-1' };
+    expect(logger.debug).toHaveBeenCalledWith('d', fields);
+    expect(logger.info).toHaveBeenCalledWith('i', { ...fields, a: 1 });
+    expect(logger.warn).toHaveBeenCalledWith('w', fields);
+    expect(logger.error).toHaveBeenCalledWith('e', fields);
+  });
+
+  it('should let data fields win over context fields', () => {
+    const { logger } = createMockLogger();
+
+    runWithExecutionContext({ correlationId: 'c-1' }, () => {
+      new ContextAwareLogger(logger).info('hello', { correlationId: 'override' });
+    });
+
+    expect(logger.info).toHaveBeenCalledWith('hello', { correlationId: 'override' });
+  });
+
+  it('should keep children context-aware', () => {
+    const { logger, child } = createMockLogger();
+    const contextAware = new ContextAwareLogger(logger).child({ module: 'users' });
+
+    runWithExecutionContext({ correlationId: 'c-1', tenantId: 't-1' }, () => {
+      contextAware.info('hello');
+    });
+
+    expect(logger.child).toHaveBeenCalledWith({ module: 'users' });
+    expect(child.info).toHaveBeenCalledWith('hello', { correlationId: 'c-1', tenantId: 't-1' });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryFeatureFlagProvider } from '../in-memory-feature-flag-provider.class';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
+
+describe('InMemoryFeatureFlagProvider', () => {
+  it('should treat unknown flags as off', async () => {
+    expect(await new InMemoryFeatureFlagProvider().isEnabled('unknown')).toBe(false);
+  });
+
+  it('should accept boolean shorthands', async () => {
+    const flags = new InMemoryFeatureFlagProvider({ on: true, off: false });
+
+    expect(await flags.isEnabled('on')).toBe(true);
+    expect(await flags.isEnabled('off')).toBe(false);
+  });
+
+  it('should turn a flag off for everyone when disabled', async () => {
+    const flags = new InMemoryFeatureFlagProvider({
+      beta: { enabled: false, users: ['u-1'], percentage: 100 },
+    });
+
+    expect(await flags.isEnabled('beta', { userId: 'u-1' })).toBe(false);
+  });
+
+  it('should turn an enabled flag without targeting on for everyone', async () => {
+    const flags = new InMemoryFeatureFlagProvider({ beta: { enabled: true } });
+
+    expect(await flags.isEnabled('beta')).toBe(true);
+    expect(await flags.isEnabled('beta', { tenantId: 't-1' })).toBe(true);
+  });
+
+  it('should only turn a targeted flag on for listed users and tenants', async () => {
+    const flags = new InMemoryFeatureFlagProvider({
+      beta: { enabled: true, users: ['u-1'], tenants: ['acme'] },
+    });
+
+    expect(await flags.isEnabled('beta', { userId: 'u-1' })).toBe(true);
+    expect(await flags.isEnabled('beta', { tenantId: 'acme', userId: 'u-2' })).toBe(true);
+    expect(await flags.isEnabled('beta', { tenantId: 'globex', userId: 'u-2' })).toBe(false);
+    expect(await flags.isEnabled('beta')).toBe(false);
+  });
+
+  describe('percentage rollouts', () => {
+    const userIds = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+
+    it('should turn the flag on for roughly the given share of subjects', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: { enabled: true, percentage: 30 } });
+
+      const results = await Promise.all(
+        userIds.map((userId) => flags.isEnabled('beta', { userId })),
+      );
+      const share = results.filter(Boolean).length / userIds.length;
+
+      expect(share).toBeGreaterThan(0.25);
+      expect(share).toBeLessThan(0.35);
+    });
+
+    it('should give each subject a stable answer', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: { enabled: true, percentage: 50 } });
+
+      const first = await Promise.all(userIds.map((userId) => flags.isEnabled('beta', { userId })));
+      const second = await Promise.all(
+        userIds.map((userId) => flags.isEnabled('beta', { userId })),
+      );
+
+      expect(second).toEqual(first);
+    });
+
+    it('should keep earlier subjects when the percentage grows', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: { enabled: true, percentage: 20 } });
+      const before = await Promise.all(
+        userIds.map((userId) => flags.isEnabled('beta', { userId })),
+      );
+
+      flags.set('beta', { enabled: true, percentage: 60 });
+      const after = await Promise.all(userIds.map((userId) => flags.isEnabled('beta', { userId })));
+
+      expect(before.every((on, i) => !on || after[i])).toBe(true);
+    });
+
+    it('should bucket by tenant when there is no user', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: { enabled: true, percentage: 50 } });
+
+      const byTenant = await flags.isEnabled('beta', { tenantId: 'user-1' });
+      const byUser = await flags.isEnabled('beta', { userId: 'user-1' });
+
+      expect(byTenant).toBe(byUser);
+    });
+
+    it('should turn the flag off without a subject unless fully rolled out', async () => {
+      const flags = new InMemoryFeatureFlagProvider({
+        partial: { enabled: true, percentage: 99 },
+        full: { enabled: true, percentage: 100 },
+      });
+
+      expect(await flags.isEnabled('partial')).toBe(false);
+      expect(await flags.isEnabled('full')).toBe(true);
+    });
+
+    it('should let listed subjects bypass the rollout', async () => {
+      const flags = new InMemoryFeatureFlagProvider({
+        beta: { enabled: true, percentage: 0, tenants: ['acme'] },
+      });
+
+      expect(await flags.isEnabled('beta', { tenantId: 'acme' })).toBe(true);
+      expect(await flags.isEnabled('beta', { tenantId: 'globex' })).toBe(false);
+    });
+  });
+
+  it('should evaluate for the current execution context by default', async () => {
+    const flags = new InMemoryFeatureFlagProvider({
+      beta: { enabled: true, tenants: ['acme'] },
+    });
+
+    const enabled = await runWithExecutionContext({ correlationId: 'c-1', tenantId: 'acme' }, () =>
+      flags.isEnabled('beta'),
+    );
+
+    expect(enabled).toBe(true);
+  });
+
+  it('should replace all rules', async () => {
+    const flags = new InMemoryFeatureFlagProvider({ old: true });
+
+    flags.replaceAll({ new: true });
+
+    expect(await flags.isEnabled('old')).toBe(false);
+    expect(await flags.isEnabled('new')).toBe(true);
+  });
+});
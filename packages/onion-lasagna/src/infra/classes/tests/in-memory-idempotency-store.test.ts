@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryIdempotencyStore } from '../in-memory-idempotency-store.class';
+import type { ClockPort } from '../../../global/interfaces/ports/clock.port';
+
+describe('InMemoryIdempotencyStore', () => {
+  let now: Date;
+  let store: InMemoryIdempotencyStore;
+
+  beforeEach(() => {
+    now = new Date('2024-06-01T12:00:00.000Z');
+    const clock: ClockPort = { now: () => now };
+    store = new InMemoryIdempotencyStore(clock);
+  });
+
+  const advance = (seconds: number) => {
+    now = new Date(now.getTime() + seconds * 1000);
+  };
+
+  it('should claim a free key', async () => {
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+  });
+
+  it('should report an in-progress claim', async () => {
+    await store.claim('k1', { ttl: 60 });
+
+    expect(await store.claim('k1', { ttl: 60 })).toEqual({ status: 'in-progress' });
+  });
+
+  it('should return the stored response once completed', async () => {
+    await store.claim('k1', { ttl: 60 });
+    await store.complete('k1', { status: 201, body: { id: 'u1' } }, { ttl: 3600 });
+
+    expect(await store.claim('k1', { ttl: 60 })).toEqual({
+      status: 'completed',
+      response: { status: 201, body: { id: 'u1' } },
+    });
+  });
+
+  it('should store responses as JSON copies', async () => {
+    const response = { body: { createdAt: now } };
+    await store.complete('k1', response, { ttl: 3600 });
+    response.body.createdAt = new Date(0);
+
+    expect(await store.claim('k1', { ttl: 60 })).toEqual({
+      status: 'completed',
+      response: { body: { createdAt: '2024-06-01T12:00:00.000Z' } },
+    });
+  });
+
+  it('should free a key once its claim expires', async () => {
+    await store.claim('k1', { ttl: 60 });
+    advance(60);
+
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+  });
+
+  it('should expire completed responses after their ttl', async () => {
+    await store.complete('k1', { ok: true }, { ttl: 3600 });
+    advance(3599);
+    expect(await store.claim('k1', { ttl: 60 })).toMatchObject({ status: 'completed' });
+
+    advance(1);
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+  });
+
+  it('should free a released key', async () => {
+    await store.claim('k1', { ttl: 60 });
+    await store.release('k1');
+
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+  });
+});
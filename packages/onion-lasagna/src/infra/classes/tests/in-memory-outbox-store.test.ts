@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryOutboxStore } from '../in-memory-outbox-store.class';
+import type { SerializedDomainEvent } from '../../../domain/classes/base-domain-event.class';
+
+const now = new Date('2024-06-01T12:00:00.000Z');
+
+function event(eventId: string, aggregateId: string, payload: unknown = {}): SerializedDomainEvent {
+  return {
+    eventId,
+    eventName: 'OrderPlaced',
+    eventVersion: 1,
+    aggregateId,
+    occurredOn: now.toISOString(),
+    payload,
+  };
+}
+
+function ids(messages: { event: SerializedDomainEvent }[]): string[] {
+  return messages.map((m) => m.event.eventId);
+}
+
+describe('InMemoryOutboxStore', () => {
+  let store: InMemoryOutboxStore;
+
+  beforeEach(() => {
+    store = new InMemoryOutboxStore();
+  });
+
+  describe('append', () => {
+    it('should assign increasing sequences in append order', async () => {
+      await store.append([event('e1', 'a'), event('e2', 'b')]);
+      await store.append([event('e3', 'a')]);
+
+      const messages = store.messages();
+      expect(ids(messages)).toEqual(['e1', 'e2', 'e3']);
+      expect(messages.map((m) => m.sequence)).toEqual([1, 2, 3]);
+      expect(messages.every((m) => m.status === 'pending' && m.attempts === 0)).toBe(true);
+    });
+
+    it('should store a JSON copy of the event', async () => {
+      const createdAt = new Date('2024-01-01T00:00:00.000Z');
+      await store.append([event('e1', 'a', { createdAt })]);
+
+      expect(store.messages()[0]!.event.payload).toEqual({ createdAt: createdAt.toISOString() });
+    });
+
+    it('should keep the correlation and causation IDs', async () => {
+      await store.append([{ ...event('e1', 'a'), correlationId: 'corr-1', causationId: 'req-1' }]);
+
+      expect(store.messages()[0]!.event).toMatchObject({
+        correlationId: 'corr-1',
+        causationId: 'req-1',
+      });
+    });
+
+    it('should keep the tenant ID', async () => {
+      await store.append([{ ...event('e1', 'a'), tenantId: 'acme' }]);
+
+      expect(store.messages()[0]!.event.tenantId).toBe('acme');
+    });
+
+    it('should ignore events that are already stored', async () => {
+      await store.append([event('e1', 'a')]);
+      await store.append([event('e1', 'a')]);
+
+      expect(store.messages()).toHaveLength(1);
+    });
+  });
+
+  describe('fetchPending', () => {
+    it('should respect the limit', async () => {
+      await store.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'c')]);
+
+      expect(ids(await store.fetchPending({ limit: 2, now }))).toEqual(['e1', 'e2']);
+    });
+
+    it('should skip delivered and dead messages', async () => {
+      await store.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'c')]);
+      await store.markDelivered('e1', now);
+      await store.markDead('e2', { reason: 'invalid' });
+
+      expect(ids(await store.fetchPending({ limit: 10, now }))).toEqual(['e3']);
+    });
+
+    it('should hold back an aggregate while its head message waits for a retry', async () => {
+      await store.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'a')]);
+      await store.markRetry('e1', {
+        reason: 'timeout',
+        availableAt: new Date(now.getTime() + 1000),
+      });
+
+      expect(ids(await store.fetchPending({ limit: 10, now }))).toEqual(['e2']);
+      expect(
+        ids(await store.fetchPending({ limit: 10, now: new Date(now.getTime() + 1000) })),
+      ).toEqual(['e1', 'e2', 'e3']);
+    });
+  });
+
+  describe('delivery bookkeeping', () => {
+    it('should count attempts and keep the last error', async () => {
+      await store.append([event('e1', 'a')]);
+      await store.markRetry('e1', { reason: 'first', availableAt: now });
+      await store.markDead('e1', { reason: 'second' });
+
+      const [message] = store.messages();
+      expect(message!.status).toBe('dead');
+      expect(message!.attempts).toBe(2);
+      expect(message!.lastError).toBe('second');
+    });
+
+    it('should ignore unknown event ids', async () => {
+      await expect(store.markDelivered('missing', now)).resolves.toBeUndefined();
+      await expect(store.markRetry('missing', { reason: 'x', availableAt: now })).resolves.toBe(
+        undefined,
+      );
+      await expect(store.markDead('missing', { reason: 'x' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('purgeDelivered', () => {
+    it('should remove messages delivered at or before the cutoff only', async () => {
+      await store.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'c')]);
+      await store.markDelivered('e1', new Date(now.getTime() - 1000));
+      await store.markDelivered('e2', new Date(now.getTime() + 1000));
+      await store.markDead('e3', { reason: 'invalid' });
+
+      expect(await store.purgeDelivered(now)).toBe(1);
+      expect(ids(store.messages())).toEqual(['e2', 'e3']);
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove all messages', async () => {
+      await store.append([event('e1', 'a')]);
+
+      store.clear();
+
+      expect(store.messages()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryRepository } from '../in-memory-repository.class';
+import { BaseAggregateRoot } from '../../../domain/classes/base-aggregate-root.class';
+import { BaseValueObject } from '../../../domain/classes/base-value-object.class';
+import { ConcurrencyConflictError } from '../../../app/exceptions/concurrency-conflict.error';
+
+class AccountId extends BaseValueObject<string> {
+  static create(value: string): AccountId {
+    return new AccountId(value);
+  }
+}
+
+interface AccountProps {
+  balance: number;
+}
+
+class Account extends BaseAggregateRoot<AccountId, AccountProps> {
+  static open(id: string): Account {
+    return new Account(AccountId.create(id), { balance: 0 });
+  }
+
+  static reconstitute(id: AccountId, props: AccountProps, version: number): Account {
+    return new Account(id, { ...props }, version);
+  }
+
+  get balance(): number {
+    return this.props.balance;
+  }
+
+  deposit(amount: number): void {
+    this._props.balance += amount;
+  }
+}
+
+function createRepository(): InMemoryRepository<Account, AccountId> {
+  return new InMemoryRepository<Account, AccountId>({
+    reconstitute: (account, version) =>
+      Account.reconstitute(account.id, { balance: account.balance }, version),
+  });
+}
+
+describe('InMemoryRepository', () => {
+  let repository: InMemoryRepository<Account, AccountId>;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  describe('findById', () => {
+    it('should return null for unknown ids', async () => {
+      expect(await repository.findById(AccountId.create('missing'))).toBeNull();
+    });
+
+    it('should return a detached copy of the stored aggregate', async () => {
+      await repository.save(Account.open('acc-1'));
+
+      const loaded = await repository.findById(AccountId.create('acc-1'));
+      loaded!.deposit(100);
+
+      const reloaded = await repository.findById(AccountId.create('acc-1'));
+      expect(reloaded!.balance).toBe(0);
+    });
+  });
+
+  describe('save', () => {
+    it('should store a new aggregate at version 1', async () => {
+      await repository.save(Account.open('acc-1'));
+
+      const loaded = await repository.findById(AccountId.create('acc-1'));
+      expect(loaded!.version).toBe(1);
+      expect(repository.size).toBe(1);
+    });
+
+    it('should increment the version on every update', async () => {
+      await repository.save(Account.open('acc-1'));
+
+      const loaded = await repository.findById(AccountId.create('acc-1'));
+      loaded!.deposit(50);
+      await repository.save(loaded!);
+
+      const reloaded = await repository.findById(AccountId.create('acc-1'));
+      expect(reloaded!.version).toBe(2);
+      expect(reloaded!.balance).toBe(50);
+    });
+
+    it('should reject a stale write', async () => {
+      await repository.save(Account.open('acc-1'));
+      const first = await repository.findById(AccountId.create('acc-1'));
+      const second = await repository.findById(AccountId.create('acc-1'));
+
+      await repository.save(first!);
+
+      const error = await repository.save(second!).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConcurrencyConflictError).expectedVersion).toBe(1);
+      expect((error as ConcurrencyConflictError).actualVersion).toBe(2);
+    });
+
+    it('should reject inserting a second new aggregate with the same id', async () => {
+      await repository.save(Account.open('acc-1'));
+
+      await expect(repository.save(Account.open('acc-1'))).rejects.toThrow(
+        ConcurrencyConflictError,
+      );
+    });
+
+    it('should reject saving a loaded aggregate that was deleted', async () => {
+      await repository.save(Account.open('acc-1'));
+      const loaded = await repository.findById(AccountId.create('acc-1'));
+      await repository.delete(loaded!);
+
+      const error = await repository.save(loaded!).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConcurrencyConflictError).actualVersion).toBeUndefined();
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the aggregate', async () => {
+      await repository.save(Account.open('acc-1'));
+      const loaded = await repository.findById(AccountId.create('acc-1'));
+
+      await repository.delete(loaded!);
+
+      expect(await repository.findById(AccountId.create('acc-1'))).toBeNull();
+      expect(repository.size).toBe(0);
+    });
+
+    it('should be a no-op for aggregates that are not stored', async () => {
+      await expect(repository.delete(Account.open('acc-1'))).resolves.toBeUndefined();
+    });
+
+    it('should reject deleting a stale aggregate', async () => {
+      await repository.save(Account.open('acc-1'));
+      const stale = await repository.findById(AccountId.create('acc-1'));
+      const fresh = await repository.findById(AccountId.create('acc-1'));
+      await repository.save(fresh!);
+
+      await expect(repository.delete(stale!)).rejects.toThrow(ConcurrencyConflictError);
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove every stored aggregate', async () => {
+      await repository.save(Account.open('acc-1'));
+      await repository.save(Account.open('acc-2'));
+
+      repository.clear();
+
+      expect(repository.size).toBe(0);
+    });
+  });
+});
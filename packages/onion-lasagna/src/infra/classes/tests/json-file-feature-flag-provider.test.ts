@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonFileFeatureFlagProvider } from '../json-file-feature-flag-provider.class';
+import { InfraError } from '../../exceptions/infra.error';
+import type { ClockPort } from '../../../global/interfaces/ports/clock.port';
+
+describe('JsonFileFeatureFlagProvider', () => {
+  let dir: string;
+  let path: string;
+  let now: Date;
+  const clock: ClockPort = { now: () => now };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'feature-flags-'));
+    path = join(dir, 'flags.json');
+    now = new Date('2024-06-01T12:00:00.000Z');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const writeFlags = (rules: unknown) => writeFile(path, JSON.stringify(rules));
+
+  it('should evaluate the rules in the file', async () => {
+    await writeFlags({ beta: { enabled: true, tenants: ['acme'] }, legacy: false });
+    const flags = new JsonFileFeatureFlagProvider(path);
+
+    expect(await flags.isEnabled('beta', { tenantId: 'acme' })).toBe(true);
+    expect(await flags.isEnabled('beta', { tenantId: 'globex' })).toBe(false);
+    expect(await flags.isEnabled('legacy')).toBe(false);
+    expect(await flags.isEnabled('unknown')).toBe(false);
+  });
+
+  it('should read the file once without a refresh interval', async () => {
+    await writeFlags({ beta: true });
+    const flags = new JsonFileFeatureFlagProvider(path, { clock });
+    await flags.isEnabled('beta');
+
+    await writeFlags({ beta: false });
+    now = new Date(now.getTime() + 3_600_000);
+
+    expect(await flags.isEnabled('beta')).toBe(true);
+  });
+
+  it('should read the file again once the refresh interval has passed', async () => {
+    await writeFlags({ beta: true });
+    const flags = new JsonFileFeatureFlagProvider(path, { refreshInterval: 30, clock });
+    await flags.isEnabled('beta');
+
+    await writeFlags({ beta: false });
+    now = new Date(now.getTime() + 29_000);
+    expect(await flags.isEnabled('beta')).toBe(true);
+
+    now = new Date(now.getTime() + 1_000);
+    expect(await flags.isEnabled('beta')).toBe(false);
+  });
+
+  it('should read the file again on reload', async () => {
+    await writeFlags({ beta: false });
+    const flags = new JsonFileFeatureFlagProvider(path);
+    await flags.isEnabled('beta');
+
+    await writeFlags({ beta: true });
+    await flags.reload();
+
+    expect(await flags.isEnabled('beta')).toBe(true);
+  });
+
+  it('should keep the last loaded rules when a refresh fails', async () => {
+    await writeFlags({ beta: true });
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      child: vi.fn(),
+    };
+    const flags = new JsonFileFeatureFlagProvider(path, { refreshInterval: 30, clock, logger });
+    await flags.isEnabled('beta');
+
+    await writeFile(path, '{ not json');
+    now = new Date(now.getTime() + 30_000);
+
+    expect(await flags.isEnabled('beta')).toBe(true);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Feature flag refresh failed, keeping the last loaded rules',
+      expect.objectContaining({ path, error: expect.any(InfraError) }),
+    );
+
+    await writeFlags({ beta: false });
+    expect(await flags.isEnabled('beta')).toBe(true);
+
+    now = new Date(now.getTime() + 30_000);
+    expect(await flags.isEnabled('beta')).toBe(false);
+  });
+
+  it('should wrap a missing file as an InfraError', async () => {
+    const flags = new JsonFileFeatureFlagProvider(join(dir, 'missing.json'));
+
+    await expect(flags.isEnabled('beta')).rejects.toBeInstanceOf(InfraError);
+  });
+
+  it('should reject files that are not a JSON object', async () => {
+    await writeFlags(['beta']);
+    const flags = new JsonFileFeatureFlagProvider(path);
+
+    await expect(flags.isEnabled('beta')).rejects.toBeInstanceOf(InfraError);
+  });
+});
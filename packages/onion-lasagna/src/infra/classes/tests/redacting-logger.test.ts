@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_REDACTED_KEYS, RedactingLogger } from '../redacting-logger.class';
+import type { LoggerPort } from '../../../global/interfaces/ports/logger.port';
+
+function createMockLogger() {
+  const child: LoggerPort = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+  const logger: LoggerPort = { ...child, child: vi.fn(() => child) };
+  return { logger, child };
+}
+
+describe('RedactingLogger', () => {
+  it('should redact default keys at every level', () => {
+    const { logger } = createMockLogger();
+    const redacting = new RedactingLogger(logger);
+
+    redacting.debug('d', { password: 'p' });
+    redacting.info('i', { token: 't' });
+    redacting.warn('w', { secret: 's' });
+    redacting.error('e', { authorization: 'Bearer x' });
+
+    expect(logger.debug).toHaveBeenCalledWith('d', { password: '[REDACTED]' });
+    expect(logger.info).toHaveBeenCalledWith('i', { token: '[REDACTED]' });
+    expect(logger.warn).toHaveBeenCalledWith('w', { secret: '[REDACTED]' });
+    expect(logger.error).toHaveBeenCalledWith('e', { authorization: '[REDACTED]' });
+  });
+
+  it('should redact nested objects and arrays', () => {
+    const { logger } = createMockLogger();
+
+    new RedactingLogger(logger).info('request', {
+      headers: { 'x-api-key': 'k', accept: 'application/json' },
+      users: [{ name: 'Ada', accessToken: 'a' }],
+    });
+
+    expect(logger.info).toHaveBeenCalledWith('request', {
+      headers: { 'x-api-key': '[REDACTED]', accept: 'application/json' },
+      users: [{ name: 'Ada', accessToken: '[REDACTED]' }],
+    });
+  });
+
+  it('should match keys ignoring case, dashes and underscores', () => {
+    const { logger } = createMockLogger();
+
+    new RedactingLogger(logger).info('x', { API_KEY: 'a', 'Set-Cookie': 'b', Password: 'c' });
+
+    expect(logger.info).toHaveBeenCalledWith('x', {
+      API_KEY: '[REDACTED]',
+      'Set-Cookie': '[REDACTED]',
+      Password: '[REDACTED]',
+    });
+  });
+
+  it('should use custom keys and censor', () => {
+    const { logger } = createMockLogger();
+
+    new RedactingLogger(logger, { keys: [...DEFAULT_REDACTED_KEYS, 'iban'], censor: '***' }).info(
+      'payout',
+      { iban: 'DE89', password: 'p', amount: 100 },
+    );
+
+    expect(logger.info).toHaveBeenCalledWith('payout', {
+      iban: '***',
+      password: '***',
+      amount: 100,
+    });
+  });
+
+  it('should leave entries without data and non-plain values untouched', () => {
+    const { logger } = createMockLogger();
+    const at = new Date(0);
+
+    const redacting = new RedactingLogger(logger);
+    redacting.info('plain');
+    redacting.info('dated', { at });
+
+    expect(logger.info).toHaveBeenCalledWith('plain', undefined);
+    expect(logger.info).toHaveBeenCalledWith('dated', { at });
+  });
+
+  it('should not loop on circular data', () => {
+    const { logger } = createMockLogger();
+    const data: Record<string, unknown> = { token: 't' };
+    data['self'] = data;
+
+    new RedactingLogger(logger).info('loop', data);
+
+    expect(logger.info).toHaveBeenCalledWith('loop', { token: '[REDACTED]', self: '[Circular]' });
+  });
+
+  it('should redact child bindings and keep children redacting', () => {
+    const { logger, child } = createMockLogger();
+
+    const redactingChild = new RedactingLogger(logger).child({ service: 'stripe', apiKey: 'k' });
+    redactingChild.info('call', { token: 't' });
+
+    expect(logger.child).toHaveBeenCalledWith({ service: 'stripe', apiKey: '[REDACTED]' });
+    expect(child.info).toHaveBeenCalledWith('call', { token: '[REDACTED]' });
+  });
+});
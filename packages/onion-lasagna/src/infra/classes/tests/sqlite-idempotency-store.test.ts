@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SqliteIdempotencyStore } from '../sqlite-idempotency-store.class';
+import type { SqliteDatabase } from '../sqlite-outbox-store.class';
+import { DbError } from '../../exceptions/db.error';
+
+// node:sqlite ships with Node >= 22.5; the suite is skipped on older runtimes.
+const sqlite = await import('node:sqlite').catch(() => undefined);
+
+describe.skipIf(!sqlite)('SqliteIdempotencyStore', () => {
+  let now: Date;
+  let db: SqliteDatabase;
+  let store: SqliteIdempotencyStore;
+
+  beforeEach(() => {
+    now = new Date('2024-06-01T12:00:00.000Z');
+    db = new sqlite!.DatabaseSync(':memory:') as unknown as SqliteDatabase;
+    store = new SqliteIdempotencyStore(db, { clock: { now: () => now } });
+  });
+
+  it('should claim a free key once', async () => {
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+    expect(await store.claim('k1', { ttl: 60 })).toEqual({ status: 'in-progress' });
+  });
+
+  it('should round-trip completed responses', async () => {
+    await store.claim('k1', { ttl: 60 });
+    await store.complete('k1', { status: 201, body: { id: 'u1' } }, { ttl: 3600 });
+
+    expect(await store.claim('k1', { ttl: 60 })).toEqual({
+      status: 'completed',
+      response: { status: 201, body: { id: 'u1' } },
+    });
+  });
+
+  it('should free expired and released keys', async () => {
+    await store.claim('k1', { ttl: 60 });
+    now = new Date(now.getTime() + 60_000);
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+
+    await store.release('k1');
+    expect(await store.claim('k1', { ttl: 60 })).toBeUndefined();
+  });
+
+  it('should share keys between stores on the same database', async () => {
+    const other = new SqliteIdempotencyStore(db, { clock: { now: () => now } });
+
+    await store.claim('k1', { ttl: 60 });
+
+    expect(await other.claim('k1', { ttl: 60 })).toEqual({ status: 'in-progress' });
+  });
+
+  it('should claim again when the key is released between the insert and the read', async () => {
+    await store.claim('k1', { ttl: 60 });
+    let released = false;
+    const racing: SqliteDatabase = {
+      exec: (sql) => db.exec(sql),
+      prepare: (sql: string) => {
+        if (sql.startsWith('SELECT') && !released) {
+          released = true;
+          db.prepare('DELETE FROM idempotency_keys WHERE key = ?').run('k1');
+        }
+        return db.prepare(sql);
+      },
+    };
+    const other = new SqliteIdempotencyStore(racing, { clock: { now: () => now } });
+
+    expect(await other.claim('k1', { ttl: 60 })).toBeUndefined();
+    expect(await store.claim('k1', { ttl: 60 })).toEqual({ status: 'in-progress' });
+  });
+
+  it('should reject unsafe table names', () => {
+    expect(() => new SqliteIdempotencyStore(db, { tableName: 'keys; DROP TABLE x' })).toThrow(
+      DbError,
+    );
+  });
+
+  it('should wrap driver errors in DbError', async () => {
+    const broken = new SqliteIdempotencyStore(db, { tableName: 'missing', createTable: false });
+
+    await expect(broken.claim('k1', { ttl: 60 })).rejects.toBeInstanceOf(DbError);
+  });
+});
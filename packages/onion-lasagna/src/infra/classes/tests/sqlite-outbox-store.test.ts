@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SqliteOutboxStore, type SqliteDatabase } from '../sqlite-outbox-store.class';
+import { DbError } from '../../exceptions/db.error';
+import type { SerializedDomainEvent } from '../../../domain/classes/base-domain-event.class';
+
+// node:sqlite ships with Node >= 22.5; the suite is skipped on older runtimes.
+const sqlite = await import('node:sqlite').catch(() => undefined);
+
+const now = new Date('2024-06-01T12:00:00.000Z');
+
+function event(eventId: string, aggregateId: string, payload: unknown = {}): SerializedDomainEvent {
+  return {
+    eventId,
+    eventName: 'OrderPlaced',
+    eventVersion: 2,
+    aggregateId,
+    occurredOn: now.toISOString(),
+    payload,
+  };
+}
+
+describe.skipIf(!sqlite)('SqliteOutboxStore', () => {
+  let db: SqliteDatabase;
+  let store: SqliteOutboxStore;
+
+  beforeEach(() => {
+    db = new sqlite!.DatabaseSync(':memory:') as unknown as SqliteDatabase;
+    store = new SqliteOutboxStore(db);
+  });
+
+  it('should round-trip appended events', async () => {
+    await store.append([event('e1', 'a', { total: 100, createdAt: now })]);
+
+    const [message] = await store.fetchPending({ limit: 10, now });
+
+    expect(message).toEqual({
+      event: {
+        ...event('e1', 'a'),
+        payload: { total: 100, createdAt: now.toISOString() },
+      },
+      sequence: 1,
+      status: 'pending',
+      attempts: 0,
+      availableAt: undefined,
+      lastError: undefined,
+    });
+  });
+
+  it('should round-trip the correlation and causation IDs', async () => {
+    await store.append([{ ...event('e1', 'a'), correlationId: 'corr-1', causationId: 'req-1' }]);
+
+    const [message] = await store.fetchPending({ limit: 10, now });
+
+    expect(message!.event).toEqual({
+      ...event('e1', 'a'),
+      correlationId: 'corr-1',
+      causationId: 'req-1',
+    });
+  });
+
+  it('should round-trip the tenant ID', async () => {
+    await store.append([{ ...event('e1', 'a'), tenantId: 'acme' }, event('e2', 'b')]);
+
+    const [scoped, unscoped] = await store.fetchPending({ limit: 10, now });
+
+    expect(scoped!.event).toEqual({ ...event('e1', 'a'), tenantId: 'acme' });
+    expect(unscoped!.event).not.toHaveProperty('tenantId');
+  });
+
+  it('should ignore events that are already stored', async () => {
+    await store.append([event('e1', 'a')]);
+    await store.append([event('e1', 'a')]);
+
+    expect(await store.fetchPending({ limit: 10, now })).toHaveLength(1);
+  });
+
+  it('should hold back an aggregate while its head message waits for a retry', async () => {
+    await store.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'a')]);
+    await store.markRetry('e1', { reason: 'timeout', availableAt: new Date(now.getTime() + 1000) });
+
+    const due = await store.fetchPending({ limit: 10, now });
+    expect(due.map((m) => m.event.eventId)).toEqual(['e2']);
+
+    const later = await store.fetchPending({ limit: 10, now: new Date(now.getTime() + 1000) });
+    expect(later.map((m) => m.event.eventId)).toEqual(['e1', 'e2', 'e3']);
+    expect(later[0]!.attempts).toBe(1);
+    expect(later[0]!.lastError).toBe('timeout');
+  });
+
+  it('should skip delivered and dead messages', async () => {
+    await store.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'c')]);
+    await store.markDelivered('e1', now);
+    await store.markDead('e2', { reason: 'invalid' });
+
+    const due = await store.fetchPending({ limit: 10, now });
+    expect(due.map((m) => m.event.eventId)).toEqual(['e3']);
+  });
+
+  it('should purge messages delivered at or before the cutoff', async () => {
+    await store.append([event('e1', 'a'), event('e2', 'b')]);
+    await store.markDelivered('e1', now);
+    await store.markDelivered('e2', new Date(now.getTime() + 1000));
+
+    expect(await store.purgeDelivered(now)).toBe(1);
+    expect(await store.purgeDelivered(now)).toBe(0);
+  });
+
+  it('should use a custom table name', async () => {
+    const custom = new SqliteOutboxStore(db, { tableName: 'order_outbox' });
+    await custom.append([event('e1', 'a')]);
+
+    expect(await store.fetchPending({ limit: 10, now })).toHaveLength(0);
+    expect(await custom.fetchPending({ limit: 10, now })).toHaveLength(1);
+  });
+
+  it('should reject table names that are not plain identifiers', () => {
+    expect(() => new SqliteOutboxStore(db, { tableName: 'outbox; DROP TABLE x' })).toThrow(DbError);
+  });
+
+  it('should wrap driver errors as DbError', async () => {
+    const uncreated = new SqliteOutboxStore(db, { tableName: 'missing', createTable: false });
+
+    await expect(uncreated.append([event('e1', 'a')])).rejects.toBeInstanceOf(DbError);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TenantScopedCache } from '../tenant-scoped-cache.class';
+import { ForbiddenError } from '../../../app/exceptions/forbidden.error';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
+import type { CachePort } from '../../../global/interfaces/ports/cache.port';
+
+class MapCache implements CachePort {
+  readonly entries = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.entries.get(key) as T | undefined;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.entries.has(key);
+  }
+}
+
+function asTenant<T>(tenantId: string, fn: () => T): T {
+  return runWithExecutionContext({ correlationId: 'c-1', tenantId }, fn);
+}
+
+describe('TenantScopedCache', () => {
+  let inner: MapCache;
+  let cache: TenantScopedCache;
+
+  beforeEach(() => {
+    inner = new MapCache();
+    cache = new TenantScopedCache(inner);
+  });
+
+  it('should prefix keys with the current tenant', async () => {
+    await asTenant('acme', () => cache.set('plans', ['basic']));
+
+    expect([...inner.entries.keys()]).toEqual(['tenant:acme:plans']);
+    expect(await asTenant('acme', () => cache.get('plans'))).toEqual(['basic']);
+    expect(await asTenant('acme', () => cache.has('plans'))).toBe(true);
+  });
+
+  it('should keep tenants apart', async () => {
+    await asTenant('acme', () => cache.set('plans', ['basic']));
+
+    expect(await asTenant('globex', () => cache.get('plans'))).toBeUndefined();
+    expect(await asTenant('globex', () => cache.has('plans'))).toBe(false);
+  });
+
+  it('should delete only the current tenant entry', async () => {
+    await asTenant('acme', () => cache.set('plans', ['basic']));
+    await asTenant('globex', () => cache.set('plans', ['pro']));
+
+    await asTenant('acme', () => cache.delete('plans'));
+
+    expect([...inner.entries.keys()]).toEqual(['tenant:globex:plans']);
+  });
+
+  it('should reject calls without a tenant', async () => {
+    await expect(cache.get('plans')).rejects.toThrow(ForbiddenError);
+    await expect(cache.set('plans', [])).rejects.toThrow(ForbiddenError);
+    expect(inner.entries.size).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TenantScopedRepository } from '../tenant-scoped-repository.class';
+import { InMemoryRepository } from '../in-memory-repository.class';
+import { BaseAggregateRoot } from '../../../domain/classes/base-aggregate-root.class';
+import { BaseValueObject } from '../../../domain/classes/base-value-object.class';
+import { ForbiddenError } from '../../../app/exceptions/forbidden.error';
+import { runWithExecutionContext } from '../../../global/utils/execution-context.util';
+
+class ProjectId extends BaseValueObject<string> {
+  static create(value: string): ProjectId {
+    return new ProjectId(value);
+  }
+}
+
+interface ProjectProps {
+  tenantId: string;
+}
+
+class Project extends BaseAggregateRoot<ProjectId, ProjectProps> {
+  static create(id: string, tenantId: string): Project {
+    return new Project(ProjectId.create(id), { tenantId });
+  }
+
+  static reconstitute(id: ProjectId, props: ProjectProps, version: number): Project {
+    return new Project(id, { ...props }, version);
+  }
+
+  get tenantId(): string {
+    return this.props.tenantId;
+  }
+}
+
+function asTenant<T>(tenantId: string, fn: () => T): T {
+  return runWithExecutionContext({ correlationId: 'c-1', tenantId }, fn);
+}
+
+describe('TenantScopedRepository', () => {
+  let inner: InMemoryRepository<Project, ProjectId>;
+  let projects: TenantScopedRepository<Project, ProjectId>;
+
+  beforeEach(async () => {
+    inner = new InMemoryRepository<Project, ProjectId>({
+      reconstitute: (project, version) =>
+        Project.reconstitute(project.id, { tenantId: project.tenantId }, version),
+    });
+    projects = new TenantScopedRepository(inner, { tenantOf: (project) => project.tenantId });
+    await inner.save(Project.create('p-1', 'acme'));
+  });
+
+  describe('findById', () => {
+    it('should return aggregates of the current tenant', async () => {
+      const project = await asTenant('acme', () => projects.findById(ProjectId.create('p-1')));
+
+      expect(project?.tenantId).toBe('acme');
+    });
+
+    it('should hide aggregates of other tenants', async () => {
+      const project = await asTenant('globex', () => projects.findById(ProjectId.create('p-1')));
+
+      expect(project).toBeNull();
+    });
+  });
+
+  describe('save / delete', () => {
+    it('should write aggregates of the current tenant', async () => {
+      await asTenant('acme', () => projects.save(Project.create('p-2', 'acme')));
+
+      expect(await inner.findById(ProjectId.create('p-2'))).not.toBeNull();
+    });
+
+    it('should reject aggregates of other tenants with TENANT_MISMATCH', async () => {
+      const error = await asTenant('globex', () =>
+        projects.save(Project.create('p-2', 'acme')),
+      ).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect((error as ForbiddenError).code).toBe('TENANT_MISMATCH');
+      expect(await inner.findById(ProjectId.create('p-2'))).toBeNull();
+    });
+
+    it('should not delete aggregates of other tenants', async () => {
+      const project = await inner.findById(ProjectId.create('p-1'));
+
+      await expect(asTenant('globex', () => projects.delete(project!))).rejects.toThrow(
+        ForbiddenError,
+      );
+      expect(await inner.findById(ProjectId.create('p-1'))).not.toBeNull();
+    });
+  });
+
+  it('should reject calls without a tenant', async () => {
+    await expect(projects.findById(ProjectId.create('p-1'))).rejects.toThrow(
+      'This operation requires a tenant',
+    );
+  });
+});
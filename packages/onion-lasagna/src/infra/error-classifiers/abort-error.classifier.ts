@@ -0,0 +1,13 @@
+import { TimeoutError } from '../exceptions/timeout.error';
+import type { InfraErrorClassifier } from './infra-error-classifier.type';
+
+/**
+ * Recognises `AbortError`s and the `TimeoutError` raised by
+ * `AbortSignal.timeout()`, which outbound calls mostly use to enforce a
+ * deadline, as a {@link TimeoutError}.
+ */
+export const classifyAbortError: InfraErrorClassifier = (error, { methodName, cause }) => {
+  if (!(error instanceof Error)) return undefined;
+  if (error.name !== 'AbortError' && error.name !== 'TimeoutError') return undefined;
+  return new TimeoutError({ message: `${methodName} was aborted: ${error.message}`, cause });
+};
@@ -0,0 +1,74 @@
+import { InfraError } from '../exceptions/infra.error';
+import { classifyAbortError } from './abort-error.classifier';
+import { classifyFetchError } from './fetch-error.classifier';
+import type { InfraErrorClassifier } from './infra-error-classifier.type';
+import { classifyNodeSystemError } from './network-error.classifier';
+import { classifySqlError } from './sql-error.classifier';
+
+/** How many nested `cause`s classifiers look into. */
+const MAX_CAUSE_DEPTH = 5;
+
+/**
+ * Built-in classifiers, in the order `BaseOutboundAdapter` runs them.
+ */
+export const defaultInfraErrorClassifiers: readonly InfraErrorClassifier[] = [
+  classifySqlError,
+  classifyNodeSystemError,
+  classifyFetchError,
+  classifyAbortError,
+];
+
+/**
+ * Turns a caught error into an {@link InfraError}.
+ *
+ * Each classifier is given the error and then its nested causes; the first
+ * result wins. Errors no classifier recognises become a generic
+ * `InfraError`.
+ *
+ * @param error - The caught error
+ * @param methodName - Adapter method the error was thrown from
+ * @param classifiers - Classifiers to try, in order
+ * @returns The classified error, with `error` as its cause
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await pool.query(sql, params);
+ * } catch (error) {
+ *   throw classifyInfraError(error, 'insertUser');
+ * }
+ * ```
+ */
+export function classifyInfraError(
+  error: unknown,
+  methodName: string,
+  classifiers: readonly InfraErrorClassifier[] = defaultInfraErrorClassifiers,
+): InfraError {
+  const chain = causeChain(error);
+  const context = { methodName, cause: error };
+
+  for (const classifier of classifiers) {
+    for (const link of chain) {
+      const classified = classifier(link, context);
+      if (classified) return classified;
+    }
+  }
+
+  return new InfraError({
+    message: `Outbound adapter error in ${methodName}`,
+    cause: error,
+  });
+}
+
+/**
+ * The error followed by its nested causes, without cycles.
+ */
+function causeChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+  while (current != null && chain.length <= MAX_CAUSE_DEPTH && !chain.includes(current)) {
+    chain.push(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain;
+}
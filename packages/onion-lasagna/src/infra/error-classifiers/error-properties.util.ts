@@ -0,0 +1,15 @@
+/**
+ * @internal Reads a string property of an unknown error value.
+ */
+export function stringProperty(error: unknown, key: string): string | undefined {
+  const value = (error as Record<string, unknown> | null)?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * @internal Reads a number property of an unknown error value.
+ */
+export function numberProperty(error: unknown, key: string): number | undefined {
+  const value = (error as Record<string, unknown> | null)?.[key];
+  return typeof value === 'number' ? value : undefined;
+}
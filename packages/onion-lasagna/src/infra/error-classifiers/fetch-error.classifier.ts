@@ -0,0 +1,48 @@
+import { ExternalServiceError } from '../exceptions/external-service.error';
+import { NetworkError } from '../exceptions/network.error';
+import { TimeoutError } from '../exceptions/timeout.error';
+import { numberProperty, stringProperty } from './error-properties.util';
+import type { InfraErrorClassifier } from './infra-error-classifier.type';
+
+const UNDICI_TIMEOUT_CODES = new Set([
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+const UNDICI_NETWORK_CODES = new Set(['UND_ERR_SOCKET', 'UND_ERR_CLOSED', 'UND_ERR_DESTROYED']);
+
+/**
+ * Recognises errors of the global `fetch` and of undici: timeouts become a
+ * {@link TimeoutError}, socket failures and `TypeError: fetch failed` a
+ * {@link NetworkError}, and `UND_ERR_RESPONSE_STATUS_CODE` an
+ * {@link ExternalServiceError} carrying the HTTP status.
+ *
+ * Run after {@link classifyNodeSystemError} so the system error wrapped in
+ * a `fetch failed` error is reported rather than the generic failure.
+ */
+export const classifyFetchError: InfraErrorClassifier = (error, { methodName, cause }) => {
+  const code = stringProperty(error, 'code');
+
+  if (code && UNDICI_TIMEOUT_CODES.has(code)) {
+    return new TimeoutError({ message: `${methodName} timed out: ${code}`, cause });
+  }
+  if (code && UNDICI_NETWORK_CODES.has(code)) {
+    return new NetworkError({ message: `Network error in ${methodName}: ${code}`, cause });
+  }
+  if (code === 'UND_ERR_RESPONSE_STATUS_CODE') {
+    const status = numberProperty(error, 'statusCode');
+    return new ExternalServiceError({
+      message: `External service error in ${methodName}${status ? `: HTTP ${status}` : ''}`,
+      status,
+      cause,
+    });
+  }
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return (
+      classifyFetchError(error.cause, { methodName, cause }) ??
+      new NetworkError({ message: `Network error in ${methodName}: fetch failed`, cause })
+    );
+  }
+  return undefined;
+};
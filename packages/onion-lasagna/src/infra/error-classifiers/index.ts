@@ -0,0 +1,6 @@
+export * from './abort-error.classifier';
+export * from './classify-infra-error.util';
+export * from './fetch-error.classifier';
+export * from './infra-error-classifier.type';
+export * from './network-error.classifier';
+export * from './sql-error.classifier';
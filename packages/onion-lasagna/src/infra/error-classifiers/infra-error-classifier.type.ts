@@ -0,0 +1,39 @@
+import type { InfraError } from '../exceptions/infra.error';
+
+/**
+ * Context passed to an {@link InfraErrorClassifier}.
+ */
+export interface InfraErrorClassifierContext {
+  /** Adapter method the error was thrown from. */
+  readonly methodName: string;
+
+  /**
+   * The error originally caught. Attach it as the `cause` of the returned
+   * error, even when the classifier recognised one of its nested causes.
+   */
+  readonly cause: unknown;
+}
+
+/**
+ * Turns an error into a specific {@link InfraError} subclass, or returns
+ * `undefined` to let the next classifier try.
+ *
+ * Classifiers see the caught error first, then each of its nested
+ * `cause`s, so errors wrapped by ORMs and HTTP clients are recognised too.
+ *
+ * @example
+ * ```typescript
+ * const classifyStripeError: InfraErrorClassifier = (error, { methodName, cause }) => {
+ *   if (!(error instanceof Stripe.errors.StripeError)) return undefined;
+ *   return new ExternalServiceError({
+ *     message: `Stripe error in ${methodName}`,
+ *     status: error.statusCode,
+ *     cause,
+ *   });
+ * };
+ * ```
+ */
+export type InfraErrorClassifier = (
+  error: unknown,
+  context: InfraErrorClassifierContext,
+) => InfraError | undefined;
@@ -0,0 +1,37 @@
+import { NetworkError } from '../exceptions/network.error';
+import { TimeoutError } from '../exceptions/timeout.error';
+import { stringProperty } from './error-properties.util';
+import type { InfraErrorClassifier } from './infra-error-classifier.type';
+
+const NETWORK_ERRNOS = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENETDOWN',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EADDRNOTAVAIL',
+]);
+
+const TIMEOUT_ERRNOS = new Set(['ETIMEDOUT', 'ESOCKETTIMEDOUT']);
+
+/**
+ * Recognises Node.js system errors by their `code`: connection failures
+ * (`ECONNREFUSED`, `ECONNRESET`, `ENOTFOUND`, ...) become a
+ * {@link NetworkError}, `ETIMEDOUT` a {@link TimeoutError}.
+ */
+export const classifyNodeSystemError: InfraErrorClassifier = (error, { methodName, cause }) => {
+  const errno = stringProperty(error, 'code');
+  if (!errno) return undefined;
+
+  if (NETWORK_ERRNOS.has(errno)) {
+    return new NetworkError({ message: `Network error in ${methodName}: ${errno}`, errno, cause });
+  }
+  if (TIMEOUT_ERRNOS.has(errno)) {
+    return new TimeoutError({ message: `${methodName} timed out: ${errno}`, cause });
+  }
+  return undefined;
+};
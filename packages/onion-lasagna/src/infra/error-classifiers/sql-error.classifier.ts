@@ -0,0 +1,101 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { DbError } from '../exceptions/db.error';
+import { numberProperty, stringProperty } from './error-properties.util';
+import type { InfraErrorClassifier } from './infra-error-classifier.type';
+
+type SqlErrorKind = 'unique' | 'foreignKey' | 'deadlock' | 'serialization';
+
+/**
+ * Driver error codes by kind: PostgreSQL SQLSTATEs, MySQL codes, SQLite
+ * extended codes (by name and number) and SQL Server error numbers.
+ */
+const DRIVER_CODES: Record<SqlErrorKind, ReadonlySet<string>> = {
+  unique: new Set([
+    '23505',
+    'ER_DUP_ENTRY',
+    'SQLITE_CONSTRAINT_UNIQUE',
+    'SQLITE_CONSTRAINT_PRIMARYKEY',
+    '2067',
+    '1555',
+    '2627',
+    '2601',
+  ]),
+  foreignKey: new Set([
+    '23503',
+    'ER_NO_REFERENCED_ROW_2',
+    'ER_ROW_IS_REFERENCED_2',
+    'SQLITE_CONSTRAINT_FOREIGNKEY',
+    '787',
+    '547',
+  ]),
+  deadlock: new Set(['40P01', 'ER_LOCK_DEADLOCK', '1205']),
+  serialization: new Set(['40001']),
+};
+
+const ERRORS: Record<SqlErrorKind, { code: string; description: string }> = {
+  unique: {
+    code: ErrorCodes.Infra.DB_UNIQUE_VIOLATION,
+    description: 'Unique constraint violation',
+  },
+  foreignKey: {
+    code: ErrorCodes.Infra.DB_FOREIGN_KEY_VIOLATION,
+    description: 'Foreign key violation',
+  },
+  deadlock: { code: ErrorCodes.Infra.DB_DEADLOCK, description: 'Deadlock' },
+  serialization: {
+    code: ErrorCodes.Infra.DB_SERIALIZATION_FAILURE,
+    description: 'Serialization failure',
+  },
+};
+
+/**
+ * Constraint names as they appear in MySQL, SQLite and SQL Server messages.
+ */
+const CONSTRAINT_PATTERNS = [
+  /for key '([^']+)'/, // MySQL
+  /constraint failed: (\S+)/, // SQLite
+  /constraint '([^']+)'/, // SQL Server
+  /unique index '([^']+)'/, // SQL Server
+];
+
+/**
+ * Recognises unique and foreign key violations, deadlocks and serialization
+ * failures reported by common SQL drivers (`pg`, `postgres`, `mysql2`,
+ * `better-sqlite3`, `node:sqlite`, `mssql`) and produces a {@link DbError}
+ * with the matching `DB_*` code, the driver code and, when available, the
+ * violated constraint.
+ */
+export const classifySqlError: InfraErrorClassifier = (error, { methodName, cause }) => {
+  const driverCodes = [
+    stringProperty(error, 'code'),
+    numberProperty(error, 'errcode')?.toString(), // node:sqlite
+    numberProperty(error, 'number')?.toString(), // mssql
+  ].filter((code): code is string => code !== undefined);
+
+  for (const kind of Object.keys(DRIVER_CODES) as SqlErrorKind[]) {
+    const driverCode = driverCodes.find((code) => DRIVER_CODES[kind].has(code));
+    if (driverCode === undefined) continue;
+
+    const { code, description } = ERRORS[kind];
+    return new DbError({
+      message: `${description} in ${methodName}`,
+      code,
+      constraint:
+        stringProperty(error, 'constraint') ??
+        stringProperty(error, 'constraint_name') ??
+        constraintFromMessage(error),
+      driverCode,
+      cause,
+    });
+  }
+  return undefined;
+};
+
+function constraintFromMessage(error: unknown): string | undefined {
+  if (!(error instanceof Error)) return undefined;
+  for (const pattern of CONSTRAINT_PATTERNS) {
+    const match = pattern.exec(error.message);
+    if (match) return match[1];
+  }
+  return undefined;
+}
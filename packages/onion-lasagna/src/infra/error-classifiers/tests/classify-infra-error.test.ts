@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { classifyInfraError } from '../classify-infra-error.util';
+import type { InfraErrorClassifier } from '../infra-error-classifier.type';
+import { InfraError } from '../../exceptions/infra.error';
+import { DbError } from '../../exceptions/db.error';
+import { NetworkError } from '../../exceptions/network.error';
+import { TimeoutError } from '../../exceptions/timeout.error';
+import { ExternalServiceError } from '../../exceptions/external-service.error';
+import { getErrorTypeName } from '../../../global/exceptions/coded-error.error';
+
+function errorWith(message: string, props: Record<string, unknown>): Error {
+  return Object.assign(new Error(message), props);
+}
+
+describe('classifyInfraError', () => {
+  describe('fallback', () => {
+    it('should return a generic InfraError for unknown errors', () => {
+      const cause = new Error('boom');
+
+      const error = classifyInfraError(cause, 'save');
+
+      expect(getErrorTypeName(error)).toBe('InfraError');
+      expect(error.code).toBe('INFRA_ERROR');
+      expect(error.message).toBe('Outbound adapter error in save');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should handle non-Error values', () => {
+      expect(classifyInfraError('oops', 'save')).toBeInstanceOf(InfraError);
+      expect(classifyInfraError(null, 'save')).toBeInstanceOf(InfraError);
+    });
+  });
+
+  describe('Node system errors', () => {
+    it('should classify ECONNREFUSED as NetworkError', () => {
+      const cause = errorWith('connect ECONNREFUSED 127.0.0.1:5432', { code: 'ECONNREFUSED' });
+
+      const error = classifyInfraError(cause, 'findById');
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as NetworkError).errno).toBe('ECONNREFUSED');
+      expect(error.message).toBe('Network error in findById: ECONNREFUSED');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should classify ETIMEDOUT as TimeoutError', () => {
+      const error = classifyInfraError(errorWith('timeout', { code: 'ETIMEDOUT' }), 'findById');
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.code).toBe('TIMEOUT_ERROR');
+    });
+
+    it('should ignore unrelated codes', () => {
+      const error = classifyInfraError(errorWith('no file', { code: 'ENOENT' }), 'read');
+
+      expect(getErrorTypeName(error)).toBe('InfraError');
+    });
+  });
+
+  describe('fetch and undici errors', () => {
+    it('should report the system error behind "fetch failed"', () => {
+      const cause = new TypeError('fetch failed', {
+        cause: errorWith('getaddrinfo ENOTFOUND api.example.com', { code: 'ENOTFOUND' }),
+      });
+
+      const error = classifyInfraError(cause, 'getRates');
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as NetworkError).errno).toBe('ENOTFOUND');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should classify a bare "fetch failed" as NetworkError', () => {
+      const error = classifyInfraError(new TypeError('fetch failed'), 'getRates');
+
+      expect(error).toBeInstanceOf(NetworkError);
+    });
+
+    it('should classify undici timeouts as TimeoutError', () => {
+      const cause = new TypeError('fetch failed', {
+        cause: errorWith('Connect Timeout Error', { code: 'UND_ERR_CONNECT_TIMEOUT' }),
+      });
+
+      expect(classifyInfraError(cause, 'getRates')).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should classify undici status errors as ExternalServiceError', () => {
+      const cause = errorWith('Response status code 503', {
+        code: 'UND_ERR_RESPONSE_STATUS_CODE',
+        statusCode: 503,
+      });
+
+      const error = classifyInfraError(cause, 'getRates');
+
+      expect(error).toBeInstanceOf(ExternalServiceError);
+      expect((error as ExternalServiceError).status).toBe(503);
+      expect(error.message).toBe('External service error in getRates: HTTP 503');
+    });
+  });
+
+  describe('abort errors', () => {
+    it('should classify AbortError as TimeoutError', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = classifyInfraError(controller.signal.reason, 'getRates');
+
+      expect(error).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should classify AbortSignal.timeout() errors as TimeoutError', () => {
+      const cause = new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+
+      expect(classifyInfraError(cause, 'getRates')).toBeInstanceOf(TimeoutError);
+    });
+  });
+
+  describe('SQL driver errors', () => {
+    it('should classify PostgreSQL unique violations', () => {
+      const cause = errorWith('duplicate key value violates unique constraint "users_email_key"', {
+        code: '23505',
+        constraint: 'users_email_key',
+      });
+
+      const error = classifyInfraError(cause, 'insert');
+
+      expect(error).toBeInstanceOf(DbError);
+      expect(error.code).toBe('DB_UNIQUE_VIOLATION');
+      expect((error as DbError).constraint).toBe('users_email_key');
+      expect((error as DbError).driverCode).toBe('23505');
+      expect(error.message).toBe('Unique constraint violation in insert');
+    });
+
+    it('should classify MySQL duplicate entries and read the key from the message', () => {
+      const cause = errorWith("Duplicate entry 'a@b.c' for key 'users.email'", {
+        code: 'ER_DUP_ENTRY',
+        errno: 1062,
+      });
+
+      const error = classifyInfraError(cause, 'insert') as DbError;
+
+      expect(error.code).toBe('DB_UNIQUE_VIOLATION');
+      expect(error.constraint).toBe('users.email');
+    });
+
+    it('should classify SQLite constraint errors by code and by errcode', () => {
+      const betterSqlite = errorWith('UNIQUE constraint failed: users.email', {
+        code: 'SQLITE_CONSTRAINT_UNIQUE',
+      });
+      const nodeSqlite = errorWith('FOREIGN KEY constraint failed', {
+        code: 'ERR_SQLITE_ERROR',
+        errcode: 787,
+      });
+
+      const unique = classifyInfraError(betterSqlite, 'insert') as DbError;
+
+      expect(unique.code).toBe('DB_UNIQUE_VIOLATION');
+      expect(unique.constraint).toBe('users.email');
+      expect(classifyInfraError(nodeSqlite, 'insert').code).toBe('DB_FOREIGN_KEY_VIOLATION');
+    });
+
+    it('should classify SQL Server errors by number', () => {
+      const cause = errorWith(
+        "Violation of UNIQUE KEY constraint 'UQ_users_email'. Cannot insert duplicate key.",
+        { number: 2627 },
+      );
+
+      const error = classifyInfraError(cause, 'insert') as DbError;
+
+      expect(error.code).toBe('DB_UNIQUE_VIOLATION');
+      expect(error.constraint).toBe('UQ_users_email');
+      expect(error.driverCode).toBe('2627');
+    });
+
+    it('should classify deadlocks and serialization failures', () => {
+      expect(classifyInfraError(errorWith('deadlock', { code: '40P01' }), 'save').code).toBe(
+        'DB_DEADLOCK',
+      );
+      expect(
+        classifyInfraError(errorWith('deadlock', { code: 'ER_LOCK_DEADLOCK' }), 'save').code,
+      ).toBe('DB_DEADLOCK');
+      expect(classifyInfraError(errorWith('serialize', { code: '40001' }), 'save').code).toBe(
+        'DB_SERIALIZATION_FAILURE',
+      );
+    });
+
+    it('should not mistake MySQL lock wait timeouts for deadlocks', () => {
+      const cause = errorWith('Lock wait timeout exceeded', {
+        code: 'ER_LOCK_WAIT_TIMEOUT',
+        errno: 1205,
+      });
+
+      expect(getErrorTypeName(classifyInfraError(cause, 'save'))).toBe('InfraError');
+    });
+
+    it('should look into errors wrapped by an ORM', () => {
+      const driverError = errorWith('duplicate key', { code: '23505', constraint: 'pk' });
+      const cause = new Error('Failed query: insert into ...', { cause: driverError });
+
+      const error = classifyInfraError(cause, 'insert');
+
+      expect(error.code).toBe('DB_UNIQUE_VIOLATION');
+      expect(error.cause).toBe(cause);
+    });
+  });
+
+  describe('custom classifiers', () => {
+    const classifyTeapot: InfraErrorClassifier = (error, { methodName, cause }) =>
+      error instanceof Error && error.message === 'teapot'
+        ? new ExternalServiceError({ message: `Teapot in ${methodName}`, status: 418, cause })
+        : undefined;
+
+    it('should run classifiers in order', () => {
+      const cause = errorWith('teapot', { code: 'ECONNRESET' });
+
+      expect(classifyInfraError(cause, 'brew', [classifyTeapot])).toBeInstanceOf(
+        ExternalServiceError,
+      );
+    });
+
+    it('should fall back to a generic InfraError when none matches', () => {
+      const error = classifyInfraError(errorWith('x', { code: 'ECONNRESET' }), 'brew', [
+        classifyTeapot,
+      ]);
+
+      expect(getErrorTypeName(error)).toBe('InfraError');
+    });
+
+    it('should stop at cyclic causes', () => {
+      const cause = new Error('cyclic') as Error & { cause?: unknown };
+      cause.cause = cause;
+
+      expect(classifyInfraError(cause, 'loop')).toBeInstanceOf(InfraError);
+    });
+  });
+});
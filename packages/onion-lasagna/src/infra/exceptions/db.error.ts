@@ -33,6 +33,12 @@ export class DbError extends InfraError {
     return 'DbError';
   }
 
+  /** Constraint that rejected the write, when the driver reports it. */
+  readonly constraint: string | undefined;
+
+  /** Driver-specific error code (SQLSTATE, MySQL/SQLite code, SQL Server number). */
+  readonly driverCode: string | undefined;
+
   /**
    * Creates a new DbError instance.
    *
@@ -40,17 +46,25 @@ export class DbError extends InfraError {
    * @param options.message - Description of the database failure
    * @param options.code - Machine-readable error code (default: 'DB_ERROR')
    * @param options.cause - Optional underlying database error
+   * @param options.constraint - Constraint that rejected the write
+   * @param options.driverCode - Error code reported by the driver
    */
   constructor({
     message,
     code = ErrorCodes.Infra.DB_ERROR,
     cause,
+    constraint,
+    driverCode,
   }: {
     message: string;
     code?: InfraErrorCode | string;
     cause?: unknown;
+    constraint?: string;
+    driverCode?: string;
   }) {
     super({ message, code, cause });
+    this.constraint = constraint;
+    this.driverCode = driverCode;
   }
 
   /**
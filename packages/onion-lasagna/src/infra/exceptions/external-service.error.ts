@@ -33,6 +33,12 @@ export class ExternalServiceError extends InfraError {
     return 'ExternalServiceError';
   }
 
+  /** HTTP status returned by the service, when known. */
+  readonly status: number | undefined;
+
+  /** Response body returned by the service, when known. */
+  readonly responseBody: unknown;
+
   /**
    * Creates a new ExternalServiceError instance.
    *
@@ -40,17 +46,25 @@ export class ExternalServiceError extends InfraError {
    * @param options.message - Description of the external service failure
    * @param options.code - Machine-readable error code (default: 'EXTERNAL_SERVICE_ERROR')
    * @param options.cause - Optional underlying service error
+   * @param options.status - HTTP status returned by the service
+   * @param options.responseBody - Response body returned by the service
    */
   constructor({
     message,
     code = ErrorCodes.Infra.EXTERNAL_SERVICE_ERROR,
     cause,
+    status,
+    responseBody,
   }: {
     message: string;
     code?: InfraErrorCode | string;
     cause?: unknown;
+    status?: number;
+    responseBody?: unknown;
   }) {
     super({ message, code, cause });
+    this.status = status;
+    this.responseBody = responseBody;
   }
 
   /**
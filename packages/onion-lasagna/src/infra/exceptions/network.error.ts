@@ -33,6 +33,9 @@ export class NetworkError extends InfraError {
     return 'NetworkError';
   }
 
+  /** System error code (e.g. `ECONNREFUSED`), when known. */
+  readonly errno: string | undefined;
+
   /**
    * Creates a new NetworkError instance.
    *
@@ -40,17 +43,21 @@ export class NetworkError extends InfraError {
    * @param options.message - Description of the network failure
    * @param options.code - Machine-readable error code (default: 'NETWORK_ERROR')
    * @param options.cause - Optional underlying network error
+   * @param options.errno - System error code
    */
   constructor({
     message,
     code = ErrorCodes.Infra.NETWORK_ERROR,
     cause,
+    errno,
   }: {
     message: string;
     code?: InfraErrorCode | string;
     cause?: unknown;
+    errno?: string;
   }) {
     super({ message, code, cause });
+    this.errno = errno;
   }
 
   /**
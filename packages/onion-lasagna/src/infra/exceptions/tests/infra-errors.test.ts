@@ -92,6 +92,19 @@ describe('DbError', () => {
 
       expect(error.cause).toBe(cause);
     });
+
+    it('should carry constraint and driver code', () => {
+      const error = new DbError({
+        message: 'Duplicate email',
+        code: 'DB_UNIQUE_VIOLATION',
+        constraint: 'users_email_key',
+        driverCode: '23505',
+      });
+
+      expect(error.constraint).toBe('users_email_key');
+      expect(error.driverCode).toBe('23505');
+      expect(new DbError({ message: 'Failed' }).constraint).toBeUndefined();
+    });
   });
 
   describe('inheritance', () => {
@@ -151,6 +164,12 @@ describe('NetworkError', () => {
 
       expect(error.cause).toBe(cause);
     });
+
+    it('should carry the system error code', () => {
+      const error = new NetworkError({ message: 'Cannot connect', errno: 'ECONNREFUSED' });
+
+      expect(error.errno).toBe('ECONNREFUSED');
+    });
   });
 
   describe('inheritance', () => {
@@ -269,6 +288,17 @@ describe('ExternalServiceError', () => {
 
       expect(error.cause).toBe(cause);
     });
+
+    it('should carry the HTTP status and response body', () => {
+      const error = new ExternalServiceError({
+        message: 'Gateway down',
+        status: 503,
+        responseBody: { error: 'maintenance' },
+      });
+
+      expect(error.status).toBe(503);
+      expect(error.responseBody).toEqual({ error: 'maintenance' });
+    });
   });
 
   describe('inheritance', () => {
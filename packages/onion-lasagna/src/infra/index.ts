@@ -1,2 +1,4 @@
 export * from './classes';
+export * from './error-classifiers';
 export * from './exceptions';
+export * from './resilience';
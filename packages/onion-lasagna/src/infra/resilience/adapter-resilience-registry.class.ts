@@ -0,0 +1,85 @@
+import { Bulkhead } from './bulkhead.class';
+import { CircuitBreaker } from './circuit-breaker.class';
+import type { InfraError } from '../exceptions/infra.error';
+import { ResiliencePipeline, type ResiliencePipelineComponents } from './resilience-pipeline.class';
+import type { AdapterResilience, CircuitState, ResiliencePolicy } from './resilience-policy.type';
+
+/**
+ * Builds and caches the pipelines of one adapter instance.
+ *
+ * The circuit breaker and bulkhead of `default` are created once and
+ * shared by every method that inherits them. Methods declared in `methods`
+ * get their pipelines up front, so their breakers show up in
+ * `circuitStates()` before the first call. Every pipeline classifies errors
+ * with the adapter's classifier chain before deciding on a retry.
+ *
+ * @internal
+ */
+export class AdapterResilienceRegistry {
+  private readonly pipelines = new Map<string, ResiliencePipeline | undefined>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly shared: ResiliencePipelineComponents;
+
+  constructor(
+    private readonly config: AdapterResilience,
+    classifyError?: (error: unknown, methodName: string) => InfraError,
+  ) {
+    const defaults = config.default;
+    this.shared = {
+      circuitBreaker: defaults?.circuitBreaker && new CircuitBreaker(defaults.circuitBreaker),
+      bulkhead: defaults?.bulkhead && new Bulkhead(defaults.bulkhead),
+      classifyError,
+    };
+    if (this.shared.circuitBreaker) this.breakers.set('default', this.shared.circuitBreaker);
+
+    for (const methodName of Object.keys(config.methods ?? {})) {
+      this.pipelines.set(methodName, this.build(methodName));
+    }
+  }
+
+  /**
+   * Pipeline of a method, or `undefined` when no policy applies to it.
+   */
+  public pipelineFor(methodName: string): ResiliencePipeline | undefined {
+    if (!this.pipelines.has(methodName)) {
+      this.pipelines.set(methodName, this.build(methodName));
+    }
+    return this.pipelines.get(methodName);
+  }
+
+  /**
+   * States of all circuit breakers: `default` for the shared one, method
+   * names for method-level ones.
+   */
+  public circuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries([...this.breakers].map(([name, breaker]) => [name, breaker.state]));
+  }
+
+  private build(methodName: string): ResiliencePipeline | undefined {
+    const methods = this.config.methods ?? {};
+    const override = Object.hasOwn(methods, methodName) ? methods[methodName] : undefined;
+    if (override === false) return undefined;
+
+    const policy: ResiliencePolicy = { ...this.config.default, ...override };
+    if (
+      !policy.retry &&
+      !policy.circuitBreaker &&
+      !policy.bulkhead &&
+      policy.timeoutMs === undefined
+    ) {
+      return undefined;
+    }
+
+    const ownBreaker = override !== undefined && 'circuitBreaker' in override;
+    const ownBulkhead = override !== undefined && 'bulkhead' in override;
+    const pipeline = new ResiliencePipeline(policy, {
+      classifyError: this.shared.classifyError,
+      circuitBreaker: ownBreaker ? undefined : this.shared.circuitBreaker,
+      bulkhead: ownBulkhead ? undefined : this.shared.bulkhead,
+    });
+    if (ownBreaker && pipeline.circuitBreaker) {
+      this.breakers.set(methodName, pipeline.circuitBreaker);
+    }
+    return pipeline;
+  }
+}
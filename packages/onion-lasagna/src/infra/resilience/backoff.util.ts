@@ -0,0 +1,27 @@
+import type { RetryBackoff } from './resilience-policy.type';
+
+/**
+ * Creates an exponential backoff function with jitter.
+ *
+ * The n-th retry waits a random delay from the upper half of
+ * `minMs × 2ⁿ`, capped at `maxMs`: the first one between `minMs` and
+ * `2 × minMs`, the second between `2 × minMs` and `4 × minMs`, and so on.
+ * Retries stay spread out, avoiding a thundering herd, even once the cap
+ * has been reached.
+ *
+ * @param minMs - Shortest delay of the first retry
+ * @param maxMs - Maximum delay in milliseconds
+ * @returns A backoff function for `RetryPolicy.backoffMs`
+ *
+ * @example
+ * ```typescript
+ * retry: { maxAttempts: 5, backoffMs: exponentialBackoff(200, 5000) }
+ * ```
+ */
+export function exponentialBackoff(minMs: number, maxMs: number): RetryBackoff {
+  return (attempt: number) => {
+    const ceiling = Math.min(minMs * 2 ** attempt, maxMs);
+    const floor = Math.min(Math.max(ceiling / 2, minMs), ceiling);
+    return Math.floor(floor + Math.random() * (ceiling - floor));
+  };
+}
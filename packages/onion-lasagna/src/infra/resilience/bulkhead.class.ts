@@ -0,0 +1,60 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { InfraError } from '../exceptions/infra.error';
+import type { BulkheadPolicy } from './resilience-policy.type';
+
+/**
+ * Concurrency limiter. See {@link BulkheadPolicy}.
+ *
+ * Queued calls start in arrival order as running calls finish.
+ *
+ * @example
+ * ```typescript
+ * const bulkhead = new Bulkhead({ maxConcurrent: 10, maxQueue: 50 });
+ * await bulkhead.execute(() => pdfRenderer.render(invoice));
+ * ```
+ */
+export class Bulkhead {
+  private running = 0;
+  private readonly queue: (() => void)[] = [];
+
+  constructor(private readonly policy: BulkheadPolicy) {}
+
+  /** Calls currently running. */
+  public get active(): number {
+    return this.running;
+  }
+
+  /** Calls waiting for a slot. */
+  public get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs a call once a slot is free.
+   *
+   * @param fn - The call
+   * @param name - Name used in the rejection message
+   * @throws {InfraError} `BULKHEAD_FULL` when no slot and no queue place is free
+   */
+  public async execute<T>(fn: () => Promise<T>, name = 'call'): Promise<T> {
+    if (this.running >= this.policy.maxConcurrent) {
+      if (this.queue.length >= (this.policy.maxQueue ?? 0)) {
+        throw new InfraError({
+          message: `Bulkhead is full for ${name}`,
+          code: ErrorCodes.Infra.BULKHEAD_FULL,
+        });
+      }
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const next = this.queue.shift();
+      if (next) next();
+      else this.running--;
+    }
+  }
+}
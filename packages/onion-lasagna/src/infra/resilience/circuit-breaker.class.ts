@@ -0,0 +1,84 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { InfraError } from '../exceptions/infra.error';
+import type { CircuitBreakerPolicy, CircuitState } from './resilience-policy.type';
+
+/**
+ * Circuit breaker state machine. See {@link CircuitBreakerPolicy}.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 30_000 });
+ * const rates = await breaker.execute(() => fxApi.latestRates());
+ * ```
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probesInFlight = 0;
+
+  constructor(private readonly policy: CircuitBreakerPolicy) {}
+
+  /**
+   * Current state. An open circuit whose reset timeout has passed reports
+   * `half-open`.
+   */
+  public get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.policy.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Runs a call through the breaker.
+   *
+   * @param fn - The call
+   * @param name - Name used in the rejection message
+   * @throws {InfraError} `CIRCUIT_OPEN` while the circuit rejects calls
+   */
+  public async execute<T>(fn: () => Promise<T>, name = 'call'): Promise<T> {
+    const state = this.state;
+    const halfOpenMaxCalls = this.policy.halfOpenMaxCalls ?? 1;
+    if (state === 'open' || (state === 'half-open' && this.probesInFlight >= halfOpenMaxCalls)) {
+      throw new InfraError({
+        message: `Circuit breaker is open for ${name}`,
+        code: ErrorCodes.Infra.CIRCUIT_OPEN,
+      });
+    }
+
+    const isProbe = state === 'half-open';
+    if (isProbe) {
+      this.currentState = 'half-open';
+      this.probesInFlight++;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.policy.isFailure?.(error) ?? true) this.onFailure();
+      else if (isProbe) this.onSuccess();
+      throw error;
+    } finally {
+      if (isProbe) this.probesInFlight--;
+    }
+  }
+
+  private onSuccess(): void {
+    this.currentState = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    if (
+      this.currentState === 'half-open' ||
+      this.consecutiveFailures >= this.policy.failureThreshold
+    ) {
+      this.currentState = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
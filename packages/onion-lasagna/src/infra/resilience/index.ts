@@ -0,0 +1,5 @@
+export * from './backoff.util';
+export * from './bulkhead.class';
+export * from './circuit-breaker.class';
+export * from './resilience-pipeline.class';
+export * from './resilience-policy.type';
@@ -0,0 +1,152 @@
+import { ErrorCodes } from '../../global/exceptions/error-codes.const';
+import { classifyInfraError } from '../error-classifiers/classify-infra-error.util';
+import { InfraError } from '../exceptions/infra.error';
+import { NetworkError } from '../exceptions/network.error';
+import { TimeoutError } from '../exceptions/timeout.error';
+import { Bulkhead } from './bulkhead.class';
+import { CircuitBreaker } from './circuit-breaker.class';
+import type { ResiliencePolicy, RetryPolicy } from './resilience-policy.type';
+
+/**
+ * Stateful components a pipeline shares with other pipelines instead of
+ * creating its own.
+ */
+export interface ResiliencePipelineComponents {
+  /** Breaker to use in place of one built from `policy.circuitBreaker`. */
+  readonly circuitBreaker?: CircuitBreaker;
+
+  /** Bulkhead to use in place of one built from `policy.bulkhead`. */
+  readonly bulkhead?: Bulkhead;
+
+  /**
+   * Turns an attempt's error into an `InfraError` before the retry decision
+   * (default: the built-in classifiers).
+   */
+  readonly classifyError?: (error: unknown, name: string) => InfraError;
+}
+
+/**
+ * Runs calls through a {@link ResiliencePolicy}.
+ *
+ * `BaseOutboundAdapter` builds pipelines from its `resilience` declaration;
+ * use this class directly to protect calls elsewhere.
+ *
+ * @example
+ * ```typescript
+ * const pipeline = new ResiliencePipeline({
+ *   retry: { maxAttempts: 3, backoffMs: exponentialBackoff(100, 2000) },
+ *   timeoutMs: 5000,
+ * });
+ *
+ * const rates = await pipeline.execute(() => fxApi.latestRates(), 'latestRates');
+ * ```
+ */
+export class ResiliencePipeline {
+  /** The pipeline's circuit breaker, if any. */
+  public readonly circuitBreaker: CircuitBreaker | undefined;
+
+  /** The pipeline's bulkhead, if any. */
+  public readonly bulkhead: Bulkhead | undefined;
+
+  private readonly classifyError: (error: unknown, name: string) => InfraError;
+
+  constructor(
+    private readonly policy: ResiliencePolicy,
+    components: ResiliencePipelineComponents = {},
+  ) {
+    this.circuitBreaker =
+      components.circuitBreaker ??
+      (policy.circuitBreaker ? new CircuitBreaker(policy.circuitBreaker) : undefined);
+    this.bulkhead =
+      components.bulkhead ?? (policy.bulkhead ? new Bulkhead(policy.bulkhead) : undefined);
+    this.classifyError = components.classifyError ?? classifyInfraError;
+  }
+
+  /**
+   * Runs a call through the policies.
+   *
+   * @param fn - The call
+   * @param name - Name used in error messages
+   * @returns The call's result
+   * @throws The last attempt's error, `TimeoutError`, or an `InfraError`
+   *   with code `CIRCUIT_OPEN` / `BULKHEAD_FULL`
+   */
+  public async execute<T>(fn: () => Promise<T>, name = 'call'): Promise<T> {
+    const attempt = () => this.attempt(fn, name);
+    const classify = (error: unknown) =>
+      error instanceof InfraError ? error : this.classifyError(error, name);
+    return this.policy.retry ? retry(attempt, this.policy.retry, classify) : attempt();
+  }
+
+  private attempt<T>(fn: () => Promise<T>, name: string): Promise<T> {
+    const { bulkhead } = this;
+    if (!bulkhead) return this.guarded(fn, name);
+
+    // The slot is held until the call itself settles: a call that timed out
+    // keeps running, so it still counts towards maxConcurrent
+    return new Promise<T>((resolve, reject) => {
+      bulkhead
+        .execute(async () => {
+          let call: Promise<T> | undefined;
+          const result = this.guarded(() => (call = fn()), name);
+          result.then(resolve, reject);
+          await Promise.allSettled([result, call]);
+        }, name)
+        .catch(reject);
+    });
+  }
+
+  private guarded<T>(fn: () => Promise<T>, name: string): Promise<T> {
+    const { timeoutMs } = this.policy;
+    const timed = timeoutMs !== undefined ? () => withTimeout(fn, timeoutMs, name) : fn;
+    const { circuitBreaker } = this;
+    return circuitBreaker ? circuitBreaker.execute(timed, name) : timed();
+  }
+}
+
+async function retry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  classify: (error: unknown) => InfraError,
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+  const retryOn = policy.retryOn ?? isRetryable;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxAttempts || !retryOn(classify(error))) throw error;
+      const delay =
+        typeof policy.backoffMs === 'function'
+          ? policy.backoffMs(attempt)
+          : (policy.backoffMs ?? 0);
+      if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/** Only transient failures are worth another attempt. */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  return (
+    error instanceof InfraError &&
+    (error.code === ErrorCodes.Infra.DB_DEADLOCK ||
+      error.code === ErrorCodes.Infra.DB_SERIALIZATION_FAILURE)
+  );
+}
+
+async function withTimeout<T>(fn: () => Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError({ message: `${name} timed out after ${timeoutMs} ms` })),
+      timeoutMs,
+    );
+  });
+  try {
+    return await Promise.race([fn(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
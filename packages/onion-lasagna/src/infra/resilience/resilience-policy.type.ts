@@ -0,0 +1,115 @@
+/**
+ * Delay before a retry, in milliseconds: a fixed value or a function of the
+ * attempt that just failed (1-based).
+ */
+export type RetryBackoff = number | ((attempt: number) => number);
+
+/**
+ * Retries failed calls.
+ *
+ * Same shape as the saga package's `IRetryPolicy`, so policies can be
+ * shared between sagas and adapters.
+ */
+export interface RetryPolicy {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+
+  /** Delay between attempts (default: no delay). See `exponentialBackoff`. */
+  backoffMs?: RetryBackoff;
+
+  /**
+   * Decides whether an error is worth another attempt. Receives the error
+   * after classification into an `InfraError`. By default only
+   * `NetworkError`, `TimeoutError`, and database deadlocks and serialization
+   * failures are retried.
+   */
+  retryOn?: (error: unknown) => boolean;
+}
+
+/**
+ * Stops calling a failing dependency for a while.
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls
+ * fail fast with `CIRCUIT_OPEN`. Once `resetTimeoutMs` has passed, the
+ * circuit turns half-open and lets `halfOpenMaxCalls` probe calls through:
+ * a successful probe closes it, a failed one opens it again.
+ */
+export interface CircuitBreakerPolicy {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+
+  /** Milliseconds the circuit stays open before probing. */
+  resetTimeoutMs: number;
+
+  /** Concurrent probe calls allowed while half-open (default: `1`). */
+  halfOpenMaxCalls?: number;
+
+  /** Decides whether an error counts as a failure (default: every error). */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Limits concurrent calls. Calls beyond `maxConcurrent` wait in a queue of
+ * `maxQueue` places; once the queue is full they fail with `BULKHEAD_FULL`.
+ */
+export interface BulkheadPolicy {
+  /** Calls allowed to run at the same time. */
+  maxConcurrent: number;
+
+  /** Calls allowed to wait for a slot (default: `0`). */
+  maxQueue?: number;
+}
+
+/**
+ * Policies wrapped around a call. Each one is optional.
+ *
+ * Applied from the outside in: retry → bulkhead → circuit breaker →
+ * timeout. Every attempt takes its own bulkhead slot and counts towards the
+ * circuit breaker. The slot is held until the call settles, even after the
+ * attempt timed out.
+ */
+export interface ResiliencePolicy {
+  /** Retries failed attempts. */
+  retry?: RetryPolicy;
+
+  /** Fails fast while the dependency keeps failing. */
+  circuitBreaker?: CircuitBreakerPolicy;
+
+  /**
+   * Milliseconds an attempt may take before it fails with `TimeoutError`.
+   * The underlying call is not cancelled and keeps its bulkhead slot until
+   * it settles.
+   */
+  timeoutMs?: number;
+
+  /** Limits concurrent attempts. */
+  bulkhead?: BulkheadPolicy;
+}
+
+/**
+ * Resilience policies of an outbound adapter.
+ *
+ * `default` applies to every method. Entries in `methods` are merged over
+ * it key by key: setting a key to `undefined` drops that policy for the
+ * method, and `false` opts the method out entirely.
+ *
+ * The circuit breaker and bulkhead declared in `default` are shared by all
+ * methods that inherit them; those declared in `methods` belong to their
+ * method alone.
+ */
+export interface AdapterResilience {
+  /** Policies for every method. */
+  default?: ResiliencePolicy;
+
+  /** Per-method policies, by method name. */
+  methods?: Readonly<Record<string, ResiliencePolicy | false>>;
+}
+
+/**
+ * State of a circuit breaker.
+ *
+ * - `closed` — Calls go through.
+ * - `open` — Calls fail fast.
+ * - `half-open` — Probe calls test whether the dependency recovered.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
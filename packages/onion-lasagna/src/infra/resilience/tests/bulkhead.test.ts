@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Bulkhead } from '../bulkhead.class';
+import { InfraError } from '../../exceptions/infra.error';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('Bulkhead', () => {
+  it('should run calls up to the concurrency limit', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 2 });
+    const first = deferred();
+    const second = deferred();
+
+    const running = [bulkhead.execute(() => first.promise), bulkhead.execute(() => second.promise)];
+
+    expect(bulkhead.active).toBe(2);
+    first.resolve();
+    second.resolve();
+    await Promise.all(running);
+    expect(bulkhead.active).toBe(0);
+  });
+
+  it('should reject calls beyond the limit without a queue', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+    const first = deferred();
+    const running = bulkhead.execute(() => first.promise);
+
+    const error = await bulkhead.execute(async () => 'never', 'render').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InfraError);
+    expect((error as InfraError).code).toBe('BULKHEAD_FULL');
+    expect((error as InfraError).message).toBe('Bulkhead is full for render');
+    first.resolve();
+    await running;
+  });
+
+  it('should queue calls in arrival order and start them as slots free up', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 2 });
+    const first = deferred();
+    const order: string[] = [];
+
+    const running = [
+      bulkhead.execute(async () => {
+        await first.promise;
+        order.push('first');
+      }),
+      bulkhead.execute(async () => {
+        order.push('second');
+      }),
+      bulkhead.execute(async () => {
+        order.push('third');
+      }),
+    ];
+
+    expect(bulkhead.active).toBe(1);
+    expect(bulkhead.queued).toBe(2);
+    first.resolve();
+    await Promise.all(running);
+
+    expect(order).toEqual(['first', 'second', 'third']);
+    expect(bulkhead.active).toBe(0);
+    expect(bulkhead.queued).toBe(0);
+  });
+
+  it('should free the slot when a call fails', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+
+    await bulkhead.execute(() => Promise.reject(new Error('boom'))).catch(() => undefined);
+
+    await expect(bulkhead.execute(async () => 'ok')).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker } from '../circuit-breaker.class';
+import { InfraError } from '../../exceptions/infra.error';
+
+const fail = () => Promise.reject(new Error('boom'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function trip(breaker: CircuitBreaker, failures: number) {
+    for (let i = 0; i < failures; i++) {
+      await breaker.execute(fail).catch(() => undefined);
+    }
+  }
+
+  it('should stay closed below the failure threshold', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+
+    await trip(breaker, 2);
+
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+  });
+
+  it('should only count consecutive failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+
+    await trip(breaker, 1);
+    await breaker.execute(succeed);
+    await trip(breaker, 1);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open at the threshold and fail fast without calling', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    await trip(breaker, 2);
+    const fn = vi.fn(succeed);
+
+    const error = await breaker.execute(fn, 'charge').catch((e: unknown) => e);
+
+    expect(breaker.state).toBe('open');
+    expect(error).toBeInstanceOf(InfraError);
+    expect((error as InfraError).code).toBe('CIRCUIT_OPEN');
+    expect((error as InfraError).message).toBe('Circuit breaker is open for charge');
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should turn half-open after the reset timeout and close on a successful probe', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    await trip(breaker, 1);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open again when the probe fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+    await trip(breaker, 3);
+    vi.advanceTimersByTime(1000);
+
+    await trip(breaker, 1);
+
+    expect(breaker.state).toBe('open');
+    vi.advanceTimersByTime(999);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should limit concurrent probes while half-open', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    await trip(breaker, 1);
+    vi.advanceTimersByTime(1000);
+
+    let release!: () => void;
+    const probe = breaker.execute(() => new Promise<void>((resolve) => (release = resolve)));
+    const rejected = await breaker.execute(succeed).catch((e: unknown) => e);
+    release();
+    await probe;
+
+    expect((rejected as InfraError).code).toBe('CIRCUIT_OPEN');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should ignore errors that isFailure rejects', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 1000,
+      isFailure: (error) => (error as Error).message !== 'not found',
+    });
+
+    await breaker.execute(() => Promise.reject(new Error('not found'))).catch(() => undefined);
+
+    expect(breaker.state).toBe('closed');
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ResiliencePipeline } from '../resilience-pipeline.class';
+import { exponentialBackoff } from '../backoff.util';
+import { InfraError } from '../../exceptions/infra.error';
+import { NetworkError } from '../../exceptions/network.error';
+import { TimeoutError } from '../../exceptions/timeout.error';
+
+const connectionReset = (message = 'flaky') =>
+  Object.assign(new Error(message), { code: 'ECONNRESET' });
+
+describe('ResiliencePipeline', () => {
+  describe('retry', () => {
+    it('should retry until an attempt succeeds', async () => {
+      const fn = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(connectionReset())
+        .mockResolvedValue('ok');
+      const pipeline = new ResiliencePipeline({ retry: { maxAttempts: 3 } });
+
+      await expect(pipeline.execute(fn)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw the last error after the last attempt', async () => {
+      const fn = vi.fn(() => Promise.reject(connectionReset('down')));
+      const pipeline = new ResiliencePipeline({ retry: { maxAttempts: 3 } });
+
+      await expect(pipeline.execute(fn)).rejects.toThrow('down');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors that are not transient by default', async () => {
+      const fn = vi.fn(() => Promise.reject(new Error('bad request')));
+      const pipeline = new ResiliencePipeline({ retry: { maxAttempts: 3 } });
+
+      await expect(pipeline.execute(fn)).rejects.toThrow('bad request');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry database deadlocks and serialization failures by default', async () => {
+      const fn = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(Object.assign(new Error('deadlock detected'), { code: '40P01' }))
+        .mockRejectedValueOnce(Object.assign(new Error('could not serialize'), { code: '40001' }))
+        .mockResolvedValue('ok');
+      const pipeline = new ResiliencePipeline({ retry: { maxAttempts: 3 } });
+
+      await expect(pipeline.execute(fn)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should decide on the error as classified by classifyError', async () => {
+      const fn = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValue('ok');
+      const classifyError = vi.fn(
+        (error: unknown, name: string) =>
+          new NetworkError({ message: `${name} lost its connection`, cause: error }),
+      );
+      const pipeline = new ResiliencePipeline({ retry: { maxAttempts: 2 } }, { classifyError });
+
+      await expect(pipeline.execute(fn, 'fetchRates')).resolves.toBe('ok');
+      expect(classifyError).toHaveBeenCalledWith(expect.any(Error), 'fetchRates');
+    });
+
+    it('should stop on errors that retryOn rejects', async () => {
+      const fn = vi.fn(() => Promise.reject(new Error('bad request')));
+      const pipeline = new ResiliencePipeline({
+        retry: {
+          maxAttempts: 3,
+          retryOn: (error) => ((error as InfraError).cause as Error).message !== 'bad request',
+        },
+      });
+
+      await expect(pipeline.execute(fn)).rejects.toThrow('bad request');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for the backoff between attempts', async () => {
+      vi.useFakeTimers();
+      try {
+        const fn = vi
+          .fn<() => Promise<string>>()
+          .mockRejectedValueOnce(connectionReset())
+          .mockResolvedValue('ok');
+        const backoffMs = vi.fn(() => 500);
+        const pipeline = new ResiliencePipeline({ retry: { maxAttempts: 2, backoffMs } });
+
+        const result = pipeline.execute(fn);
+        await vi.advanceTimersByTimeAsync(499);
+        expect(fn).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+
+        await expect(result).resolves.toBe('ok');
+        expect(backoffMs).toHaveBeenCalledWith(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('timeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should fail slow attempts with TimeoutError', async () => {
+      const pipeline = new ResiliencePipeline({ timeoutMs: 100 });
+
+      const result = pipeline.execute(() => new Promise(() => undefined), 'fetchRates');
+      const assertion = expect(result).rejects.toThrow(TimeoutError);
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      await expect(result).rejects.toThrow('fetchRates timed out after 100 ms');
+    });
+
+    it('should return results that arrive in time', async () => {
+      const pipeline = new ResiliencePipeline({ timeoutMs: 100 });
+
+      await expect(pipeline.execute(async () => 'ok')).resolves.toBe('ok');
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should time out each attempt separately', async () => {
+      const fn = vi
+        .fn<() => Promise<string>>()
+        .mockImplementationOnce(() => new Promise(() => undefined))
+        .mockResolvedValue('ok');
+      const pipeline = new ResiliencePipeline({ timeoutMs: 100, retry: { maxAttempts: 2 } });
+
+      const result = pipeline.execute(fn);
+      await vi.advanceTimersByTimeAsync(100);
+
+      await expect(result).resolves.toBe('ok');
+    });
+  });
+
+  describe('composition', () => {
+    it('should not retry while the circuit is open', async () => {
+      const fn = vi.fn(() => Promise.reject(connectionReset('down')));
+      const pipeline = new ResiliencePipeline({
+        retry: { maxAttempts: 5 },
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 },
+      });
+
+      const error = await pipeline.execute(fn).catch((e: unknown) => e);
+
+      expect((error as InfraError).code).toBe('CIRCUIT_OPEN');
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(pipeline.circuitBreaker?.state).toBe('open');
+    });
+
+    it('should not retry bulkhead rejections', async () => {
+      let release!: () => void;
+      const pipeline = new ResiliencePipeline({
+        retry: { maxAttempts: 3 },
+        bulkhead: { maxConcurrent: 1 },
+      });
+      const running = pipeline.execute(() => new Promise<void>((resolve) => (release = resolve)));
+      const fn = vi.fn(async () => 'never');
+
+      const error = await pipeline.execute(fn).catch((e: unknown) => e);
+      release();
+      await running;
+
+      expect(error).toBeInstanceOf(InfraError);
+      expect((error as InfraError).code).toBe('BULKHEAD_FULL');
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should hold the bulkhead slot until a timed-out call settles', async () => {
+      vi.useFakeTimers();
+      try {
+        let started = 0;
+        let release!: () => void;
+        const pipeline = new ResiliencePipeline({
+          timeoutMs: 100,
+          bulkhead: { maxConcurrent: 1, maxQueue: 2 },
+        });
+        const hanging = () => {
+          started++;
+          return new Promise<void>((resolve) => (release = resolve));
+        };
+
+        const first = pipeline.execute(hanging);
+        const assertion = expect(first).rejects.toThrow(TimeoutError);
+        const second = pipeline.execute(async () => {
+          started++;
+          return 'ok';
+        });
+        await vi.advanceTimersByTimeAsync(1_000);
+        await assertion;
+
+        expect(started).toBe(1);
+        expect(pipeline.bulkhead?.active).toBeLessThanOrEqual(1);
+        expect(pipeline.bulkhead?.queued).toBe(1);
+
+        release();
+        await expect(second).resolves.toBe('ok');
+        expect(pipeline.bulkhead?.active).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should count timeouts as circuit breaker failures', async () => {
+      vi.useFakeTimers();
+      try {
+        const pipeline = new ResiliencePipeline({
+          timeoutMs: 10,
+          circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 },
+        });
+
+        const result = pipeline.execute(() => new Promise(() => undefined));
+        const assertion = expect(result).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(10);
+        await assertion;
+
+        expect(pipeline.circuitBreaker?.state).toBe('open');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
+
+describe('exponentialBackoff', () => {
+  it('should double the base delay per attempt within the bounds', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    try {
+      const backoff = exponentialBackoff(100, 1000) as (attempt: number) => number;
+
+      expect([1, 2, 3, 4, 5].map(backoff)).toEqual([100, 200, 400, 500, 500]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('should add jitter without exceeding the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    try {
+      const backoff = exponentialBackoff(100, 1000) as (attempt: number) => number;
+
+      expect(backoff(1)).toBe(199);
+      expect(backoff(4)).toBe(995);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('should keep the jitter once the maximum is reached', () => {
+    const random = vi.spyOn(Math, 'random');
+    try {
+      const backoff = exponentialBackoff(100, 1000) as (attempt: number) => number;
+
+      random.mockReturnValue(0);
+      const shortest = backoff(10);
+      random.mockReturnValue(0.99);
+      const longest = backoff(10);
+
+      expect(shortest).toBe(500);
+      expect(longest).toBe(995);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
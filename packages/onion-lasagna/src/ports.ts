@@ -22,6 +22,22 @@
 export type { CachePort, CacheSetOptions } from './global/interfaces/ports/cache.port';
 export type { ClockPort } from './global/interfaces/ports/clock.port';
 export type { EmailServicePort, EmailMessage } from './global/interfaces/ports/email-service.port';
+export type {
+  FeatureFlagContext,
+  FeatureFlagPort,
+} from './global/interfaces/ports/feature-flag.port';
 export type { IdGeneratorPort } from './global/interfaces/ports/id-generator.port';
+export type {
+  IdempotencyRecord,
+  IdempotencyStoreOptions,
+  IdempotencyStorePort,
+} from './global/interfaces/ports/idempotency-store.port';
 export type { LoggerPort } from './global/interfaces/ports/logger.port';
 export type { UnitOfWorkPort } from './global/interfaces/ports/unit-of-work.port';
+export type {
+  FetchPendingOutboxOptions,
+  OutboxMessage,
+  OutboxMessageStatus,
+  OutboxPort,
+} from './app/interfaces/ports/outbox.port';
+export type { RepositoryPort } from './app/interfaces/ports/repository.port';
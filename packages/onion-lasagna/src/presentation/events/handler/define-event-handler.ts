@@ -50,6 +50,12 @@ interface DefineEventHandlerInput<
   /** Context validation schema (validates event metadata). */
   readonly context?: TContext;
 
+  /**
+   * Feature flag gating the handler. While the flag is off for the event's
+   * tenant and actor, events are acknowledged without being processed.
+   */
+  readonly featureFlag?: string;
+
   /** Handler documentation. */
   readonly docs?: {
     readonly summary?: string;
@@ -97,6 +103,7 @@ export function defineEventHandler<
       tags: input.docs?.tags,
       deprecated: input.docs?.deprecated ?? false,
     },
+    ...(input.featureFlag ? { featureFlag: input.featureFlag } : {}),
     _types: undefined as unknown,
   };
 
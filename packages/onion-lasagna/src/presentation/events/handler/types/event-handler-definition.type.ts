@@ -57,6 +57,9 @@ export interface EventHandlerDefinition<
   /** Handler documentation. */
   readonly docs: EventHandlerDocumentation;
 
+  /** Feature flag that must be on for the handler to process events. */
+  readonly featureFlag?: string;
+
   /**
    * Phantom types for TypeScript inference.
    * Never accessed at runtime.
@@ -37,6 +37,7 @@ export type {
   SimpleEventHandlerConfig,
   EventMiddlewareFunction,
   CreateEventRoutesOptions,
+  EventIdempotencyOptions,
   UnifiedEventInput,
   UseCasePort,
 } from './server';
@@ -46,6 +47,15 @@ export { isSimpleEventHandlerConfig } from './server';
 export type { EventResult } from './shared';
 export { mapErrorToEventResult } from './shared';
 
+// Outbox layer: relay from the transactional outbox
+export { OutboxRelay } from './outbox';
+export type {
+  OutboxPublisher,
+  OutboxRelayOptions,
+  OutboxRelayReport,
+  OutboxRelayTarget,
+} from './outbox';
+
 // AsyncAPI layer: spec generation
 export { generateAsyncAPI } from './asyncapi';
 export type {
@@ -0,0 +1,7 @@
+export { OutboxRelay } from './outbox-relay';
+export type {
+  OutboxPublisher,
+  OutboxRelayOptions,
+  OutboxRelayReport,
+  OutboxRelayTarget,
+} from './outbox-relay';
@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Relay that delivers transactional outbox messages to the events tier.
+ *
+ * Reads pending messages from an {@link OutboxPort}, converts them to
+ * {@link RawEvent}s and hands them to `UnifiedEventInput` handlers or to a
+ * publisher. Delivery is at-least-once and ordered per `aggregateId`.
+ *
+ * @module events/outbox/outbox-relay
+ */
+
+import type { OutboxMessage, OutboxPort } from '../../../app/interfaces/ports/outbox.port';
+import type { ClockPort } from '../../../global/interfaces/ports/clock.port';
+import type { LoggerPort } from '../../../global/interfaces/ports/logger.port';
+import type { RawEvent, UnifiedEventInput } from '../server/types';
+import { mapErrorToEventResult } from '../shared/error-mapping';
+import type { EventResult } from '../shared/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Publishes a raw event to an external broker.
+ * Resolving with nothing is treated as `{ outcome: 'ack' }`.
+ */
+export type OutboxPublisher = (event: RawEvent) => Promise<EventResult | undefined>;
+
+/**
+ * Where the relay delivers events: in-process handlers or a publisher.
+ */
+export type OutboxRelayTarget =
+  | {
+      /** Handlers built with `eventRoutes(router).build()`. */
+      readonly handlers: readonly UnifiedEventInput[];
+      readonly publish?: never;
+    }
+  | {
+      /** Publisher forwarding events to a message broker. */
+      readonly publish: OutboxPublisher;
+      readonly handlers?: never;
+    };
+
+/**
+ * Options for creating an {@link OutboxRelay}.
+ */
+export type OutboxRelayOptions = OutboxRelayTarget & {
+  /** The outbox store to read from. */
+  readonly outbox: OutboxPort;
+
+  /**
+   * Maximum number of messages fetched per run.
+   * @default 100
+   */
+  readonly batchSize?: number;
+
+  /**
+   * Attempts after which a message that keeps failing is marked dead.
+   * @default 5
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * Delay before the next attempt, used when a `retry` result has no `delayMs`.
+   * Receives the 1-based number of the attempt that just failed.
+   * @default exponential backoff from 1 second, capped at 60 seconds
+   */
+  readonly retryDelayMs?: (attempt: number) => number;
+
+  /**
+   * How long delivered messages are kept before being purged.
+   * @default 0 (purged at the end of the run that delivered them)
+   */
+  readonly deliveredRetentionMs?: number;
+
+  /** Value of `metadata.source` on every relayed event. */
+  readonly source?: string;
+
+  /** Time source. Defaults to the system clock. */
+  readonly clock?: ClockPort;
+
+  /** Receives failures of background runs started with `start()`. */
+  readonly logger?: LoggerPort;
+};
+
+/**
+ * Summary of a single relay run.
+ */
+export interface OutboxRelayReport {
+  /** Messages acknowledged by the target. */
+  readonly delivered: number;
+
+  /** Messages scheduled for another attempt. */
+  readonly retried: number;
+
+  /** Messages marked dead. */
+  readonly dead: number;
+
+  /** Delivered messages removed from the outbox. */
+  readonly purged: number;
+}
+
+const systemClock: ClockPort = { now: () => new Date() };
+
+const defaultRetryDelayMs = (attempt: number): number =>
+  Math.min(1000 * 2 ** (attempt - 1), 60_000);
+
+// ============================================================================
+// Relay
+// ============================================================================
+
+/**
+ * Delivers outbox messages to the events tier.
+ *
+ * Each run fetches a batch of due messages and delivers them in `sequence`
+ * order. Outcomes follow the `EventResult` contract:
+ *
+ * - `ack` — Marked delivered and purged after `deliveredRetentionMs`.
+ * - `retry` — Rescheduled; later messages of the same aggregate wait for it.
+ *   Marked dead once `maxAttempts` is reached.
+ * - `dlq` — Marked dead immediately.
+ *
+ * Errors thrown by the target are mapped with `mapErrorToEventResult`.
+ * When several handlers subscribe to the same event type, all of them run;
+ * any `retry` wins over `dlq`, which wins over `ack`. Events with no
+ * matching handler are acknowledged.
+ *
+ * Run a single relay per outbox: concurrent relays deliver duplicates.
+ *
+ * @example In-process handlers
+ * ```typescript
+ * const relay = new OutboxRelay({
+ *   outbox,
+ *   handlers: eventRoutes(orderEvents).handle('orderPlaced', { ... }).build(),
+ * });
+ *
+ * relay.start(1000);
+ * // on shutdown
+ * await relay.stop();
+ * ```
+ *
+ * @example Message broker
+ * ```typescript
+ * const relay = new OutboxRelay({
+ *   outbox,
+ *   source: 'orders',
+ *   publish: async (event) => {
+ *     await sns.publish({ TopicArn, Message: JSON.stringify(event) });
+ *   },
+ * });
+ *
+ * await relay.relayPending();
+ * ```
+ */
+export class OutboxRelay {
+  private readonly outbox: OutboxPort;
+  private readonly deliver: (event: RawEvent) => Promise<EventResult>;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: (attempt: number) => number;
+  private readonly deliveredRetentionMs: number;
+  private readonly source?: string;
+  private readonly clock: ClockPort;
+  private readonly logger?: LoggerPort;
+
+  private running?: Promise<OutboxRelayReport>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private started = false;
+
+  constructor(options: OutboxRelayOptions) {
+    this.outbox = options.outbox;
+    this.deliver = options.publish
+      ? createPublisherTarget(options.publish)
+      : createHandlersTarget(options.handlers);
+    this.batchSize = options.batchSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? defaultRetryDelayMs;
+    this.deliveredRetentionMs = options.deliveredRetentionMs ?? 0;
+    this.source = options.source;
+    this.clock = options.clock ?? systemClock;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Delivers one batch of due messages and purges expired delivered ones.
+   *
+   * Calls made while a run is in progress share that run.
+   *
+   * @returns Counts of what happened during the run
+   */
+  public relayPending(): Promise<OutboxRelayReport> {
+    this.running ??= this.run().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /**
+   * Runs the relay repeatedly, waiting `intervalMs` between runs.
+   * A run that fills a whole batch is followed immediately by the next one.
+   *
+   * @param intervalMs - Pause between runs (default: 1000)
+   */
+  public start(intervalMs = 1000): void {
+    if (this.started) return;
+    this.started = true;
+
+    const tick = async (): Promise<void> => {
+      let delay = intervalMs;
+      try {
+        const report = await this.relayPending();
+        if (report.delivered + report.retried + report.dead >= this.batchSize) delay = 0;
+      } catch (error) {
+        this.logger?.error('Outbox relay run failed', { error });
+      }
+      if (this.started) this.timer = setTimeout(() => void tick(), delay);
+    };
+
+    this.timer = setTimeout(() => void tick(), 0);
+  }
+
+  /**
+   * Stops the background loop and waits for the current run to finish.
+   */
+  public async stop(): Promise<void> {
+    this.started = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.running?.catch(() => undefined);
+  }
+
+  private async run(): Promise<OutboxRelayReport> {
+    const messages = await this.outbox.fetchPending({
+      limit: this.batchSize,
+      now: this.clock.now(),
+    });
+
+    const byAggregate = new Map<string, OutboxMessage[]>();
+    for (const message of messages) {
+      const stream = byAggregate.get(message.event.aggregateId) ?? [];
+      stream.push(message);
+      byAggregate.set(message.event.aggregateId, stream);
+    }
+
+    let delivered = 0;
+    let retried = 0;
+    let dead = 0;
+
+    for (const stream of byAggregate.values()) {
+      for (const message of stream) {
+        const outcome = await this.relayMessage(message);
+        if (outcome === 'delivered') delivered++;
+        if (outcome === 'dead') dead++;
+        if (outcome === 'retried') {
+          retried++;
+          // Keep per-aggregate order: later events wait for this one.
+          break;
+        }
+      }
+    }
+
+    const cutoff = new Date(this.clock.now().getTime() - this.deliveredRetentionMs);
+    const purged = await this.outbox.purgeDelivered(cutoff);
+
+    return { delivered, retried, dead, purged };
+  }
+
+  private async relayMessage(message: OutboxMessage): Promise<'delivered' | 'retried' | 'dead'> {
+    const { event } = message;
+    const attempt = message.attempts + 1;
+
+    let result: EventResult;
+    try {
+      result = await this.deliver({
+        type: event.eventName,
+        payload: event.payload,
+        metadata: {
+          eventId: event.eventId,
+          timestamp: event.occurredOn,
+          source: this.source,
+          attemptCount: attempt,
+          aggregateId: event.aggregateId,
+          eventVersion: event.eventVersion,
+          ...(event.correlationId ? { correlationId: event.correlationId } : {}),
+          ...(event.causationId ? { causationId: event.causationId } : {}),
+          ...(event.tenantId ? { tenantId: event.tenantId } : {}),
+        },
+      });
+    } catch (error) {
+      result = mapErrorToEventResult(error);
+    }
+
+    if (result.outcome === 'ack') {
+      await this.outbox.markDelivered(event.eventId, this.clock.now());
+      return 'delivered';
+    }
+
+    if (result.outcome === 'dlq' || attempt >= this.maxAttempts) {
+      await this.outbox.markDead(event.eventId, { reason: result.reason });
+      return 'dead';
+    }
+
+    const delayMs = result.delayMs ?? this.retryDelayMs(attempt);
+    await this.outbox.markRetry(event.eventId, {
+      reason: result.reason,
+      availableAt: new Date(this.clock.now().getTime() + delayMs),
+    });
+    return 'retried';
+  }
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/**
+ * Adapts a publisher so that a void result means `ack`.
+ */
+function createPublisherTarget(
+  publish: OutboxPublisher,
+): (event: RawEvent) => Promise<EventResult> {
+  return async (event) => (await publish(event)) ?? { outcome: 'ack' };
+}
+
+/**
+ * Dispatches to every handler registered for the event type and merges the results.
+ */
+function createHandlersTarget(
+  handlers: readonly UnifiedEventInput[],
+): (event: RawEvent) => Promise<EventResult> {
+  return async (event) => {
+    const results: EventResult[] = [];
+    for (const input of handlers) {
+      if (input.eventType === event.type) {
+        results.push(await input.handler(event));
+      }
+    }
+
+    return (
+      results.find((result) => result.outcome === 'retry') ??
+      results.find((result) => result.outcome === 'dlq') ?? { outcome: 'ack' }
+    );
+  };
+}
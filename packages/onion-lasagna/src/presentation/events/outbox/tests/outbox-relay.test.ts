@@ -0,0 +1,368 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutboxRelay } from '../outbox-relay';
+import { InMemoryOutboxStore } from '../../../../infra/classes/in-memory-outbox-store.class';
+import { ForbiddenError } from '../../../../app/exceptions/forbidden.error';
+import type { ClockPort } from '../../../../global/interfaces/ports/clock.port';
+import type { SerializedDomainEvent } from '../../../../domain/classes/base-domain-event.class';
+import type { RawEvent, UnifiedEventInput } from '../../server/types';
+import type { EventResult } from '../../shared/types';
+
+class FakeClock implements ClockPort {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+function event(
+  eventId: string,
+  aggregateId: string,
+  eventName = 'OrderPlaced',
+): SerializedDomainEvent {
+  return {
+    eventId,
+    eventName,
+    eventVersion: 1,
+    aggregateId,
+    occurredOn: '2024-06-01T12:00:00.000Z',
+    payload: { eventId },
+  };
+}
+
+function handler(
+  eventType: string,
+  fn: (raw: RawEvent) => Promise<EventResult> | EventResult,
+): UnifiedEventInput {
+  return { eventType, metadata: {}, handler: async (raw) => fn(raw) };
+}
+
+describe('OutboxRelay', () => {
+  let outbox: InMemoryOutboxStore;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    outbox = new InMemoryOutboxStore();
+    clock = new FakeClock(new Date('2024-06-01T12:00:00.000Z'));
+  });
+
+  describe('delivery', () => {
+    it('should deliver messages as RawEvents and purge them', async () => {
+      const received: RawEvent[] = [];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        source: 'orders',
+        handlers: [handler('OrderPlaced', (raw) => (received.push(raw), { outcome: 'ack' }))],
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      const report = await relay.relayPending();
+
+      expect(report).toEqual({ delivered: 1, retried: 0, dead: 0, purged: 1 });
+      expect(received).toEqual([
+        {
+          type: 'OrderPlaced',
+          payload: { eventId: 'e1' },
+          metadata: {
+            eventId: 'e1',
+            timestamp: '2024-06-01T12:00:00.000Z',
+            source: 'orders',
+            attemptCount: 1,
+            aggregateId: 'order-1',
+            eventVersion: 1,
+          },
+        },
+      ]);
+      expect(outbox.messages()).toHaveLength(0);
+    });
+
+    it('should carry correlation, causation and tenant IDs into the metadata', async () => {
+      const received: RawEvent[] = [];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        handlers: [handler('OrderPlaced', (raw) => (received.push(raw), { outcome: 'ack' }))],
+      });
+      await outbox.append([
+        { ...event('e1', 'order-1'), correlationId: 'c-1', causationId: 'req-1', tenantId: 'acme' },
+      ]);
+
+      await relay.relayPending();
+
+      expect(received[0]?.metadata).toMatchObject({
+        correlationId: 'c-1',
+        causationId: 'req-1',
+        tenantId: 'acme',
+      });
+    });
+
+    it('should keep delivered messages during the retention window', async () => {
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        deliveredRetentionMs: 60_000,
+        publish: async () => undefined,
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      await relay.relayPending();
+      expect(outbox.messages()[0]!.status).toBe('delivered');
+
+      clock.advance(60_000);
+      const report = await relay.relayPending();
+      expect(report.purged).toBe(1);
+      expect(outbox.messages()).toHaveLength(0);
+    });
+
+    it('should run every handler subscribed to the event type', async () => {
+      const calls: string[] = [];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        handlers: [
+          handler('OrderPlaced', () => (calls.push('billing'), { outcome: 'ack' })),
+          handler('OrderShipped', () => (calls.push('shipping'), { outcome: 'ack' })),
+          handler('OrderPlaced', () => (calls.push('email'), { outcome: 'ack' })),
+        ],
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      await relay.relayPending();
+
+      expect(calls).toEqual(['billing', 'email']);
+    });
+
+    it('should acknowledge events without handlers', async () => {
+      const relay = new OutboxRelay({ outbox, clock, handlers: [] });
+      await outbox.append([event('e1', 'order-1')]);
+
+      expect((await relay.relayPending()).delivered).toBe(1);
+    });
+
+    it('should share a run between concurrent calls', async () => {
+      const publish = vi.fn(async () => undefined);
+      const relay = new OutboxRelay({ outbox, clock, publish });
+      await outbox.append([event('e1', 'order-1')]);
+
+      const [first, second] = await Promise.all([relay.relayPending(), relay.relayPending()]);
+
+      expect(first).toBe(second);
+      expect(publish).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('failures', () => {
+    it('should reschedule retries with the default backoff', async () => {
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        publish: async () => ({ outcome: 'retry', reason: 'broker down' }),
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      expect((await relay.relayPending()).retried).toBe(1);
+      expect(outbox.messages()[0]).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        lastError: 'broker down',
+        availableAt: new Date('2024-06-01T12:00:01.000Z'),
+      });
+
+      // Not due yet
+      expect((await relay.relayPending()).retried).toBe(0);
+
+      clock.advance(1000);
+      await relay.relayPending();
+      expect(outbox.messages()[0]!.availableAt).toEqual(new Date('2024-06-01T12:00:03.000Z'));
+    });
+
+    it('should honour delayMs and a custom retryDelayMs', async () => {
+      const results: EventResult[] = [
+        { outcome: 'retry', reason: 'slow down', delayMs: 5000 },
+        { outcome: 'retry', reason: 'again' },
+      ];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        retryDelayMs: (attempt) => attempt * 100,
+        publish: async () => results.shift(),
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      await relay.relayPending();
+      expect(outbox.messages()[0]!.availableAt).toEqual(new Date('2024-06-01T12:00:05.000Z'));
+
+      clock.advance(5000);
+      await relay.relayPending();
+      expect(outbox.messages()[0]!.availableAt).toEqual(new Date('2024-06-01T12:00:05.200Z'));
+    });
+
+    it('should mark messages dead after maxAttempts', async () => {
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        maxAttempts: 2,
+        retryDelayMs: () => 0,
+        publish: async () => ({ outcome: 'retry', reason: 'broker down' }),
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      await relay.relayPending();
+      const report = await relay.relayPending();
+
+      expect(report.dead).toBe(1);
+      expect(outbox.messages()[0]).toMatchObject({ status: 'dead', attempts: 2 });
+    });
+
+    it('should mark dlq results dead immediately and keep them', async () => {
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        handlers: [handler('OrderPlaced', () => ({ outcome: 'dlq', reason: 'bad payload' }))],
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      const report = await relay.relayPending();
+
+      expect(report).toEqual({ delivered: 0, retried: 0, dead: 1, purged: 0 });
+      expect(outbox.messages()[0]).toMatchObject({ status: 'dead', lastError: 'bad payload' });
+    });
+
+    it('should prefer retry over dlq when handlers disagree', async () => {
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        handlers: [
+          handler('OrderPlaced', () => ({ outcome: 'dlq', reason: 'bad payload' })),
+          handler('OrderPlaced', () => ({ outcome: 'retry', reason: 'busy' })),
+        ],
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      expect((await relay.relayPending()).retried).toBe(1);
+    });
+
+    it('should map thrown errors with mapErrorToEventResult', async () => {
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        publish: async () => {
+          throw new ForbiddenError({ message: 'Not allowed' });
+        },
+      });
+      await outbox.append([event('e1', 'order-1')]);
+
+      expect((await relay.relayPending()).dead).toBe(1);
+    });
+  });
+
+  describe('ordering', () => {
+    it('should deliver events of an aggregate in append order', async () => {
+      const delivered: string[] = [];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        publish: async (raw) => void delivered.push(raw.metadata.eventId),
+      });
+      await outbox.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'a')]);
+
+      await relay.relayPending();
+
+      expect(delivered).toEqual(['e1', 'e3', 'e2']);
+    });
+
+    it('should hold later events of an aggregate until a retried one succeeds', async () => {
+      const delivered: string[] = [];
+      let failFirst = true;
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        publish: async (raw) => {
+          if (raw.metadata.eventId === 'e1' && failFirst) {
+            failFirst = false;
+            return { outcome: 'retry', reason: 'busy' };
+          }
+          delivered.push(raw.metadata.eventId);
+        },
+      });
+      await outbox.append([event('e1', 'a'), event('e2', 'b'), event('e3', 'a')]);
+
+      await relay.relayPending();
+      expect(delivered).toEqual(['e2']);
+
+      clock.advance(1000);
+      await relay.relayPending();
+      expect(delivered).toEqual(['e2', 'e1', 'e3']);
+    });
+
+    it('should continue with the next event after a dead one', async () => {
+      const delivered: string[] = [];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        publish: async (raw) => {
+          if (raw.metadata.eventId === 'e1') return { outcome: 'dlq', reason: 'bad payload' };
+          delivered.push(raw.metadata.eventId);
+        },
+      });
+      await outbox.append([event('e1', 'a'), event('e2', 'a')]);
+
+      await relay.relayPending();
+
+      expect(delivered).toEqual(['e2']);
+    });
+  });
+
+  describe('start / stop', () => {
+    it('should relay in the background until stopped', async () => {
+      const delivered: string[] = [];
+      const relay = new OutboxRelay({
+        outbox,
+        clock,
+        publish: async (raw) => void delivered.push(raw.metadata.eventId),
+      });
+      await outbox.append([event('e1', 'a')]);
+
+      relay.start(5);
+      await vi.waitFor(() => expect(delivered).toEqual(['e1']));
+      await relay.stop();
+
+      await outbox.append([event('e2', 'a')]);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(delivered).toEqual(['e1']);
+    });
+
+    it('should log failed runs and keep going', async () => {
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        child: vi.fn(),
+      };
+      const failing = new InMemoryOutboxStore();
+      failing.fetchPending = async () => {
+        throw new Error('store unavailable');
+      };
+      const relay = new OutboxRelay({
+        outbox: failing,
+        clock,
+        logger,
+        publish: async () => undefined,
+      });
+
+      relay.start(5);
+      await vi.waitFor(() => expect(logger.error.mock.calls.length).toBeGreaterThanOrEqual(2));
+      await relay.stop();
+
+      expect(logger.error).toHaveBeenCalledWith('Outbox relay run failed', {
+        error: expect.any(Error),
+      });
+    });
+  });
+});
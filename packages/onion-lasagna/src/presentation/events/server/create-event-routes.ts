@@ -9,6 +9,7 @@
  * @internal
  */
 
+import { randomUUID } from 'node:crypto';
 import type { SchemaAdapter, ValidationIssue } from '../../http/schema/types';
 import type {
   EventRouterConfig,
@@ -18,16 +19,24 @@ import type {
 import { isEventRouterDefinition, collectEventHandlers } from '../handler/types';
 import { generateHandlerId } from '../handler/utils';
 import { mapErrorToEventResult } from '../shared/error-mapping';
+import { isResult } from '../../../global/utils/result.util';
+import {
+  executionIdentityOf,
+  runWithExecutionContext,
+} from '../../../global/utils/execution-context.util';
+import type { ExecutionContext } from '../../../global/interfaces/types/execution-context.type';
 import type { EventResult } from '../shared/types';
 import type {
   AnyEventHandlerConfig,
   CreateEventRoutesOptions,
+  EventIdempotencyOptions,
   EventMetadata,
   RawEvent,
   UnifiedEventInput,
   ValidatedEvent,
 } from './types';
 import { isSimpleEventHandlerConfig } from './types';
+import type { Resolver } from '../../../global/container/container.class';
 
 /**
  * Internal implementation for creating event routes.
@@ -66,6 +75,22 @@ export function createEventRoutesInternal<T extends EventRouterConfig>(
       );
     }
 
+    if (
+      !isSimpleEventHandlerConfig(handlerConfig) &&
+      typeof handlerConfig.useCase === 'function' &&
+      !resolvedOptions.createScope
+    ) {
+      throw new Error(
+        `Handler for event "${key}" resolves its use case from a scope, but no createScope option was given.`,
+      );
+    }
+
+    if (handlerDef.featureFlag && !resolvedOptions.featureFlags) {
+      throw new Error(
+        `Handler for event "${key}" is gated by feature flag "${handlerDef.featureFlag}", but no featureFlags option was given.`,
+      );
+    }
+
     result.push(createEventHandler(key, handlerDef, handlerConfig, resolvedOptions));
   }
 
@@ -87,11 +112,107 @@ function createEventHandler(
   const allMiddleware = [...globalMiddleware, ...middleware];
   const shouldValidatePayload = options.validatePayload ?? true;
   const errorMapper = options.errorMapper ?? mapErrorToEventResult;
+  const idempotency = options.idempotency;
+  const featureFlags = options.featureFlags;
+  const { createScope } = options;
+  const handlerId = generateHandlerId(key);
+
+  const isFeatureDisabled = async (rawEvent: RawEvent): Promise<boolean> => {
+    if (!handlerDef.featureFlag || !featureFlags) return false;
+    const { tenantId, actorId } = executionIdentityOf(rawEvent.metadata ?? {});
+    return !(await featureFlags.isEnabled(handlerDef.featureFlag, { tenantId, userId: actorId }));
+  };
+
+  const processEvent = async (rawEvent: RawEvent): Promise<EventResult> => {
+    try {
+      // Validate context (if schema defined)
+      let validatedContext: unknown = rawEvent.metadata;
+      if (handlerDef.context) {
+        const contextResult = validateContextData(handlerDef, rawEvent.metadata);
+        if (!contextResult.success) {
+          const errors = contextResult.errors ?? [];
+          return {
+            outcome: 'dlq',
+            reason: `Context validation failed: ${errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')}`,
+          };
+        }
+        validatedContext = contextResult.data;
+      }
+
+      // Validate payload (if enabled and schema defined)
+      let validatedPayload: unknown = rawEvent.payload;
+      if (shouldValidatePayload && handlerDef.payload) {
+        const payloadResult = validatePayloadData(handlerDef, rawEvent.payload);
+        if (!payloadResult.success) {
+          const errors = payloadResult.errors ?? [];
+          return {
+            outcome: 'dlq',
+            reason: `Payload validation failed: ${errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')}`,
+          };
+        }
+        validatedPayload = payloadResult.data;
+      }
+
+      const validatedEvent: ValidatedEventInternal = {
+        payload: validatedPayload,
+        raw: rawEvent,
+      };
+
+      // Execute the pipeline
+      const executePipeline = async (): Promise<EventResult> => {
+        if (isSimpleEventHandlerConfig(config)) {
+          return config.handler(
+            validatedEvent as unknown as ValidatedEvent<EventHandlerDefinition>,
+            validatedContext as EventMetadata,
+          );
+        } else {
+          const { payloadMapper, useCase, resultMapper } = config;
+
+          const input = payloadMapper(
+            validatedEvent as unknown as ValidatedEvent<EventHandlerDefinition>,
+            validatedContext as EventMetadata,
+          );
+
+          const output = await resolveUseCase(useCase, createScope, rawEvent).execute(input);
+
+          // Result-mode use cases: declared errors go through the error mapper
+          if (isResult(output)) {
+            if (!output.ok) return errorMapper(output.error);
+            return resultMapper ? resultMapper(output.value) : { outcome: 'ack' };
+          }
+
+          return resultMapper ? resultMapper(output) : { outcome: 'ack' };
+        }
+      };
+
+      // Middleware and handler run inside the ambient execution context
+      const executionContext = eventExecutionContext(rawEvent.metadata);
+
+      if (allMiddleware.length === 0) {
+        return await runWithExecutionContext(executionContext, executePipeline);
+      }
+
+      // Build middleware chain
+      let index = 0;
+      const next = async (): Promise<EventResult> => {
+        if (index >= allMiddleware.length) {
+          return executePipeline();
+        }
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- index bounds checked above
+        const mw = allMiddleware[index++]!;
+        return mw(rawEvent, next);
+      };
+
+      return await runWithExecutionContext(executionContext, next);
+    } catch (error) {
+      return errorMapper(error);
+    }
+  };
 
   return {
     eventType: handlerDef.eventType,
     metadata: {
-      handlerId: generateHandlerId(key),
+      handlerId,
       summary: handlerDef.docs.summary,
       description: handlerDef.docs.description,
       tags: handlerDef.docs.tags as string[],
@@ -99,76 +220,17 @@ function createEventHandler(
     },
     handler: async (rawEvent: RawEvent): Promise<EventResult> => {
       try {
-        // Validate context (if schema defined)
-        let validatedContext: unknown = rawEvent.metadata;
-        if (handlerDef.context) {
-          const contextResult = validateContextData(handlerDef, rawEvent.metadata);
-          if (!contextResult.success) {
-            const errors = contextResult.errors ?? [];
-            return {
-              outcome: 'dlq',
-              reason: `Context validation failed: ${errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')}`,
-            };
-          }
-          validatedContext = contextResult.data;
-        }
+        // Events for a disabled feature are acknowledged without processing.
+        // They are not recorded as handled, so a redelivery after the flag
+        // is enabled still runs the handler.
+        if (await isFeatureDisabled(rawEvent)) return { outcome: 'ack' };
 
-        // Validate payload (if enabled and schema defined)
-        let validatedPayload: unknown = rawEvent.payload;
-        if (shouldValidatePayload && handlerDef.payload) {
-          const payloadResult = validatePayloadData(handlerDef, rawEvent.payload);
-          if (!payloadResult.success) {
-            const errors = payloadResult.errors ?? [];
-            return {
-              outcome: 'dlq',
-              reason: `Payload validation failed: ${errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')}`,
-            };
-          }
-          validatedPayload = payloadResult.data;
-        }
-
-        const validatedEvent: ValidatedEventInternal = {
-          payload: validatedPayload,
-          raw: rawEvent,
-        };
-
-        // Execute the pipeline
-        const executePipeline = async (): Promise<EventResult> => {
-          if (isSimpleEventHandlerConfig(config)) {
-            return config.handler(
-              validatedEvent as unknown as ValidatedEvent<EventHandlerDefinition>,
-              validatedContext as EventMetadata,
-            );
-          } else {
-            const { payloadMapper, useCase, resultMapper } = config;
-
-            const input = payloadMapper(
-              validatedEvent as unknown as ValidatedEvent<EventHandlerDefinition>,
-              validatedContext as EventMetadata,
-            );
-
-            const output = await useCase.execute(input);
-
-            return resultMapper ? resultMapper(output) : { outcome: 'ack' };
-          }
-        };
-
-        if (allMiddleware.length === 0) {
-          return await executePipeline();
-        }
-
-        // Build middleware chain
-        let index = 0;
-        const next = async (): Promise<EventResult> => {
-          if (index >= allMiddleware.length) {
-            return executePipeline();
-          }
-          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- index bounds checked above
-          const mw = allMiddleware[index++]!;
-          return mw(rawEvent, next);
-        };
+        const eventId = rawEvent.metadata?.eventId;
+        if (!idempotency || !eventId) return await processEvent(rawEvent);
 
-        return await next();
+        return await processIdempotently(idempotency, `${handlerId}:${eventId}`, () =>
+          processEvent(rawEvent),
+        );
       } catch (error) {
         return errorMapper(error);
       }
@@ -176,6 +238,80 @@ function createEventHandler(
   };
 }
 
+/**
+ * Returns the use case for one event delivery: the instance itself, or the
+ * factory applied to a fresh scope. `createEventRoutesInternal` already
+ * rejects factories without `createScope` at build time.
+ */
+function resolveUseCase<TInput, TOutput>(
+  useCase:
+    | { execute(input?: TInput): Promise<TOutput> }
+    | ((scope: Resolver) => { execute(input?: TInput): Promise<TOutput> }),
+  createScope: ((raw: RawEvent) => Resolver) | undefined,
+  raw: RawEvent,
+): { execute(input?: TInput): Promise<TOutput> } {
+  if (typeof useCase !== 'function') return useCase;
+  if (!createScope) {
+    throw new Error('The use case resolves from a scope, but no createScope option was given.');
+  }
+  return useCase(createScope(raw));
+}
+
+/**
+ * Builds the execution context of an event delivery. The correlation ID is
+ * carried over from the metadata when present, otherwise the event ID starts
+ * a new chain.
+ */
+function eventExecutionContext(metadata: EventMetadata | undefined): ExecutionContext {
+  const eventId = metadata?.eventId ?? randomUUID();
+  return {
+    correlationId: metadata?.correlationId ?? eventId,
+    causationId: eventId,
+    ...(metadata ? executionIdentityOf(metadata) : {}),
+  };
+}
+
+/**
+ * Processes an event once per idempotency key.
+ *
+ * - Free key: processes the event and stores an `ack` or `dlq` result.
+ *   `retry` results release the key so the next delivery runs again.
+ * - Completed key: replays the stored result.
+ * - In-progress key: asks the broker to retry later.
+ */
+async function processIdempotently(
+  idempotency: EventIdempotencyOptions,
+  key: string,
+  run: () => Promise<EventResult>,
+): Promise<EventResult> {
+  const { store, ttl = 86_400, lockTtl = 60, retryDelayMs = 1000 } = idempotency;
+
+  const existing = await store.claim<EventResult>(key, { ttl: lockTtl });
+  if (existing?.status === 'completed') return existing.response;
+  if (existing) {
+    return {
+      outcome: 'retry',
+      reason: 'Event is already being processed',
+      delayMs: retryDelayMs,
+    };
+  }
+
+  let result: EventResult;
+  try {
+    result = await run();
+  } catch (error) {
+    await store.release(key);
+    throw error;
+  }
+
+  if (result.outcome === 'retry') {
+    await store.release(key);
+  } else {
+    await store.complete(key, result, { ttl });
+  }
+  return result;
+}
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
@@ -27,6 +27,8 @@ import type {
   ValidatedEvent,
 } from './types';
 import { createEventRoutesInternal } from './create-event-routes';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
+import type { Resolver } from '../../../global/container/container.class';
 
 // ============================================================================
 // Builder Types
@@ -64,14 +66,17 @@ export interface BuilderEventHandlerConfig<
     ctx: TypedEventContext<THandler>,
   ) => TInput;
 
-  /** The use case to execute. */
-  readonly useCase: { execute(input?: TInput): Promise<TOutput> };
+  /** The use case to execute, or a function resolving it from the event scope. */
+  readonly useCase:
+    | { execute(input?: TInput): Promise<TOutput> }
+    | ((scope: Resolver) => { execute(input?: TInput): Promise<TOutput> });
 
   /**
    * Maps the use case output to an EventResult.
    * If omitted, defaults to `{ outcome: 'ack' }`.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly resultMapper?: (output: TOutput) => EventResult;
+  readonly resultMapper?: (output: ResultValue<TOutput>) => EventResult;
 
   /** Middleware to run before the handler. */
   readonly middleware?: readonly EventMiddlewareFunction[];
@@ -17,6 +17,7 @@ export type {
   EventMiddlewareFunction,
   EventRoutesConfig,
   CreateEventRoutesOptions,
+  EventIdempotencyOptions,
   UnifiedEventInput,
   UseCasePort,
 } from './types';
@@ -12,6 +12,14 @@ import type { RawEvent } from '../types';
 import { UseCaseError } from '../../../../app/exceptions/use-case.error';
 import { NotFoundError } from '../../../../app/exceptions/not-found.error';
 import { InfraError } from '../../../../infra/exceptions/infra.error';
+import { ok, err } from '../../../../global/utils/result.util';
+import { InMemoryIdempotencyStore } from '../../../../infra/classes/in-memory-idempotency-store.class';
+import { InMemoryFeatureFlagProvider } from '../../../../infra/classes/in-memory-feature-flag-provider.class';
+import { ContainerBuilder } from '../../../../global/container/container-builder.class';
+import { provide } from '../../../../global/container/container.class';
+import { createToken } from '../../../../global/container/token.util';
+import { getExecutionContext } from '../../../../global/utils/execution-context.util';
+import type { ExecutionContext } from '../../../../global/interfaces/types/execution-context.type';
 
 // ============================================================================
 // Test Helpers
@@ -127,6 +135,45 @@ describe('eventRoutes builder', () => {
       const result = await routes[0]!.handler(createRawEvent());
       expect(result).toEqual({ outcome: 'retry', reason: 'retry needed' });
     });
+
+    it('passes the value of an ok result to resultMapper', async () => {
+      const onCreated = defineEventHandler({ eventType: 'ticket.created' });
+      const router = defineEventRouter({ created: onCreated });
+
+      const routes = eventRoutes(router)
+        .handleWithUseCase('created', {
+          payloadMapper: () => ({}),
+          useCase: { execute: async () => ok({ retryNeeded: false }) },
+          resultMapper: (output) =>
+            output.retryNeeded
+              ? { outcome: 'retry' as const, reason: 'retry needed' }
+              : { outcome: 'ack' as const },
+        })
+        .build();
+
+      const result = await routes[0]!.handler(createRawEvent());
+      expect(result).toEqual({ outcome: 'ack' });
+    });
+
+    it('maps an err result with the error mapper', async () => {
+      const onCreated = defineEventHandler({ eventType: 'ticket.created' });
+      const router = defineEventRouter({ created: onCreated });
+      const resultMapper = vi.fn(() => ({ outcome: 'ack' as const }));
+
+      const routes = eventRoutes(router)
+        .handleWithUseCase('created', {
+          payloadMapper: () => ({}),
+          useCase: {
+            execute: async () => err(new UseCaseError({ message: 'Business rule violated' })),
+          },
+          resultMapper,
+        })
+        .build();
+
+      const result = await routes[0]!.handler(createRawEvent());
+      expect(resultMapper).not.toHaveBeenCalled();
+      expect(result).toEqual({ outcome: 'dlq', reason: 'Business rule violated' });
+    });
   });
 
   describe('build() enforcement', () => {
@@ -434,4 +481,244 @@ describe('eventRoutes builder', () => {
       ]);
     });
   });
+
+  describe('idempotency', () => {
+    function createIdempotentHandler(execute: () => Promise<unknown>) {
+      const onCreated = defineEventHandler({ eventType: 'ticket.created' });
+      const router = defineEventRouter({ created: onCreated });
+      const [route] = eventRoutes(router)
+        .handleWithUseCase('created', {
+          payloadMapper: () => ({}),
+          useCase: { execute },
+        })
+        .build({ idempotency: { store: new InMemoryIdempotencyStore(), retryDelayMs: 500 } });
+      return route!.handler;
+    }
+
+    it('processes a redelivered event only once', async () => {
+      const execute = vi.fn(async () => undefined);
+      const handler = createIdempotentHandler(execute);
+
+      expect(await handler(createRawEvent())).toEqual({ outcome: 'ack' });
+      expect(await handler(createRawEvent())).toEqual({ outcome: 'ack' });
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('processes events with different ids', async () => {
+      const execute = vi.fn(async () => undefined);
+      const handler = createIdempotentHandler(execute);
+      const second = createRawEvent();
+
+      await handler(createRawEvent());
+      await handler({ ...second, metadata: { ...second.metadata, eventId: 'evt_999' } });
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('asks for a retry while the first delivery is in flight', async () => {
+      let finish!: () => void;
+      const execute = vi.fn(
+        () =>
+          new Promise<void>((resolve) => {
+            finish = resolve;
+          }),
+      );
+      const handler = createIdempotentHandler(execute);
+
+      const first = handler(createRawEvent());
+      await vi.waitFor(() => expect(execute).toHaveBeenCalled());
+
+      expect(await handler(createRawEvent())).toEqual({
+        outcome: 'retry',
+        reason: 'Event is already being processed',
+        delayMs: 500,
+      });
+
+      finish();
+      expect(await first).toEqual({ outcome: 'ack' });
+    });
+
+    it('runs again after a retry outcome', async () => {
+      const execute = vi
+        .fn<() => Promise<unknown>>()
+        .mockRejectedValueOnce(new InfraError({ message: 'Database unavailable' }))
+        .mockResolvedValueOnce(undefined);
+      const handler = createIdempotentHandler(execute);
+
+      expect(await handler(createRawEvent())).toMatchObject({ outcome: 'retry' });
+      expect(await handler(createRawEvent())).toEqual({ outcome: 'ack' });
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('replays a dlq outcome', async () => {
+      const execute = vi.fn(async () => {
+        throw new UseCaseError({ message: 'Ticket is closed' });
+      });
+      const handler = createIdempotentHandler(execute);
+
+      const first = await handler(createRawEvent());
+      const second = await handler(createRawEvent());
+
+      expect(first).toMatchObject({ outcome: 'dlq' });
+      expect(second).toEqual(first);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scoped use cases', () => {
+    const EventToken = createToken<RawEvent>('Event');
+    const UseCaseToken = createToken<{ execute(): Promise<string> }>('UseCase');
+
+    const container = new ContainerBuilder()
+      .scopeValue(EventToken)
+      .scoped(UseCaseToken, [EventToken], (event) => ({
+        execute: async () => event.metadata.eventId,
+      }))
+      .build();
+
+    it('resolves the use case from a fresh scope per event', async () => {
+      const seen: string[] = [];
+      const onCreated = defineEventHandler({ eventType: 'ticket.created' });
+      const [route] = eventRoutes(defineEventRouter({ created: onCreated }))
+        .handleWithUseCase('created', {
+          payloadMapper: () => undefined,
+          useCase: (scope) => scope.resolve(UseCaseToken),
+          resultMapper: (eventId) => {
+            seen.push(eventId);
+            return { outcome: 'ack' };
+          },
+        })
+        .build({ createScope: (event) => container.createScope([provide(EventToken, event)]) });
+
+      await route!.handler(createRawEvent());
+      await route!.handler(
+        createRawEvent({ metadata: { ...createRawEvent().metadata, eventId: 'evt_2' } }),
+      );
+
+      expect(seen).toEqual(['evt_123', 'evt_2']);
+    });
+
+    it('throws at build time when no createScope option is given', () => {
+      const onCreated = defineEventHandler({ eventType: 'ticket.created' });
+      const builder = eventRoutes(defineEventRouter({ created: onCreated })).handleWithUseCase(
+        'created',
+        {
+          payloadMapper: () => undefined,
+          useCase: (scope) => scope.resolve(UseCaseToken),
+        },
+      );
+
+      expect(() => builder.build()).toThrow(
+        'Handler for event "created" resolves its use case from a scope, but no createScope option was given.',
+      );
+    });
+  });
+
+  describe('execution context', () => {
+    const onCreated = defineEventHandler({ eventType: 'ticket.created' });
+
+    it('runs the handler with the correlation ID and actor from the metadata', async () => {
+      let seen: ExecutionContext | undefined;
+      const [route] = eventRoutes(defineEventRouter({ created: onCreated }))
+        .handle('created', () => {
+          seen = getExecutionContext();
+          return { outcome: 'ack' };
+        })
+        .build();
+
+      await route!.handler(
+        createRawEvent({ metadata: { ...createRawEvent().metadata, userId: 'user_1' } }),
+      );
+
+      expect(seen).toEqual({ correlationId: 'cor_456', causationId: 'evt_123', actorId: 'user_1' });
+    });
+
+    it('starts a new chain from the event ID without a correlation ID', async () => {
+      let seen: ExecutionContext | undefined;
+      const [route] = eventRoutes(defineEventRouter({ created: onCreated }))
+        .handle('created', () => {
+          seen = getExecutionContext();
+          return { outcome: 'ack' };
+        })
+        .build({ middleware: [(_event, next) => next()] });
+
+      const { correlationId: _omitted, ...metadata } = createRawEvent().metadata;
+      await route!.handler(createRawEvent({ metadata }));
+
+      expect(seen).toEqual({ correlationId: 'evt_123', causationId: 'evt_123' });
+    });
+  });
+
+  describe('feature flags', () => {
+    const onBeta = defineEventHandler({
+      eventType: 'ticket.created',
+      payload: zodSchema(z.object({ ticketId: z.string() })),
+      featureFlag: 'beta',
+    });
+
+    it('processes events while the flag is on', async () => {
+      const handler = vi.fn(() => ({ outcome: 'ack' as const }));
+      const [route] = eventRoutes(defineEventRouter({ created: onBeta }))
+        .handle('created', handler)
+        .build({ featureFlags: new InMemoryFeatureFlagProvider({ beta: true }) });
+
+      await route!.handler(createRawEvent({ payload: { ticketId: 't-1' } }));
+
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('acknowledges events without processing them while the flag is off', async () => {
+      const handler = vi.fn(() => ({ outcome: 'dlq' as const, reason: 'unreachable' }));
+      const [route] = eventRoutes(defineEventRouter({ created: onBeta }))
+        .handle('created', handler)
+        .build({ featureFlags: new InMemoryFeatureFlagProvider({ beta: false }) });
+
+      const result = await route!.handler(createRawEvent({ payload: { invalid: true } }));
+
+      expect(result).toEqual({ outcome: 'ack' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('processes a redelivered event once the flag is turned on', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: false });
+      const handler = vi.fn(() => ({ outcome: 'ack' as const }));
+      const [route] = eventRoutes(defineEventRouter({ created: onBeta }))
+        .handle('created', handler)
+        .build({ featureFlags: flags, idempotency: { store: new InMemoryIdempotencyStore() } });
+      const event = createRawEvent({ payload: { ticketId: 't-1' } });
+
+      await route!.handler(event);
+      flags.set('beta', true);
+      await route!.handler(event);
+
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    it('evaluates the flag for the tenant and actor of the event', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: true });
+      const isEnabled = vi.spyOn(flags, 'isEnabled');
+      const [route] = eventRoutes(defineEventRouter({ created: onBeta }))
+        .handle('created', () => ({ outcome: 'ack' }))
+        .build({ featureFlags: flags });
+
+      await route!.handler(
+        createRawEvent({
+          payload: { ticketId: 't-1' },
+          metadata: { ...createRawEvent().metadata, tenantId: 'acme', userId: 'u-1' },
+        }),
+      );
+
+      expect(isEnabled).toHaveBeenCalledWith('beta', { tenantId: 'acme', userId: 'u-1' });
+    });
+
+    it('throws at build time when a gated handler has no featureFlags option', () => {
+      const builder = eventRoutes(defineEventRouter({ created: onBeta })).handle('created', () => ({
+        outcome: 'ack',
+      }));
+
+      expect(() => builder.build()).toThrow(
+        'Handler for event "created" is gated by feature flag "beta", but no featureFlags option was given.',
+      );
+    });
+  });
 });
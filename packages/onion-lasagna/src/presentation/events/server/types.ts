@@ -6,6 +6,10 @@
 
 import type { EventHandlerDefinition, EventRouterConfig, EventRouterKeys } from '../handler/types';
 import type { EventResult } from '../shared/types';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
+import type { IdempotencyStorePort } from '../../../global/interfaces/ports/idempotency-store.port';
+import type { Resolver } from '../../../global/container/container.class';
+import type { FeatureFlagPort } from '../../../global/interfaces/ports/feature-flag.port';
 
 // Re-export UseCasePort from HTTP — same interface, no duplication
 export type { UseCasePort } from '../../http/server/types';
@@ -33,6 +37,9 @@ export interface EventMetadata {
   /** Number of delivery attempts (1-based). */
   readonly attemptCount?: number;
 
+  /** Tenant the event belongs to. Becomes the `tenantId` of the execution context. */
+  readonly tenantId?: string;
+
   /** Additional metadata from the messaging system. */
   readonly [key: string]: unknown;
 }
@@ -101,14 +108,17 @@ export interface EventHandlerConfig<
     ctx: TypedEventContext<THandler>,
   ) => TInput;
 
-  /** The use case to execute. */
-  readonly useCase: { execute(input?: TInput): Promise<TOutput> };
+  /** The use case to execute, or a function resolving it from the event scope. */
+  readonly useCase:
+    | { execute(input?: TInput): Promise<TOutput> }
+    | ((scope: Resolver) => { execute(input?: TInput): Promise<TOutput> });
 
   /**
    * Maps the use case output to an EventResult.
    * If omitted, defaults to `{ outcome: 'ack' }`.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly resultMapper?: (output: TOutput) => EventResult;
+  readonly resultMapper?: (output: ResultValue<TOutput>) => EventResult;
 
   /** Middleware to run before the handler. */
   readonly middleware?: readonly EventMiddlewareFunction[];
@@ -170,6 +180,39 @@ export type EventRoutesConfig<T extends EventRouterConfig> = Record<
   EventHandlerConfig<any, any, any>
 >;
 
+/**
+ * Deduplication of redelivered events by `EventMetadata.eventId`.
+ *
+ * Each event is processed once per handler. The first `ack` or `dlq`
+ * result is stored and replayed for redeliveries. `retry` results and
+ * thrown errors release the key, so the next delivery runs again. A
+ * redelivery that arrives while the first is still running gets a `retry`
+ * outcome.
+ */
+export interface EventIdempotencyOptions {
+  /** Store holding claimed keys and stored results. */
+  readonly store: IdempotencyStorePort;
+
+  /**
+   * Seconds a stored result is replayed for.
+   * @default 86400
+   */
+  readonly ttl?: number;
+
+  /**
+   * Seconds an in-progress claim blocks redeliveries. Bounds how long an
+   * event stays locked if the process dies mid-delivery.
+   * @default 60
+   */
+  readonly lockTtl?: number;
+
+  /**
+   * Delay suggested to the broker when a redelivery hits an in-progress claim.
+   * @default 1000
+   */
+  readonly retryDelayMs?: number;
+}
+
 /**
  * Options for creating event routes.
  */
@@ -190,6 +233,24 @@ export interface CreateEventRoutesOptions {
    */
   readonly errorMapper?: (error: unknown) => EventResult;
 
+  /**
+   * Deduplicates redelivered events by `eventId`.
+   * Disabled when omitted.
+   */
+  readonly idempotency?: EventIdempotencyOptions;
+
+  /**
+   * Creates the dependency scope for an event. Required when a handler
+   * resolves its use case from a scope. Called at most once per event.
+   */
+  readonly createScope?: (event: RawEvent) => Resolver;
+
+  /**
+   * Evaluates the `featureFlag` of handlers for the event's tenant and actor.
+   * Required when a handler declares a feature flag.
+   */
+  readonly featureFlags?: FeatureFlagPort;
+
   /**
    * Allow partial handler configuration (not all handlers need to be wired).
    * @default false
@@ -32,8 +32,11 @@ const DLQ_ERROR_TYPES = [
   'ForbiddenError',
   'UnauthorizedError',
   'InvariantViolationError',
+  // Use case output broke its declared schema — a bug, not a transient failure
+  'OutputSchemaError',
   // DomainError subclasses
   'PartialLoadError',
+  'DomainValidationError',
 ];
 
 /**
@@ -44,6 +47,7 @@ const DLQ_ERROR_TYPES = [
 const RETRY_ERROR_TYPES = [
   'NotFoundError',
   'ConflictError',
+  'ConcurrencyConflictError',
   'InfraError',
   'DbError',
   'NetworkError',
@@ -66,9 +70,10 @@ const RETRY_ERROR_TYPES = [
  * | UseCaseError                                    | dlq     | Business rule rejection — permanent    |
  * | DomainError, InvariantViolationError            | dlq     | Domain invariant — permanent           |
  * | UnprocessableError                              | dlq     | Valid but not processable — permanent  |
+ * | OutputSchemaError                               | dlq     | Use case broke its output schema — bug |
  * | AccessDeniedError, ForbiddenError, Unauthorized | dlq     | Permission — permanent                 |
  * | NotFoundError                                   | retry   | Entity might not exist yet             |
- * | ConflictError                                   | retry   | Concurrent write — may resolve         |
+ * | ConflictError, ConcurrencyConflictError         | retry   | Concurrent write — may resolve         |
  * | InfraError, DbError, NetworkError, TimeoutError | retry   | Infrastructure/transient               |
  * | Unknown                                         | retry   | Conservative — don't lose messages     |
  *
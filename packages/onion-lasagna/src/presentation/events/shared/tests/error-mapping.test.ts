@@ -7,10 +7,12 @@ import { mapErrorToEventResult } from '../error-mapping';
 import { UseCaseError } from '../../../../app/exceptions/use-case.error';
 import { NotFoundError } from '../../../../app/exceptions/not-found.error';
 import { ConflictError } from '../../../../app/exceptions/conflict.error';
+import { ConcurrencyConflictError } from '../../../../app/exceptions/concurrency-conflict.error';
 import { UnprocessableError } from '../../../../app/exceptions/unprocessable.error';
 import { DomainError } from '../../../../domain/exceptions/domain.error';
 import { InfraError } from '../../../../infra/exceptions/infra.error';
 import { ObjectValidationError } from '../../../../global/exceptions/object-validation.error';
+import { OutputSchemaError } from '../../../../global/exceptions/output-schema.error';
 import { InvalidRequestError } from '../../../exceptions/invalid-request.error';
 import { AccessDeniedError } from '../../../exceptions/access-denied.error';
 
@@ -54,6 +56,13 @@ describe('mapErrorToEventResult', () => {
       expect(result.outcome).toBe('dlq');
     });
 
+    it('maps OutputSchemaError to dlq', () => {
+      const result = mapErrorToEventResult(
+        new OutputSchemaError({ message: 'Bad output', validationErrors: [] }),
+      );
+      expect(result.outcome).toBe('dlq');
+    });
+
     it('maps AccessDeniedError to dlq', () => {
       const result = mapErrorToEventResult(new AccessDeniedError({ message: 'No access' }));
       expect(result.outcome).toBe('dlq');
@@ -71,6 +80,13 @@ describe('mapErrorToEventResult', () => {
       expect(result.outcome).toBe('retry');
     });
 
+    it('maps ConcurrencyConflictError to retry', () => {
+      const result = mapErrorToEventResult(
+        new ConcurrencyConflictError({ message: 'Stale aggregate version' }),
+      );
+      expect(result.outcome).toBe('retry');
+    });
+
     it('maps InfraError to retry', () => {
       const result = mapErrorToEventResult(new InfraError({ message: 'DB connection lost' }));
       expect(result.outcome).toBe('retry');
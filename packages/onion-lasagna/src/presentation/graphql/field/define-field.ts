@@ -51,6 +51,18 @@ interface DefineFieldInput<
   /** Context validation schema (e.g., JWT payload from middleware). */
   readonly context?: TContext;
 
+  /**
+   * Rejects calls that resolve no tenant with a `FORBIDDEN` error
+   * (`TENANT_REQUIRED`) before the resolver runs.
+   */
+  readonly requiresTenant?: boolean;
+
+  /**
+   * Feature flag gating the field. While the flag is off for the caller,
+   * calls fail with a `NOT_FOUND` error, as if the field did not exist.
+   */
+  readonly featureFlag?: string;
+
   /** Field documentation. */
   readonly docs?: {
     readonly summary?: string;
@@ -99,6 +111,8 @@ function createFieldDefinition<
       deprecated: input.docs?.deprecated ?? false,
       deprecationReason: input.docs?.deprecationReason,
     },
+    ...(input.requiresTenant ? { requiresTenant: true } : {}),
+    ...(input.featureFlag ? { featureFlag: input.featureFlag } : {}),
     _isGraphQLField: true as const,
     _types: undefined as unknown,
   };
@@ -73,6 +73,12 @@ export interface GraphQLFieldDefinition<
   /** Field documentation. */
   readonly docs: GraphQLFieldDocumentation;
 
+  /** Whether calls must resolve a tenant before the resolver runs. */
+  readonly requiresTenant?: boolean;
+
+  /** Feature flag that must be on for the field to exist. */
+  readonly featureFlag?: string;
+
   /**
    * Marker to identify this as a GraphQL field definition.
    * @internal
@@ -42,6 +42,7 @@ export type {
   SimpleGraphQLHandlerConfig,
   GraphQLMiddlewareFunction,
   CreateGraphQLRoutesOptions,
+  GraphQLTenantOptions,
   UnifiedGraphQLField,
   UseCasePort,
 } from './server';
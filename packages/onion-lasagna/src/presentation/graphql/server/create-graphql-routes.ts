@@ -28,7 +28,17 @@ import type {
 import { isSimpleGraphQLHandlerConfig } from './types';
 import { ObjectValidationError } from '../../../global/exceptions/object-validation.error';
 import { UnauthorizedError } from '../../../app/exceptions/unauthorized.error';
+import { ForbiddenError } from '../../../app/exceptions/forbidden.error';
+import { NotFoundError } from '../../../app/exceptions/not-found.error';
+import { TenantId } from '../../../domain/value-objects/tenant-id.vo';
+import { ErrorCodes } from '../../../global/exceptions/error-codes.const';
 import { OutputValidationError } from '../../exceptions/output-validation.error';
+import { isResult } from '../../../global/utils/result.util';
+import {
+  executionIdentityOf,
+  runWithExecutionContext,
+} from '../../../global/utils/execution-context.util';
+import type { ExecutionContext } from '../../../global/interfaces/types/execution-context.type';
 
 /**
  * Internal implementation for creating GraphQL routes.
@@ -67,6 +77,12 @@ export function createGraphQLRoutesInternal<T extends GraphQLSchemaConfig>(
       );
     }
 
+    if (field.featureFlag && !resolvedOptions.featureFlags) {
+      throw new Error(
+        `Field "${key}" is gated by feature flag "${field.featureFlag}", but no featureFlags option was given.`,
+      );
+    }
+
     result.push(createFieldHandler(key, field, handlerConfig, resolvedOptions));
   }
 
@@ -88,12 +104,16 @@ function createFieldHandler(
   const allMiddleware = [...globalMiddleware, ...middleware];
   const shouldValidateInput = options.validateInput ?? true;
   const shouldValidateOutput = options.validateOutput ?? true;
+  const resolveTenant = options.tenant?.resolve ?? tenantFromContext;
+  const requiresTenant = field.requiresTenant === true || options.tenant?.required === true;
+  const featureFlags = options.featureFlags;
+  const fieldId = generateFieldId(key);
 
   return {
     key,
     operation: field.operation,
     metadata: {
-      fieldId: generateFieldId(key),
+      fieldId,
       description: field.docs.description,
       tags: field.docs.tags as string[],
       deprecated: field.docs.deprecated,
@@ -120,6 +140,24 @@ function createFieldHandler(
         validatedContext = contextResult.data;
       }
 
+      // Resolve the tenant; fields that require one stop here without it
+      const tenantId = parseTenantId(resolveTenant(context));
+      if (!tenantId && requiresTenant) {
+        throw new ForbiddenError({
+          message: 'This field requires a tenant',
+          code: ErrorCodes.App.TENANT_REQUIRED,
+        });
+      }
+
+      // Fields behind a disabled feature flag do not exist for this caller
+      if (field.featureFlag && featureFlags) {
+        const enabled = await featureFlags.isEnabled(field.featureFlag, {
+          tenantId,
+          userId: executionIdentityOf(context).actorId,
+        });
+        if (!enabled) throw new NotFoundError({ message: `Cannot query field "${fieldId}"` });
+      }
+
       // Validate input args (if enabled and schema defined)
       let validatedInput: unknown = rawArgs;
       if (shouldValidateInput && field.input) {
@@ -159,14 +197,23 @@ function createFieldHandler(
 
           const output = await useCase.execute(input);
 
+          // Result-mode use cases: declared errors surface as GraphQL errors
+          if (isResult(output)) {
+            if (!output.ok) throw output.error;
+            return responseMapper(output.value);
+          }
+
           return responseMapper(output);
         }
       };
 
       let result: unknown;
 
+      // Middleware and resolver run inside the ambient execution context
+      const executionContext = graphqlExecutionContext(context, tenantId);
+
       if (allMiddleware.length === 0) {
-        result = await executePipeline();
+        result = await runWithExecutionContext(executionContext, executePipeline);
       } else {
         // Build middleware chain with re-entrancy guard
         let index = 0;
@@ -183,7 +230,7 @@ function createFieldHandler(
           return mw(rawArgs, context, next);
         };
 
-        result = await next();
+        result = await runWithExecutionContext(executionContext, next);
       }
 
       // Validate output (if enabled and schema defined)
@@ -298,6 +345,50 @@ interface ValidatedArgsInternal {
   readonly raw: unknown;
 }
 
+/**
+ * Builds the execution context of a resolver call. The correlation ID comes
+ * from a `correlationId` context field when present, otherwise the request ID.
+ */
+function graphqlExecutionContext(
+  context: GraphQLHandlerContext,
+  tenantId: string | undefined,
+): ExecutionContext {
+  const requestId = context.requestId ?? generateRequestId();
+  const correlationId = context['correlationId'];
+  const { actorId } = executionIdentityOf(context);
+  return {
+    correlationId: typeof correlationId === 'string' ? correlationId : requestId,
+    causationId: requestId,
+    ...(actorId ? { actorId } : {}),
+    ...(tenantId ? { tenantId } : {}),
+  };
+}
+
+/**
+ * Default tenant resolution: the `tenantId` context field.
+ */
+function tenantFromContext(context: GraphQLHandlerContext): string | undefined {
+  return executionIdentityOf(context).tenantId;
+}
+
+/**
+ * Validates a resolved tenant ID.
+ *
+ * @throws {ObjectValidationError} When the tenant ID is malformed
+ */
+function parseTenantId(tenantId: string | undefined): string | undefined {
+  if (!tenantId) return undefined;
+  try {
+    return TenantId.create(tenantId).value;
+  } catch (cause) {
+    throw new ObjectValidationError({
+      message: 'Invalid tenant',
+      cause,
+      validationErrors: [{ field: 'tenant', message: 'Invalid tenant ID format' }],
+    });
+  }
+}
+
 /**
  * Generates a unique request ID.
  */
@@ -26,6 +26,7 @@ import type {
   ValidatedArgs,
 } from './types';
 import { createGraphQLRoutesInternal } from './create-graphql-routes';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
 
 // ============================================================================
 // Builder Types
@@ -65,8 +66,9 @@ export interface BuilderGraphQLHandlerConfig<
 
   /**
    * Maps the use case output to the GraphQL response.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly responseMapper: (output: TOutput) => TField['_types']['output'];
+  readonly responseMapper: (output: ResultValue<TOutput>) => TField['_types']['output'];
 
   /** Middleware to run before the handler. */
   readonly middleware?: readonly GraphQLMiddlewareFunction[];
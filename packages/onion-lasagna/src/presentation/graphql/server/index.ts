@@ -16,6 +16,7 @@ export type {
   AnyGraphQLHandlerConfig,
   GraphQLMiddlewareFunction,
   CreateGraphQLRoutesOptions,
+  GraphQLTenantOptions,
   UnifiedGraphQLField,
   UseCasePort,
 } from './types';
@@ -10,11 +10,16 @@ import { graphqlRoutes } from '../graphql-routes-builder';
 import { zodSchema } from '../../../http/__test-utils__/zod-schema';
 import { ObjectValidationError } from '../../../../global/exceptions/object-validation.error';
 import { UnauthorizedError } from '../../../../app/exceptions/unauthorized.error';
+import { ForbiddenError } from '../../../../app/exceptions/forbidden.error';
 import { UseCaseError } from '../../../../app/exceptions/use-case.error';
 import { NotFoundError } from '../../../../app/exceptions/not-found.error';
 import { DomainError } from '../../../../domain/exceptions/domain.error';
 import { ControllerError } from '../../../exceptions/controller.error';
 import { OutputValidationError } from '../../../exceptions/output-validation.error';
+import { ok, err } from '../../../../global/utils/result.util';
+import { getExecutionContext } from '../../../../global/utils/execution-context.util';
+import { InMemoryFeatureFlagProvider } from '../../../../infra/classes/in-memory-feature-flag-provider.class';
+import type { ExecutionContext } from '../../../../global/interfaces/types/execution-context.type';
 
 describe('graphqlRoutes builder', () => {
   describe('handle() with simple function', () => {
@@ -75,6 +80,41 @@ describe('graphqlRoutes builder', () => {
       expect(result).toEqual({ name: 'Alice' });
       expect(useCase.execute).toHaveBeenCalledWith({ id: 'U-001' });
     });
+
+    it('passes the value of an ok result to responseMapper', async () => {
+      const getUser = defineQuery({
+        output: zodSchema(z.object({ name: z.string() })),
+      });
+      const schema = defineGraphQLSchema({ getUser });
+
+      const fields = graphqlRoutes(schema)
+        .handleWithUseCase('getUser', {
+          argsMapper: () => ({}),
+          useCase: { execute: async () => ok({ name: 'Alice' }) },
+          responseMapper: (output) => ({ name: output.name }),
+        })
+        .build();
+
+      await expect(fields[0]!.handler(undefined, {})).resolves.toEqual({ name: 'Alice' });
+    });
+
+    it('raises the error of an err result as a GraphQL error', async () => {
+      const getUser = defineQuery();
+      const schema = defineGraphQLSchema({ getUser });
+      const notFound = new NotFoundError({ message: 'User not found' });
+      const responseMapper = vi.fn();
+
+      const fields = graphqlRoutes(schema)
+        .handleWithUseCase('getUser', {
+          argsMapper: () => ({}),
+          useCase: { execute: async () => err(notFound) },
+          responseMapper,
+        })
+        .build();
+
+      await expect(fields[0]!.handler(undefined, {})).rejects.toBe(notFound);
+      expect(responseMapper).not.toHaveBeenCalled();
+    });
   });
 
   describe('build() enforcement', () => {
@@ -495,4 +535,153 @@ describe('graphqlRoutes builder', () => {
       expect(thrownError).toBeUndefined();
     });
   });
+
+  describe('execution context', () => {
+    it('runs the resolver with the request ID and actor from the context', async () => {
+      const schema = defineGraphQLSchema({ getUser: defineQuery() });
+
+      let seen: ExecutionContext | undefined;
+      const fields = graphqlRoutes(schema)
+        .handle('getUser', async () => {
+          seen = getExecutionContext();
+          return undefined;
+        })
+        .build();
+
+      await fields[0]!.handler(undefined, { requestId: 'req-1', userId: 'user-1' });
+      expect(seen).toEqual({ correlationId: 'req-1', causationId: 'req-1', actorId: 'user-1' });
+    });
+
+    it('takes the correlation ID from a correlationId context field', async () => {
+      const schema = defineGraphQLSchema({ getUser: defineQuery() });
+
+      let seen: ExecutionContext | undefined;
+      const fields = graphqlRoutes(schema)
+        .handle('getUser', async () => {
+          seen = getExecutionContext();
+          return undefined;
+        })
+        .build({ middleware: [async (_args, _ctx, next) => next()] });
+
+      await fields[0]!.handler(undefined, { requestId: 'req-1', correlationId: 'cor-1' });
+      expect(seen).toEqual({ correlationId: 'cor-1', causationId: 'req-1' });
+    });
+  });
+
+  describe('tenancy', () => {
+    it('reads the tenant from the tenantId context field by default', async () => {
+      const schema = defineGraphQLSchema({ getUser: defineQuery({ requiresTenant: true }) });
+      let seen: ExecutionContext | undefined;
+
+      const fields = graphqlRoutes(schema)
+        .handle('getUser', async () => {
+          seen = getExecutionContext();
+          return undefined;
+        })
+        .build();
+
+      await fields[0]!.handler(undefined, { requestId: 'req-1', tenantId: 'acme' });
+      expect(seen?.tenantId).toBe('acme');
+    });
+
+    it('uses a custom tenant resolver', async () => {
+      const schema = defineGraphQLSchema({ getUser: defineQuery() });
+      let seen: ExecutionContext | undefined;
+
+      const fields = graphqlRoutes(schema)
+        .handle('getUser', async () => {
+          seen = getExecutionContext();
+          return undefined;
+        })
+        .build({ tenant: { resolve: (ctx) => (ctx['org'] as { id: string }).id } });
+
+      await fields[0]!.handler(undefined, { org: { id: 'acme' } });
+      expect(seen?.tenantId).toBe('acme');
+    });
+
+    it('rejects fields that require a tenant when none is resolved', async () => {
+      const schema = defineGraphQLSchema({ createUser: defineMutation({ requiresTenant: true }) });
+      const handler = vi.fn();
+
+      const fields = graphqlRoutes(schema).handle('createUser', handler).build();
+
+      const error = await fields[0]!.handler(undefined, {}).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect((error as ForbiddenError).code).toBe('TENANT_REQUIRED');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('requires a tenant on every field with tenant.required', async () => {
+      const schema = defineGraphQLSchema({ getUser: defineQuery() });
+
+      const fields = graphqlRoutes(schema)
+        .handle('getUser', async () => undefined)
+        .build({ tenant: { required: true } });
+
+      await expect(fields[0]!.handler(undefined, {})).rejects.toThrow(ForbiddenError);
+    });
+
+    it('rejects malformed tenant IDs with ObjectValidationError', async () => {
+      const schema = defineGraphQLSchema({ getUser: defineQuery() });
+
+      const fields = graphqlRoutes(schema)
+        .handle('getUser', async () => undefined)
+        .build();
+
+      await expect(fields[0]!.handler(undefined, { tenantId: 'acme:eu' })).rejects.toThrow(
+        ObjectValidationError,
+      );
+    });
+  });
+
+  describe('feature flags', () => {
+    it('runs the resolver while the flag is on', async () => {
+      const schema = defineGraphQLSchema({ beta: defineQuery({ featureFlag: 'beta' }) });
+      const handler = vi.fn(async () => undefined);
+
+      const fields = graphqlRoutes(schema)
+        .handle('beta', handler)
+        .build({ featureFlags: new InMemoryFeatureFlagProvider({ beta: true }) });
+
+      await fields[0]!.handler(undefined, {});
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('hides the field while the flag is off', async () => {
+      const schema = defineGraphQLSchema({ beta: defineQuery({ featureFlag: 'beta' }) });
+      const handler = vi.fn(async () => undefined);
+
+      const fields = graphqlRoutes(schema)
+        .handle('beta', handler)
+        .build({ featureFlags: new InMemoryFeatureFlagProvider({ beta: false }) });
+
+      const error = await fields[0]!.handler(undefined, {}).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect((error as NotFoundError).message).toBe('Cannot query field "beta"');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('evaluates the flag for the tenant and user of the call', async () => {
+      const schema = defineGraphQLSchema({ beta: defineQuery({ featureFlag: 'beta' }) });
+      const flags = new InMemoryFeatureFlagProvider({ beta: true });
+      const isEnabled = vi.spyOn(flags, 'isEnabled');
+
+      const fields = graphqlRoutes(schema)
+        .handle('beta', async () => undefined)
+        .build({ featureFlags: flags });
+
+      await fields[0]!.handler(undefined, { userId: 'u-1', tenantId: 'acme' });
+      expect(isEnabled).toHaveBeenCalledWith('beta', { tenantId: 'acme', userId: 'u-1' });
+    });
+
+    it('throws at build time when a gated field has no featureFlags option', () => {
+      const schema = defineGraphQLSchema({ beta: defineQuery({ featureFlag: 'beta' }) });
+
+      expect(() =>
+        graphqlRoutes(schema)
+          .handle('beta', async () => undefined)
+          .build(),
+      ).toThrow(/feature flag "beta"/);
+    });
+  });
 });
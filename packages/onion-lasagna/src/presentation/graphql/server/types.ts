@@ -5,6 +5,8 @@
  */
 
 import type { GraphQLFieldDefinition, GraphQLOperationType } from '../field/types';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
+import type { FeatureFlagPort } from '../../../global/interfaces/ports/feature-flag.port';
 
 // Re-export UseCasePort from HTTP — same interface, no duplication
 export type { UseCasePort } from '../../http/server/types';
@@ -78,8 +80,9 @@ export interface GraphQLHandlerConfig<
 
   /**
    * Maps the use case output to the GraphQL response.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly responseMapper: (output: TOutput) => TField['_types']['output'];
+  readonly responseMapper: (output: ResultValue<TOutput>) => TField['_types']['output'];
 
   /** Middleware to run before the handler. */
   readonly middleware?: readonly GraphQLMiddlewareFunction[];
@@ -143,6 +146,28 @@ export type GraphQLMiddlewareFunction = (
 // Server Configuration
 // ============================================================================
 
+/**
+ * Tenant resolution for GraphQL fields.
+ *
+ * The resolved tenant becomes the `tenantId` of the execution context.
+ * Fields defined with `requiresTenant: true` reject calls without a tenant
+ * with a `FORBIDDEN` error (`TENANT_REQUIRED`); malformed tenant IDs are
+ * rejected as validation errors.
+ */
+export interface GraphQLTenantOptions {
+  /**
+   * Reads the tenant ID from the handler context.
+   * @default (context) => context.tenantId
+   */
+  readonly resolve?: (context: GraphQLHandlerContext) => string | undefined;
+
+  /**
+   * Require a tenant on every field, not only on fields with `requiresTenant`.
+   * @default false
+   */
+  readonly required?: boolean;
+}
+
 /**
  * Options for creating GraphQL routes.
  */
@@ -169,6 +194,18 @@ export interface CreateGraphQLRoutesOptions {
    */
   readonly createContext?: (rawContext: unknown) => GraphQLHandlerContext;
 
+  /**
+   * Resolves the tenant of each call. Without this option, the tenant is
+   * read from the `tenantId` context field.
+   */
+  readonly tenant?: GraphQLTenantOptions;
+
+  /**
+   * Evaluates the `featureFlag` of fields for the caller's tenant and user.
+   * Required when a field declares a feature flag.
+   */
+  readonly featureFlags?: FeatureFlagPort;
+
   /**
    * Allow partial handler configuration (not all fields need handlers).
    * When true, missing handlers are silently skipped.
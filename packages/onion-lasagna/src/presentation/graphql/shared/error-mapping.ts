@@ -10,6 +10,7 @@
 import { CodedError } from '../../../global/exceptions/coded-error.error';
 import { ObjectValidationError } from '../../../global/exceptions/object-validation.error';
 import { DomainError } from '../../../domain/exceptions/domain.error';
+import { DomainValidationError } from '../../../domain/exceptions/domain-validation.error';
 import { UseCaseError } from '../../../app/exceptions/use-case.error';
 import { NotFoundError } from '../../../app/exceptions/not-found.error';
 import { ConflictError } from '../../../app/exceptions/conflict.error';
@@ -71,6 +72,7 @@ const INTERNAL_ERROR_TYPES = [
 export function getGraphQLErrorCode(error: unknown): GraphQLErrorCode {
   // Try instanceof first (faster)
   if (error instanceof ObjectValidationError) return 'VALIDATION_ERROR';
+  if (error instanceof DomainValidationError) return 'VALIDATION_ERROR';
   if (error instanceof UnauthorizedError) return 'UNAUTHENTICATED';
   if (error instanceof ForbiddenError) return 'FORBIDDEN';
   if (error instanceof AccessDeniedError) return 'FORBIDDEN';
@@ -81,10 +83,12 @@ export function getGraphQLErrorCode(error: unknown): GraphQLErrorCode {
 
   // Fall back to name-based checking for bundled code
   if (isErrorType(error, 'ObjectValidationError')) return 'VALIDATION_ERROR';
+  if (isErrorType(error, 'DomainValidationError')) return 'VALIDATION_ERROR';
   if (isErrorType(error, 'UnauthorizedError')) return 'UNAUTHENTICATED';
   if (isErrorType(error, 'ForbiddenError')) return 'FORBIDDEN';
   if (isErrorType(error, 'AccessDeniedError')) return 'FORBIDDEN';
   if (isErrorType(error, 'NotFoundError')) return 'NOT_FOUND';
+  if (isErrorType(error, 'ConcurrencyConflictError')) return 'CONFLICT';
   if (isErrorType(error, 'ConflictError')) return 'CONFLICT';
   if (isErrorType(error, 'UnprocessableError')) return 'UNPROCESSABLE';
   if (isErrorType(error, 'UseCaseError')) return 'BAD_REQUEST';
@@ -101,6 +105,11 @@ export function getGraphQLErrorCode(error: unknown): GraphQLErrorCode {
  * so future subclasses cannot silently bypass masking (C04-2).
  */
 export function shouldMaskGraphQLError(error: unknown): boolean {
+  // Collected domain violations are client input errors, not internal details
+  if (error instanceof DomainValidationError || isErrorType(error, 'DomainValidationError')) {
+    return false;
+  }
+
   // Try instanceof first (faster).
   // ControllerError covers all its subclasses (including OutputValidationError).
   if (
@@ -134,7 +143,7 @@ export function shouldMaskGraphQLError(error: unknown): boolean {
  * Maps an error to a GraphQL error with extensions.
  *
  * Mapping strategy (checked in order):
- * 1. `ObjectValidationError` → `VALIDATION_ERROR` (with field errors)
+ * 1. `ObjectValidationError` / `DomainValidationError` → `VALIDATION_ERROR` (with field errors)
  * 2. `UnauthorizedError` → `UNAUTHENTICATED` (mirrors HTTP 401)
  * 3. `ForbiddenError` / `AccessDeniedError` → `FORBIDDEN` (mirrors HTTP 403)
  * 4. `NotFoundError` → `NOT_FOUND`
@@ -157,12 +166,15 @@ export function mapErrorToGraphQLError(error: unknown): MappedGraphQLError {
   const code = getGraphQLErrorCode(error);
 
   // Validation errors - include field details
-  if (error instanceof ObjectValidationError) {
+  if (error instanceof ObjectValidationError || error instanceof DomainValidationError) {
     return buildValidationError(error.message, code, error.code, error.validationErrors);
   }
 
   // Validation errors - fall back to name-based checking for bundled code
-  if (isErrorType(error, 'ObjectValidationError') && hasValidationErrors(error)) {
+  if (
+    (isErrorType(error, 'ObjectValidationError') || isErrorType(error, 'DomainValidationError')) &&
+    hasValidationErrors(error)
+  ) {
     return buildValidationError(error.message, code, error.code, error.validationErrors);
   }
 
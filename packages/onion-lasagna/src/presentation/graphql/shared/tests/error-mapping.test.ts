@@ -17,6 +17,7 @@ import { ForbiddenError } from '../../../../app/exceptions/forbidden.error';
 import { UnauthorizedError } from '../../../../app/exceptions/unauthorized.error';
 import { DomainError } from '../../../../domain/exceptions/domain.error';
 import { PartialLoadError } from '../../../../domain/exceptions/partial-load.error';
+import { DomainValidationError } from '../../../../domain/exceptions/domain-validation.error';
 import { InfraError } from '../../../../infra/exceptions/infra.error';
 import { DbError } from '../../../../infra/exceptions/db.error';
 import { TimeoutError } from '../../../../infra/exceptions/timeout.error';
@@ -160,6 +161,21 @@ describe('mapErrorToGraphQLError', () => {
     ]);
   });
 
+  it('maps DomainValidationError with field details instead of masking it', () => {
+    const error = new DomainValidationError({
+      message: 'Invalid user',
+      validationErrors: [{ field: 'email', message: 'Invalid email', code: 'INVALID_EMAIL' }],
+    });
+
+    const result = mapErrorToGraphQLError(error);
+
+    expect(result.message).toBe('Invalid user');
+    expect(result.extensions.code).toBe('VALIDATION_ERROR');
+    expect(result.extensions.validationErrors).toEqual([
+      { field: 'email', message: 'Invalid email' },
+    ]);
+  });
+
   it('maps UseCaseError with message', () => {
     const result = mapErrorToGraphQLError(new UseCaseError({ message: 'Business rule violated' }));
 
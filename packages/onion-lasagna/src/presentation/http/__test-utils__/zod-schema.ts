@@ -6,9 +6,12 @@
  */
 
 import { z, type ZodType } from 'zod';
-import type { JsonSchema } from '../schema/types/json-schema.type';
-import type { JsonSchemaOptions, SchemaAdapter } from '../schema/types/schema-adapter.type';
-import type { ValidationResult } from '../schema/types/validation.type';
+import type { JsonSchema } from '../../../global/interfaces/types/json-schema.type';
+import type {
+  JsonSchemaOptions,
+  SchemaAdapter,
+} from '../../../global/interfaces/types/schema-adapter.type';
+import type { ValidationResult } from '../../../global/interfaces/types/validation.type';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type ZodAny = ZodType<any, any, any>;
@@ -95,6 +95,7 @@ export type {
   InferRouteHeaders,
   InferRouteContext,
   InferRouteResponse,
+  InferRouteErrors,
   InferRouteMethod,
   InferRoutePath,
 } from './route/types';
@@ -154,9 +155,18 @@ export type {
   MiddlewareFunction,
   ServerRoutesConfig,
   CreateServerRoutesOptions,
+  HttpIdempotencyOptions,
+  HttpTenantOptions,
   UnifiedRouteInput,
   RawHttpRequest,
 } from './server/types';
+export {
+  tenantFromContext,
+  tenantFromHeader,
+  tenantFromJwtClaim,
+  tenantFromSubdomain,
+} from './server/tenant-resolvers';
+export type { TenantResolutionInput, TenantResolver } from './server/tenant-resolvers';
 
 // ============================================================================
 // OpenAPI
@@ -184,4 +194,6 @@ export {
   isErrorType,
   hasValidationErrors,
 } from './shared/error-mapping';
+export { errorResponses } from './shared/error-responses';
+export type { ErrorResponses, HttpStatusOf } from './shared/error-responses';
 export type { ErrorItem, ErrorResponseBody, MappedErrorResponse } from './shared/types';
@@ -216,6 +216,11 @@ function buildOperation(key: string, route: RouteDefinition): OpenAPIOperation {
     (operation as { security: typeof route.docs.security }).security = route.docs.security;
   }
 
+  if (route.docs.permissions && route.docs.permissions.length > 0) {
+    (operation as { 'x-required-permissions': readonly string[] })['x-required-permissions'] =
+      route.docs.permissions;
+  }
+
   if (route.docs.externalDocs) {
     (operation as { externalDocs: typeof route.docs.externalDocs }).externalDocs =
       route.docs.externalDocs;
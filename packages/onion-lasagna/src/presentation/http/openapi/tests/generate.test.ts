@@ -83,6 +83,7 @@ const createUserRoute = defineRoute({
     summary: 'Create a user',
     tags: ['Users'],
     security: [{ bearerAuth: [] }],
+    permissions: ['users:create'],
   },
 });
 
@@ -437,6 +438,18 @@ describe('generateOpenAPI', () => {
       expect(spec.paths['/users']?.post?.security).toEqual([{ bearerAuth: [] }]);
     });
 
+    it('includes required permissions as an extension', () => {
+      const spec = generateOpenAPI(
+        { create: createUserRoute, list: listUsersRoute },
+        {
+          info: { title: 'Test', version: '1.0.0' },
+        },
+      );
+
+      expect(spec.paths['/users']?.post?.['x-required-permissions']).toEqual(['users:create']);
+      expect(spec.paths['/users']?.get).not.toHaveProperty('x-required-permissions');
+    });
+
     it('includes operation-level externalDocs', () => {
       const spec = generateOpenAPI(
         { get: getUserRoute },
@@ -501,6 +514,38 @@ describe('generateOpenAPI', () => {
       expect(Array.isArray(params)).toBe(true);
     });
 
+    it('describes cursor pagination query parameters', () => {
+      const cursorQuery = zodSchema(
+        z.object({
+          cursor: z.string().min(1).optional().describe('Opaque cursor from a previous page'),
+          limit: z.coerce.number().int().min(1).max(100).default(20).describe('Items per page'),
+        }),
+      );
+      const route = defineRoute({
+        method: 'GET',
+        path: '/events',
+        request: { query: { schema: cursorQuery } },
+        responses: { 200: { description: 'Events' } },
+      });
+
+      const spec = generateOpenAPI({ list: route }, { info: { title: 'Test', version: '1.0.0' } });
+      const params = spec.paths['/events']?.get?.parameters ?? [];
+      const cursor = params.find((p) => p.name === 'cursor');
+      const limit = params.find((p) => p.name === 'limit');
+
+      expect(cursor).toMatchObject({
+        in: 'query',
+        required: false,
+        description: 'Opaque cursor from a previous page',
+        schema: { type: 'string', minLength: 1 },
+      });
+      expect(limit).toMatchObject({
+        in: 'query',
+        description: 'Items per page',
+        schema: { type: 'integer', default: 20, maximum: 100 },
+      });
+    });
+
     it('generates header parameters when schema has properties', () => {
       // NOTE: Currently zod-to-json-schema v3 is not compatible with zod v4
       // so JSON schema generation returns empty objects.
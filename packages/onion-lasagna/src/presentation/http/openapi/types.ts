@@ -227,6 +227,7 @@ export interface OpenAPIOperation {
   readonly requestBody?: OpenAPIRequestBody;
   readonly responses: OpenAPIResponses;
   readonly externalDocs?: OpenAPIExternalDocs;
+  readonly 'x-required-permissions'?: readonly string[];
 }
 
 /**
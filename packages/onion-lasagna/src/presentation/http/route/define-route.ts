@@ -15,6 +15,7 @@
 
 import type { SchemaAdapter, InferOutput } from '../schema/types';
 import { isSchemaAdapter } from '../schema/types';
+import type { ErrorResponseBody } from '../shared/types';
 
 // ============================================================================
 // Deep-freeze helpers (C05-7 + deepFreeze-adapter)
@@ -149,6 +150,18 @@ interface DefineRouteInput<
    */
   readonly responses?: TResponses;
 
+  /**
+   * Rejects requests that resolve no tenant with 403 Forbidden
+   * (`TENANT_REQUIRED`) before the handler runs.
+   */
+  readonly requiresTenant?: boolean;
+
+  /**
+   * Feature flag gating the route. While the flag is off for the caller,
+   * requests get 404 Not Found, as if the route did not exist.
+   */
+  readonly featureFlag?: string;
+
   /** OpenAPI documentation. */
   readonly docs?: {
     readonly summary?: string;
@@ -157,6 +170,7 @@ interface DefineRouteInput<
     readonly operationId?: string;
     readonly deprecated?: boolean;
     readonly security?: readonly Record<string, readonly string[]>[];
+    readonly permissions?: readonly string[];
     readonly externalDocs?: {
       readonly url: string;
       readonly description?: string;
@@ -228,6 +242,21 @@ type ResolveResponse<T> = T extends ResponsesDefinition
     : undefined
   : undefined;
 
+type ErrorStatus<T> = {
+  [K in keyof T]: `${K & number}` extends `4${string}` | `5${string}` ? K : never;
+}[keyof T];
+
+type ResolveErrors<T> = T extends ResponsesDefinition
+  ? {
+      [K in ErrorStatus<T>]: {
+        readonly status: K;
+        readonly body: T[K] extends { schema: infer S extends SchemaAdapter }
+          ? InferOutput<S>
+          : ErrorResponseBody;
+      };
+    }[ErrorStatus<T>]
+  : never;
+
 // ============================================================================
 // Factory Function
 // ============================================================================
@@ -261,7 +290,8 @@ export function defineRoute<
   ResolveParams<TParams, TPath>,
   ResolveHeaders<THeaders>,
   ResolveContext<TContext>,
-  ResolveResponse<TResponses>
+  ResolveResponse<TResponses>,
+  ResolveErrors<TResponses>
 > {
   const req = input.request;
 
@@ -298,8 +328,11 @@ export function defineRoute<
       operationId: input.docs?.operationId,
       deprecated: input.docs?.deprecated ?? false,
       security: input.docs?.security,
+      permissions: input.docs?.permissions,
       externalDocs: input.docs?.externalDocs,
     },
+    ...(input.requiresTenant ? { requiresTenant: true } : {}),
+    ...(input.featureFlag ? { featureFlag: input.featureFlag } : {}),
     _meta,
     _types: undefined as unknown,
   };
@@ -312,6 +345,7 @@ export function defineRoute<
     ResolveParams<TParams, TPath>,
     ResolveHeaders<THeaders>,
     ResolveContext<TContext>,
-    ResolveResponse<TResponses>
+    ResolveResponse<TResponses>,
+    ResolveErrors<TResponses>
   >;
 }
@@ -217,6 +217,34 @@ describe('defineRoute', () => {
     });
   });
 
+  describe('tenancy', () => {
+    it('marks routes that require a tenant', () => {
+      const route = defineRoute({ method: 'POST', path: '/projects', requiresTenant: true });
+
+      expect(route.requiresTenant).toBe(true);
+    });
+
+    it('omits the flag by default', () => {
+      const route = defineRoute({ method: 'GET', path: '/health' });
+
+      expect(route).not.toHaveProperty('requiresTenant');
+    });
+  });
+
+  describe('feature flags', () => {
+    it('records the flag gating the route', () => {
+      const route = defineRoute({ method: 'GET', path: '/beta', featureFlag: 'beta' });
+
+      expect(route.featureFlag).toBe('beta');
+    });
+
+    it('omits the flag by default', () => {
+      const route = defineRoute({ method: 'GET', path: '/health' });
+
+      expect(route).not.toHaveProperty('featureFlag');
+    });
+  });
+
   describe('immutability', () => {
     it('returns frozen object', () => {
       const route = defineRoute({
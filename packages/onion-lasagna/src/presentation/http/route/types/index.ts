@@ -37,6 +37,7 @@ export type {
   InferRouteHeaders,
   InferRouteContext,
   InferRouteResponse,
+  InferRouteErrors,
   InferRouteMethod,
   InferRoutePath,
 } from './route-definition.type';
@@ -69,6 +69,12 @@ export interface RouteDocumentation {
    */
   readonly security?: readonly SecurityRequirement[];
 
+  /**
+   * Permissions the caller must hold (e.g. the use case's policy action).
+   * Emitted as the `x-required-permissions` OpenAPI extension.
+   */
+  readonly permissions?: readonly string[];
+
   /**
    * External documentation link.
    */
@@ -233,6 +239,7 @@ export interface RouteDefinition<
   THeaders = undefined,
   TContext = undefined,
   TResponse = undefined,
+  TErrors = unknown,
 > {
   /**
    * HTTP method for this route.
@@ -260,6 +267,16 @@ export interface RouteDefinition<
    */
   readonly docs: RouteDocumentation;
 
+  /**
+   * Whether requests must resolve a tenant before the handler runs.
+   */
+  readonly requiresTenant?: boolean;
+
+  /**
+   * Feature flag that must be on for the route to exist.
+   */
+  readonly featureFlag?: string;
+
   /**
    * Schema field metadata for OpenAPI generation.
    * Populated when fields are passed as `{ schema, description?, contentType?, required? }`.
@@ -281,6 +298,7 @@ export interface RouteDefinition<
     readonly headers: THeaders;
     readonly context: TContext;
     readonly response: TResponse;
+    readonly errors: TErrors;
   };
 }
 
@@ -390,6 +408,28 @@ export type InferRouteResponse<T> =
     ? TResponse
     : never;
 
+/**
+ * Infers the declared error responses of a route definition.
+ *
+ * A union of `{ status, body }` entries, one per 4xx/5xx status declared in
+ * `responses` (e.g. via `errorResponses()`). `unknown` when the route was not
+ * built by `defineRoute`.
+ */
+export type InferRouteErrors<T> =
+  T extends RouteDefinition<
+    HttpMethod,
+    string,
+    unknown,
+    unknown,
+    unknown,
+    unknown,
+    unknown,
+    unknown,
+    infer TErrors
+  >
+    ? TErrors
+    : never;
+
 /**
  * Extracts the method from a route definition.
  */
@@ -11,3 +11,6 @@
 
 // Export all types
 export * from './types';
+
+// List query (sort / filter parameters)
+export * from './list-query';
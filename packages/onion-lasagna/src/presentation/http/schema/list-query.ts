@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Sort and filter query parameters for list endpoints.
+ *
+ * Turns `?sort=-createdAt,name&filter[status]=active&filter[total][gte]=100`
+ * into a typed `{ sort, filter }` structure, validated against a whitelist of
+ * sortable fields and filterable field operators. Invalid parameters become
+ * field-level validation issues, so the server responds with an
+ * `InvalidRequestError` listing each offending parameter.
+ *
+ * Schema packages build the flat, documented parameter schema from
+ * {@link listQueryParameters} and wrap their adapter with {@link withListQuery}.
+ *
+ * @module unified/schema/list-query
+ */
+
+import type {
+  FilterCondition,
+  FilterOperator,
+  FilterScalar,
+} from '../../../domain/classes/base-specification.class';
+import type { SortDirection, SortField } from '../../../domain/value-objects/base-sort.vo';
+import type { SchemaAdapter } from '../../../global/interfaces/types/schema-adapter.type';
+import type {
+  ValidationIssue,
+  ValidationResult,
+} from '../../../global/interfaces/types/validation.type';
+
+/**
+ * Type a filter value is coerced to from its query string.
+ */
+export type ListFilterValueType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Filterable field with a non-string value type.
+ */
+export interface ListFilterField {
+  readonly operators: readonly FilterOperator[];
+  /** @default 'string' */
+  readonly type?: ListFilterValueType;
+}
+
+/**
+ * Whitelist of sortable and filterable fields for a list endpoint.
+ *
+ * @typeParam TSort - Union of sortable field names
+ * @typeParam TFilter - Union of filterable field names
+ */
+export interface ListQueryOptions<TSort extends string = string, TFilter extends string = string> {
+  /** Fields clients may sort by. Omit to disable the `sort` parameter. */
+  readonly sortable?: readonly TSort[];
+  /** Operators allowed per field, or `{ operators, type }` for non-string values. */
+  readonly filterable?: Readonly<Record<TFilter, readonly FilterOperator[] | ListFilterField>>;
+  /** Sort expression applied when `sort` is absent (e.g. `'-createdAt'`). */
+  readonly defaultSort?: string;
+  /**
+   * Maximum number of sort fields.
+   * @default 5
+   */
+  readonly maxSortFields?: number;
+}
+
+/**
+ * Filter condition on a whitelisted field.
+ */
+export interface ListFilterCondition<TField extends string = string> extends FilterCondition {
+  readonly field: TField;
+}
+
+/**
+ * Validated sort and filter parameters, ready for `BaseSortVo.create` /
+ * `BaseFilterVo.create` or a repository.
+ */
+export interface ListQuery<TSort extends string = string, TFilter extends string = string> {
+  readonly sort: SortField<TSort>[];
+  readonly filter: ListFilterCondition<TFilter>[];
+}
+
+/**
+ * A query parameter accepted by a list query.
+ */
+export interface ListQueryParameter {
+  /** Parameter name, e.g. `sort`, `filter[status]` or `filter[total][gte]`. */
+  readonly name: string;
+  readonly description: string;
+  /** Whether the parameter may be repeated (`in` / `notIn`). */
+  readonly multiple: boolean;
+}
+
+/** Keys produced by list query parameters, removed from the flat output. */
+type ListQueryParameterKey = 'sort' | `filter[${string}`;
+
+/**
+ * Lists the query parameters accepted for the given options.
+ *
+ * Equality uses the short form `filter[field]`; other operators use
+ * `filter[field][operator]`.
+ *
+ * @param options - Sortable and filterable fields
+ */
+export function listQueryParameters(options: ListQueryOptions): ListQueryParameter[] {
+  const parameters: ListQueryParameter[] = [];
+
+  if (options.sortable?.length) {
+    parameters.push({
+      name: 'sort',
+      description: `Comma-separated sort fields, prefixed with "-" for descending. Allowed: ${options.sortable.join(', ')}.`,
+      multiple: false,
+    });
+  }
+
+  for (const [field, config] of filterEntries(options)) {
+    for (const operator of config.operators) {
+      parameters.push({
+        name: filterParameterName(field, operator),
+        description: describeFilter(field, operator, config.type),
+        multiple: operator === 'in' || operator === 'notIn',
+      });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Wraps a schema adapter for the flat query parameters so that validated
+ * data is returned as a {@link ListQuery}.
+ *
+ * The wrapped adapter validates the flat parameters (and any extra ones),
+ * then rejects unknown `filter[...]` parameters, unknown sort fields and
+ * values that do not match the field type. Each problem is reported as an
+ * issue on its own parameter. JSON Schema generation is delegated to the
+ * flat adapter, so OpenAPI documents every parameter.
+ *
+ * @param adapter - Adapter for the flat parameters from {@link listQueryParameters}
+ * @param options - The same options used to build the flat schema
+ * @returns Adapter whose output replaces the list parameters with `sort` and `filter`
+ */
+export function withListQuery<
+  TOutput extends Record<string, unknown>,
+  TInput,
+  TSort extends string,
+  TFilter extends string,
+>(
+  adapter: SchemaAdapter<TOutput, TInput>,
+  options: ListQueryOptions<TSort, TFilter>,
+): SchemaAdapter<Omit<TOutput, ListQueryParameterKey> & ListQuery<TSort, TFilter>, TInput> {
+  type TResult = Omit<TOutput, ListQueryParameterKey> & ListQuery<TSort, TFilter>;
+
+  const known = new Set(listQueryParameters(options).map((parameter) => parameter.name));
+
+  return {
+    validate(data: unknown): ValidationResult<TResult> {
+      const issues: ValidationIssue[] = [];
+
+      if (typeof data === 'object' && data !== null) {
+        for (const key of Object.keys(data)) {
+          if ((key === 'sort' || key.startsWith('filter[')) && !known.has(key)) {
+            issues.push({
+              path: [key],
+              message: key === 'sort' ? 'Sorting is not supported' : `Unknown filter "${key}"`,
+              code: 'unrecognized_keys',
+            });
+          }
+        }
+      }
+
+      const result = adapter.validate(data);
+      if (!result.success) {
+        return { success: false, issues: [...issues, ...result.issues] };
+      }
+
+      const parsed = parseListQuery(result.data, options);
+      if (!parsed.success || issues.length > 0) {
+        return { success: false, issues: [...issues, ...(parsed.success ? [] : parsed.issues)] };
+      }
+
+      const rest: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(result.data)) {
+        if (!known.has(key)) rest[key] = value;
+      }
+
+      return { success: true, data: { ...rest, ...parsed.data } as unknown as TResult };
+    },
+
+    toJsonSchema: (jsonSchemaOptions) => adapter.toJsonSchema(jsonSchemaOptions),
+
+    _output: undefined as unknown as TResult,
+    _input: undefined as TInput,
+    _schema: adapter._schema,
+  };
+}
+
+/**
+ * Parses flat list query parameters into a {@link ListQuery}.
+ *
+ * Parameters not listed by {@link listQueryParameters} are ignored.
+ *
+ * @param query - Flat query parameters (values are strings or string arrays)
+ * @param options - Sortable and filterable fields
+ * @returns The parsed query, or one issue per invalid parameter
+ */
+export function parseListQuery<TSort extends string, TFilter extends string>(
+  query: Readonly<Record<string, unknown>>,
+  options: ListQueryOptions<TSort, TFilter>,
+): ValidationResult<ListQuery<TSort, TFilter>> {
+  const issues: ValidationIssue[] = [];
+  const sort: SortField<TSort>[] = [];
+  const filter: ListFilterCondition<TFilter>[] = [];
+
+  const sortValue = query['sort'];
+  const expression =
+    typeof sortValue === 'string' && sortValue.trim() !== '' ? sortValue : options.defaultSort;
+  if (expression !== undefined) {
+    const result = parseSort(expression, options);
+    if (typeof result === 'string') {
+      issues.push({ path: ['sort'], message: result, code: 'invalid_sort' });
+    } else {
+      sort.push(...(result as SortField<TSort>[]));
+    }
+  }
+
+  for (const [field, config] of filterEntries(options)) {
+    for (const operator of config.operators) {
+      const name = filterParameterName(field, operator);
+      const raw = query[name];
+      if (raw === undefined) continue;
+
+      const result = parseFilterValue(raw, operator, config.type ?? 'string');
+      if (typeof result === 'string') {
+        issues.push({ path: [name], message: result, code: 'invalid_filter' });
+      } else {
+        filter.push({ type: 'condition', field: field as TFilter, operator, ...result });
+      }
+    }
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+  return { success: true, data: { sort, filter } };
+}
+
+function filterEntries(options: ListQueryOptions): [string, ListFilterField][] {
+  return Object.entries(options.filterable ?? {}).map(([field, config]) => [
+    field,
+    isOperatorList(config) ? { operators: config } : config,
+  ]);
+}
+
+function isOperatorList(
+  config: readonly FilterOperator[] | ListFilterField,
+): config is readonly FilterOperator[] {
+  return Array.isArray(config);
+}
+
+function filterParameterName(field: string, operator: FilterOperator): string {
+  return operator === 'eq' ? `filter[${field}]` : `filter[${field}][${operator}]`;
+}
+
+function describeFilter(
+  field: string,
+  operator: FilterOperator,
+  type: ListFilterValueType = 'string',
+): string {
+  switch (operator) {
+    case 'isNull':
+      return `Set to "true" to match items where "${field}" is empty.`;
+    case 'in':
+    case 'notIn':
+      return `Comma-separated ${type} values; matches items where "${field}" is ${operator === 'in' ? '' : 'not '}one of them.`;
+    default:
+      return `Matches items where "${field}" ${OPERATOR_LABELS[operator]} the given ${type}.`;
+  }
+}
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: 'equals',
+  ne: 'does not equal',
+  gt: 'is greater than',
+  gte: 'is greater than or equal to',
+  lt: 'is less than',
+  lte: 'is less than or equal to',
+  in: 'is one of',
+  notIn: 'is not one of',
+  contains: 'contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  isNull: 'is empty',
+};
+
+/** Returns the sort fields, or an error message. */
+function parseSort(expression: string, options: ListQueryOptions): SortField[] | string {
+  const sortable = options.sortable ?? [];
+  const maxFields = options.maxSortFields ?? 5;
+  const fields: SortField[] = [];
+
+  for (const token of expression.split(',')) {
+    const trimmed = token.trim();
+    const direction: SortDirection = trimmed.startsWith('-') ? 'desc' : 'asc';
+    const field = /^[-+]/.test(trimmed) ? trimmed.slice(1) : trimmed;
+
+    if (!sortable.includes(field)) {
+      return `Cannot sort by "${field}". Allowed: ${sortable.join(', ')}`;
+    }
+    if (fields.some((existing) => existing.field === field)) {
+      return `Cannot sort by "${field}" more than once`;
+    }
+    fields.push({ field, direction });
+  }
+
+  if (fields.length > maxFields) {
+    return `Sort accepts at most ${maxFields} fields`;
+  }
+  return fields;
+}
+
+/** Returns the condition value (omitted for `isNull`), or an error message. */
+function parseFilterValue(
+  raw: unknown,
+  operator: FilterOperator,
+  type: ListFilterValueType,
+): { value?: FilterScalar | FilterScalar[] } | string {
+  const values = (Array.isArray(raw) ? raw : [raw]).filter(
+    (value): value is string => typeof value === 'string',
+  );
+
+  if (operator === 'isNull') {
+    return values.length === 1 && values[0] === 'true' ? {} : 'Must be "true"';
+  }
+
+  if (operator === 'in' || operator === 'notIn') {
+    const items = values.flatMap((value) => value.split(',')).map((item) => item.trim());
+    const coerced: FilterScalar[] = [];
+    for (const item of items) {
+      const value = coerceFilterValue(item, type);
+      if (value === undefined) return `Each value must be a valid ${type}`;
+      coerced.push(value);
+    }
+    return { value: coerced };
+  }
+
+  if (values.length !== 1 || values[0] === undefined) {
+    return 'Must be a single value';
+  }
+  const value = coerceFilterValue(values[0], type);
+  return value === undefined ? `Must be a valid ${type}` : { value };
+}
+
+function coerceFilterValue(raw: string, type: ListFilterValueType): FilterScalar | undefined {
+  switch (type) {
+    case 'string':
+      return raw;
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : undefined;
+    case 'date': {
+      const value = new Date(raw);
+      return raw.trim() !== '' && !Number.isNaN(value.getTime()) ? value : undefined;
+    }
+  }
+}
@@ -38,7 +38,7 @@ import type { SchemaAdapter, ValidationResult } from '../types/index';
 // onion-lasagna-typebox, onion-lasagna-valibot) but live here to avoid circular
 // workspace dependencies at test time.
 
-import type { JsonSchema } from '../types/json-schema.type';
+import type { JsonSchema } from '../../../../global/interfaces/types/json-schema.type';
 
 function makeZodAdapter<T extends ReturnType<typeof z.object>>(
   schema: T,
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Tests for list query (sort / filter) parsing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  listQueryParameters,
+  parseListQuery,
+  withListQuery,
+  type ListQueryOptions,
+} from '../list-query';
+import { zodSchema } from '../../__test-utils__/zod-schema';
+import { createServerRoutesInternal as createServerRoutes } from '../../server/create-server-routes';
+import { defineRoute } from '../../route/define-route';
+import { generateOpenAPI } from '../../openapi/generate';
+import { InvalidRequestError } from '../../../exceptions/invalid-request.error';
+
+const options = {
+  sortable: ['createdAt', 'total'],
+  filterable: {
+    status: ['eq', 'in'],
+    total: { operators: ['gte', 'lte'], type: 'number' },
+    placedAt: { operators: ['lt'], type: 'date' },
+    paid: { operators: ['eq'], type: 'boolean' },
+    cancelledAt: ['isNull'],
+  },
+} satisfies ListQueryOptions;
+
+function listQuerySchema<TShape extends z.ZodRawShape>(extra: TShape) {
+  const shape: Record<string, z.ZodType> = {};
+  for (const parameter of listQueryParameters(options)) {
+    const value = parameter.multiple ? z.union([z.string(), z.array(z.string())]) : z.string();
+    shape[parameter.name] = value.optional().describe(parameter.description);
+  }
+  return withListQuery(zodSchema(z.object({ ...extra, ...shape })), options);
+}
+
+describe('listQueryParameters', () => {
+  it('lists sort and one parameter per filter operator', () => {
+    expect(listQueryParameters(options).map((parameter) => parameter.name)).toEqual([
+      'sort',
+      'filter[status]',
+      'filter[status][in]',
+      'filter[total][gte]',
+      'filter[total][lte]',
+      'filter[placedAt][lt]',
+      'filter[paid]',
+      'filter[cancelledAt][isNull]',
+    ]);
+  });
+
+  it('marks in / notIn as repeatable and describes each parameter', () => {
+    const [sort, , statusIn] = listQueryParameters(options);
+
+    expect(sort?.description).toContain('Allowed: createdAt, total');
+    expect(statusIn).toMatchObject({ multiple: true });
+    expect(statusIn?.description).toContain('Comma-separated');
+  });
+
+  it('omits sort when nothing is sortable', () => {
+    expect(listQueryParameters({ filterable: { status: ['eq'] } })).toHaveLength(1);
+  });
+});
+
+describe('parseListQuery', () => {
+  it('parses sort fields and typed filter conditions', () => {
+    const result = parseListQuery(
+      {
+        sort: '-createdAt,total',
+        'filter[status][in]': 'placed, shipped',
+        'filter[total][gte]': '100',
+        'filter[placedAt][lt]': '2024-06-01T00:00:00.000Z',
+        'filter[paid]': 'false',
+        'filter[cancelledAt][isNull]': 'true',
+      },
+      options,
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        sort: [
+          { field: 'createdAt', direction: 'desc' },
+          { field: 'total', direction: 'asc' },
+        ],
+        filter: [
+          { type: 'condition', field: 'status', operator: 'in', value: ['placed', 'shipped'] },
+          { type: 'condition', field: 'total', operator: 'gte', value: 100 },
+          {
+            type: 'condition',
+            field: 'placedAt',
+            operator: 'lt',
+            value: new Date('2024-06-01T00:00:00.000Z'),
+          },
+          { type: 'condition', field: 'paid', operator: 'eq', value: false },
+          { type: 'condition', field: 'cancelledAt', operator: 'isNull' },
+        ],
+      },
+    });
+  });
+
+  it('accepts repeated in values', () => {
+    const result = parseListQuery({ 'filter[status][in]': ['placed', 'shipped,paid'] }, options);
+
+    expect(result.success && result.data.filter[0]?.value).toEqual(['placed', 'shipped', 'paid']);
+  });
+
+  it('applies the default sort', () => {
+    const result = parseListQuery({}, { ...options, defaultSort: '-createdAt' });
+
+    expect(result.success && result.data.sort).toEqual([{ field: 'createdAt', direction: 'desc' }]);
+  });
+
+  it('reports one issue per invalid parameter', () => {
+    const result = parseListQuery(
+      {
+        sort: 'password',
+        'filter[total][gte]': 'lots',
+        'filter[status]': ['a', 'b'],
+        'filter[cancelledAt][isNull]': 'yes',
+      },
+      options,
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((issue) => [issue.path.join('.'), issue.message])).toEqual([
+        ['sort', 'Cannot sort by "password". Allowed: createdAt, total'],
+        ['filter[status]', 'Must be a single value'],
+        ['filter[total][gte]', 'Must be a valid number'],
+        ['filter[cancelledAt][isNull]', 'Must be "true"'],
+      ]);
+    }
+  });
+
+  it('rejects duplicate and excess sort fields', () => {
+    const duplicate = parseListQuery({ sort: 'total,-total' }, options);
+    const excess = parseListQuery({ sort: 'createdAt,total' }, { ...options, maxSortFields: 1 });
+
+    expect(!duplicate.success && duplicate.issues[0]?.message).toBe(
+      'Cannot sort by "total" more than once',
+    );
+    expect(!excess.success && excess.issues[0]?.message).toBe('Sort accepts at most 1 fields');
+  });
+});
+
+describe('withListQuery', () => {
+  const schema = listQuerySchema({ search: z.string().optional() });
+
+  it('returns sort and filter alongside extra parameters', () => {
+    const result = schema.validate({ sort: '-total', 'filter[status]': 'placed', search: 'abc' });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        search: 'abc',
+        sort: [{ field: 'total', direction: 'desc' }],
+        filter: [{ type: 'condition', field: 'status', operator: 'eq', value: 'placed' }],
+      },
+    });
+  });
+
+  it('rejects unknown filter parameters', () => {
+    const result = schema.validate({ 'filter[secret]': 'x', 'filter[total][eq]': '1' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((issue) => issue.path)).toEqual([
+        ['filter[secret]'],
+        ['filter[total][eq]'],
+      ]);
+    }
+  });
+
+  it('rejects sort when nothing is sortable', () => {
+    const unsortable = withListQuery(zodSchema(z.object({})), { filterable: {} });
+    const result = unsortable.validate({ sort: 'name' });
+
+    expect(!result.success && result.issues[0]?.message).toBe('Sorting is not supported');
+  });
+
+  it('documents every parameter in OpenAPI', () => {
+    const route = defineRoute({
+      method: 'GET',
+      path: '/orders',
+      request: { query: { schema: schema } },
+      responses: { 200: { description: 'Orders' } },
+    });
+
+    const spec = generateOpenAPI({ list: route }, { info: { title: 'Test', version: '1.0.0' } });
+    const names = (spec.paths['/orders']?.get?.parameters ?? []).map((p) => p.name);
+
+    expect(names).toContain('sort');
+    expect(names).toContain('filter[total][gte]');
+    expect(names).toContain('search');
+  });
+
+  it('produces field-level InvalidRequestError items from the server', async () => {
+    const route = defineRoute({
+      method: 'GET',
+      path: '/orders',
+      request: { query: { schema: schema } },
+      responses: { 200: { description: 'Orders' } },
+    });
+    const [handler] = createServerRoutes(
+      { list: route },
+      {
+        list: {
+          requestMapper: (req) => req.query,
+          useCase: { execute: async () => ({}) },
+          responseMapper: () => ({ status: 200, body: {} }),
+        },
+      },
+    );
+
+    const error = await handler
+      ?.handler({
+        method: 'GET',
+        url: '/orders',
+        headers: {},
+        body: null,
+        query: { sort: 'nope', 'filter[owner]': 'me' },
+        params: {},
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect((error as InvalidRequestError).validationErrors.map((e) => e.field)).toEqual([
+      'query.filter[owner]',
+      'query.sort',
+    ]);
+  });
+});
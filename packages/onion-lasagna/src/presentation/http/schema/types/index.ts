@@ -1,26 +1,34 @@
 /**
- * @fileoverview Schema type exports.
+ * @fileoverview Schema type exports. The types live in `global`, so that use
+ * cases can declare schemas without depending on the presentation layer.
  * @module unified/schema/types
  */
 
-export type { JsonSchema, JsonSchemaType, JsonSchemaStringFormat } from './json-schema.type';
+export type {
+  JsonSchema,
+  JsonSchemaType,
+  JsonSchemaStringFormat,
+} from '../../../../global/interfaces/types/json-schema.type';
 
 export type {
   ValidationIssue,
   ValidationSuccess,
   ValidationFailure,
   ValidationResult,
-} from './validation.type';
-export { isValidationSuccess, isValidationFailure } from './validation.type';
+} from '../../../../global/interfaces/types/validation.type';
+export {
+  isValidationSuccess,
+  isValidationFailure,
+} from '../../../../global/interfaces/types/validation.type';
 
 export type {
   SchemaAdapter,
   JsonSchemaOptions,
   InferOutput,
   InferInput,
-} from './schema-adapter.type';
+} from '../../../../global/interfaces/types/schema-adapter.type';
 export {
   isSchemaAdapter,
   createPassthroughAdapter,
   createRejectingAdapter,
-} from './schema-adapter.type';
+} from '../../../../global/interfaces/types/schema-adapter.type';
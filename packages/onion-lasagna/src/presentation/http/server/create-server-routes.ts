@@ -9,7 +9,7 @@
  * @internal
  */
 
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 import type { SchemaAdapter, ValidationIssue } from '../schema/types';
 import type { RouterConfig, RouterDefinition, RouteDefinition } from '../route/types';
 import { isRouterDefinition, collectRoutes, normalizePath } from '../route/types';
@@ -18,16 +18,32 @@ import type {
   CreateServerRoutesOptions,
   HandlerContext,
   HandlerResponse,
+  HttpIdempotencyOptions,
   RawHttpRequest,
   UnifiedRouteInput,
+  UseCasePort,
   ValidatedRequest,
 } from './types';
 import { isSimpleHandlerConfig } from './types';
 import { InvalidRequestError } from '../../exceptions/invalid-request.error';
 import { ControllerError } from '../../exceptions/controller.error';
 import { UnauthorizedError } from '../../../app/exceptions/unauthorized.error';
+import { ConflictError } from '../../../app/exceptions/conflict.error';
+import { ForbiddenError } from '../../../app/exceptions/forbidden.error';
+import { NotFoundError } from '../../../app/exceptions/not-found.error';
+import { UnprocessableError } from '../../../app/exceptions/unprocessable.error';
+import { ErrorCodes } from '../../../global/exceptions/error-codes.const';
 import { wrapError } from '../../../global/utils/wrap-error.util';
+import { isResult } from '../../../global/utils/result.util';
+import {
+  executionIdentityOf,
+  runWithExecutionContext,
+} from '../../../global/utils/execution-context.util';
+import type { ExecutionContext } from '../../../global/interfaces/types/execution-context.type';
+import { mapErrorToHttpResponse } from '../shared/error-mapping';
 import { generateOperationId } from '../route/utils';
+import { resolveTenantId, tenantFromContext } from './tenant-resolvers';
+import type { Resolver } from '../../../global/container/container.class';
 
 /**
  * Internal implementation for creating server routes.
@@ -74,6 +90,22 @@ export function createServerRoutesInternal<T extends RouterConfig>(
       );
     }
 
+    if (
+      !isSimpleHandlerConfig(handlerConfig) &&
+      typeof handlerConfig.useCase === 'function' &&
+      !resolvedOptions.createScope
+    ) {
+      throw new Error(
+        `Handler for route "${key}" resolves its use case from a scope, but no createScope option was given.`,
+      );
+    }
+
+    if (route.featureFlag && !resolvedOptions.featureFlags) {
+      throw new Error(
+        `Route "${key}" is gated by feature flag "${route.featureFlag}", but no featureFlags option was given.`,
+      );
+    }
+
     result.push(createRouteHandler(key, route, handlerConfig, resolvedOptions, basePath));
   }
 
@@ -150,6 +182,9 @@ function sortRoutesBySpecificity<T extends { route: { path: string } }>(routes:
  * Supports two handler patterns:
  * - Simple handler: handler(req, ctx) → response
  * - Use case pattern: requestMapper → useCase.execute → responseMapper
+ *
+ * When the use case returns a `Result`, `ok` values go to the responseMapper
+ * and `err` values are mapped with `mapErrorToHttpResponse`.
  */
 function createRouteHandler(
   key: string,
@@ -170,12 +205,22 @@ function createRouteHandler(
 
   // C05-1: prepend basePath to route path (normalizePath converts {param} → :param)
   const routePath = normalizePath(basePath + route.path);
+  const operationId = route.docs.operationId ?? generateOperationId(key);
+
+  const idempotency = options.idempotency;
+  const idempotencyHeader = idempotency?.header?.toLowerCase() ?? 'idempotency-key';
+  const isIdempotentMethod = (idempotency?.methods ?? ['POST', 'PATCH']).includes(route.method);
+
+  const tenantResolvers = options.tenant?.resolvers ?? [tenantFromContext()];
+  const requiresTenant = route.requiresTenant === true || options.tenant?.required === true;
+  const featureFlags = options.featureFlags;
+  const { createScope } = options;
 
   return {
     method: route.method,
     path: routePath,
     metadata: {
-      operationId: route.docs.operationId ?? generateOperationId(key),
+      operationId,
       summary: route.docs.summary,
       description: route.docs.description,
       tags: route.docs.tags as string[],
@@ -224,6 +269,28 @@ function createRouteHandler(
       // C16-2: hoist normalizeHeaders once per request — used for both req.headers and raw.headers
       const normalizedHeaders = normalizeHeaders(rawRequest.headers);
 
+      // Resolve the tenant; routes that require one stop here without it
+      const tenantId = resolveTenantId(tenantResolvers, {
+        url: rawRequest.url,
+        headers: normalizedHeaders,
+        context: rawContext,
+      });
+      if (!tenantId && requiresTenant) {
+        throw new ForbiddenError({
+          message: 'This route requires a tenant',
+          code: ErrorCodes.App.TENANT_REQUIRED,
+        });
+      }
+
+      // Routes behind a disabled feature flag do not exist for this caller
+      if (route.featureFlag && featureFlags) {
+        const enabled = await featureFlags.isEnabled(route.featureFlag, {
+          tenantId,
+          userId: executionIdentityOf(rawContext).actorId,
+        });
+        if (!enabled) throw new NotFoundError({ message: 'Route not found' });
+      }
+
       // Validate request (if enabled)
       // Use internal type since specific route types are erased in this function
       let validatedRequest: ValidatedRequestInternal;
@@ -295,32 +362,58 @@ function createRouteHandler(
             validatedContext as HandlerContext,
           );
 
-          // Execute use case
-          const output = await useCase.execute(input);
+          // Execute use case, resolved from a fresh request scope when configured so
+          const output = await resolveUseCase(useCase, createScope, rawContext).execute(input);
+
+          // Result-mode use cases: declared errors become error responses
+          if (isResult(output)) {
+            return output.ok ? responseMapper(output.value) : mapErrorToHttpResponse(output.error);
+          }
 
           // Map output to HTTP response
           return responseMapper(output);
         }
       };
 
+      // Idempotency: keys are scoped per route and caller, so clients may reuse them
+      // across endpoints and never replay another caller's response
+      const idempotencyKey = isIdempotentMethod ? normalizedHeaders[idempotencyHeader] : undefined;
+      const runHandler =
+        idempotency && idempotencyKey
+          ? () => {
+              const scope = idempotency.scope
+                ? idempotency.scope(rawRequest, rawContext)
+                : defaultIdempotencyScope(rawContext, tenantId);
+              return executeIdempotently(
+                idempotency,
+                [operationId, scope, idempotencyKey].map(encodeURIComponent).join(':'),
+                hashRequest(rawRequest),
+                executePipeline,
+              );
+            }
+          : executePipeline;
+
+      // Middleware and handler run inside the ambient execution context
+      const executionContext = httpExecutionContext(rawContext, normalizedHeaders, tenantId);
+
       let response: HandlerResponse;
 
       if (allMiddleware.length === 0) {
-        response = await executePipeline();
+        response = await runWithExecutionContext(executionContext, runHandler);
       } else {
         // Build middleware chain
         // Note: Middleware receives the raw context before validation
         let index = 0;
         const next = async (): Promise<HandlerResponse> => {
           if (index >= allMiddleware.length) {
-            return executePipeline();
+            return runHandler();
           }
           // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- index bounds checked above
           const mw = allMiddleware[index++]!;
           return mw(rawRequest, rawContext, next);
         };
 
-        response = await next();
+        response = await runWithExecutionContext(executionContext, next);
       }
 
       // Always validate status code (must be 100-599)
@@ -345,6 +438,79 @@ function createRouteHandler(
   };
 }
 
+/** Response stored for an idempotency key, with the hash of the request that produced it. */
+interface StoredIdempotentResponse {
+  readonly requestHash: string;
+  readonly response: HandlerResponse;
+}
+
+/**
+ * Runs the handler once per idempotency key.
+ *
+ * - Free key: runs the handler and stores its response. If the handler
+ *   throws, the key is released so the client can retry.
+ * - Completed key: replays the stored response, or rejects with 422 when
+ *   the key was used for a different request.
+ * - In-progress key: rejects with 409 Conflict.
+ */
+async function executeIdempotently(
+  idempotency: HttpIdempotencyOptions,
+  key: string,
+  requestHash: string,
+  execute: () => Promise<HandlerResponse>,
+): Promise<HandlerResponse> {
+  const { store, ttl = 86_400, lockTtl = 60 } = idempotency;
+
+  const existing = await store.claim<StoredIdempotentResponse>(key, { ttl: lockTtl });
+  if (existing?.status === 'completed') {
+    if (existing.response.requestHash !== requestHash) {
+      throw new UnprocessableError({
+        message: 'This idempotency key was already used for a different request',
+        code: ErrorCodes.App.IDEMPOTENCY_KEY_REUSED,
+      });
+    }
+    const { response } = existing.response;
+    return { ...response, headers: { ...response.headers, 'idempotent-replayed': 'true' } };
+  }
+  if (existing) {
+    throw new ConflictError({
+      message: 'A request with this idempotency key is already being processed',
+      code: ErrorCodes.App.IDEMPOTENCY_KEY_IN_USE,
+    });
+  }
+
+  let response: HandlerResponse;
+  try {
+    response = await execute();
+  } catch (error) {
+    await store.release(key);
+    throw error;
+  }
+  const stored: StoredIdempotentResponse = { requestHash, response };
+  await store.complete(key, stored, { ttl });
+  return response;
+}
+
+/**
+ * Default idempotency scope: the resolved tenant and the actor of the
+ * request context. Anonymous requests share the empty scope.
+ */
+function defaultIdempotencyScope(context: HandlerContext, tenantId: string | undefined): string {
+  const { actorId } = executionIdentityOf(context);
+  return [tenantId ?? '', actorId ?? ''].map(encodeURIComponent).join(':');
+}
+
+/**
+ * Hashes the parts of a request that identify what it asks for, to detect an
+ * idempotency key reused for a different request.
+ */
+function hashRequest(request: RawHttpRequest): string {
+  const { url, params, query, body } = request;
+  return createHash('sha256')
+    .update(JSON.stringify([url, params ?? {}, query ?? {}, body ?? null]))
+    .digest('hex');
+}
+
 /**
  * Validates request data against route request schemas.
  *
@@ -667,6 +833,42 @@ function normalizeHeaders(
   return result;
 }
 
+/**
+ * Returns the use case for one request: the instance itself, or the
+ * factory applied to a fresh scope. `createServerRoutesInternal` already
+ * rejects factories without `createScope` at build time.
+ */
+function resolveUseCase<TInput, TOutput>(
+  useCase: UseCasePort<TInput, TOutput> | ((scope: Resolver) => UseCasePort<TInput, TOutput>),
+  createScope: ((raw: HandlerContext) => Resolver) | undefined,
+  raw: HandlerContext,
+): UseCasePort<TInput, TOutput> {
+  if (typeof useCase !== 'function') return useCase;
+  if (!createScope) {
+    throw new Error('The use case resolves from a scope, but no createScope option was given.');
+  }
+  return useCase(createScope(raw));
+}
+
+/**
+ * Builds the execution context of a request. The correlation ID comes from
+ * the `x-correlation-id` header when present, otherwise the request ID.
+ */
+function httpExecutionContext(
+  context: HandlerContext,
+  headers: Record<string, string>,
+  tenantId: string | undefined,
+): ExecutionContext {
+  const requestId = context.requestId ?? generateRequestId();
+  const { actorId } = executionIdentityOf(context);
+  return {
+    correlationId: headers['x-correlation-id'] ?? requestId,
+    causationId: requestId,
+    ...(actorId ? { actorId } : {}),
+    ...(tenantId ? { tenantId } : {}),
+  };
+}
+
 /**
  * Generates a unique request ID using crypto-secure UUID.
  *
@@ -59,6 +59,17 @@ export type {
   MiddlewareFunction,
   ServerRoutesConfig,
   CreateServerRoutesOptions,
+  HttpIdempotencyOptions,
+  HttpTenantOptions,
   UnifiedRouteInput,
   RawHttpRequest,
 } from './types';
+
+// Tenant resolution strategies
+export {
+  tenantFromContext,
+  tenantFromHeader,
+  tenantFromJwtClaim,
+  tenantFromSubdomain,
+} from './tenant-resolvers';
+export type { TenantResolutionInput, TenantResolver } from './tenant-resolvers';
@@ -23,6 +23,7 @@ import type {
 } from './types';
 import { createServerRoutesInternal } from './create-server-routes';
 import type { RouteDefinition } from '../route/types';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
 
 // ============================================================================
 // Builder Types
@@ -61,8 +62,9 @@ export interface BuilderHandlerConfig<TRoute extends RouteDefinition, TInput, TO
 
   /**
    * Maps the use case output to an HTTP response.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly responseMapper: (output: TOutput) => HandlerResponse;
+  readonly responseMapper: (output: ResultValue<TOutput>) => HandlerResponse;
 
   /**
    * Middleware to run before the handler.
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Tenant resolution strategies for server routes.
+ *
+ * A resolver reads the tenant ID from one part of an HTTP request. Pass one
+ * or more of them as `tenant.resolvers` to `serverRoutes().build()`; the
+ * first one that finds a tenant wins.
+ *
+ * @module http/server/tenant-resolvers
+ */
+
+import { TenantId } from '../../../domain/value-objects/tenant-id.vo';
+import { InvalidRequestError } from '../../exceptions/invalid-request.error';
+import type { HandlerContext } from './types';
+
+/**
+ * Request data available to a {@link TenantResolver}.
+ */
+export interface TenantResolutionInput {
+  /** Request URL (absolute or path-only, as given by the framework). */
+  readonly url: string;
+
+  /** Request headers with lower-cased names. */
+  readonly headers: Readonly<Record<string, string>>;
+
+  /** Handler context, after `createContext`. */
+  readonly context: HandlerContext;
+}
+
+/**
+ * Reads the tenant ID of a request, or returns `undefined` when this
+ * strategy does not apply.
+ */
+export type TenantResolver = (input: TenantResolutionInput) => string | undefined;
+
+/**
+ * Resolves the tenant from a request header.
+ *
+ * @param header - Header name (case-insensitive)
+ * @returns The resolver
+ *
+ * @example
+ * ```typescript
+ * tenantFromHeader(); // X-Tenant-Id: acme → "acme"
+ * ```
+ */
+export function tenantFromHeader(header = 'x-tenant-id'): TenantResolver {
+  const name = header.toLowerCase();
+  return ({ headers }) => nonEmpty(headers[name]);
+}
+
+/**
+ * Resolves the tenant from the first label of the host name, below a root
+ * domain. Hosts outside the root domain, the root domain itself and hosts
+ * with more than one extra label resolve no tenant.
+ *
+ * The host is read from the `host` header, falling back to an absolute
+ * request URL.
+ *
+ * @param rootDomain - Domain the tenant subdomains live under
+ * @returns The resolver
+ *
+ * @example
+ * ```typescript
+ * tenantFromSubdomain('app.example.com'); // acme.app.example.com → "acme"
+ * ```
+ */
+export function tenantFromSubdomain(rootDomain: string): TenantResolver {
+  const suffix = `.${rootDomain.toLowerCase()}`;
+  return ({ url, headers }) => {
+    const host = (headers['host'] ?? hostOf(url))?.toLowerCase().replace(/:\d+$/, '');
+    if (!host?.endsWith(suffix)) return undefined;
+    const label = host.slice(0, -suffix.length);
+    return label.includes('.') ? undefined : nonEmpty(label);
+  };
+}
+
+/**
+ * Resolves the tenant from a claim of the verified JWT payload that an
+ * authentication middleware placed on the handler context.
+ *
+ * The token itself is never decoded here; only claims that reached the
+ * context are trusted.
+ *
+ * @param claim - Claim holding the tenant ID
+ * @param claimsKey - Context field holding the JWT payload
+ * @returns The resolver
+ *
+ * @example
+ * ```typescript
+ * // contextExtractor: (c) => ({ jwtPayload: c.get('jwtPayload') })
+ * tenantFromJwtClaim('tenant_id');
+ * ```
+ */
+export function tenantFromJwtClaim(claim: string, claimsKey = 'jwtPayload'): TenantResolver {
+  return ({ context }) => {
+    const claims = context[claimsKey];
+    if (typeof claims !== 'object' || claims === null) return undefined;
+    const value = (claims as Record<string, unknown>)[claim];
+    return typeof value === 'string' ? nonEmpty(value) : undefined;
+  };
+}
+
+/**
+ * Resolves the tenant from the `tenantId` field of the handler context.
+ * This is the default when no resolvers are configured.
+ *
+ * @returns The resolver
+ */
+export function tenantFromContext(): TenantResolver {
+  return ({ context }) => {
+    const value = context['tenantId'];
+    return typeof value === 'string' ? nonEmpty(value) : undefined;
+  };
+}
+
+/**
+ * Runs resolvers in order and validates the first tenant found.
+ *
+ * @throws {InvalidRequestError} When the resolved tenant ID is malformed
+ * @internal
+ */
+export function resolveTenantId(
+  resolvers: readonly TenantResolver[],
+  input: TenantResolutionInput,
+): string | undefined {
+  for (const resolve of resolvers) {
+    const tenantId = resolve(input);
+    if (tenantId === undefined) continue;
+    try {
+      return TenantId.create(tenantId).value;
+    } catch (cause) {
+      throw new InvalidRequestError({
+        message: 'Invalid tenant',
+        cause,
+        validationErrors: [{ field: 'tenant', message: 'Invalid tenant ID format' }],
+      });
+    }
+  }
+  return undefined;
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value ? value : undefined;
+}
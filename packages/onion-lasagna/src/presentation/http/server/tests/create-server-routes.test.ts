@@ -10,7 +10,31 @@ import { defineRouter } from '../../route/define-router';
 import { zodSchema } from '../../__test-utils__/zod-schema';
 import { InvalidRequestError } from '../../../exceptions/invalid-request.error';
 import { ControllerError } from '../../../exceptions/controller.error';
-import type { RawHttpRequest, HandlerContext, HandlerResponse, Middleware } from '../types';
+import { ConflictError } from '../../../../app/exceptions/conflict.error';
+import { ForbiddenError } from '../../../../app/exceptions/forbidden.error';
+import { NotFoundError } from '../../../../app/exceptions/not-found.error';
+import { UnprocessableError } from '../../../../app/exceptions/unprocessable.error';
+import { ok, err } from '../../../../global/utils/result.util';
+import { errorResponses } from '../../shared/error-responses';
+import { mapErrorToHttpResponse } from '../../shared/error-mapping';
+import { BaseInboundAdapter } from '../../../../app/classes/base-inbound-adapter.class';
+import { InMemoryIdempotencyStore } from '../../../../infra/classes/in-memory-idempotency-store.class';
+import { InMemoryFeatureFlagProvider } from '../../../../infra/classes/in-memory-feature-flag-provider.class';
+import { ContainerBuilder } from '../../../../global/container/container-builder.class';
+import { provide } from '../../../../global/container/container.class';
+import { createToken } from '../../../../global/container/token.util';
+import { getExecutionContext } from '../../../../global/utils/execution-context.util';
+import { requireTenantId } from '../../../../app/tenancy/tenant-context.util';
+import { tenantFromHeader, tenantFromSubdomain } from '../tenant-resolvers';
+import type { ExecutionContext } from '../../../../global/interfaces/types/execution-context.type';
+import type {
+  RawHttpRequest,
+  HandlerContext,
+  HandlerResponse,
+  Middleware,
+  MiddlewareFunction,
+  CreateServerRoutesOptions,
+} from '../types';
 
 // Sample schemas
 const userBodySchema = zodSchema(
@@ -88,6 +112,30 @@ const noSchemaRoute = defineRoute({
   },
 });
 
+const createUserWithErrorsRoute = defineRoute({
+  method: 'POST',
+  path: '/users',
+  request: {
+    body: { schema: userBodySchema },
+  },
+  responses: {
+    201: {
+      description: 'Created',
+      schema: zodSchema(z.object({ id: z.string() })),
+    },
+    ...errorResponses([ConflictError]),
+  },
+});
+
+const createUserRequest: RawHttpRequest = {
+  method: 'POST',
+  url: '/users',
+  headers: {},
+  body: { name: 'John', email: 'john@example.com' },
+  query: {},
+  params: {},
+};
+
 describe('createServerRoutes', () => {
   describe('route collection', () => {
     it('creates routes from router definition', () => {
@@ -696,6 +744,52 @@ describe('createServerRoutes', () => {
 
       await expect(routes[0]!.handler(rawRequest)).rejects.toThrow('Use case failed');
     });
+
+    it('passes the value of an ok result to responseMapper', async () => {
+      const responseMapperSpy = vi.fn((out) => ({ status: 201, body: out }));
+
+      const routes = createServerRoutes(
+        { create: createUserWithErrorsRoute },
+        {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: { execute: async () => ok({ id: '123' }) },
+            responseMapper: responseMapperSpy,
+          },
+        },
+      );
+
+      const response = await routes[0]!.handler(createUserRequest);
+
+      expect(responseMapperSpy).toHaveBeenCalledWith({ id: '123' });
+      expect(response).toEqual({ status: 201, body: { id: '123' } });
+    });
+
+    it('maps an err result to its error response without throwing', async () => {
+      const responseMapperSpy = vi.fn((out) => ({ status: 201, body: out }));
+
+      const routes = createServerRoutes(
+        { create: createUserWithErrorsRoute },
+        {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: {
+              execute: async () =>
+                err(new ConflictError({ message: 'Email taken', code: 'EMAIL_TAKEN' })),
+            },
+            responseMapper: responseMapperSpy,
+          },
+        },
+      );
+
+      const response = await routes[0]!.handler(createUserRequest);
+
+      expect(responseMapperSpy).not.toHaveBeenCalled();
+      expect(response).toEqual({
+        status: 409,
+        body: { message: 'Email taken', errorCode: 'EMAIL_TAKEN' },
+      });
+    });
   });
 
   describe('middleware', () => {
@@ -1536,4 +1630,462 @@ describe('createServerRoutes', () => {
       expect(routes[1]!.path).toBe('/orgs/:orgId/members/:memberId');
     });
   });
+
+  describe('idempotency', () => {
+    function createIdempotentRoutes(
+      execute: () => Promise<{ id: string }>,
+      scope?: (request: RawHttpRequest, context: HandlerContext) => string,
+    ) {
+      const store = new InMemoryIdempotencyStore();
+      const router = defineRouter({ create: createUserRoute, list: listUsersRoute });
+      const routes = createServerRoutes(
+        router,
+        {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: { execute },
+            responseMapper: (out) => ({ status: 201, body: out }),
+          },
+          list: {
+            requestMapper: () => ({}),
+            useCase: { execute: async () => [] },
+            responseMapper: () => ({ status: 200, body: [] }),
+          },
+        },
+        { idempotency: { store, scope } },
+      );
+      const create = routes.find((r) => r.method === 'POST')!;
+      return { store, create };
+    }
+
+    const withKey = (key: string): RawHttpRequest => ({
+      ...createUserRequest,
+      headers: { 'Idempotency-Key': key },
+    });
+
+    it('replays the first response for a duplicate key', async () => {
+      let counter = 0;
+      const execute = vi.fn(async () => ({ id: `user-${++counter}` }));
+      const { create } = createIdempotentRoutes(execute);
+
+      const first = await create.handler(withKey('key-1'));
+      const second = await create.handler(withKey('key-1'));
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(first).toEqual({ status: 201, body: { id: 'user-1' } });
+      expect(second).toEqual({
+        status: 201,
+        body: { id: 'user-1' },
+        headers: { 'idempotent-replayed': 'true' },
+      });
+    });
+
+    it('runs the use case for requests without a key or with a different key', async () => {
+      const execute = vi.fn(async () => ({ id: 'user-1' }));
+      const { create } = createIdempotentRoutes(execute);
+
+      await create.handler(createUserRequest);
+      await create.handler(createUserRequest);
+      await create.handler(withKey('key-1'));
+      await create.handler(withKey('key-2'));
+
+      expect(execute).toHaveBeenCalledTimes(4);
+    });
+
+    it('rejects a duplicate while the first request is in flight', async () => {
+      let finish!: () => void;
+      const execute = vi.fn(
+        () =>
+          new Promise<{ id: string }>((resolve) => {
+            finish = () => resolve({ id: 'user-1' });
+          }),
+      );
+      const { create } = createIdempotentRoutes(execute);
+
+      const first = create.handler(withKey('key-1'));
+      await vi.waitFor(() => expect(execute).toHaveBeenCalled());
+
+      const duplicate = await create.handler(withKey('key-1')).catch((e: unknown) => e);
+      expect(duplicate).toBeInstanceOf(ConflictError);
+      expect((duplicate as ConflictError).code).toBe('IDEMPOTENCY_KEY_IN_USE');
+
+      finish();
+      await expect(first).resolves.toMatchObject({ status: 201 });
+    });
+
+    it('releases the key when the use case throws', async () => {
+      const execute = vi
+        .fn<() => Promise<{ id: string }>>()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce({ id: 'user-1' });
+      const { create } = createIdempotentRoutes(execute);
+
+      await expect(create.handler(withKey('key-1'))).rejects.toThrow('boom');
+      await expect(create.handler(withKey('key-1'))).resolves.toEqual({
+        status: 201,
+        body: { id: 'user-1' },
+      });
+    });
+
+    it('ignores the header on methods that are not configured', async () => {
+      const { store, create } = createIdempotentRoutes(async () => ({ id: 'user-1' }));
+      const claim = vi.spyOn(store, 'claim');
+      const router = defineRouter({ list: listUsersRoute });
+      const [list] = createServerRoutes(
+        router,
+        {
+          list: {
+            requestMapper: () => ({}),
+            useCase: { execute: async () => [] },
+            responseMapper: () => ({ status: 200, body: [] }),
+          },
+        },
+        { idempotency: { store } },
+      );
+
+      await list!.handler({
+        method: 'GET',
+        url: '/users',
+        headers: { 'idempotency-key': 'key-1' },
+        query: {},
+        params: {},
+      });
+
+      expect(claim).not.toHaveBeenCalled();
+      expect(create).toBeDefined();
+    });
+
+    it('scopes keys per route and caller', async () => {
+      const { store, create } = createIdempotentRoutes(async () => ({ id: 'user-1' }));
+
+      await create.handler(withKey('key-1'), {
+        requestId: 'req-1',
+        tenantId: 'acme',
+        userId: 'u-1',
+      });
+
+      expect(
+        await store.claim(`${create.metadata.operationId}:acme%3Au-1:key-1`, { ttl: 60 }),
+      ).toMatchObject({
+        status: 'completed',
+        response: { response: { status: 201, body: { id: 'user-1' } } },
+      });
+    });
+
+    it('does not replay responses across actors or tenants', async () => {
+      let counter = 0;
+      const execute = vi.fn(async () => ({ id: `user-${++counter}` }));
+      const { create } = createIdempotentRoutes(execute);
+
+      const alice = await create.handler(withKey('key-1'), { requestId: 'r1', userId: 'alice' });
+      const bob = await create.handler(withKey('key-1'), { requestId: 'r2', userId: 'bob' });
+      const otherTenant = await create.handler(withKey('key-1'), {
+        requestId: 'r3',
+        userId: 'alice',
+        tenantId: 'globex',
+      });
+
+      expect(execute).toHaveBeenCalledTimes(3);
+      expect([alice.body, bob.body, otherTenant.body]).toEqual([
+        { id: 'user-1' },
+        { id: 'user-2' },
+        { id: 'user-3' },
+      ]);
+    });
+
+    it('uses the configured scope instead of the tenant and actor', async () => {
+      const execute = vi.fn(async () => ({ id: 'user-1' }));
+      const { create } = createIdempotentRoutes(execute, (request) =>
+        String(request.headers['x-api-client']),
+      );
+      const fromClient = (client: string): RawHttpRequest => ({
+        ...createUserRequest,
+        headers: { 'idempotency-key': 'key-1', 'x-api-client': client },
+      });
+
+      await create.handler(fromClient('mobile'), { requestId: 'r1', userId: 'alice' });
+      const replayed = await create.handler(fromClient('mobile'), {
+        requestId: 'r2',
+        userId: 'bob',
+      });
+      await create.handler(fromClient('web'), { requestId: 'r3', userId: 'alice' });
+
+      expect(replayed.headers).toEqual({ 'idempotent-replayed': 'true' });
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a reused key with a different request body', async () => {
+      const execute = vi.fn(async () => ({ id: 'user-1' }));
+      const { create } = createIdempotentRoutes(execute);
+
+      await create.handler(withKey('key-1'));
+      const error = await create
+        .handler({ ...withKey('key-1'), body: { name: 'Jane', email: 'jane@example.com' } })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnprocessableError);
+      expect((error as UnprocessableError).code).toBe('IDEMPOTENCY_KEY_REUSED');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('use case output schemas', () => {
+    class CreateUserUseCase extends BaseInboundAdapter<
+      { name: string; email: string },
+      { id: string }
+    > {
+      override readonly outputSchema = zodSchema(z.object({ id: z.string().uuid() }));
+
+      protected async handle() {
+        return { id: 'internal-row-17' };
+      }
+    }
+
+    it('answers output that breaks the schema with a masked 500', async () => {
+      const [create] = createServerRoutes(defineRouter({ create: createUserRoute }), {
+        create: {
+          requestMapper: (req) => req.body,
+          useCase: new CreateUserUseCase(),
+          responseMapper: (out) => ({ status: 201, body: out }),
+        },
+      });
+
+      const error = await create!.handler(createUserRequest).catch((e: unknown) => e);
+      const response = mapErrorToHttpResponse(error);
+
+      expect(response).toEqual({
+        status: 500,
+        body: { message: 'An unexpected error occurred', errorCode: 'INTERNAL_ERROR' },
+      });
+      expect(JSON.stringify(response.body)).not.toContain('output.id');
+    });
+  });
+
+  describe('scoped use cases', () => {
+    const RequestIdToken = createToken<string>('RequestId');
+    const CreateUserToken = createToken<{ execute(input: unknown): Promise<{ id: string }> }>(
+      'CreateUser',
+    );
+
+    const container = new ContainerBuilder()
+      .scopeValue(RequestIdToken)
+      .scoped(CreateUserToken, [RequestIdToken], (requestId) => ({
+        execute: async () => ({ id: requestId }),
+      }))
+      .build();
+
+    it('resolves the use case from a scope created from the request context', async () => {
+      let requests = 0;
+      const [create] = createServerRoutes(
+        defineRouter({ create: createUserRoute }),
+        {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: (scope) => scope.resolve(CreateUserToken),
+            responseMapper: (out) => ({ status: 201, body: out }),
+          },
+        },
+        {
+          createContext: () => ({ requestId: `req-${++requests}` }),
+          createScope: (ctx) => container.createScope([provide(RequestIdToken, ctx.requestId!)]),
+        },
+      );
+
+      expect((await create!.handler(createUserRequest)).body).toEqual({ id: 'req-1' });
+      expect((await create!.handler(createUserRequest)).body).toEqual({ id: 'req-2' });
+    });
+
+    it('throws at build time when no createScope option is given', () => {
+      expect(() =>
+        createServerRoutes(defineRouter({ create: createUserRoute }), {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: (scope) => scope.resolve(CreateUserToken),
+            responseMapper: (out) => ({ status: 201, body: out }),
+          },
+        }),
+      ).toThrow(
+        'Handler for route "create" resolves its use case from a scope, but no createScope option was given.',
+      );
+    });
+  });
+
+  describe('execution context', () => {
+    function createRoute(
+      seen: (ExecutionContext | undefined)[],
+      middleware?: MiddlewareFunction[],
+    ) {
+      const [create] = createServerRoutes(
+        defineRouter({ create: createUserRoute }),
+        {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: {
+              execute: async () => {
+                seen.push(getExecutionContext());
+                return { id: '1' };
+              },
+            },
+            responseMapper: (out) => ({ status: 201, body: out }),
+          },
+        },
+        middleware ? { middleware } : undefined,
+      );
+      return create!;
+    }
+
+    it('runs the use case with the request ID and actor from the context', async () => {
+      const seen: (ExecutionContext | undefined)[] = [];
+
+      await createRoute(seen).handler(createUserRequest, { requestId: 'req-1', userId: 'user-1' });
+
+      expect(seen).toEqual([{ correlationId: 'req-1', causationId: 'req-1', actorId: 'user-1' }]);
+    });
+
+    it('takes the correlation ID from the x-correlation-id header', async () => {
+      const seen: (ExecutionContext | undefined)[] = [];
+      const route = createRoute(seen, [async (_req, _ctx, next) => next()]);
+
+      await route.handler(
+        { ...createUserRequest, headers: { 'X-Correlation-Id': 'cor-1' } },
+        { requestId: 'req-1' },
+      );
+
+      expect(seen).toEqual([{ correlationId: 'cor-1', causationId: 'req-1' }]);
+    });
+  });
+
+  describe('tenancy', () => {
+    const tenantRoute = defineRoute({
+      method: 'POST',
+      path: '/projects',
+      requiresTenant: true,
+    });
+
+    function createTenantRoutes(options: CreateServerRoutesOptions = {}) {
+      const [route] = createServerRoutes(
+        defineRouter({ create: tenantRoute }),
+        {
+          create: {
+            requestMapper: () => undefined,
+            useCase: { execute: async () => ({ tenantId: requireTenantId().value }) },
+            responseMapper: (out) => ({ status: 201, body: out }),
+          },
+        },
+        options,
+      );
+      return route!;
+    }
+
+    const request: RawHttpRequest = { method: 'POST', url: '/projects', headers: {} };
+
+    it('reads the tenant from the tenantId context field by default', async () => {
+      const response = await createTenantRoutes().handler(request, { tenantId: 'acme' });
+
+      expect(response.body).toEqual({ tenantId: 'acme' });
+    });
+
+    it('uses the first configured resolver that finds a tenant', async () => {
+      const route = createTenantRoutes({
+        tenant: { resolvers: [tenantFromHeader(), tenantFromSubdomain('example.com')] },
+      });
+
+      const fromHost = await route.handler({ ...request, headers: { host: 'globex.example.com' } });
+      const fromHeader = await route.handler({
+        ...request,
+        headers: { host: 'globex.example.com', 'X-Tenant-Id': 'acme' },
+      });
+
+      expect(fromHost.body).toEqual({ tenantId: 'globex' });
+      expect(fromHeader.body).toEqual({ tenantId: 'acme' });
+    });
+
+    it('rejects routes that require a tenant when none is resolved', async () => {
+      const error = await createTenantRoutes()
+        .handler(request)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect((error as ForbiddenError).code).toBe('TENANT_REQUIRED');
+    });
+
+    it('requires a tenant on every route with tenant.required', async () => {
+      const execute = vi.fn();
+      const [route] = createServerRoutes(
+        defineRouter({ create: createUserRoute }),
+        {
+          create: {
+            requestMapper: (req) => req.body,
+            useCase: { execute },
+            responseMapper: () => ({ status: 201, body: {} }),
+          },
+        },
+        { tenant: { required: true } },
+      );
+
+      await expect(route!.handler(createUserRequest)).rejects.toThrow(ForbiddenError);
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed tenant IDs with InvalidRequestError', async () => {
+      await expect(createTenantRoutes().handler(request, { tenantId: 'acme:eu' })).rejects.toThrow(
+        InvalidRequestError,
+      );
+    });
+  });
+
+  describe('feature flags', () => {
+    const betaRoute = defineRoute({ method: 'GET', path: '/beta', featureFlag: 'beta' });
+
+    function createBetaRoute(flags: InMemoryFeatureFlagProvider, execute = vi.fn()) {
+      const [route] = createServerRoutes(
+        defineRouter({ beta: betaRoute }),
+        {
+          beta: {
+            requestMapper: () => undefined,
+            useCase: { execute },
+            responseMapper: () => ({ status: 200, body: { beta: true } }),
+          },
+        },
+        { featureFlags: flags },
+      );
+      return route!;
+    }
+
+    const request: RawHttpRequest = { method: 'GET', url: '/beta', headers: {} };
+
+    it('runs the handler while the flag is on', async () => {
+      const route = createBetaRoute(new InMemoryFeatureFlagProvider({ beta: true }));
+
+      const response = await route.handler(request);
+
+      expect(response.body).toEqual({ beta: true });
+    });
+
+    it('answers 404 without running the use case while the flag is off', async () => {
+      const execute = vi.fn();
+      const route = createBetaRoute(new InMemoryFeatureFlagProvider({ beta: false }), execute);
+
+      await expect(route.handler(request)).rejects.toThrow(NotFoundError);
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('evaluates the flag for the tenant and user of the request', async () => {
+      const flags = new InMemoryFeatureFlagProvider({ beta: true });
+      const isEnabled = vi.spyOn(flags, 'isEnabled');
+      const route = createBetaRoute(flags);
+
+      await route.handler(request, { requestId: 'r-1', userId: 'u-1', tenantId: 'acme' });
+
+      expect(isEnabled).toHaveBeenCalledWith('beta', { tenantId: 'acme', userId: 'u-1' });
+    });
+
+    it('throws at build time when a gated route has no featureFlags option', () => {
+      expect(() =>
+        createServerRoutes(defineRouter({ beta: betaRoute }), {
+          beta: { handler: async () => ({ status: 200, body: {} }) },
+        }),
+      ).toThrow(/feature flag "beta"/);
+    });
+  });
 });
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveTenantId,
+  tenantFromContext,
+  tenantFromHeader,
+  tenantFromJwtClaim,
+  tenantFromSubdomain,
+  type TenantResolutionInput,
+} from '../tenant-resolvers';
+import { InvalidRequestError } from '../../../exceptions/invalid-request.error';
+
+function input(overrides: Partial<TenantResolutionInput> = {}): TenantResolutionInput {
+  return { url: '/projects', headers: {}, context: {}, ...overrides };
+}
+
+describe('tenant resolvers', () => {
+  describe('tenantFromHeader', () => {
+    it('should read the x-tenant-id header by default', () => {
+      expect(tenantFromHeader()(input({ headers: { 'x-tenant-id': 'acme' } }))).toBe('acme');
+    });
+
+    it('should match custom header names case-insensitively', () => {
+      const resolve = tenantFromHeader('X-Org');
+
+      expect(resolve(input({ headers: { 'x-org': 'acme' } }))).toBe('acme');
+      expect(resolve(input({ headers: { 'x-org': '' } }))).toBeUndefined();
+    });
+  });
+
+  describe('tenantFromSubdomain', () => {
+    const resolve = tenantFromSubdomain('app.example.com');
+
+    it('should read the label below the root domain from the host header', () => {
+      expect(resolve(input({ headers: { host: 'Acme.app.example.com:8080' } }))).toBe('acme');
+    });
+
+    it('should fall back to an absolute request URL', () => {
+      expect(resolve(input({ url: 'https://acme.app.example.com/projects' }))).toBe('acme');
+    });
+
+    it('should ignore the root domain, foreign hosts and nested subdomains', () => {
+      expect(resolve(input({ headers: { host: 'app.example.com' } }))).toBeUndefined();
+      expect(resolve(input({ headers: { host: 'acme.other.com' } }))).toBeUndefined();
+      expect(resolve(input({ headers: { host: 'eu.acme.app.example.com' } }))).toBeUndefined();
+      expect(resolve(input())).toBeUndefined();
+    });
+  });
+
+  describe('tenantFromJwtClaim', () => {
+    it('should read a claim of the JWT payload on the context', () => {
+      const context = { jwtPayload: { sub: 'user-1', tenant_id: 'acme' } };
+
+      expect(tenantFromJwtClaim('tenant_id')(input({ context }))).toBe('acme');
+    });
+
+    it('should support a custom claims field', () => {
+      const context = { claims: { tid: 'acme' } };
+
+      expect(tenantFromJwtClaim('tid', 'claims')(input({ context }))).toBe('acme');
+    });
+
+    it('should ignore missing payloads and non-string claims', () => {
+      const resolve = tenantFromJwtClaim('tenant_id');
+
+      expect(resolve(input())).toBeUndefined();
+      expect(resolve(input({ context: { jwtPayload: { tenant_id: 42 } } }))).toBeUndefined();
+    });
+  });
+
+  describe('tenantFromContext', () => {
+    it('should read the tenantId context field', () => {
+      expect(tenantFromContext()(input({ context: { tenantId: 'acme' } }))).toBe('acme');
+      expect(tenantFromContext()(input())).toBeUndefined();
+    });
+  });
+
+  describe('resolveTenantId', () => {
+    it('should return the first tenant found', () => {
+      const resolvers = [tenantFromHeader(), tenantFromContext()];
+
+      expect(resolveTenantId(resolvers, input({ context: { tenantId: 'acme' } }))).toBe('acme');
+      expect(
+        resolveTenantId(
+          resolvers,
+          input({ headers: { 'x-tenant-id': 'globex' }, context: { tenantId: 'acme' } }),
+        ),
+      ).toBe('globex');
+      expect(resolveTenantId(resolvers, input())).toBeUndefined();
+    });
+
+    it('should reject malformed tenant IDs with InvalidRequestError', () => {
+      expect(() =>
+        resolveTenantId([tenantFromHeader()], input({ headers: { 'x-tenant-id': 'acme:eu' } })),
+      ).toThrow(InvalidRequestError);
+    });
+  });
+});
@@ -11,6 +11,11 @@ import type {
   RouterKeys,
   GetRoute,
 } from '../route/types';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
+import type { IdempotencyStorePort } from '../../../global/interfaces/ports/idempotency-store.port';
+import type { Resolver } from '../../../global/container/container.class';
+import type { FeatureFlagPort } from '../../../global/interfaces/ports/feature-flag.port';
+import type { TenantResolver } from './tenant-resolvers';
 
 // ============================================================================
 // Validated Request
@@ -182,15 +187,19 @@ export interface RouteHandlerConfig<TRoute extends RouteDefinition, TInput = voi
 
   /**
    * The use case to execute.
-   * Can be any object with an `execute` method matching `UseCasePort`.
+   * Can be any object with an `execute` method matching `UseCasePort`, or a
+   * function resolving it from the request scope (see `createScope`).
    */
-  readonly useCase: UseCasePort<TInput, TOutput>;
+  readonly useCase:
+    | UseCasePort<TInput, TOutput>
+    | ((scope: Resolver) => UseCasePort<TInput, TOutput>);
 
   /**
    * Maps the use case output to an HTTP response.
    * Determines the status code and response body.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly responseMapper: (output: TOutput) => HandlerResponse;
+  readonly responseMapper: (output: ResultValue<TOutput>) => HandlerResponse;
 
   /**
    * Middleware to run before the handler.
@@ -261,6 +270,77 @@ export type ServerRoutesConfig<T extends RouterConfig> = {
   [K in RouterKeys<T>]: RouteHandlerConfig<GetRoute<T, K>, any, any>;
 };
 
+/**
+ * Idempotency-key handling for server routes.
+ *
+ * Requests that carry the idempotency header on one of the configured
+ * methods are processed once per key, route and caller scope. The first
+ * response is stored and replayed for duplicates with an
+ * `idempotent-replayed: true` header. A duplicate that arrives while the
+ * first request is still running is rejected with 409 Conflict
+ * (`IDEMPOTENCY_KEY_IN_USE`); a reused key with a different request (URL,
+ * params, query or body) is rejected with 422 (`IDEMPOTENCY_KEY_REUSED`).
+ * If the handler throws, the key is released so the client can retry.
+ */
+export interface HttpIdempotencyOptions {
+  /** Store holding claimed keys and stored responses. */
+  readonly store: IdempotencyStorePort;
+
+  /**
+   * Request header carrying the key (case-insensitive).
+   * @default 'idempotency-key'
+   */
+  readonly header?: string;
+
+  /**
+   * Methods on which the header is honored.
+   * @default ['POST', 'PATCH']
+   */
+  readonly methods?: readonly HttpMethod[];
+
+  /**
+   * Seconds a stored response is replayed for.
+   * @default 86400
+   */
+  readonly ttl?: number;
+
+  /**
+   * Seconds an in-progress claim blocks duplicates. Bounds how long a key
+   * stays locked if the process dies mid-request.
+   * @default 60
+   */
+  readonly lockTtl?: number;
+
+  /**
+   * Returns the caller scope keys are stored under, so different callers
+   * sending the same key never see each other's responses.
+   * @default The resolved tenant and the actor of the request context
+   */
+  readonly scope?: (request: RawHttpRequest, context: HandlerContext) => string;
+}
+
+/**
+ * Tenant resolution for server routes.
+ *
+ * The resolved tenant becomes the `tenantId` of the execution context, where
+ * `requireTenantId()` and the tenant-scoped adapters read it. Routes defined
+ * with `requiresTenant: true` reject requests without a tenant with 403
+ * Forbidden (`TENANT_REQUIRED`); malformed tenant IDs are rejected with 400.
+ */
+export interface HttpTenantOptions {
+  /**
+   * Strategies tried in order; the first one that finds a tenant wins.
+   * @default [tenantFromContext()]
+   */
+  readonly resolvers?: readonly TenantResolver[];
+
+  /**
+   * Require a tenant on every route, not only on routes with `requiresTenant`.
+   * @default false
+   */
+  readonly required?: boolean;
+}
+
 /**
  * Options for creating server routes.
  */
@@ -290,6 +370,36 @@ export interface CreateServerRoutesOptions {
    */
   readonly createContext?: (rawRequest: unknown) => HandlerContext;
 
+  /**
+   * Creates the dependency scope for a request, from the context built by
+   * `createContext`. Required when a handler resolves its use case from a
+   * scope. Called at most once per request.
+   *
+   * @example
+   * ```typescript
+   * createScope: (ctx) => container.createScope([provide(RequestContext, ctx)]),
+   * ```
+   */
+  readonly createScope?: (context: HandlerContext) => Resolver;
+
+  /**
+   * Replays stored responses for retried requests carrying an idempotency key.
+   * Disabled when omitted.
+   */
+  readonly idempotency?: HttpIdempotencyOptions;
+
+  /**
+   * Resolves the tenant of each request. Without this option, the tenant is
+   * read from the `tenantId` context field.
+   */
+  readonly tenant?: HttpTenantOptions;
+
+  /**
+   * Evaluates the `featureFlag` of routes for the caller's tenant and user.
+   * Required when a route declares a feature flag.
+   */
+  readonly featureFlags?: FeatureFlagPort;
+
   /**
    * Allow partial handler configuration (not all routes need handlers).
    * When true, missing handlers are silently skipped.
@@ -10,6 +10,7 @@
 import { CodedError, getErrorTypeName } from '../../../global/exceptions/coded-error.error';
 import { ObjectValidationError } from '../../../global/exceptions/object-validation.error';
 import { DomainError } from '../../../domain/exceptions/domain.error';
+import { DomainValidationError } from '../../../domain/exceptions/domain-validation.error';
 import { UseCaseError } from '../../../app/exceptions/use-case.error';
 import { NotFoundError } from '../../../app/exceptions/not-found.error';
 import { ConflictError } from '../../../app/exceptions/conflict.error';
@@ -191,6 +192,7 @@ export function getHttpStatusCode(error: unknown): number {
   // Try instanceof first (faster)
   if (error instanceof ObjectValidationError) return 400;
   if (error instanceof InvalidRequestError) return 400;
+  if (error instanceof DomainValidationError) return 400;
   if (error instanceof UnauthorizedError) return 401;
   if (error instanceof ForbiddenError) return 403;
   if (error instanceof AccessDeniedError) return 403;
@@ -202,10 +204,12 @@ export function getHttpStatusCode(error: unknown): number {
   // Fall back to name-based checking for bundled code (e.g., _NotFoundError)
   if (isErrorType(error, 'ObjectValidationError')) return 400;
   if (isErrorType(error, 'InvalidRequestError')) return 400;
+  if (isErrorType(error, 'DomainValidationError')) return 400;
   if (isErrorType(error, 'UnauthorizedError')) return 401;
   if (isErrorType(error, 'ForbiddenError')) return 403;
   if (isErrorType(error, 'AccessDeniedError')) return 403;
   if (isErrorType(error, 'NotFoundError')) return 404;
+  if (isErrorType(error, 'ConcurrencyConflictError')) return 409;
   if (isErrorType(error, 'ConflictError')) return 409;
   if (isErrorType(error, 'UnprocessableError')) return 422;
   if (isErrorType(error, 'UseCaseError')) return 400;
@@ -226,6 +230,11 @@ export function getHttpStatusCode(error: unknown): number {
  * @returns True if error details should be hidden
  */
 export function shouldMaskError(error: unknown): boolean {
+  // Collected domain violations are client input errors, not internal details
+  if (error instanceof DomainValidationError || isErrorType(error, 'DomainValidationError')) {
+    return false;
+  }
+
   // Try instanceof first (faster)
   if (
     error instanceof DomainError ||
@@ -273,6 +282,9 @@ export function createErrorResponseBody(error: unknown): ErrorResponseBody {
   if (error instanceof InvalidRequestError) {
     return buildValidationErrorBody(error.message, error.code, error.validationErrors);
   }
+  if (error instanceof DomainValidationError) {
+    return buildValidationErrorBody(error.message, error.code, error.validationErrors);
+  }
 
   // Validation errors - fall back to name-based checking for bundled code
   if (isErrorType(error, 'ObjectValidationError') && hasValidationErrors(error)) {
@@ -281,6 +293,9 @@ export function createErrorResponseBody(error: unknown): ErrorResponseBody {
   if (isErrorType(error, 'InvalidRequestError') && hasValidationErrors(error)) {
     return buildValidationErrorBody(error.message, error.code, error.validationErrors);
   }
+  if (isErrorType(error, 'DomainValidationError') && hasValidationErrors(error)) {
+    return buildValidationErrorBody(error.message, error.code, error.validationErrors);
+  }
 
   // Other coded errors - expose message and code (try instanceof first)
   if (error instanceof CodedError) {
@@ -312,12 +327,12 @@ export function createErrorResponseBody(error: unknown): ErrorResponseBody {
  * Maps an error to a complete HTTP response structure.
  *
  * Mapping strategy (checked in order):
- * 1. `ObjectValidationError` / `InvalidRequestError` → 400 Bad Request (with field errors)
+ * 1. `ObjectValidationError` / `InvalidRequestError` / `DomainValidationError` → 400 Bad Request (with field errors)
  * 2. `UseCaseError` → 400 Bad Request
  * 3. `UnauthorizedError` → 401 Unauthorized
  * 4. `ForbiddenError` / `AccessDeniedError` → 403 Forbidden
  * 5. `NotFoundError` → 404 Not Found
- * 6. `ConflictError` → 409 Conflict
+ * 6. `ConflictError` / `ConcurrencyConflictError` → 409 Conflict
  * 7. `UnprocessableError` → 422 Unprocessable Entity
  * 8. `DomainError` / `InfraError` / `ControllerError` → 500 Internal Server Error (masked)
  * 9. Unknown → 500 Internal Server Error (masked)
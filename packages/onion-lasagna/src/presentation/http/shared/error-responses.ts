@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Route `responses` entries derived from declared error classes.
+ *
+ * Lets a route document the errors a result-mode use case declares, using the
+ * same status mapping the server applies at runtime.
+ *
+ * @module http/shared/error-responses
+ */
+
+import type { ObjectValidationError } from '../../../global/exceptions/object-validation.error';
+import type { ErrorClass, ErrorsOf } from '../../../global/utils/result.util';
+import type { DomainValidationError } from '../../../domain/exceptions/domain-validation.error';
+import type { UseCaseError } from '../../../app/exceptions/use-case.error';
+import type { NotFoundError } from '../../../app/exceptions/not-found.error';
+import type { ConflictError } from '../../../app/exceptions/conflict.error';
+import type { UnprocessableError } from '../../../app/exceptions/unprocessable.error';
+import type { ForbiddenError } from '../../../app/exceptions/forbidden.error';
+import type { UnauthorizedError } from '../../../app/exceptions/unauthorized.error';
+import type { AccessDeniedError } from '../../exceptions/access-denied.error';
+import type { InvalidRequestError } from '../../exceptions/invalid-request.error';
+import type { SchemaAdapter } from '../schema/types';
+import { getHttpStatusCode } from './error-mapping';
+
+/**
+ * HTTP status code an error type maps to.
+ * Type-level counterpart of {@link getHttpStatusCode}, checked in the same order.
+ */
+export type HttpStatusOf<E> = E extends
+  | ObjectValidationError
+  | InvalidRequestError
+  | DomainValidationError
+  ? 400
+  : E extends UnauthorizedError
+    ? 401
+    : E extends ForbiddenError | AccessDeniedError
+      ? 403
+      : E extends NotFoundError
+        ? 404
+        : E extends ConflictError
+          ? 409
+          : E extends UnprocessableError
+            ? 422
+            : E extends UseCaseError
+              ? 400
+              : 500;
+
+/**
+ * Response entries produced by {@link errorResponses}, keyed by status code.
+ */
+export type ErrorResponses<
+  TErrors extends readonly ErrorClass[],
+  TSchema extends SchemaAdapter | undefined = undefined,
+> = Readonly<
+  Record<
+    HttpStatusOf<ErrorsOf<TErrors>>,
+    TSchema extends SchemaAdapter
+      ? { readonly schema: TSchema; readonly description: string }
+      : { readonly description: string }
+  >
+>;
+
+const REASON_PHRASES: Readonly<Record<number, string>> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  500: 'Internal Server Error',
+};
+
+/**
+ * Builds `responses` entries for a list of declared error classes.
+ *
+ * Each class is mapped to its HTTP status with {@link getHttpStatusCode};
+ * classes sharing a status are listed in one description. Spread the result
+ * into `defineRoute({ responses })` so the errors appear in the OpenAPI
+ * document, pass response validation and type the client's errors.
+ *
+ * Masked errors (status 500) are documented without their class names.
+ *
+ * @param errors - Error classes the use case declares
+ * @param options - Optional schema of the error response body
+ * @returns Response entries keyed by status code
+ *
+ * @example
+ * ```typescript
+ * export const createUserErrors = [EmailTakenError, ForbiddenError] as const;
+ *
+ * const createUser = defineRoute({
+ *   method: 'POST',
+ *   path: '/users',
+ *   request: { body: zodSchema(createUserSchema) },
+ *   responses: {
+ *     201: { schema: zodSchema(userSchema), description: 'Created' },
+ *     ...errorResponses(createUserErrors),
+ *   },
+ * });
+ * // 409: 'Conflict (EmailTakenError)', 403: 'Forbidden (ForbiddenError)'
+ * ```
+ */
+export function errorResponses<
+  const TErrors extends readonly ErrorClass[],
+  TSchema extends SchemaAdapter | undefined = undefined,
+>(errors: TErrors, options?: { readonly schema?: TSchema }): ErrorResponses<TErrors, TSchema> {
+  const namesByStatus = new Map<number, string[]>();
+
+  for (const Type of errors) {
+    const status = getHttpStatusCode(Object.create(Type.prototype as object));
+    namesByStatus.set(status, [...(namesByStatus.get(status) ?? []), Type.name]);
+  }
+
+  const responses: Record<number, { schema?: SchemaAdapter; description: string }> = {};
+  for (const [status, names] of namesByStatus) {
+    const reason = REASON_PHRASES[status] ?? `Error ${status}`;
+    responses[status] = {
+      ...(options?.schema ? { schema: options.schema } : {}),
+      description: status === 500 ? reason : `${reason} (${names.join(', ')})`,
+    };
+  }
+
+  return responses as ErrorResponses<TErrors, TSchema>;
+}
@@ -5,4 +5,5 @@
  */
 
 export * from './error-mapping';
+export * from './error-responses';
 export * from './types';
@@ -13,11 +13,14 @@ import {
 } from '../error-mapping';
 import { getErrorTypeName } from '../../../../global/exceptions/coded-error.error';
 import { ObjectValidationError } from '../../../../global/exceptions/object-validation.error';
+import { OutputSchemaError } from '../../../../global/exceptions/output-schema.error';
 import { DomainError } from '../../../../domain/exceptions/domain.error';
 import { PartialLoadError } from '../../../../domain/exceptions/partial-load.error';
+import { DomainValidationError } from '../../../../domain/exceptions/domain-validation.error';
 import { UseCaseError } from '../../../../app/exceptions/use-case.error';
 import { NotFoundError } from '../../../../app/exceptions/not-found.error';
 import { ConflictError } from '../../../../app/exceptions/conflict.error';
+import { ConcurrencyConflictError } from '../../../../app/exceptions/concurrency-conflict.error';
 import { UnprocessableError } from '../../../../app/exceptions/unprocessable.error';
 import { InfraError } from '../../../../infra/exceptions/infra.error';
 import { DbError } from '../../../../infra/exceptions/db.error';
@@ -44,6 +47,14 @@ describe('error-mapping', () => {
       expect(getHttpStatusCode(error)).toBe(400);
     });
 
+    it('returns 400 for DomainValidationError', () => {
+      const error = new DomainValidationError({
+        message: 'Invalid user',
+        validationErrors: [{ field: 'email', message: 'Invalid email', code: 'INVALID_EMAIL' }],
+      });
+      expect(getHttpStatusCode(error)).toBe(400);
+    });
+
     it('returns 400 for UseCaseError', () => {
       const error = new UseCaseError({ message: 'Use case failed' });
       expect(getHttpStatusCode(error)).toBe(400);
@@ -64,6 +75,15 @@ describe('error-mapping', () => {
       expect(getHttpStatusCode(error)).toBe(409);
     });
 
+    it('returns 409 for ConcurrencyConflictError', () => {
+      const error = new ConcurrencyConflictError({
+        message: 'Stale write',
+        expectedVersion: 1,
+        actualVersion: 2,
+      });
+      expect(getHttpStatusCode(error)).toBe(409);
+    });
+
     it('returns 422 for UnprocessableError', () => {
       const error = new UnprocessableError({ message: 'Unprocessable' });
       expect(getHttpStatusCode(error)).toBe(422);
@@ -108,6 +128,14 @@ describe('error-mapping', () => {
       expect(shouldMaskError(error)).toBe(true);
     });
 
+    it('returns true for OutputSchemaError', () => {
+      const error = new OutputSchemaError({
+        message: 'output.id: Expected string',
+        validationErrors: [{ field: 'output.id', message: 'Expected string' }],
+      });
+      expect(shouldMaskError(error)).toBe(true);
+    });
+
     // C04-1 / C15-1 — InfraError subclasses must be masked
     it('returns true for DbError (InfraError subclass)', () => {
       const error = new DbError({ message: 'SELECT failed' });
@@ -155,6 +183,11 @@ describe('error-mapping', () => {
       });
       expect(shouldMaskError(error)).toBe(false);
     });
+
+    it('returns false for DomainValidationError although it is a DomainError', () => {
+      const error = new DomainValidationError({ message: 'Invalid', validationErrors: [] });
+      expect(shouldMaskError(error)).toBe(false);
+    });
   });
 
   describe('createErrorResponseBody', () => {
@@ -203,6 +236,24 @@ describe('error-mapping', () => {
       });
     });
 
+    it('includes validation errors for DomainValidationError', () => {
+      const error = new DomainValidationError({
+        message: 'Invalid user',
+        validationErrors: [
+          { field: 'email', message: 'Invalid email', code: 'INVALID_EMAIL' },
+          { field: 'address.zip', message: 'Too long', code: 'INVARIANT_VIOLATION' },
+        ],
+      });
+      expect(createErrorResponseBody(error)).toEqual({
+        message: 'Invalid user',
+        errorCode: 'DOMAIN_VALIDATION_ERROR',
+        errorItems: [
+          { item: 'email', message: 'Invalid email' },
+          { item: 'address.zip', message: 'Too long' },
+        ],
+      });
+    });
+
     it('exposes message and code for UseCaseError', () => {
       const error = new UseCaseError({
         message: 'Operation failed',
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Tests for errorResponses.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { errorResponses } from '../error-responses';
+import { defineRoute } from '../../route/define-route';
+import { generateOpenAPI } from '../../openapi/generate';
+import { zodSchema } from '../../__test-utils__/zod-schema';
+import { ConflictError } from '../../../../app/exceptions/conflict.error';
+import { ConcurrencyConflictError } from '../../../../app/exceptions/concurrency-conflict.error';
+import { ForbiddenError } from '../../../../app/exceptions/forbidden.error';
+import { NotFoundError } from '../../../../app/exceptions/not-found.error';
+import { DomainError } from '../../../../domain/exceptions/domain.error';
+
+class EmailTakenError extends ConflictError {
+  protected override get errorTypeName(): string {
+    return 'EmailTakenError';
+  }
+}
+
+describe('errorResponses', () => {
+  it('should map each error class to its HTTP status', () => {
+    expect(errorResponses([NotFoundError, ForbiddenError])).toEqual({
+      404: { description: 'Not Found (NotFoundError)' },
+      403: { description: 'Forbidden (ForbiddenError)' },
+    });
+  });
+
+  it('should group classes sharing a status', () => {
+    expect(errorResponses([EmailTakenError, ConcurrencyConflictError])).toEqual({
+      409: { description: 'Conflict (EmailTakenError, ConcurrencyConflictError)' },
+    });
+  });
+
+  it('should not list the names of masked errors', () => {
+    expect(errorResponses([DomainError])).toEqual({
+      500: { description: 'Internal Server Error' },
+    });
+  });
+
+  it('should attach the error body schema when given', () => {
+    const schema = zodSchema(z.object({ message: z.string(), errorCode: z.string() }));
+
+    expect(errorResponses([NotFoundError], { schema })).toEqual({
+      404: { schema, description: 'Not Found (NotFoundError)' },
+    });
+  });
+
+  it('should document the declared errors in OpenAPI', () => {
+    const createUser = defineRoute({
+      method: 'POST',
+      path: '/users',
+      responses: {
+        201: { description: 'Created' },
+        ...errorResponses([EmailTakenError]),
+      },
+    });
+
+    const spec = generateOpenAPI({ createUser }, { info: { title: 'API', version: '1.0.0' } });
+    const responses = spec.paths['/users']?.post?.responses;
+
+    expect(responses?.['409']).toEqual(
+      expect.objectContaining({ description: 'Conflict (EmailTakenError)' }),
+    );
+  });
+});
@@ -18,6 +18,12 @@ import type {
 import { isScheduleRouterDefinition, collectScheduledTasks } from '../task/types';
 import { generateTaskId } from '../task/utils';
 import { mapErrorToScheduleResult } from '../shared/error-mapping';
+import { isResult } from '../../../global/utils/result.util';
+import {
+  executionIdentityOf,
+  runWithExecutionContext,
+} from '../../../global/utils/execution-context.util';
+import type { ExecutionContext } from '../../../global/interfaces/types/execution-context.type';
 import type { ScheduleResult } from '../shared/types';
 import type {
   AnyScheduledTaskConfig,
@@ -28,6 +34,7 @@ import type {
   ValidatedSchedule,
 } from './types';
 import { isSimpleScheduledTaskConfig } from './types';
+import type { Resolver } from '../../../global/container/container.class';
 
 /**
  * Internal implementation for creating schedule routes.
@@ -66,6 +73,22 @@ export function createScheduleRoutesInternal<T extends ScheduleRouterConfig>(
       );
     }
 
+    if (
+      !isSimpleScheduledTaskConfig(taskConfig) &&
+      typeof taskConfig.useCase === 'function' &&
+      !resolvedOptions.createScope
+    ) {
+      throw new Error(
+        `Handler for scheduled task "${key}" resolves its use case from a scope, but no createScope option was given.`,
+      );
+    }
+
+    if (taskDef.featureFlag && !resolvedOptions.featureFlags) {
+      throw new Error(
+        `Handler for scheduled task "${key}" is gated by feature flag "${taskDef.featureFlag}", but no featureFlags option was given.`,
+      );
+    }
+
     result.push(createScheduledTask(key, taskDef, taskConfig, resolvedOptions));
   }
 
@@ -87,6 +110,16 @@ function createScheduledTask(
   const allMiddleware = [...globalMiddleware, ...middleware];
   const shouldValidatePayload = options.validatePayload ?? true;
   const errorMapper = options.errorMapper ?? mapErrorToScheduleResult;
+  const featureFlags = options.featureFlags;
+  const { createScope } = options;
+
+  // Error mapping must NEVER yield `skipped` — that outcome is reserved
+  // for explicit pipeline decisions (handler / resultMapper / middleware).
+  // Defensively coerce a stray `skipped` from an untyped (JS) custom mapper.
+  const mapError = (error: unknown): ScheduleResult => {
+    const mapped: ScheduleResult = errorMapper(error);
+    return mapped.outcome === 'skipped' ? { outcome: 'failed', reason: mapped.reason } : mapped;
+  };
 
   return {
     type: taskDef.type,
@@ -99,6 +132,21 @@ function createScheduledTask(
     },
     handler: async (raw: RawSchedule): Promise<ScheduleResult> => {
       try {
+        // Runs of a disabled feature are skipped
+        if (taskDef.featureFlag && featureFlags) {
+          const { tenantId, actorId } = executionIdentityOf(raw.metadata);
+          const enabled = await featureFlags.isEnabled(taskDef.featureFlag, {
+            tenantId,
+            userId: actorId,
+          });
+          if (!enabled) {
+            return {
+              outcome: 'skipped',
+              reason: `Feature flag "${taskDef.featureFlag}" is disabled`,
+            };
+          }
+        }
+
         // Validate context (if schema defined)
         let validatedContext: unknown = raw.metadata;
         if (taskDef.context) {
@@ -147,14 +195,23 @@ function createScheduledTask(
               validatedContext as ScheduleMetadata,
             );
 
-            const output = await useCase.execute(input);
+            const output = await resolveUseCase(useCase, createScope, raw).execute(input);
+
+            // Result-mode use cases: declared errors go through the error mapper
+            if (isResult(output)) {
+              if (!output.ok) return mapError(output.error);
+              return resultMapper ? resultMapper(output.value) : { outcome: 'completed' };
+            }
 
             return resultMapper ? resultMapper(output) : { outcome: 'completed' };
           }
         };
 
+        // Middleware and task run inside the ambient execution context
+        const executionContext = scheduleExecutionContext(raw.metadata);
+
         if (allMiddleware.length === 0) {
-          return await executePipeline();
+          return await runWithExecutionContext(executionContext, executePipeline);
         }
 
         // Build middleware chain
@@ -168,18 +225,45 @@ function createScheduledTask(
           return mw(raw, next);
         };
 
-        return await next();
+        return await runWithExecutionContext(executionContext, next);
       } catch (error) {
-        // Error mapping must NEVER yield `skipped` — that outcome is reserved
-        // for explicit pipeline decisions (handler / resultMapper / middleware).
-        // Defensively coerce a stray `skipped` from an untyped (JS) custom mapper.
-        const mapped: ScheduleResult = errorMapper(error);
-        return mapped.outcome === 'skipped' ? { outcome: 'failed', reason: mapped.reason } : mapped;
+        return mapError(error);
       }
     },
   };
 }
 
+/**
+ * Returns the use case for one scheduled run: the instance itself, or the
+ * factory applied to a fresh scope. `createScheduleRoutesInternal` already
+ * rejects factories without `createScope` at build time.
+ */
+function resolveUseCase<TInput, TOutput>(
+  useCase:
+    | { execute(input?: TInput): Promise<TOutput> }
+    | ((scope: Resolver) => { execute(input?: TInput): Promise<TOutput> }),
+  createScope: ((raw: RawSchedule) => Resolver) | undefined,
+  raw: RawSchedule,
+): { execute(input?: TInput): Promise<TOutput> } {
+  if (typeof useCase !== 'function') return useCase;
+  if (!createScope) {
+    throw new Error('The use case resolves from a scope, but no createScope option was given.');
+  }
+  return useCase(createScope(raw));
+}
+
+/**
+ * Builds the execution context of a scheduled run. Each run starts its own
+ * chain, keyed by the run ID.
+ */
+function scheduleExecutionContext(metadata: ScheduleMetadata): ExecutionContext {
+  return {
+    correlationId: metadata.runId,
+    causationId: metadata.runId,
+    ...executionIdentityOf(metadata),
+  };
+}
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
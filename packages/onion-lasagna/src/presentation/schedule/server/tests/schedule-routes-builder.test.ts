@@ -7,6 +7,12 @@ import { zodSchema } from '../../../http/__test-utils__/zod-schema';
 import type { RawSchedule } from '../types';
 import { UseCaseError } from '../../../../app/exceptions/use-case.error';
 import { InfraError } from '../../../../infra/exceptions/infra.error';
+import { ok, err } from '../../../../global/utils/result.util';
+import { InMemoryFeatureFlagProvider } from '../../../../infra/classes/in-memory-feature-flag-provider.class';
+import { ContainerBuilder } from '../../../../global/container/container-builder.class';
+import { provide } from '../../../../global/container/container.class';
+import { createToken } from '../../../../global/container/token.util';
+import { getExecutionContext } from '../../../../global/utils/execution-context.util';
 
 function rawSchedule(overrides: Partial<RawSchedule> = {}): RawSchedule {
   return {
@@ -107,6 +113,31 @@ describe('scheduleRoutes builder', () => {
     expect((await retryRoutes[0]!.handler(rawSchedule())).outcome).toBe('retry');
   });
 
+  it('unwraps ok results and maps err results with the error mapper', async () => {
+    const okRoutes = scheduleRoutes(defineScheduleRouter({ reconcile }))
+      .handleWithUseCase('reconcile', {
+        payloadMapper: () => ({}),
+        useCase: { execute: async () => ok({ processed: 0 }) },
+        resultMapper: (out) =>
+          out.processed > 0
+            ? { outcome: 'completed' }
+            : { outcome: 'skipped', reason: 'nothing due' },
+      })
+      .build();
+    await expect(okRoutes[0]!.handler(rawSchedule())).resolves.toEqual({
+      outcome: 'skipped',
+      reason: 'nothing due',
+    });
+
+    const errRoutes = scheduleRoutes(defineScheduleRouter({ reconcile }))
+      .handleWithUseCase('reconcile', {
+        payloadMapper: () => ({}),
+        useCase: { execute: async () => err(new InfraError({ message: 'db down' })) },
+      })
+      .build();
+    expect((await errRoutes[0]!.handler(rawSchedule())).outcome).toBe('retry');
+  });
+
   it('runs middleware around the handler in order', async () => {
     const order: string[] = [];
     const routes = scheduleRoutes(defineScheduleRouter({ reconcile }))
@@ -164,4 +195,104 @@ describe('scheduleRoutes builder', () => {
     expect(res).toEqual({ outcome: 'skipped', reason: 'locked' });
     expect(handler).not.toHaveBeenCalled();
   });
+
+  it('resolves the use case from a fresh scope per run', async () => {
+    const RunToken = createToken<RawSchedule>('Run');
+    const UseCaseToken = createToken<{ execute(): Promise<string> }>('UseCase');
+    const container = new ContainerBuilder()
+      .scopeValue(RunToken)
+      .scoped(UseCaseToken, [RunToken], (run) => ({ execute: async () => run.metadata.runId }))
+      .build();
+    const seen: string[] = [];
+    const routes = scheduleRoutes(defineScheduleRouter({ reconcile }))
+      .handleWithUseCase('reconcile', {
+        payloadMapper: () => undefined,
+        useCase: (scope) => scope.resolve(UseCaseToken),
+        resultMapper: (runId) => {
+          seen.push(runId);
+          return { outcome: 'completed' };
+        },
+      })
+      .build({ createScope: (run) => container.createScope([provide(RunToken, run)]) });
+
+    await routes[0]!.handler(rawSchedule());
+    await routes[0]!.handler(
+      rawSchedule({ metadata: { ...rawSchedule().metadata, runId: 'run_2' } }),
+    );
+
+    expect(seen).toEqual(['run_1', 'run_2']);
+  });
+
+  it('throws at build time when a scoped use case has no createScope option', () => {
+    const builder = scheduleRoutes(defineScheduleRouter({ reconcile })).handleWithUseCase(
+      'reconcile',
+      { payloadMapper: () => undefined, useCase: () => ({ execute: async () => undefined }) },
+    );
+
+    expect(() => builder.build()).toThrow(
+      'Handler for scheduled task "reconcile" resolves its use case from a scope, but no createScope option was given.',
+    );
+  });
+
+  it('runs each task with an execution context keyed by the run ID', async () => {
+    const seen: unknown[] = [];
+    const routes = scheduleRoutes(defineScheduleRouter({ reconcile }))
+      .handle('reconcile', async () => {
+        seen.push(getExecutionContext());
+        return { outcome: 'completed' as const };
+      })
+      .build();
+
+    await routes[0]!.handler(rawSchedule());
+    await routes[0]!.handler(
+      rawSchedule({ metadata: { ...rawSchedule().metadata, runId: 'run_2', tenantId: 't1' } }),
+    );
+
+    expect(seen).toEqual([
+      { correlationId: 'run_1', causationId: 'run_1' },
+      { correlationId: 'run_2', causationId: 'run_2', tenantId: 't1' },
+    ]);
+  });
+
+  it('skips runs without calling the task while its feature flag is off', async () => {
+    const gated = defineScheduledTask({ type: 'billing.reconcile', featureFlag: 'beta' });
+    const handler = vi.fn(async () => ({ outcome: 'completed' as const }));
+    const routes = scheduleRoutes(defineScheduleRouter({ reconcile: gated }))
+      .handle('reconcile', handler)
+      .build({ featureFlags: new InMemoryFeatureFlagProvider({ beta: false }) });
+
+    await expect(routes[0]!.handler(rawSchedule())).resolves.toEqual({
+      outcome: 'skipped',
+      reason: 'Feature flag "beta" is disabled',
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('runs tasks whose feature flag is on for the run tenant', async () => {
+    const gated = defineScheduledTask({ type: 'billing.reconcile', featureFlag: 'beta' });
+    const routes = scheduleRoutes(defineScheduleRouter({ reconcile: gated }))
+      .handle('reconcile', async () => ({ outcome: 'completed' as const }))
+      .build({
+        featureFlags: new InMemoryFeatureFlagProvider({ beta: { enabled: true, tenants: ['t1'] } }),
+      });
+
+    await expect(
+      routes[0]!.handler(rawSchedule({ metadata: { ...rawSchedule().metadata, tenantId: 't1' } })),
+    ).resolves.toEqual({ outcome: 'completed' });
+    await expect(routes[0]!.handler(rawSchedule())).resolves.toMatchObject({
+      outcome: 'skipped',
+    });
+  });
+
+  it('throws at build time when a gated task has no featureFlags option', () => {
+    const gated = defineScheduledTask({ type: 'billing.reconcile', featureFlag: 'beta' });
+    const builder = scheduleRoutes(defineScheduleRouter({ reconcile: gated })).handle(
+      'reconcile',
+      async () => ({ outcome: 'completed' as const }),
+    );
+
+    expect(() => builder.build()).toThrow(
+      'Handler for scheduled task "reconcile" is gated by feature flag "beta", but no featureFlags option was given.',
+    );
+  });
 });
@@ -10,6 +10,9 @@ import type {
   ScheduleRouterKeys,
 } from '../task/types';
 import type { ScheduleResult } from '../shared/types';
+import type { ResultValue } from '../../../global/interfaces/types/result.type';
+import type { Resolver } from '../../../global/container/container.class';
+import type { FeatureFlagPort } from '../../../global/interfaces/ports/feature-flag.port';
 
 // Re-export UseCasePort from HTTP — same interface, no duplication
 export type { UseCasePort } from '../../http/server/types';
@@ -47,6 +50,9 @@ export interface ScheduleMetadata {
   /** Timezone the trigger was evaluated in. */
   readonly timezone?: string;
 
+  /** Tenant the run is for. Becomes the `tenantId` of the execution context. */
+  readonly tenantId?: string;
+
   /** Additional metadata from the scheduling provider. */
   readonly [key: string]: unknown;
 }
@@ -112,14 +118,17 @@ export interface BuilderScheduledTaskConfig<
    */
   readonly payloadMapper: (schedule: ValidatedSchedule<T>, ctx: TypedScheduleContext<T>) => TInput;
 
-  /** The use case to execute. */
-  readonly useCase: { execute(input?: TInput): Promise<TOutput> };
+  /** The use case to execute, or a function resolving it from the run scope. */
+  readonly useCase:
+    | { execute(input?: TInput): Promise<TOutput> }
+    | ((scope: Resolver) => { execute(input?: TInput): Promise<TOutput> });
 
   /**
    * Maps the use case output to a ScheduleResult.
    * If omitted, defaults to `{ outcome: 'completed' }`.
+   * For result-mode use cases, receives the `ok` value.
    */
-  readonly resultMapper?: (output: TOutput) => ScheduleResult;
+  readonly resultMapper?: (output: ResultValue<TOutput>) => ScheduleResult;
 
   /** Middleware to run before the task. */
   readonly middleware?: readonly ScheduleMiddlewareFunction[];
@@ -205,6 +214,18 @@ export interface CreateScheduleRoutesOptions {
    */
   readonly errorMapper?: (error: unknown) => Exclude<ScheduleResult, { outcome: 'skipped' }>;
 
+  /**
+   * Creates the dependency scope for a run. Required when a task resolves
+   * its use case from a scope. Called at most once per run.
+   */
+  readonly createScope?: (schedule: RawSchedule) => Resolver;
+
+  /**
+   * Evaluates the `featureFlag` of tasks for the run's tenant and actor.
+   * Required when a task declares a feature flag.
+   */
+  readonly featureFlags?: FeatureFlagPort;
+
   /**
    * Allow partial task configuration (not all tasks need to be wired).
    * @default false
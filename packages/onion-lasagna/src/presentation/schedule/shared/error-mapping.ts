@@ -37,8 +37,11 @@ const FAILED_ERROR_TYPES = [
   'ForbiddenError',
   'UnauthorizedError',
   'InvariantViolationError',
+  // Use case output broke its declared schema — a bug, not a transient failure
+  'OutputSchemaError',
   // DomainError subclasses
   'PartialLoadError',
+  'DomainValidationError',
 ];
 
 /**
@@ -48,6 +51,7 @@ const FAILED_ERROR_TYPES = [
 const RETRY_ERROR_TYPES = [
   'NotFoundError',
   'ConflictError',
+  'ConcurrencyConflictError',
   'InfraError',
   'DbError',
   'NetworkError',
@@ -70,10 +74,11 @@ const RETRY_ERROR_TYPES = [
  * | UseCaseError                                    | failed  | Business rule rejection — permanent    |
  * | DomainError, InvariantViolationError            | failed  | Domain invariant — permanent           |
  * | UnprocessableError                              | failed  | Valid but not processable — permanent  |
+ * | OutputSchemaError                               | failed  | Use case broke its output schema — bug |
  * | AccessDeniedError, ForbiddenError, Unauthorized | failed  | Permission — permanent                 |
  * | PartialLoadError                                | failed  | Domain — permanent                     |
  * | NotFoundError                                   | retry   | Entity might not exist yet             |
- * | ConflictError                                   | retry   | Concurrent write — may resolve         |
+ * | ConflictError, ConcurrencyConflictError         | retry   | Concurrent write — may resolve         |
  * | InfraError, DbError, NetworkError, TimeoutError | retry   | Infrastructure/transient               |
  * | ExternalServiceError                            | retry   | Downstream transient                   |
  * | Unknown                                         | retry   | Conservative — don't lose runs         |
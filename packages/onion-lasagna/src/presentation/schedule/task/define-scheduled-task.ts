@@ -53,6 +53,12 @@ interface DefineScheduledTaskInput<
   /** Context validation schema (validates schedule metadata). */
   readonly context?: TContext;
 
+  /**
+   * Feature flag gating the task. While the flag is off for the run's
+   * tenant and actor, runs end as `skipped`.
+   */
+  readonly featureFlag?: string;
+
   /** Task documentation. */
   readonly docs?: {
     readonly summary?: string;
@@ -100,6 +106,7 @@ export function defineScheduledTask<
       tags: input.docs?.tags,
       deprecated: input.docs?.deprecated ?? false,
     },
+    ...(input.featureFlag ? { featureFlag: input.featureFlag } : {}),
     _types: undefined as unknown,
   };
 
@@ -66,6 +66,9 @@ export interface ScheduledTaskDefinition<
   /** Task documentation. */
   readonly docs: ScheduledTaskDocumentation;
 
+  /** Feature flag that must be on for the task to run. */
+  readonly featureFlag?: string;
+
   /**
    * Phantom types for TypeScript inference.
    * Never accessed at runtime.
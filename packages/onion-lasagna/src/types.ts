@@ -18,5 +18,11 @@
  * ```
  */
 
-export type { PaginationInput, PaginatedData } from './global/interfaces/types/pagination.type';
+export type { ExecutionContext } from './global/interfaces/types/execution-context.type';
+export type {
+  CursorPaginatedData,
+  CursorPaginationInput,
+  PaginationInput,
+  PaginatedData,
+} from './global/interfaces/types/pagination.type';
 export type { ValidationError } from './global/interfaces/types/validation-error.type';
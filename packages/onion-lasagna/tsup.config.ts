@@ -22,6 +22,7 @@ export default defineConfig({
     'events/server/index': 'src/presentation/events/server/index.ts',
     'events/shared/index': 'src/presentation/events/shared/index.ts',
     'events/asyncapi/index': 'src/presentation/events/asyncapi/index.ts',
+    'events/outbox/index': 'src/presentation/events/outbox/index.ts',
     // Schedule System
     'schedule/index': 'src/presentation/schedule/index.ts',
     'schedule/task/index': 'src/presentation/schedule/task/index.ts',
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Mapping between aggregates and table rows.
+ *
+ * @module kysely/aggregate-row-mapper
+ */
+
+/**
+ * Converts an aggregate to the row stored for it and back.
+ *
+ * Follows the `toDomain`/`toRow` convention of infrastructure mappers, so
+ * existing mapper objects can be passed as they are.
+ *
+ * @typeParam TAggregate - The aggregate root type
+ * @typeParam TRow - Row as read from the table
+ * @typeParam TNewRow - Row as written to the table
+ *
+ * @example
+ * ```typescript
+ * const OrderMapper: AggregateRowMapper<Order, Selectable<OrderTable>, Insertable<OrderTable>> = {
+ *   toDomain: (row) =>
+ *     Order.reconstitute(OrderId.create(row.id), { status: row.status, total: row.total }, row.version),
+ *   toRow: (order) => ({
+ *     id: order.id.value,
+ *     status: order.status,
+ *     total: order.total,
+ *     version: order.version,
+ *   }),
+ * };
+ * ```
+ */
+export interface AggregateRowMapper<TAggregate, TRow, TNewRow = TRow> {
+  /**
+   * Rebuilds an aggregate from its row, at the row's version.
+   */
+  toDomain(row: TRow): TAggregate;
+
+  /**
+   * Converts an aggregate to its row. The repository replaces the version
+   * column with the version being written.
+   */
+  toRow(aggregate: TAggregate): TNewRow;
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Base repository persisting aggregates to one table with Kysely.
+ *
+ * @module kysely/base-sql-repository
+ */
+
+import type { Insertable, Kysely, Selectable } from 'kysely';
+import {
+  ConcurrencyConflictError,
+  type BaseAggregateRoot,
+  type BaseValueObject,
+  type RepositoryPort,
+} from '@cosmneo/onion-lasagna';
+import type { AggregateRowMapper } from './aggregate-row-mapper.type';
+import type { KyselyUnitOfWork } from './kysely-unit-of-work';
+import { translateDbError } from './translate-db-error';
+
+/** @internal Database shape used for queries on a table chosen at runtime. */
+type UntypedDatabase = Record<string, Record<string, unknown>>;
+
+/**
+ * Options for {@link BaseSqlRepository}.
+ *
+ * @typeParam DB - Kysely database interface
+ * @typeParam TTable - Table the aggregates are stored in
+ * @typeParam TAggregate - The aggregate root type
+ * @typeParam TId - The aggregate identity type
+ */
+export interface SqlRepositoryOptions<
+  DB,
+  TTable extends keyof DB & string,
+  TAggregate,
+  TId extends BaseValueObject<unknown>,
+> {
+  /** Table the aggregates are stored in. */
+  readonly table: TTable;
+
+  /** Converts aggregates to rows and back. */
+  readonly mapper: AggregateRowMapper<TAggregate, Selectable<DB[TTable]>, Insertable<DB[TTable]>>;
+
+  /**
+   * Primary key column.
+   * @default 'id'
+   */
+  readonly idColumn?: keyof DB[TTable] & string;
+
+  /**
+   * Integer column holding the aggregate version.
+   * @default 'version'
+   */
+  readonly versionColumn?: keyof DB[TTable] & string;
+
+  /**
+   * Converts an identity to the primary key value.
+   * @default id => id.value
+   */
+  readonly toIdValue?: (id: TId) => unknown;
+}
+
+/**
+ * {@link RepositoryPort} storing each aggregate as one row of a table.
+ *
+ * Implements the optimistic concurrency contract of `RepositoryPort` in
+ * SQL:
+ *
+ * | Call | Statement | Conflict when |
+ * | ---- | --------- | ------------- |
+ * | `save` of a new aggregate (version 0) | `INSERT ... ON CONFLICT (id) DO NOTHING` | the id is taken |
+ * | `save` of a loaded aggregate | `UPDATE ... WHERE id = ? AND version = ?` | no row matches |
+ * | `delete` | `DELETE ... WHERE id = ? AND version = ?` | the row exists at another version |
+ *
+ * Conflicts throw a `ConcurrencyConflictError` with the expected and actual
+ * versions. Rows are written at `version + 1`. Driver errors are
+ * translated: unique violations on other columns become a `ConflictError`,
+ * everything else a `DbError`.
+ *
+ * Queries run on `db`, which is the active transaction inside
+ * `unitOfWork.atomicExecute`. Subclasses add their own query methods on
+ * the same `db` and may translate their errors with `translateError`.
+ *
+ * Does not extend `BaseOutboundAdapter` on purpose — concurrency conflicts
+ * must reach the use case unchanged instead of being wrapped as `InfraError`.
+ *
+ * New aggregates are inserted with `ON CONFLICT ... DO NOTHING`, which
+ * Postgres and SQLite support but MySQL does not.
+ *
+ * @typeParam DB - Kysely database interface
+ * @typeParam TTable - Table the aggregates are stored in
+ * @typeParam TAggregate - The aggregate root type
+ * @typeParam TId - The aggregate identity type
+ *
+ * @example
+ * ```typescript
+ * class OrderRepository
+ *   extends BaseSqlRepository<Database, 'orders', Order, OrderId>
+ *   implements OrderRepositoryPort
+ * {
+ *   constructor(unitOfWork: KyselyUnitOfWork<Database>) {
+ *     super(unitOfWork, { table: 'orders', mapper: OrderMapper });
+ *   }
+ *
+ *   async findByCustomer(customerId: CustomerId): Promise<Order[]> {
+ *     try {
+ *       const rows = await this.db
+ *         .selectFrom('orders')
+ *         .selectAll()
+ *         .where('customer_id', '=', customerId.value)
+ *         .execute();
+ *       return rows.map(OrderMapper.toDomain);
+ *     } catch (error) {
+ *       throw this.translateError(error, 'findByCustomer');
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export abstract class BaseSqlRepository<
+  DB,
+  TTable extends keyof DB & string,
+  TAggregate extends BaseAggregateRoot<TId, object>,
+  TId extends BaseValueObject<unknown>,
+> implements RepositoryPort<TAggregate, TId> {
+  protected readonly table: TTable;
+  protected readonly mapper: AggregateRowMapper<
+    TAggregate,
+    Selectable<DB[TTable]>,
+    Insertable<DB[TTable]>
+  >;
+  private readonly idColumn: string;
+  private readonly versionColumn: string;
+  private readonly toIdValue: (id: TId) => unknown;
+
+  /**
+   * @param unitOfWork - Unit of work providing the connection or transaction
+   * @param options - Table, mapper and column configuration
+   */
+  constructor(
+    protected readonly unitOfWork: KyselyUnitOfWork<DB>,
+    options: SqlRepositoryOptions<DB, TTable, TAggregate, TId>,
+  ) {
+    this.table = options.table;
+    this.mapper = options.mapper;
+    this.idColumn = options.idColumn ?? 'id';
+    this.versionColumn = options.versionColumn ?? 'version';
+    this.toIdValue = options.toIdValue ?? ((id) => id.value);
+  }
+
+  /**
+   * Query builder for the current call: the active transaction inside
+   * `unitOfWork.atomicExecute`, the root Kysely instance otherwise.
+   */
+  protected get db(): Kysely<DB> {
+    return this.unitOfWork.db;
+  }
+
+  async findById(id: TId): Promise<TAggregate | null> {
+    try {
+      const row = await this.untypedDb
+        .selectFrom(this.table as string)
+        .selectAll()
+        .where(this.idColumn, '=', this.toIdValue(id))
+        .executeTakeFirst();
+      return row ? this.mapper.toDomain(row as Selectable<DB[TTable]>) : null;
+    } catch (error) {
+      throw this.translateError(error, 'findById');
+    }
+  }
+
+  async save(aggregate: TAggregate): Promise<void> {
+    try {
+      const row: Record<string, unknown> = {
+        ...(this.mapper.toRow(aggregate) as Record<string, unknown>),
+        [this.versionColumn]: aggregate.version + 1,
+      };
+
+      if (aggregate.version === 0) {
+        const result = await this.untypedDb
+          .insertInto(this.table as string)
+          .values(row)
+          .onConflict((conflict) => conflict.column(this.idColumn).doNothing())
+          .executeTakeFirst();
+        if (!result.numInsertedOrUpdatedRows) throw await this.conflictError(aggregate);
+        return;
+      }
+
+      const { [this.idColumn]: _id, ...changes } = row;
+      const result = await this.untypedDb
+        .updateTable(this.table as string)
+        .set(changes)
+        .where(this.idColumn, '=', this.toIdValue(aggregate.id))
+        .where(this.versionColumn, '=', aggregate.version)
+        .executeTakeFirst();
+      if (!result.numUpdatedRows) throw await this.conflictError(aggregate);
+    } catch (error) {
+      throw this.translateError(error, 'save');
+    }
+  }
+
+  async delete(aggregate: TAggregate): Promise<void> {
+    try {
+      const result = await this.untypedDb
+        .deleteFrom(this.table as string)
+        .where(this.idColumn, '=', this.toIdValue(aggregate.id))
+        .where(this.versionColumn, '=', aggregate.version)
+        .executeTakeFirst();
+      if (result.numDeletedRows) return;
+
+      // Deleting an aggregate that is already gone is a no-op.
+      if ((await this.storedVersion(aggregate.id)) === undefined) return;
+      throw await this.conflictError(aggregate);
+    } catch (error) {
+      throw this.translateError(error, 'delete');
+    }
+  }
+
+  /**
+   * Translates an error thrown by a query of this repository.
+   *
+   * `ConflictError`s and `InfraError`s pass through; unique violations
+   * become a `ConflictError` and other driver errors a `DbError`.
+   *
+   * @param error - The caught error
+   * @param methodName - Repository method the error was thrown from
+   * @returns The error to throw
+   */
+  protected translateError(error: unknown, methodName: string): Error {
+    return translateDbError(error, `${this.constructor.name}.${methodName}`);
+  }
+
+  private get untypedDb(): Kysely<UntypedDatabase> {
+    return this.db as unknown as Kysely<UntypedDatabase>;
+  }
+
+  private async storedVersion(id: TId): Promise<number | undefined> {
+    const row = await this.untypedDb
+      .selectFrom(this.table as string)
+      .select(this.versionColumn)
+      .where(this.idColumn, '=', this.toIdValue(id))
+      .executeTakeFirst();
+    return row === undefined ? undefined : Number(row[this.versionColumn]);
+  }
+
+  private async conflictError(aggregate: TAggregate): Promise<ConcurrencyConflictError> {
+    const expectedVersion = aggregate.version;
+    const actualVersion = await this.storedVersion(aggregate.id);
+    const key = String(this.toIdValue(aggregate.id));
+
+    return new ConcurrencyConflictError({
+      message:
+        actualVersion === undefined
+          ? `Aggregate ${key} no longer exists (expected version ${expectedVersion})`
+          : `Aggregate ${key} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`,
+      expectedVersion,
+      actualVersion,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Kysely persistence adapters for onion-lasagna.
+ *
+ * Provides a transactional `UnitOfWorkPort` with savepoints for nested
+ * calls (`KyselyUnitOfWork`) and a base class for repositories storing
+ * versioned aggregates in a table (`BaseSqlRepository`). Tested against
+ * SQLite; Postgres is supported through Kysely's `PostgresDialect`.
+ *
+ * @module kysely
+ *
+ * @example
+ * ```typescript
+ * import { Kysely, PostgresDialect } from 'kysely';
+ * import { Pool } from 'pg';
+ * import { BaseSqlRepository, KyselyUnitOfWork } from '@cosmneo/onion-lasagna-kysely';
+ *
+ * const db = new Kysely<Database>({
+ *   dialect: new PostgresDialect({ pool: new Pool({ connectionString }) }),
+ * });
+ * const unitOfWork = new KyselyUnitOfWork(db);
+ * const orders = new OrderRepository(unitOfWork);
+ * ```
+ */
+
+// Unit of work
+export { KyselyUnitOfWork } from './kysely-unit-of-work';
+export type { KyselyUnitOfWorkOptions } from './kysely-unit-of-work';
+
+// Repositories
+export { BaseSqlRepository } from './base-sql-repository';
+export type { SqlRepositoryOptions } from './base-sql-repository';
+export type { AggregateRowMapper } from './aggregate-row-mapper.type';
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Transactional unit of work on top of Kysely.
+ *
+ * @module kysely/kysely-unit-of-work
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ControlledTransaction, IsolationLevel, Kysely } from 'kysely';
+import type { UnitOfWorkPort } from '@cosmneo/onion-lasagna';
+import { translateDbError } from './translate-db-error';
+
+/**
+ * Options for {@link KyselyUnitOfWork}.
+ */
+export interface KyselyUnitOfWorkOptions {
+  /**
+   * Isolation level of top-level transactions. Left to the database
+   * default when omitted; SQLite does not support setting it.
+   */
+  readonly isolationLevel?: IsolationLevel;
+}
+
+/** @internal Transaction bound to the current async context. */
+interface ActiveTransaction<DB> {
+  readonly trx: ControlledTransaction<DB>;
+
+  /** Number of savepoints created so far, used to name the next one. */
+  savepoints: number;
+}
+
+/**
+ * {@link UnitOfWorkPort} backed by Kysely transactions.
+ *
+ * The transaction is bound to the async context of `atomicExecute`, so
+ * repositories reading `db` inside the work run their queries on it without
+ * passing it around. Nested calls create a savepoint: a failing inner
+ * call rolls back to it and rethrows, and the outer transaction can catch
+ * the error and still commit.
+ *
+ * Errors thrown by the work are rethrown unchanged after the rollback.
+ * Failures to begin or commit are translated like repository errors, so
+ * a serialization failure surfaces as a `DbError` with code
+ * `DB_SERIALIZATION_FAILURE`.
+ *
+ * Works with every Kysely dialect that supports savepoints, including
+ * Postgres, MySQL and SQLite.
+ *
+ * @typeParam DB - Kysely database interface
+ *
+ * @example
+ * ```typescript
+ * const db = new Kysely<Database>({ dialect: new PostgresDialect({ pool }) });
+ * const unitOfWork = new KyselyUnitOfWork(db);
+ * const orders = new OrderRepository(unitOfWork);
+ *
+ * await unitOfWork.atomicExecute(async () => {
+ *   const order = await orders.findById(orderId); // runs in the transaction
+ *   order!.confirm();
+ *   await orders.save(order!);
+ * });
+ * ```
+ */
+export class KyselyUnitOfWork<DB> implements UnitOfWorkPort {
+  private readonly context = new AsyncLocalStorage<ActiveTransaction<DB>>();
+
+  /**
+   * @param database - Kysely instance transactions are started on
+   * @param options - Transaction options
+   */
+  constructor(
+    private readonly database: Kysely<DB>,
+    private readonly options: KyselyUnitOfWorkOptions = {},
+  ) {}
+
+  /**
+   * Query builder for the current async context: the active transaction
+   * inside `atomicExecute`, the root Kysely instance outside of it.
+   */
+  public get db(): Kysely<DB> {
+    return this.context.getStore()?.trx ?? this.database;
+  }
+
+  /** Whether the current async context runs inside `atomicExecute`. */
+  public get inTransaction(): boolean {
+    return this.context.getStore() !== undefined;
+  }
+
+  public async atomicExecute<T>(work: () => Promise<T>): Promise<T> {
+    const active = this.context.getStore();
+    return active ? this.withSavepoint(active, work) : this.withTransaction(work);
+  }
+
+  private async withTransaction<T>(work: () => Promise<T>): Promise<T> {
+    let trx: ControlledTransaction<DB>;
+    try {
+      const builder = this.database.startTransaction();
+      trx = await (
+        this.options.isolationLevel
+          ? builder.setIsolationLevel(this.options.isolationLevel)
+          : builder
+      ).execute();
+    } catch (error) {
+      throw translateDbError(error, 'beginTransaction');
+    }
+
+    let result: T;
+    try {
+      result = await this.context.run({ trx, savepoints: 0 }, work);
+    } catch (error) {
+      await rollbackQuietly(trx);
+      throw error;
+    }
+
+    try {
+      await trx.commit().execute();
+    } catch (error) {
+      // A failed commit leaves the connection checked out until rolled back.
+      await rollbackQuietly(trx);
+      throw translateDbError(error, 'commit');
+    }
+    return result;
+  }
+
+  private async withSavepoint<T>(
+    active: ActiveTransaction<DB>,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    const name = `onion_lasagna_sp_${++active.savepoints}`;
+
+    let savepoint: ControlledTransaction<DB, [string]>;
+    try {
+      savepoint = await active.trx.savepoint(name).execute();
+    } catch (error) {
+      throw translateDbError(error, 'savepoint');
+    }
+
+    let result: T;
+    try {
+      result = await work();
+    } catch (error) {
+      try {
+        await savepoint.rollbackToSavepoint(name).execute();
+      } catch {
+        // The outer transaction fails anyway; keep the original error.
+      }
+      throw error;
+    }
+
+    try {
+      await savepoint.releaseSavepoint(name).execute();
+    } catch (error) {
+      throw translateDbError(error, 'releaseSavepoint');
+    }
+    return result;
+  }
+}
+
+async function rollbackQuietly<DB>(trx: ControlledTransaction<DB>): Promise<void> {
+  try {
+    await trx.rollback().execute();
+  } catch {
+    // The original error is more useful than the rollback failure.
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview Tests for BaseSqlRepository against in-process SQLite and the
+ * Postgres dialect.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  Kysely,
+  PostgresDialect,
+  SqliteDialect,
+  sql,
+  type Insertable,
+  type PostgresPoolClient,
+  type PostgresQueryResult,
+  type Selectable,
+} from 'kysely';
+import {
+  BaseAggregateRoot,
+  BaseValueObject,
+  ConcurrencyConflictError,
+  ConflictError,
+  DbError,
+  ErrorCodes,
+} from '@cosmneo/onion-lasagna';
+import type { AggregateRowMapper } from '../aggregate-row-mapper.type';
+import { BaseSqlRepository } from '../base-sql-repository';
+import { KyselyUnitOfWork } from '../kysely-unit-of-work';
+
+class AccountId extends BaseValueObject<string> {
+  static create(value: string): AccountId {
+    return new AccountId(value);
+  }
+}
+
+interface AccountProps {
+  ownerEmail: string;
+  balance: number;
+}
+
+class Account extends BaseAggregateRoot<AccountId, AccountProps> {
+  static open(id: string, ownerEmail = `${id}@example.com`): Account {
+    return new Account(AccountId.create(id), { ownerEmail, balance: 0 });
+  }
+
+  static reconstitute(id: AccountId, props: AccountProps, version: number): Account {
+    return new Account(id, { ...props }, version);
+  }
+
+  get ownerEmail(): string {
+    return this.props.ownerEmail;
+  }
+
+  get balance(): number {
+    return this.props.balance;
+  }
+
+  deposit(amount: number): void {
+    this._props.balance += amount;
+  }
+}
+
+interface AccountTable {
+  id: string;
+  owner_email: string;
+  balance: number;
+  version: number;
+}
+
+interface TestDatabase {
+  accounts: AccountTable;
+}
+
+const AccountMapper: AggregateRowMapper<
+  Account,
+  Selectable<AccountTable>,
+  Insertable<AccountTable>
+> = {
+  toDomain: (row) =>
+    Account.reconstitute(
+      AccountId.create(row.id),
+      { ownerEmail: row.owner_email, balance: row.balance },
+      row.version,
+    ),
+  toRow: (account) => ({
+    id: account.id.value,
+    owner_email: account.ownerEmail,
+    balance: account.balance,
+    version: account.version,
+  }),
+};
+
+class AccountRepository extends BaseSqlRepository<TestDatabase, 'accounts', Account, AccountId> {
+  constructor(unitOfWork: KyselyUnitOfWork<TestDatabase>) {
+    super(unitOfWork, { table: 'accounts', mapper: AccountMapper });
+  }
+
+  async count(): Promise<number> {
+    try {
+      const { count } = await this.db
+        .selectFrom('accounts')
+        .select((eb) => eb.fn.countAll<number>().as('count'))
+        .executeTakeFirstOrThrow();
+      return Number(count);
+    } catch (error) {
+      throw this.translateError(error, 'count');
+    }
+  }
+}
+
+/**
+ * In-process SQLite database with the `accounts` table.
+ */
+async function createSqliteDatabase(): Promise<Kysely<TestDatabase>> {
+  const db = new Kysely<TestDatabase>({
+    dialect: new SqliteDialect({ database: new Database(':memory:') }),
+  });
+  await sql`
+    CREATE TABLE accounts (
+      id TEXT PRIMARY KEY,
+      owner_email TEXT NOT NULL UNIQUE,
+      balance INTEGER NOT NULL CHECK (balance >= 0),
+      version INTEGER NOT NULL
+    )
+  `.execute(db);
+  return db;
+}
+
+describe('BaseSqlRepository', () => {
+  let db: Kysely<TestDatabase>;
+  let unitOfWork: KyselyUnitOfWork<TestDatabase>;
+  let repository: AccountRepository;
+
+  beforeEach(async () => {
+    db = await createSqliteDatabase();
+    unitOfWork = new KyselyUnitOfWork(db);
+    repository = new AccountRepository(unitOfWork);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  describe('findById', () => {
+    it('returns null for unknown ids', async () => {
+      expect(await repository.findById(AccountId.create('missing'))).toBeNull();
+    });
+
+    it('maps the row back to an aggregate at the stored version', async () => {
+      const account = Account.open('acc-1', 'ada@example.com');
+      account.deposit(100);
+      await repository.save(account);
+
+      const loaded = await repository.findById(AccountId.create('acc-1'));
+
+      expect(loaded).toBeInstanceOf(Account);
+      expect(loaded!.ownerEmail).toBe('ada@example.com');
+      expect(loaded!.balance).toBe(100);
+      expect(loaded!.version).toBe(1);
+    });
+  });
+
+  describe('save', () => {
+    it('inserts new aggregates at version 1', async () => {
+      await repository.save(Account.open('acc-1'));
+
+      const row = await db.selectFrom('accounts').selectAll().executeTakeFirstOrThrow();
+      expect(row).toEqual({
+        id: 'acc-1',
+        owner_email: 'acc-1@example.com',
+        balance: 0,
+        version: 1,
+      });
+    });
+
+    it('updates loaded aggregates and bumps the version', async () => {
+      await repository.save(Account.open('acc-1'));
+      const loaded = (await repository.findById(AccountId.create('acc-1')))!;
+
+      loaded.deposit(50);
+      await repository.save(loaded);
+
+      const reloaded = (await repository.findById(AccountId.create('acc-1')))!;
+      expect(reloaded.balance).toBe(50);
+      expect(reloaded.version).toBe(2);
+    });
+
+    it('rejects stale aggregates with ConcurrencyConflictError', async () => {
+      await repository.save(Account.open('acc-1'));
+      const first = (await repository.findById(AccountId.create('acc-1')))!;
+      const second = (await repository.findById(AccountId.create('acc-1')))!;
+      await repository.save(first);
+
+      const error = await repository.save(second).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConcurrencyConflictError).message).toBe(
+        'Aggregate acc-1 was modified concurrently (expected version 1, found 2)',
+      );
+      expect((error as ConcurrencyConflictError).expectedVersion).toBe(1);
+      expect((error as ConcurrencyConflictError).actualVersion).toBe(2);
+    });
+
+    it('rejects inserting an id that is already taken', async () => {
+      await repository.save(Account.open('acc-1'));
+
+      const error = await repository
+        .save(Account.open('acc-1', 'other@example.com'))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConcurrencyConflictError).expectedVersion).toBe(0);
+      expect((error as ConcurrencyConflictError).actualVersion).toBe(1);
+    });
+
+    it('rejects updates of aggregates deleted in the meantime', async () => {
+      await repository.save(Account.open('acc-1'));
+      const loaded = (await repository.findById(AccountId.create('acc-1')))!;
+      await db.deleteFrom('accounts').execute();
+
+      const error = await repository.save(loaded).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConcurrencyConflictError).message).toBe(
+        'Aggregate acc-1 no longer exists (expected version 1)',
+      );
+      expect((error as ConcurrencyConflictError).actualVersion).toBeUndefined();
+    });
+
+    it('translates unique violations on other columns to ConflictError', async () => {
+      await repository.save(Account.open('acc-1', 'ada@example.com'));
+
+      const error = await repository
+        .save(Account.open('acc-2', 'ada@example.com'))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error).not.toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConflictError).cause).toBeInstanceOf(DbError);
+      expect(((error as ConflictError).cause as DbError).code).toBe(
+        ErrorCodes.Infra.DB_UNIQUE_VIOLATION,
+      );
+    });
+
+    it('translates other driver errors to DbError', async () => {
+      const account = Account.open('acc-1');
+      account.deposit(-1);
+
+      const error = await repository.save(account).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(DbError);
+      expect((error as DbError).message).toBe('Database error in AccountRepository.save');
+      expect((error as DbError).cause).toMatchObject({ code: 'SQLITE_CONSTRAINT_CHECK' });
+    });
+  });
+
+  describe('delete', () => {
+    it('removes the aggregate', async () => {
+      await repository.save(Account.open('acc-1'));
+      const loaded = (await repository.findById(AccountId.create('acc-1')))!;
+
+      await repository.delete(loaded);
+
+      expect(await repository.count()).toBe(0);
+    });
+
+    it('rejects stale aggregates', async () => {
+      await repository.save(Account.open('acc-1'));
+      const stale = (await repository.findById(AccountId.create('acc-1')))!;
+      const fresh = (await repository.findById(AccountId.create('acc-1')))!;
+      await repository.save(fresh);
+
+      await expect(repository.delete(stale)).rejects.toBeInstanceOf(ConcurrencyConflictError);
+      expect(await repository.count()).toBe(1);
+    });
+
+    it('is a no-op for aggregates that are already gone', async () => {
+      await repository.save(Account.open('acc-1'));
+      const loaded = (await repository.findById(AccountId.create('acc-1')))!;
+      await repository.delete(loaded);
+
+      await expect(repository.delete(loaded)).resolves.toBeUndefined();
+    });
+  });
+
+  it('translates errors of subclass queries', async () => {
+    await sql`DROP TABLE accounts`.execute(db);
+
+    const error = await repository.count().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DbError);
+    expect((error as DbError).message).toBe('Database error in AccountRepository.count');
+  });
+
+  it('runs inside the unit of work transaction', async () => {
+    await unitOfWork
+      .atomicExecute(async () => {
+        await repository.save(Account.open('acc-1'));
+        expect(await repository.count()).toBe(1);
+        throw new Error('abort');
+      })
+      .catch(() => undefined);
+
+    expect(await repository.count()).toBe(0);
+  });
+
+  describe('with the Postgres dialect', () => {
+    function createPostgresRepository(
+      respond: (sql: string) => PostgresQueryResult<unknown> | Error,
+    ) {
+      const queries: string[] = [];
+      const client = {
+        query: async (text: string) => {
+          queries.push(text);
+          const result = respond(text);
+          if (result instanceof Error) throw result;
+          return result;
+        },
+        release: () => undefined,
+      } as unknown as PostgresPoolClient;
+      const postgres = new Kysely<TestDatabase>({
+        dialect: new PostgresDialect({
+          pool: { connect: async () => client, end: async () => undefined },
+        }),
+      });
+      return { repository: new AccountRepository(new KyselyUnitOfWork(postgres)), queries };
+    }
+
+    it('inserts with ON CONFLICT DO NOTHING', async () => {
+      const { repository, queries } = createPostgresRepository(() => ({
+        command: 'INSERT',
+        rowCount: 1,
+        rows: [],
+      }));
+
+      await repository.save(Account.open('acc-1'));
+
+      expect(queries).toEqual([
+        'insert into "accounts" ("id", "owner_email", "balance", "version") values ($1, $2, $3, $4) on conflict ("id") do nothing',
+      ]);
+    });
+
+    it('updates with a version check', async () => {
+      const { repository, queries } = createPostgresRepository(() => ({
+        command: 'UPDATE',
+        rowCount: 1,
+        rows: [],
+      }));
+
+      await repository.save(
+        Account.reconstitute(AccountId.create('acc-1'), { ownerEmail: 'a@b.c', balance: 5 }, 3),
+      );
+
+      expect(queries).toEqual([
+        'update "accounts" set "owner_email" = $1, "balance" = $2, "version" = $3 where "id" = $4 and "version" = $5',
+      ]);
+    });
+
+    it('translates pg unique violations to ConflictError', async () => {
+      const { repository } = createPostgresRepository(() =>
+        Object.assign(new Error('duplicate key value violates unique constraint'), {
+          code: '23505',
+          constraint: 'accounts_owner_email_key',
+        }),
+      );
+
+      const error = await repository.save(Account.open('acc-1')).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(((error as ConflictError).cause as DbError).constraint).toBe(
+        'accounts_owner_email_key',
+      );
+    });
+  });
+});
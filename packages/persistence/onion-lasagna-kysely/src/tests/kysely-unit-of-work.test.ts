@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Tests for KyselyUnitOfWork against in-process SQLite and the
+ * Postgres dialect.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  Kysely,
+  PostgresDialect,
+  SqliteDialect,
+  sql,
+  type Generated,
+  type PostgresPoolClient,
+  type PostgresQueryResult,
+} from 'kysely';
+import { DbError, ErrorCodes } from '@cosmneo/onion-lasagna';
+import { KyselyUnitOfWork } from '../kysely-unit-of-work';
+
+interface LedgerDatabase {
+  entries: { id: Generated<number>; amount: number };
+}
+
+async function amounts(db: Kysely<LedgerDatabase>): Promise<number[]> {
+  const rows = await db.selectFrom('entries').select('amount').orderBy('id').execute();
+  return rows.map((row) => row.amount);
+}
+
+describe('KyselyUnitOfWork', () => {
+  let db: Kysely<LedgerDatabase>;
+  let unitOfWork: KyselyUnitOfWork<LedgerDatabase>;
+
+  const insert = (amount: number) =>
+    unitOfWork.db.insertInto('entries').values({ amount }).execute();
+
+  beforeEach(async () => {
+    db = new Kysely<LedgerDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') }),
+    });
+    await sql`CREATE TABLE entries (id INTEGER PRIMARY KEY AUTOINCREMENT, amount INTEGER NOT NULL)`.execute(
+      db,
+    );
+    unitOfWork = new KyselyUnitOfWork(db);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  it('commits the work and returns its result', async () => {
+    const result = await unitOfWork.atomicExecute(async () => {
+      await insert(100);
+      await insert(-40);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await amounts(db)).toEqual([100, -40]);
+  });
+
+  it('rolls back and rethrows the original error when the work fails', async () => {
+    const failure = new Error('insufficient funds');
+
+    await expect(
+      unitOfWork.atomicExecute(async () => {
+        await insert(100);
+        throw failure;
+      }),
+    ).rejects.toBe(failure);
+
+    expect(await amounts(db)).toEqual([]);
+  });
+
+  it('exposes the transaction as db only inside the work', async () => {
+    expect(unitOfWork.inTransaction).toBe(false);
+    expect(unitOfWork.db).toBe(db);
+
+    await unitOfWork.atomicExecute(async () => {
+      expect(unitOfWork.inTransaction).toBe(true);
+      expect(unitOfWork.db.isTransaction).toBe(true);
+    });
+
+    expect(unitOfWork.inTransaction).toBe(false);
+  });
+
+  describe('nested calls', () => {
+    it('commit with the outer transaction', async () => {
+      await unitOfWork.atomicExecute(async () => {
+        await insert(1);
+        await unitOfWork.atomicExecute(() => insert(2));
+      });
+
+      expect(await amounts(db)).toEqual([1, 2]);
+    });
+
+    it('roll back to their savepoint and let the outer transaction continue', async () => {
+      await unitOfWork.atomicExecute(async () => {
+        await insert(1);
+        await unitOfWork
+          .atomicExecute(async () => {
+            await insert(2);
+            throw new Error('inner failed');
+          })
+          .catch(() => undefined);
+        await insert(3);
+      });
+
+      expect(await amounts(db)).toEqual([1, 3]);
+    });
+
+    it('are rolled back with the outer transaction', async () => {
+      await unitOfWork
+        .atomicExecute(async () => {
+          await unitOfWork.atomicExecute(() => insert(1));
+          throw new Error('outer failed');
+        })
+        .catch(() => undefined);
+
+      expect(await amounts(db)).toEqual([]);
+    });
+
+    it('nest savepoints inside savepoints', async () => {
+      await unitOfWork.atomicExecute(async () => {
+        await unitOfWork.atomicExecute(async () => {
+          await insert(1);
+          await unitOfWork
+            .atomicExecute(async () => {
+              await insert(2);
+              throw new Error('innermost failed');
+            })
+            .catch(() => undefined);
+        });
+      });
+
+      expect(await amounts(db)).toEqual([1]);
+    });
+  });
+
+  it('translates failures to begin a transaction to DbError', async () => {
+    await db.destroy();
+
+    const error = await unitOfWork.atomicExecute(async () => 1).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DbError);
+    expect((error as DbError).message).toBe('Database error in beginTransaction');
+  });
+
+  describe('with the Postgres dialect', () => {
+    function createPostgresUnitOfWork(
+      respond: (sql: string) => PostgresQueryResult<unknown> | Error = () => ({
+        command: 'SELECT',
+        rowCount: 0,
+        rows: [],
+      }),
+    ) {
+      const queries: string[] = [];
+      const client = {
+        query: async (text: string) => {
+          queries.push(text);
+          const result = respond(text);
+          if (result instanceof Error) throw result;
+          return result;
+        },
+        release: () => undefined,
+      } as unknown as PostgresPoolClient;
+      const postgres = new Kysely<LedgerDatabase>({
+        dialect: new PostgresDialect({
+          pool: { connect: async () => client, end: async () => undefined },
+        }),
+      });
+      return { postgres, queries };
+    }
+
+    it('uses savepoints for nested calls', async () => {
+      const { postgres, queries } = createPostgresUnitOfWork();
+      const uow = new KyselyUnitOfWork(postgres);
+
+      await uow.atomicExecute(async () => {
+        await uow.atomicExecute(async () => undefined);
+        await uow
+          .atomicExecute(async () => {
+            throw new Error('inner failed');
+          })
+          .catch(() => undefined);
+      });
+
+      expect(queries).toEqual([
+        'begin',
+        'savepoint "onion_lasagna_sp_1"',
+        'release "onion_lasagna_sp_1"',
+        'savepoint "onion_lasagna_sp_2"',
+        'rollback to "onion_lasagna_sp_2"',
+        'commit',
+      ]);
+    });
+
+    it('starts transactions at the configured isolation level', async () => {
+      const { postgres, queries } = createPostgresUnitOfWork();
+
+      await new KyselyUnitOfWork(postgres, { isolationLevel: 'serializable' }).atomicExecute(
+        async () => undefined,
+      );
+
+      expect(queries).toEqual(['start transaction isolation level serializable', 'commit']);
+    });
+
+    it('translates commit failures and rolls back', async () => {
+      const { postgres, queries } = createPostgresUnitOfWork((text) =>
+        text === 'commit'
+          ? Object.assign(new Error('could not serialize access'), { code: '40001' })
+          : { command: 'SELECT', rowCount: 0, rows: [] },
+      );
+
+      const error = await new KyselyUnitOfWork(postgres)
+        .atomicExecute(async () => undefined)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(DbError);
+      expect((error as DbError).code).toBe(ErrorCodes.Infra.DB_SERIALIZATION_FAILURE);
+      expect(queries).toEqual(['begin', 'commit', 'rollback']);
+    });
+  });
+});
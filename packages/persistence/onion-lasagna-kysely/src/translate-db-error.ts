@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Translation of driver errors raised through Kysely.
+ *
+ * @module kysely/translate-db-error
+ */
+
+import {
+  ConflictError,
+  DbError,
+  ErrorCodes,
+  InfraError,
+  classifyInfraError,
+  classifySqlError,
+} from '@cosmneo/onion-lasagna';
+
+/**
+ * Translates an error thrown by a query into the error callers should see.
+ *
+ * - `ConflictError`s (including `ConcurrencyConflictError`) and
+ *   `InfraError`s are returned unchanged.
+ * - Unique violations become a `ConflictError` with the classified
+ *   `DbError` as cause.
+ * - Other driver errors become a `DbError`, with a `DB_*` code when the
+ *   SQL classifier recognises them.
+ *
+ * @param error - The caught error
+ * @param operation - Operation name used in messages
+ * @returns The translated error
+ *
+ * @internal
+ */
+export function translateDbError(error: unknown, operation: string): Error {
+  if (error instanceof ConflictError || error instanceof InfraError) return error;
+
+  const classified = classifyInfraError(error, operation, [classifySqlError]);
+  if (!(classified instanceof DbError)) {
+    return new DbError({ message: `Database error in ${operation}`, cause: error });
+  }
+  if (classified.code === ErrorCodes.Infra.DB_UNIQUE_VIOLATION) {
+    return new ConflictError({ message: 'Resource already exists', cause: classified });
+  }
+  return classified;
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview ArkType list query schema (sort and filter parameters).
+ *
+ * Builds a query schema accepting `sort` and whitelisted `filter[...]`
+ * parameters, documented one by one in OpenAPI, and validated into a typed
+ * `{ sort, filter }` structure.
+ *
+ * @module schemas/list-query
+ */
+
+import { type, Type } from 'arktype';
+import {
+  listQueryParameters,
+  withListQuery,
+  type ListQuery,
+  type ListQueryOptions,
+} from '@cosmneo/onion-lasagna/http/schema';
+import type { SchemaAdapter } from '@cosmneo/onion-lasagna/http/schema/types';
+import { arktypeSchema } from '../arktype.adapter';
+
+const single = type('string');
+const multiple = type('string | string[]');
+
+/**
+ * Creates a query schema adapter for a list endpoint.
+ *
+ * Unknown `filter[...]` parameters, unknown sort fields and values that do
+ * not match the field type are reported as validation issues on the
+ * offending parameter.
+ *
+ * @param options - Sortable and filterable fields
+ * @param extend - Additional query parameters as an object type (e.g. pagination or search)
+ * @returns Schema adapter whose output is the extra parameters plus `sort` and `filter`
+ *
+ * @example
+ * ```typescript
+ * const query = listQuery(
+ *   {
+ *     sortable: ['createdAt', 'total'],
+ *     filterable: { status: ['eq', 'in'], total: { operators: ['gte'], type: 'number' } },
+ *     defaultSort: '-createdAt',
+ *   },
+ *   pagination.input,
+ * );
+ * // ?sort=-total&filter[status][in]=placed,shipped&page=2
+ * // { page: 2, pageSize: 10, sort: [...], filter: [...] }
+ * ```
+ */
+export function listQuery<
+  const TSort extends string = never,
+  const TFilter extends string = never,
+  TExtend extends Type<object> = Type<Record<never, never>>,
+>(
+  options: ListQueryOptions<TSort, TFilter>,
+  extend?: TExtend,
+): SchemaAdapter<TExtend['infer'] & ListQuery<TSort, TFilter>, TExtend['inferIn']> {
+  const definition: Record<string, Type> = {};
+  for (const parameter of listQueryParameters(options)) {
+    const value = parameter.multiple ? multiple : single;
+    definition[`${parameter.name}?`] = value.configure({ description: parameter.description });
+  }
+
+  const parameters = type(definition) as Type<Record<string, unknown>>;
+  const schema = extend ? (extend as Type<object>).merge(parameters) : parameters;
+
+  return withListQuery(arktypeSchema(schema), options) as SchemaAdapter<
+    TExtend['infer'] & ListQuery<TSort, TFilter>,
+    TExtend['inferIn']
+  >;
+}
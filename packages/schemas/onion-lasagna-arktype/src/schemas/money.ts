@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Pre-built ArkType money schemas.
+ *
+ * Provides reusable schemas for monetary amounts at the API boundary,
+ * matching the core `BaseMoneyVo` representations. Amounts travel as
+ * decimal strings or integer minor units — never as floating-point numbers.
+ *
+ * @module schemas/money
+ */
+
+import { type } from 'arktype';
+
+const currency = type(/^[A-Z]{3}$/);
+
+export const money = {
+  /** ISO 4217 alphabetic currency code (e.g. `'EUR'`). */
+  currency,
+
+  /**
+   * Decimal string representation, as produced by `BaseMoneyVo.value`.
+   *
+   * Precision against the currency is checked by `BaseMoneyVo.create`.
+   */
+  decimal: type({ amount: /^-?\d+(\.\d+)?$/, currency }),
+
+  /**
+   * Integer minor units representation, accepted by `BaseMoneyVo.fromMinor`.
+   */
+  minor: type({ amountMinor: 'number%1', currency }),
+};
@@ -22,6 +22,17 @@ const coercedPageSize = type('string | number')
   .to('1 <= number%1 <= 100')
   .default(10);
 
+const cursor = type('string > 0').configure({
+  description:
+    'Opaque cursor from a previous page (`nextCursor` or `prevCursor`). Omit for the first page.',
+});
+
+const coercedLimit = type('string | number')
+  .pipe((v) => Number(v))
+  .to('1 <= number%1 <= 100')
+  .configure({ description: 'Maximum number of items to return.' })
+  .default(20);
+
 export const pagination = {
   /**
    * Query params schema for paginated list requests.
@@ -39,4 +50,26 @@ export const pagination = {
    */
   response: <T extends Type>(itemSchema: T) =>
     type({ items: itemSchema.array(), total: 'number%1 >= 0' }),
+
+  /**
+   * Query params schema for cursor-paginated list requests.
+   *
+   * `cursor` is the opaque `nextCursor` / `prevCursor` of a previous page,
+   * validated by `BaseCursorPaginationVo.create`.
+   */
+  cursorInput: type({ 'cursor?': cursor, limit: coercedLimit }),
+
+  /**
+   * Factory for cursor-paginated response schemas.
+   *
+   * @param itemSchema - ArkType schema for individual items in the list
+   * @returns ArkType schema for `{ items: T[], nextCursor, prevCursor, hasMore }`
+   */
+  cursorResponse: <T extends Type>(itemSchema: T) =>
+    type({
+      items: itemSchema.array(),
+      nextCursor: 'string | null',
+      prevCursor: 'string | null',
+      hasMore: 'boolean',
+    }),
 };
@@ -1,2 +1,4 @@
 export { typeboxSchema, Type } from './typebox.adapter';
+export { listQuery } from './schemas/list-query';
+export { money } from './schemas/money';
 export { pagination } from './schemas/pagination';
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview TypeBox list query schema (sort and filter parameters).
+ *
+ * Builds a query schema accepting `sort` and whitelisted `filter[...]`
+ * parameters, documented one by one in OpenAPI, and validated into a typed
+ * `{ sort, filter }` structure.
+ *
+ * @module schemas/list-query
+ */
+
+import { Type } from '@sinclair/typebox';
+import type { Static, StaticEncode, TObject, TProperties, TSchema } from '@sinclair/typebox';
+import {
+  listQueryParameters,
+  withListQuery,
+  type ListQuery,
+  type ListQueryOptions,
+} from '@cosmneo/onion-lasagna/http/schema';
+import type { SchemaAdapter } from '@cosmneo/onion-lasagna/http/schema/types';
+import { typeboxSchema } from '../typebox.adapter';
+
+/**
+ * Creates a query schema adapter for a list endpoint.
+ *
+ * Unknown `filter[...]` parameters, unknown sort fields and values that do
+ * not match the field type are reported as validation issues on the
+ * offending parameter.
+ *
+ * @param options - Sortable and filterable fields
+ * @param extend - Additional query parameters (e.g. search)
+ * @returns Schema adapter whose output is the extra parameters plus `sort` and `filter`
+ *
+ * @example
+ * ```typescript
+ * const query = listQuery(
+ *   {
+ *     sortable: ['createdAt', 'total'],
+ *     filterable: { status: ['eq', 'in'], total: { operators: ['gte'], type: 'number' } },
+ *     defaultSort: '-createdAt',
+ *   },
+ *   { search: Type.Optional(Type.String()) },
+ * );
+ * // ?sort=-total&filter[status][in]=placed,shipped&search=abc
+ * // { search: 'abc', sort: [...], filter: [...] }
+ * ```
+ */
+export function listQuery<
+  const TSort extends string = never,
+  const TFilter extends string = never,
+  TExtend extends TProperties = Record<never, never>,
+>(
+  options: ListQueryOptions<TSort, TFilter>,
+  extend?: TExtend,
+): SchemaAdapter<
+  Static<TObject<TExtend>> & ListQuery<TSort, TFilter>,
+  StaticEncode<TObject<TExtend>>
+> {
+  const properties: Record<string, TSchema> = {};
+  for (const parameter of listQueryParameters(options)) {
+    const value = parameter.multiple
+      ? Type.Union([Type.String(), Type.Array(Type.String())], {
+          description: parameter.description,
+        })
+      : Type.String({ description: parameter.description });
+    properties[parameter.name] = Type.Optional(value);
+  }
+
+  return withListQuery(
+    typeboxSchema(Type.Object({ ...extend, ...properties })),
+    options,
+  ) as SchemaAdapter<
+    Static<TObject<TExtend>> & ListQuery<TSort, TFilter>,
+    StaticEncode<TObject<TExtend>>
+  >;
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Pre-built TypeBox money schemas.
+ *
+ * Provides reusable schemas for monetary amounts at the API boundary,
+ * matching the core `BaseMoneyVo` representations. Amounts travel as
+ * decimal strings or integer minor units — never as floating-point numbers.
+ *
+ * @module schemas/money
+ */
+
+import { Type } from '@sinclair/typebox';
+
+const currency = Type.String({ pattern: '^[A-Z]{3}$' });
+
+export const money = {
+  /** ISO 4217 alphabetic currency code (e.g. `'EUR'`). */
+  currency,
+
+  /**
+   * Decimal string representation, as produced by `BaseMoneyVo.value`.
+   *
+   * Precision against the currency is checked by `BaseMoneyVo.create`.
+   *
+   * @example
+   * ```typescript
+   * typeboxSchema(Type.Object({ price: money.decimal }))
+   * // { price: { amount: '19.99', currency: 'EUR' } }
+   * ```
+   */
+  decimal: Type.Object({
+    amount: Type.String({ pattern: '^-?\\d+(\\.\\d+)?$' }),
+    currency,
+  }),
+
+  /**
+   * Integer minor units representation, accepted by `BaseMoneyVo.fromMinor`.
+   */
+  minor: Type.Object({
+    amountMinor: Type.Integer(),
+    currency,
+  }),
+};
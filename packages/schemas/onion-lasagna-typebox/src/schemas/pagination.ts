@@ -47,4 +47,42 @@ export const pagination = {
       items: Type.Array(itemSchema),
       total: Type.Integer({ minimum: 0 }),
     }),
+
+  /**
+   * Query params schema for cursor-paginated list requests.
+   *
+   * `cursor` is the opaque `nextCursor` / `prevCursor` of a previous page,
+   * validated by `BaseCursorPaginationVo.create`.
+   */
+  cursorInput: Type.Object({
+    cursor: Type.Optional(
+      Type.String({
+        minLength: 1,
+        description:
+          'Opaque cursor from a previous page (`nextCursor` or `prevCursor`). Omit for the first page.',
+      }),
+    ),
+    limit: Type.Optional(
+      Type.Integer({
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+        description: 'Maximum number of items to return.',
+      }),
+    ),
+  }),
+
+  /**
+   * Factory for cursor-paginated response schemas.
+   *
+   * @param itemSchema - TypeBox schema for individual items in the list
+   * @returns TypeBox schema for `{ items: T[], nextCursor, prevCursor, hasMore }`
+   */
+  cursorResponse: <T extends TSchema>(itemSchema: T) =>
+    Type.Object({
+      items: Type.Array(itemSchema),
+      nextCursor: Type.Union([Type.String(), Type.Null()]),
+      prevCursor: Type.Union([Type.String(), Type.Null()]),
+      hasMore: Type.Boolean(),
+    }),
 };
@@ -1,2 +1,4 @@
 export { valibotSchema } from './valibot.adapter';
+export { listQuery } from './schemas/list-query';
+export { money } from './schemas/money';
 export { pagination } from './schemas/pagination';
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Valibot list query schema (sort and filter parameters).
+ *
+ * Builds a query schema accepting `sort` and whitelisted `filter[...]`
+ * parameters, documented one by one in OpenAPI, and validated into a typed
+ * `{ sort, filter }` structure.
+ *
+ * @module schemas/list-query
+ */
+
+import * as v from 'valibot';
+import type { GenericSchema, ObjectEntries } from 'valibot';
+import {
+  listQueryParameters,
+  withListQuery,
+  type ListQuery,
+  type ListQueryOptions,
+} from '@cosmneo/onion-lasagna/http/schema';
+import type { SchemaAdapter } from '@cosmneo/onion-lasagna/http/schema/types';
+import { valibotSchema } from '../valibot.adapter';
+
+/**
+ * Creates a query schema adapter for a list endpoint.
+ *
+ * Unknown `filter[...]` parameters, unknown sort fields and values that do
+ * not match the field type are reported as validation issues on the
+ * offending parameter.
+ *
+ * @param options - Sortable and filterable fields
+ * @param extend - Additional query parameters (e.g. pagination or search)
+ * @returns Schema adapter whose output is the extra parameters plus `sort` and `filter`
+ *
+ * @example
+ * ```typescript
+ * const query = listQuery(
+ *   {
+ *     sortable: ['createdAt', 'total'],
+ *     filterable: { status: ['eq', 'in'], total: { operators: ['gte'], type: 'number' } },
+ *     defaultSort: '-createdAt',
+ *   },
+ *   pagination.input.entries,
+ * );
+ * // ?sort=-total&filter[status][in]=placed,shipped&page=2
+ * // { page: 2, pageSize: 10, sort: [...], filter: [...] }
+ * ```
+ */
+export function listQuery<
+  const TSort extends string = never,
+  const TFilter extends string = never,
+  TEntries extends ObjectEntries = Record<never, never>,
+>(
+  options: ListQueryOptions<TSort, TFilter>,
+  extend?: TEntries,
+): SchemaAdapter<
+  v.InferOutput<v.ObjectSchema<TEntries, undefined>> & ListQuery<TSort, TFilter>,
+  v.InferInput<v.ObjectSchema<TEntries, undefined>>
+> {
+  const entries: Record<string, GenericSchema> = {};
+  for (const parameter of listQueryParameters(options)) {
+    const value = parameter.multiple ? v.union([v.string(), v.array(v.string())]) : v.string();
+    entries[parameter.name] = v.optional(v.pipe(value, v.description(parameter.description)));
+  }
+
+  return withListQuery(
+    valibotSchema(v.object({ ...extend, ...entries })),
+    options,
+  ) as SchemaAdapter<
+    v.InferOutput<v.ObjectSchema<TEntries, undefined>> & ListQuery<TSort, TFilter>,
+    v.InferInput<v.ObjectSchema<TEntries, undefined>>
+  >;
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Pre-built Valibot money schemas.
+ *
+ * Provides reusable schemas for monetary amounts at the API boundary,
+ * matching the core `BaseMoneyVo` representations. Amounts travel as
+ * decimal strings or integer minor units — never as floating-point numbers.
+ *
+ * @module schemas/money
+ */
+
+import * as v from 'valibot';
+
+const currency = v.pipe(v.string(), v.regex(/^[A-Z]{3}$/));
+
+export const money = {
+  /** ISO 4217 alphabetic currency code (e.g. `'EUR'`). */
+  currency,
+
+  /**
+   * Decimal string representation, as produced by `BaseMoneyVo.value`.
+   *
+   * Precision against the currency is checked by `BaseMoneyVo.create`.
+   *
+   * @example
+   * ```typescript
+   * valibotSchema(v.object({ price: money.decimal }))
+   * // { price: { amount: '19.99', currency: 'EUR' } }
+   * ```
+   */
+  decimal: v.object({
+    amount: v.pipe(v.string(), v.regex(/^-?\d+(\.\d+)?$/)),
+    currency,
+  }),
+
+  /**
+   * Integer minor units representation, accepted by `BaseMoneyVo.fromMinor`.
+   */
+  minor: v.object({
+    amountMinor: v.pipe(v.number(), v.integer()),
+    currency,
+  }),
+};
@@ -58,4 +58,48 @@ export const pagination = {
       items: v.array(itemSchema),
       total: v.number(),
     }),
+
+  /**
+   * Query params schema for cursor-paginated list requests.
+   *
+   * `cursor` is the opaque `nextCursor` / `prevCursor` of a previous page,
+   * validated by `BaseCursorPaginationVo.create`.
+   */
+  cursorInput: v.object({
+    cursor: v.optional(
+      v.pipe(
+        v.string(),
+        v.minLength(1),
+        v.description(
+          'Opaque cursor from a previous page (`nextCursor` or `prevCursor`). Omit for the first page.',
+        ),
+      ),
+    ),
+    limit: v.optional(
+      v.pipe(
+        v.unknown(),
+        v.transform(Number),
+        v.number(),
+        v.integer(),
+        v.minValue(1),
+        v.maxValue(100),
+        v.description('Maximum number of items to return.'),
+      ),
+      20,
+    ),
+  }),
+
+  /**
+   * Factory for cursor-paginated response schemas.
+   *
+   * @param itemSchema - Valibot schema for individual items in the list
+   * @returns Valibot schema for `{ items: T[], nextCursor, prevCursor, hasMore }`
+   */
+  cursorResponse: <T extends GenericSchema>(itemSchema: T) =>
+    v.object({
+      items: v.array(itemSchema),
+      nextCursor: v.nullable(v.string()),
+      prevCursor: v.nullable(v.string()),
+      hasMore: v.boolean(),
+    }),
 };
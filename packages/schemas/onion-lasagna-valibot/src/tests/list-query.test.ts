@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Tests for the Valibot list query schema.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as v from 'valibot';
+import { listQuery } from '../schemas/list-query';
+import { pagination } from '../schemas/pagination';
+
+describe('listQuery (Valibot)', () => {
+  const schema = listQuery(
+    {
+      sortable: ['createdAt', 'total'],
+      filterable: {
+        status: ['eq', 'in'],
+        total: { operators: ['gte'], type: 'number' },
+      },
+      defaultSort: '-createdAt',
+    },
+    { ...pagination.input.entries, search: v.optional(v.string()) },
+  );
+
+  it('parses sort and filter parameters alongside extra ones', () => {
+    const result = schema.validate({
+      sort: 'total',
+      'filter[status][in]': ['placed', 'shipped'],
+      'filter[total][gte]': '100',
+      page: '2',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        page: 2,
+        pageSize: 10,
+        sort: [{ field: 'total', direction: 'asc' }],
+        filter: [
+          { type: 'condition', field: 'status', operator: 'in', value: ['placed', 'shipped'] },
+          { type: 'condition', field: 'total', operator: 'gte', value: 100 },
+        ],
+      },
+    });
+  });
+
+  it('applies the default sort', () => {
+    const result = schema.validate({});
+
+    expect(result.success && result.data.sort).toEqual([{ field: 'createdAt', direction: 'desc' }]);
+  });
+
+  it('reports invalid parameters by name', () => {
+    const result = schema.validate({
+      sort: 'secret',
+      'filter[owner]': 'me',
+      'filter[total][gte]': 'many',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((issue) => issue.path.join('.'))).toEqual([
+        'filter[owner]',
+        'sort',
+        'filter[total][gte]',
+      ]);
+    }
+  });
+
+  it('documents each parameter in JSON Schema', () => {
+    const jsonSchema = schema.toJsonSchema();
+    const properties = jsonSchema.properties ?? {};
+
+    expect(Object.keys(properties)).toEqual(
+      expect.arrayContaining(['sort', 'filter[status]', 'filter[total][gte]', 'page', 'search']),
+    );
+    expect(properties['sort']?.description).toContain('Allowed: createdAt, total');
+  });
+});
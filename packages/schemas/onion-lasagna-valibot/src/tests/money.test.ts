@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Tests for Valibot money schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { valibotSchema } from '../valibot.adapter';
+import { money } from '../schemas/money';
+
+describe('money (Valibot)', () => {
+  describe('currency', () => {
+    it('accepts ISO 4217 codes', () => {
+      expect(valibotSchema(money.currency).validate('EUR').success).toBe(true);
+    });
+
+    it('rejects lowercase or malformed codes', () => {
+      const schema = valibotSchema(money.currency);
+
+      expect(schema.validate('eur').success).toBe(false);
+      expect(schema.validate('EURO').success).toBe(false);
+    });
+  });
+
+  describe('decimal', () => {
+    it('accepts decimal string amounts', () => {
+      const schema = valibotSchema(money.decimal);
+      const result = schema.validate({ amount: '-19.99', currency: 'EUR' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ amount: '-19.99', currency: 'EUR' });
+      }
+    });
+
+    it('rejects numeric amounts', () => {
+      const schema = valibotSchema(money.decimal);
+
+      expect(schema.validate({ amount: 19.99, currency: 'EUR' }).success).toBe(false);
+    });
+
+    it('rejects malformed amount strings', () => {
+      const schema = valibotSchema(money.decimal);
+
+      expect(schema.validate({ amount: '1,00', currency: 'EUR' }).success).toBe(false);
+      expect(schema.validate({ amount: '1e3', currency: 'EUR' }).success).toBe(false);
+    });
+  });
+
+  describe('minor', () => {
+    it('accepts integer minor units', () => {
+      const schema = valibotSchema(money.minor);
+
+      expect(schema.validate({ amountMinor: 1999, currency: 'EUR' }).success).toBe(true);
+    });
+
+    it('rejects fractional minor units', () => {
+      const schema = valibotSchema(money.minor);
+
+      expect(schema.validate({ amountMinor: 19.99, currency: 'EUR' }).success).toBe(false);
+    });
+
+    it('rejects a missing currency', () => {
+      const schema = valibotSchema(money.minor);
+
+      expect(schema.validate({ amountMinor: 1999 }).success).toBe(false);
+    });
+  });
+});
@@ -1,2 +1,3 @@
 export { zodV3Schema } from './zod-v3.adapter';
+export { listQuery } from './schemas/list-query';
 export { pagination } from './schemas/pagination';
@@ -139,4 +139,73 @@ describe('pagination (Zod v3)', () => {
       expect(props.items.type).toBe('array');
     });
   });
+
+  describe('cursorInput', () => {
+    it('applies the default limit when empty object', () => {
+      const schema = zodV3Schema(pagination.cursorInput);
+      const result = schema.validate({});
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ limit: 20 });
+      }
+    });
+
+    it('coerces the limit and keeps the cursor', () => {
+      const schema = zodV3Schema(pagination.cursorInput);
+      const result = schema.validate({ cursor: 'eyJrIjp7fX0.sig', limit: '5' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ cursor: 'eyJrIjp7fX0.sig', limit: 5 });
+      }
+    });
+
+    it('rejects an empty cursor', () => {
+      const schema = zodV3Schema(pagination.cursorInput);
+      const result = schema.validate({ cursor: '', limit: 10 });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects limit > 100', () => {
+      const schema = zodV3Schema(pagination.cursorInput);
+      const result = schema.validate({ limit: 101 });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('generates JSON Schema with an optional cursor', () => {
+      const jsonSchema = zodV3Schema(pagination.cursorInput).toJsonSchema();
+      const props = jsonSchema.properties as Record<string, Record<string, unknown>>;
+
+      expect(props.cursor.type).toBe('string');
+      expect(props.limit.default).toBe(20);
+      expect(jsonSchema.required ?? []).not.toContain('cursor');
+      expect(props.cursor.description).toContain('Opaque cursor');
+    });
+  });
+
+  describe('cursorResponse', () => {
+    const itemSchema = z.object({ id: z.string() });
+
+    it('validates a cursor-paginated response', () => {
+      const schema = zodV3Schema(pagination.cursorResponse(itemSchema));
+      const result = schema.validate({
+        items: [{ id: '1' }],
+        nextCursor: 'abc.def',
+        prevCursor: null,
+        hasMore: true,
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects missing hasMore', () => {
+      const schema = zodV3Schema(pagination.cursorResponse(itemSchema));
+      const result = schema.validate({ items: [], nextCursor: null, prevCursor: null });
+
+      expect(result.success).toBe(false);
+    });
+  });
 });
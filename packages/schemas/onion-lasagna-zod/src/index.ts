@@ -1,4 +1,6 @@
 export { zodSchema } from './zod.adapter';
 export { zodMiniSchema } from './zod-mini.adapter';
+export { listQuery } from './schemas/list-query';
+export { money } from './schemas/money';
 export { pagination } from './schemas/pagination';
 export { paginationMini } from './schemas/pagination-mini';
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Zod v4 list query schema (sort and filter parameters).
+ *
+ * Builds a query schema accepting `sort` and whitelisted `filter[...]`
+ * parameters, documented one by one in OpenAPI, and validated into a typed
+ * `{ sort, filter }` structure.
+ *
+ * @module schemas/list-query
+ */
+
+import { z } from 'zod';
+import {
+  listQueryParameters,
+  withListQuery,
+  type ListQuery,
+  type ListQueryOptions,
+} from '@cosmneo/onion-lasagna/http/schema';
+import type { SchemaAdapter } from '@cosmneo/onion-lasagna/http/schema/types';
+import { zodSchema } from '../zod.adapter';
+
+/**
+ * Creates a query schema adapter for a list endpoint.
+ *
+ * Unknown `filter[...]` parameters, unknown sort fields and values that do
+ * not match the field type are reported as validation issues on the
+ * offending parameter.
+ *
+ * @param options - Sortable and filterable fields
+ * @param extend - Additional query parameters (e.g. pagination or search)
+ * @returns Schema adapter whose output is the extra parameters plus `sort` and `filter`
+ *
+ * @example
+ * ```typescript
+ * const query = listQuery(
+ *   {
+ *     sortable: ['createdAt', 'total'],
+ *     filterable: { status: ['eq', 'in'], total: { operators: ['gte'], type: 'number' } },
+ *     defaultSort: '-createdAt',
+ *   },
+ *   pagination.input.shape,
+ * );
+ * // ?sort=-total&filter[status][in]=placed,shipped&page=2
+ * // { page: 2, pageSize: 10, sort: [...], filter: [...] }
+ * ```
+ */
+export function listQuery<
+  const TSort extends string = never,
+  const TFilter extends string = never,
+  TShape extends z.ZodRawShape = Record<never, never>,
+>(
+  options: ListQueryOptions<TSort, TFilter>,
+  extend?: TShape,
+): SchemaAdapter<
+  z.output<z.ZodObject<TShape>> & ListQuery<TSort, TFilter>,
+  z.input<z.ZodObject<TShape>>
+> {
+  const shape: Record<string, z.ZodType> = {};
+  for (const parameter of listQueryParameters(options)) {
+    const value = parameter.multiple ? z.union([z.string(), z.array(z.string())]) : z.string();
+    shape[parameter.name] = value.optional().describe(parameter.description);
+  }
+
+  return withListQuery(zodSchema(z.object({ ...extend, ...shape })), options) as SchemaAdapter<
+    z.output<z.ZodObject<TShape>> & ListQuery<TSort, TFilter>,
+    z.input<z.ZodObject<TShape>>
+  >;
+}
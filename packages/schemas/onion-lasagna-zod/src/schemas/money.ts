@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Pre-built Zod v4 money schemas.
+ *
+ * Provides reusable schemas for monetary amounts at the API boundary,
+ * matching the core `BaseMoneyVo` representations. Amounts travel as
+ * decimal strings or integer minor units — never as floating-point numbers.
+ *
+ * @module schemas/money
+ */
+
+import { z } from 'zod';
+
+const currency = z.string().regex(/^[A-Z]{3}$/);
+
+export const money = {
+  /** ISO 4217 alphabetic currency code (e.g. `'EUR'`). */
+  currency,
+
+  /**
+   * Decimal string representation, as produced by `BaseMoneyVo.value`.
+   *
+   * Precision against the currency is checked by `BaseMoneyVo.create`.
+   *
+   * @example
+   * ```typescript
+   * zodSchema(z.object({ price: money.decimal }))
+   * // { price: { amount: '19.99', currency: 'EUR' } }
+   * ```
+   */
+  decimal: z.object({
+    amount: z.string().regex(/^-?\d+(\.\d+)?$/),
+    currency,
+  }),
+
+  /**
+   * Integer minor units representation, accepted by `BaseMoneyVo.fromMinor`.
+   *
+   * @example
+   * ```typescript
+   * zodSchema(z.object({ price: money.minor }))
+   * // { price: { amountMinor: 1999, currency: 'EUR' } }
+   * ```
+   */
+  minor: z.object({
+    amountMinor: z.number().int(),
+    currency,
+  }),
+};
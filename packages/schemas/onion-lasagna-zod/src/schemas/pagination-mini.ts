@@ -32,4 +32,26 @@ export const paginationMini = {
       items: zm.array(itemSchema),
       total: zm.number(),
     }),
+
+  /**
+   * Query params schema for cursor-paginated list requests (Zod Mini).
+   */
+  cursorInput: zm.object({
+    cursor: zm.optional(zm.string().check(zm.minLength(1))),
+    limit: zm._default(zm.coerce.number().check(zm.int(), zm.minimum(1), zm.maximum(100)), 20),
+  }),
+
+  /**
+   * Factory for cursor-paginated response schemas (Zod Mini).
+   *
+   * @param itemSchema - Zod Mini schema for individual items
+   * @returns Zod Mini schema for `{ items: T[], nextCursor, prevCursor, hasMore }`
+   */
+  cursorResponse: <T extends zm.ZodMiniType>(itemSchema: T) =>
+    zm.object({
+      items: zm.array(itemSchema),
+      nextCursor: zm.nullable(zm.string()),
+      prevCursor: zm.nullable(zm.string()),
+      hasMore: zm.boolean(),
+    }),
 };
@@ -56,4 +56,46 @@ export const pagination = {
       items: z.array(itemSchema),
       total: z.number(),
     }),
+
+  /**
+   * Query params schema for cursor-paginated list requests.
+   *
+   * `cursor` is the opaque `nextCursor` / `prevCursor` of a previous page,
+   * validated by `BaseCursorPaginationVo.create`. Composable via `.extend()`.
+   *
+   * @example
+   * ```typescript
+   * zodSchema(pagination.cursorInput)
+   * ```
+   */
+  cursorInput: z.object({
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Opaque cursor from a previous page (`nextCursor` or `prevCursor`). Omit for the first page.',
+      ),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(20)
+      .describe('Maximum number of items to return.'),
+  }),
+
+  /**
+   * Factory for cursor-paginated response schemas.
+   *
+   * @param itemSchema - Zod schema for individual items in the list
+   * @returns Zod schema for `{ items: T[], nextCursor, prevCursor, hasMore }`
+   */
+  cursorResponse: <T extends ZodAny>(itemSchema: T) =>
+    z.object({
+      items: z.array(itemSchema),
+      nextCursor: z.string().nullable(),
+      prevCursor: z.string().nullable(),
+      hasMore: z.boolean(),
+    }),
 };
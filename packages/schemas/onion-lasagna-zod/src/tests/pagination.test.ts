@@ -4,6 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { z } from 'zod';
+import { defineRoute, generateOpenAPI } from '@cosmneo/onion-lasagna/http';
 import { zodSchema } from '../zod.adapter';
 import { pagination } from '../schemas/pagination';
 
@@ -139,4 +140,121 @@ describe('pagination (Zod v4)', () => {
       expect(props.items.type).toBe('array');
     });
   });
+
+  describe('cursorInput', () => {
+    it('applies the default limit when empty object', () => {
+      const schema = zodSchema(pagination.cursorInput);
+      const result = schema.validate({});
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ limit: 20 });
+      }
+    });
+
+    it('coerces the limit and keeps the cursor', () => {
+      const schema = zodSchema(pagination.cursorInput);
+      const result = schema.validate({ cursor: 'eyJrIjp7fX0.sig', limit: '5' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ cursor: 'eyJrIjp7fX0.sig', limit: 5 });
+      }
+    });
+
+    it('rejects an empty cursor', () => {
+      const schema = zodSchema(pagination.cursorInput);
+      const result = schema.validate({ cursor: '', limit: 10 });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects limit > 100', () => {
+      const schema = zodSchema(pagination.cursorInput);
+      const result = schema.validate({ limit: 101 });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('generates JSON Schema with an optional cursor', () => {
+      const jsonSchema = zodSchema(pagination.cursorInput).toJsonSchema();
+      const props = jsonSchema.properties as Record<string, Record<string, unknown>>;
+
+      expect(props.cursor.type).toBe('string');
+      expect(props.limit.default).toBe(20);
+      expect(jsonSchema.required ?? []).not.toContain('cursor');
+      expect(props.cursor.description).toContain('Opaque cursor');
+    });
+  });
+
+  describe('cursorResponse', () => {
+    const itemSchema = z.object({ id: z.string() });
+
+    it('validates a cursor-paginated response', () => {
+      const schema = zodSchema(pagination.cursorResponse(itemSchema));
+      const result = schema.validate({
+        items: [{ id: '1' }],
+        nextCursor: 'abc.def',
+        prevCursor: null,
+        hasMore: true,
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects missing hasMore', () => {
+      const schema = zodSchema(pagination.cursorResponse(itemSchema));
+      const result = schema.validate({ items: [], nextCursor: null, prevCursor: null });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('OpenAPI', () => {
+    const listEvents = defineRoute({
+      method: 'GET',
+      path: '/events',
+      request: { query: { schema: zodSchema(pagination.cursorInput) } },
+      responses: {
+        200: {
+          description: 'A page of events',
+          schema: zodSchema(pagination.cursorResponse(z.object({ id: z.string() }))),
+        },
+      },
+    });
+    const spec = generateOpenAPI({ listEvents }, { info: { title: 'Test', version: '1.0.0' } });
+    const operation = spec.paths['/events']?.get;
+
+    it('describes cursor and limit as query parameters', () => {
+      const params = operation?.parameters ?? [];
+
+      expect(params.find((p) => p.name === 'cursor')).toMatchObject({
+        in: 'query',
+        required: false,
+        schema: { type: 'string', minLength: 1 },
+      });
+      expect(params.find((p) => p.name === 'limit')).toMatchObject({
+        in: 'query',
+        schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+      });
+    });
+
+    it('describes the cursor page response', () => {
+      const schema = operation?.responses?.['200']?.content?.['application/json']?.schema as {
+        properties: Record<string, Record<string, unknown>>;
+        required: string[];
+      };
+
+      expect(schema.required).toEqual(
+        expect.arrayContaining(['items', 'nextCursor', 'prevCursor', 'hasMore']),
+      );
+      expect(schema.properties.items).toMatchObject({
+        type: 'array',
+        items: { type: 'object', properties: { id: { type: 'string' } } },
+      });
+      expect(schema.properties.hasMore).toMatchObject({ type: 'boolean' });
+      expect(schema.properties.nextCursor).toMatchObject({ type: 'string', nullable: true });
+      expect(schema.properties.prevCursor).toMatchObject({ type: 'string', nullable: true });
+    });
+  });
 });
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Email service that collects messages in an outbox for tests.
+ *
+ * @module testing/capturing-email-service
+ */
+
+import type { EmailMessage, EmailServicePort } from '@cosmneo/onion-lasagna/ports';
+
+/**
+ * {@link EmailServicePort} that collects sent messages in an `outbox`
+ * instead of delivering them.
+ *
+ * Messages are copied when sent, so later changes by the caller do not
+ * alter the outbox. `failNext` simulates a delivery failure.
+ *
+ * @example
+ * ```typescript
+ * const email = new CapturingEmailService();
+ * await new InviteMemberUseCase(members, email).execute({ email: 'ada@example.com' });
+ *
+ * const [invitation] = email.sentTo('ada@example.com');
+ * expect(invitation?.subject).toBe('You have been invited');
+ * ```
+ */
+export class CapturingEmailService implements EmailServicePort {
+  private readonly messages: EmailMessage[] = [];
+  private readonly failures: unknown[] = [];
+
+  public async sendEmail(message: EmailMessage): Promise<void> {
+    if (this.failures.length > 0) throw this.failures.shift();
+    this.messages.push({ ...message, to: [...message.to] });
+  }
+
+  /** Sent messages, oldest first. */
+  public get outbox(): readonly EmailMessage[] {
+    return this.messages;
+  }
+
+  /** The most recently sent message. */
+  public get last(): EmailMessage | undefined {
+    return this.messages.at(-1);
+  }
+
+  /**
+   * Sent messages addressed to a recipient, compared case-insensitively.
+   */
+  public sentTo(address: string): EmailMessage[] {
+    const recipient = address.toLowerCase();
+    return this.messages.filter((message) =>
+      message.to.some((to) => to.toLowerCase() === recipient),
+    );
+  }
+
+  /**
+   * Makes the next `sendEmail` call reject with `error` without capturing
+   * the message. Calls queue up: failing twice makes the next two sends fail.
+   */
+  public failNext(error: unknown = new Error('Email delivery failed')): void {
+    this.failures.push(error);
+  }
+
+  /** Empties the outbox and drops pending failures. */
+  public clear(): void {
+    this.messages.length = 0;
+    this.failures.length = 0;
+  }
+}
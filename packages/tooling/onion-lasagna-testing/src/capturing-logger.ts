@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Logger that records entries for assertions in tests.
+ *
+ * @module testing/capturing-logger
+ */
+
+import type { LoggerPort } from '@cosmneo/onion-lasagna/ports';
+
+/**
+ * Level of a log entry, matching the `LoggerPort` methods.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Entry recorded by a {@link CapturingLogger}.
+ */
+export interface CapturedLogEntry {
+  readonly level: LogLevel;
+  readonly msg: string;
+  readonly data?: Record<string, unknown>;
+
+  /** Bindings of the (child) logger the entry was written through. */
+  readonly bindings: Record<string, unknown>;
+}
+
+/**
+ * Criteria for finding log entries. All given criteria must match.
+ *
+ * `data` and `bindings` match partially: only the listed keys are
+ * compared, recursively for nested objects.
+ */
+export interface LogEntryMatcher {
+  readonly level?: LogLevel;
+
+  /** Exact message, or a pattern tested against it. */
+  readonly msg?: string | RegExp;
+
+  readonly data?: Record<string, unknown>;
+  readonly bindings?: Record<string, unknown>;
+}
+
+/**
+ * {@link LoggerPort} that records every entry instead of writing it.
+ *
+ * Child loggers share the parent's record, so a test can inject the root
+ * logger and assert on entries written through any child.
+ *
+ * The `assert*` methods throw a plain `Error` listing the recorded
+ * entries, so they work with any test runner.
+ *
+ * @example
+ * ```typescript
+ * const logger = new CapturingLogger();
+ * await new SyncInventoryUseCase(warehouse, logger).execute(input);
+ *
+ * logger.assertLogged({ level: 'warn', msg: /skipped/, data: { sku: 'A-1' } });
+ * logger.assertNotLogged({ level: 'error' });
+ * ```
+ */
+export class CapturingLogger implements LoggerPort {
+  private log: CapturedLogEntry[] = [];
+
+  /**
+   * @param bindings - Context bindings recorded with every entry
+   */
+  constructor(private readonly bindings: Record<string, unknown> = {}) {}
+
+  public debug(msg: string, data?: Record<string, unknown>): void {
+    this.record('debug', msg, data);
+  }
+
+  public info(msg: string, data?: Record<string, unknown>): void {
+    this.record('info', msg, data);
+  }
+
+  public warn(msg: string, data?: Record<string, unknown>): void {
+    this.record('warn', msg, data);
+  }
+
+  public error(msg: string, data?: Record<string, unknown>): void {
+    this.record('error', msg, data);
+  }
+
+  public child(bindings: Record<string, unknown>): CapturingLogger {
+    const child = new CapturingLogger({ ...this.bindings, ...bindings });
+    child.log = this.log;
+    return child;
+  }
+
+  /** All recorded entries, oldest first. */
+  public get entries(): readonly CapturedLogEntry[] {
+    return this.log;
+  }
+
+  /**
+   * Recorded entries matching the criteria, oldest first.
+   */
+  public find(matcher: LogEntryMatcher = {}): CapturedLogEntry[] {
+    return this.log.filter((entry) => matches(entry, matcher));
+  }
+
+  /**
+   * Whether any recorded entry matches the criteria.
+   */
+  public hasLogged(matcher: LogEntryMatcher): boolean {
+    return this.log.some((entry) => matches(entry, matcher));
+  }
+
+  /**
+   * Asserts that an entry matching the criteria was recorded.
+   *
+   * @returns The first matching entry
+   * @throws {Error} If no entry matches
+   */
+  public assertLogged(matcher: LogEntryMatcher): CapturedLogEntry {
+    const entry = this.log.find((candidate) => matches(candidate, matcher));
+    if (!entry) {
+      throw new Error(
+        `Expected a log entry matching ${describeMatcher(matcher)}\n${this.describeEntries()}`,
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Asserts that no entry matching the criteria was recorded.
+   *
+   * @throws {Error} If an entry matches
+   */
+  public assertNotLogged(matcher: LogEntryMatcher): void {
+    const found = this.find(matcher);
+    if (found.length > 0) {
+      throw new Error(
+        `Expected no log entry matching ${describeMatcher(matcher)}, found ${found.length}\n${this.describeEntries()}`,
+      );
+    }
+  }
+
+  /** Removes all recorded entries, including those of child loggers. */
+  public clear(): void {
+    this.log.length = 0;
+  }
+
+  private record(level: LogLevel, msg: string, data?: Record<string, unknown>): void {
+    this.log.push({ level, msg, data, bindings: this.bindings });
+  }
+
+  private describeEntries(): string {
+    if (this.log.length === 0) return 'No entries were logged.';
+    const lines = this.log.map(
+      ({ level, msg, data }) =>
+        `  ${level.padEnd(5)} ${msg}${data !== undefined ? ` ${safeStringify(data)}` : ''}`,
+    );
+    return `Logged entries:\n${lines.join('\n')}`;
+  }
+}
+
+function matches(entry: CapturedLogEntry, matcher: LogEntryMatcher): boolean {
+  if (matcher.level !== undefined && entry.level !== matcher.level) return false;
+  if (typeof matcher.msg === 'string' && entry.msg !== matcher.msg) return false;
+  if (matcher.msg instanceof RegExp && !matcher.msg.test(entry.msg)) return false;
+  if (matcher.data !== undefined && !matchesPartially(entry.data ?? {}, matcher.data)) {
+    return false;
+  }
+  return matcher.bindings === undefined || matchesPartially(entry.bindings, matcher.bindings);
+}
+
+/**
+ * Compares `expected` against `actual`, ignoring keys of plain objects
+ * that `expected` does not list.
+ */
+function matchesPartially(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesPartially(actual[index], item))
+    );
+  }
+  if (isPlainObject(expected)) {
+    return (
+      isPlainObject(actual) &&
+      Object.entries(expected).every(([key, value]) => matchesPartially(actual[key], value))
+    );
+  }
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime();
+  }
+  return Object.is(actual, expected);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
+
+function describeMatcher({ level, msg, data, bindings }: LogEntryMatcher): string {
+  return safeStringify({ level, msg: msg instanceof RegExp ? String(msg) : msg, data, bindings });
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Controllable clock for tests.
+ *
+ * @module testing/fake-clock
+ */
+
+import type { ClockPort } from '@cosmneo/onion-lasagna/ports';
+
+/**
+ * Instant the clock starts at when none is given.
+ */
+export const DEFAULT_FAKE_CLOCK_START = '2025-01-01T00:00:00.000Z';
+
+/**
+ * {@link ClockPort} whose time only moves when a test moves it.
+ *
+ * `now()` returns a fresh `Date` on every call, so callers mutating the
+ * returned date do not change the clock.
+ *
+ * @example
+ * ```typescript
+ * const clock = new FakeClock('2025-03-01T09:00:00Z');
+ * const useCase = new ExpireInvitationsUseCase(invitations, clock);
+ *
+ * clock.advance(7 * 24 * 60 * 60 * 1000);
+ * await useCase.execute();
+ * ```
+ */
+export class FakeClock implements ClockPort {
+  private time: number;
+
+  /**
+   * @param start - Starting instant as a `Date`, epoch milliseconds or ISO string
+   */
+  constructor(start: Date | number | string = DEFAULT_FAKE_CLOCK_START) {
+    this.time = toTime(start);
+  }
+
+  public now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Moves the clock forward.
+   *
+   * @param ms - Milliseconds to advance by
+   * @throws {RangeError} If `ms` is negative
+   */
+  public advance(ms: number): void {
+    if (ms < 0) {
+      throw new RangeError(`FakeClock cannot advance by a negative duration (${ms} ms)`);
+    }
+    this.time += ms;
+  }
+
+  /**
+   * Moves the clock to an instant, forwards or backwards.
+   *
+   * @param instant - Target instant as a `Date`, epoch milliseconds or ISO string
+   */
+  public set(instant: Date | number | string): void {
+    this.time = toTime(instant);
+  }
+}
+
+function toTime(instant: Date | number | string): number {
+  const time = instant instanceof Date ? instant.getTime() : new Date(instant).getTime();
+  if (Number.isNaN(time)) {
+    throw new RangeError(`Invalid FakeClock instant: ${String(instant)}`);
+  }
+  return time;
+}
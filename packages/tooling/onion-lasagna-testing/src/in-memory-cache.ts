@@ -0,0 +1,104 @@
+/**
+ * @fileoverview TTL-aware in-memory cache for tests.
+ *
+ * @module testing/in-memory-cache
+ */
+
+import type { CachePort, CacheSetOptions, ClockPort } from '@cosmneo/onion-lasagna/ports';
+import type { TransactionParticipant } from './in-memory-unit-of-work';
+
+/** @internal Entry kept by the cache. */
+interface CacheEntry {
+  json: string;
+  expiresAt?: number;
+}
+
+/**
+ * {@link CachePort} kept in a `Map`, honouring `CacheSetOptions.ttl`.
+ *
+ * Expiry is measured against the injected clock, so with a `FakeClock`
+ * a test expires entries by advancing time instead of waiting. Values are
+ * stored as JSON copies, like a networked cache would: dates come back as
+ * ISO strings and later mutations of the stored object are not visible.
+ *
+ * Can be enlisted in an `InMemoryUnitOfWork` to roll back writes.
+ *
+ * @example
+ * ```typescript
+ * const clock = new FakeClock();
+ * const cache = new InMemoryCache(clock);
+ *
+ * await cache.set('rates:EUR', rates, { ttl: 60 });
+ * clock.advance(60_000);
+ * await cache.get('rates:EUR'); // undefined
+ * ```
+ */
+export class InMemoryCache
+  implements CachePort, TransactionParticipant<ReadonlyMap<string, CacheEntry>>
+{
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly clock: ClockPort = { now: () => new Date() }) {}
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.liveEntry(key);
+    return entry ? (JSON.parse(entry.json) as T) : undefined;
+  }
+
+  public async set<T>(key: string, value: T, options?: CacheSetOptions): Promise<void> {
+    this.entries.set(key, {
+      json: JSON.stringify(value ?? null),
+      expiresAt:
+        options?.ttl !== undefined ? this.clock.now().getTime() + options.ttl * 1000 : undefined,
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async has(key: string): Promise<boolean> {
+    return this.liveEntry(key) !== undefined;
+  }
+
+  /**
+   * Remaining time-to-live of a key in seconds, `undefined` for missing
+   * keys and keys stored without TTL.
+   */
+  public ttlOf(key: string): number | undefined {
+    const expiresAt = this.liveEntry(key)?.expiresAt;
+    return expiresAt === undefined ? undefined : (expiresAt - this.clock.now().getTime()) / 1000;
+  }
+
+  /** Keys of unexpired entries. */
+  public keys(): string[] {
+    return [...this.entries.keys()].filter((key) => this.liveEntry(key) !== undefined);
+  }
+
+  /** Number of unexpired entries. */
+  public get size(): number {
+    return this.keys().length;
+  }
+
+  /** Removes every entry. */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public snapshot(): ReadonlyMap<string, CacheEntry> {
+    return new Map(this.entries);
+  }
+
+  public restore(snapshot: ReadonlyMap<string, CacheEntry>): void {
+    this.entries = new Map(snapshot);
+  }
+
+  private liveEntry(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= this.clock.now().getTime()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
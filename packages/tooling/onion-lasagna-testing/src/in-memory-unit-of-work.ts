@@ -0,0 +1,126 @@
+/**
+ * @fileoverview In-memory unit of work with rollback for tests.
+ *
+ * @module testing/in-memory-unit-of-work
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { UnitOfWorkPort } from '@cosmneo/onion-lasagna/ports';
+
+/**
+ * In-memory state that can take part in an {@link InMemoryUnitOfWork}.
+ *
+ * `snapshot` captures the state when a transaction starts; `restore` puts
+ * it back when the transaction rolls back. Snapshots must not share
+ * mutable structures with the live state.
+ *
+ * @typeParam TSnapshot - Shape of the captured state
+ */
+export interface TransactionParticipant<TSnapshot = unknown> {
+  /** Captures the current state. */
+  snapshot(): TSnapshot;
+
+  /** Replaces the current state with a captured one. */
+  restore(snapshot: TSnapshot): void;
+}
+
+/**
+ * {@link UnitOfWorkPort} that rolls enlisted in-memory state back when the
+ * work throws.
+ *
+ * Each enlisted {@link TransactionParticipant} is snapshotted before the
+ * work runs and restored if it fails, so a test can check that a failing
+ * use case leaves no partial writes behind. Nested `atomicExecute` calls
+ * join the outer transaction, like most database drivers do. The active
+ * transaction is tracked per async context, so concurrent calls each run
+ * their own.
+ *
+ * @example
+ * ```typescript
+ * class InMemoryOrderRepository implements OrderRepository, TransactionParticipant {
+ *   private rows = new Map<string, OrderRow>();
+ *   snapshot() { return new Map(this.rows); }
+ *   restore(rows: Map<string, OrderRow>) { this.rows = new Map(rows); }
+ *   // ...
+ * }
+ *
+ * const orders = new InMemoryOrderRepository();
+ * const unitOfWork = new InMemoryUnitOfWork([orders]);
+ *
+ * unitOfWork.failNextCommit(new DbError({ message: 'serialization failure' }));
+ * await expect(placeOrder.execute(input)).rejects.toThrow(DbError);
+ *
+ * expect(unitOfWork.rollbacks).toBe(1);
+ * expect(await orders.findById(orderId)).toBeNull();
+ * ```
+ */
+export class InMemoryUnitOfWork implements UnitOfWorkPort {
+  private readonly participants: TransactionParticipant[] = [];
+  private readonly context = new AsyncLocalStorage<true>();
+  private commitCount = 0;
+  private rollbackCount = 0;
+  private commitError: unknown;
+
+  /**
+   * @param participants - State rolled back on failure
+   */
+  constructor(participants: readonly TransactionParticipant[] = []) {
+    this.participants.push(...participants);
+  }
+
+  public async atomicExecute<T>(work: () => Promise<T>): Promise<T> {
+    if (this.inTransaction) return work();
+
+    const snapshots = this.participants.map(
+      (participant) => [participant, participant.snapshot()] as const,
+    );
+    try {
+      const result = await this.context.run(true, work);
+      if (this.commitError !== undefined) {
+        const error = this.commitError;
+        this.commitError = undefined;
+        throw error;
+      }
+      this.commitCount++;
+      return result;
+    } catch (error) {
+      for (const [participant, snapshot] of snapshots.reverse()) {
+        participant.restore(snapshot);
+      }
+      this.rollbackCount++;
+      throw error;
+    }
+  }
+
+  /**
+   * Adds state to roll back in later transactions.
+   */
+  public enlist(...participants: TransactionParticipant[]): this {
+    this.participants.push(...participants);
+    return this;
+  }
+
+  /**
+   * Makes the next transaction fail after its work completes, as if the
+   * database rejected the commit. The work's writes are rolled back and
+   * `error` is thrown.
+   */
+  public failNextCommit(error: unknown): void {
+    this.commitError = error;
+  }
+
+  /** Number of committed transactions. */
+  public get commits(): number {
+    return this.commitCount;
+  }
+
+  /** Number of rolled back transactions. */
+  public get rollbacks(): number {
+    return this.rollbackCount;
+  }
+
+  /** Whether the current async context runs inside `atomicExecute`. */
+  public get inTransaction(): boolean {
+    return this.context.getStore() === true;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview In-memory implementations of the onion-lasagna ports for tests.
+ *
+ * Provides fakes for `ClockPort`, `IdGeneratorPort`, `CachePort`,
+ * `LoggerPort`, `EmailServicePort` and `UnitOfWorkPort`, so use cases can
+ * be tested without writing the same doubles in every project.
+ *
+ * @module testing
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   CapturingEmailService,
+ *   CapturingLogger,
+ *   FakeClock,
+ *   InMemoryCache,
+ *   InMemoryUnitOfWork,
+ *   UuidV7IdGenerator,
+ * } from '@cosmneo/onion-lasagna-testing';
+ *
+ * const clock = new FakeClock('2025-03-01T09:00:00Z');
+ * const cache = new InMemoryCache(clock);
+ * const useCase = new RegisterUserUseCase({
+ *   clock,
+ *   cache,
+ *   ids: new UuidV7IdGenerator(clock),
+ *   email: new CapturingEmailService(),
+ *   logger: new CapturingLogger(),
+ *   unitOfWork: new InMemoryUnitOfWork([cache]),
+ * });
+ * ```
+ */
+
+// Clock
+export { FakeClock, DEFAULT_FAKE_CLOCK_START } from './fake-clock';
+
+// ID generators
+export { SequenceIdGenerator } from './sequence-id-generator';
+export type { SequenceIdGeneratorOptions } from './sequence-id-generator';
+export { UuidV7IdGenerator } from './uuid-v7-id-generator';
+
+// Cache
+export { InMemoryCache } from './in-memory-cache';
+
+// Logger
+export { CapturingLogger } from './capturing-logger';
+export type { CapturedLogEntry, LogEntryMatcher, LogLevel } from './capturing-logger';
+
+// Email
+export { CapturingEmailService } from './capturing-email-service';
+
+// Unit of work
+export { InMemoryUnitOfWork } from './in-memory-unit-of-work';
+export type { TransactionParticipant } from './in-memory-unit-of-work';
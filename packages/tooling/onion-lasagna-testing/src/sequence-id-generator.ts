@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Deterministic sequence-based ID generator for tests.
+ *
+ * @module testing/sequence-id-generator
+ */
+
+import type { IdGeneratorPort } from '@cosmneo/onion-lasagna/ports';
+
+/**
+ * Options for {@link SequenceIdGenerator}.
+ */
+export interface SequenceIdGeneratorOptions {
+  /**
+   * Text placed before the number.
+   * @default ''
+   */
+  readonly prefix?: string;
+
+  /**
+   * First number of the sequence.
+   * @default 1
+   */
+  readonly start?: number;
+
+  /**
+   * Minimum number of digits, padded with leading zeros.
+   * @default 0
+   */
+  readonly padLength?: number;
+}
+
+/**
+ * {@link IdGeneratorPort} producing `prefix + n` for n = start, start + 1, …
+ *
+ * IDs are predictable, so tests can assert on them directly.
+ *
+ * @example
+ * ```typescript
+ * const ids = new SequenceIdGenerator({ prefix: 'order-', padLength: 3 });
+ * ids.generate(); // 'order-001'
+ * ids.generate(); // 'order-002'
+ * ```
+ */
+export class SequenceIdGenerator implements IdGeneratorPort {
+  private readonly prefix: string;
+  private readonly start: number;
+  private readonly padLength: number;
+  private next: number;
+
+  constructor(options: SequenceIdGeneratorOptions = {}) {
+    this.prefix = options.prefix ?? '';
+    this.start = options.start ?? 1;
+    this.padLength = options.padLength ?? 0;
+    this.next = this.start;
+  }
+
+  public generate(): string {
+    return `${this.prefix}${String(this.next++).padStart(this.padLength, '0')}`;
+  }
+
+  /** Restarts the sequence at `start`. */
+  public reset(): void {
+    this.next = this.start;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Tests for CapturingEmailService.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { EmailMessage } from '@cosmneo/onion-lasagna/ports';
+import { CapturingEmailService } from '../capturing-email-service';
+
+function message(to: string[], subject = 'Hello'): EmailMessage {
+  return { to, subject, htmlBody: `<p>${subject}</p>`, textBody: subject };
+}
+
+describe('CapturingEmailService', () => {
+  it('collects sent messages in the outbox', async () => {
+    const email = new CapturingEmailService();
+
+    await email.sendEmail(message(['ada@example.com'], 'Welcome'));
+    await email.sendEmail(message(['bob@example.com'], 'Invoice'));
+
+    expect(email.outbox.map((sent) => sent.subject)).toEqual(['Welcome', 'Invoice']);
+    expect(email.last?.subject).toBe('Invoice');
+  });
+
+  it('copies messages when sending', async () => {
+    const email = new CapturingEmailService();
+    const sent = message(['ada@example.com']);
+
+    await email.sendEmail(sent);
+    sent.to.push('eve@example.com');
+    sent.subject = 'Changed';
+
+    expect(email.outbox[0]).toEqual(message(['ada@example.com']));
+  });
+
+  it('filters messages by recipient case-insensitively', async () => {
+    const email = new CapturingEmailService();
+    await email.sendEmail(message(['Ada@Example.com', 'bob@example.com'], 'Team'));
+    await email.sendEmail(message(['bob@example.com'], 'Private'));
+
+    expect(email.sentTo('ada@example.com').map((sent) => sent.subject)).toEqual(['Team']);
+    expect(email.sentTo('bob@example.com')).toHaveLength(2);
+  });
+
+  it('fails queued sends without capturing them', async () => {
+    const email = new CapturingEmailService();
+    const bounce = new Error('Mailbox full');
+    email.failNext(bounce);
+    email.failNext();
+
+    await expect(email.sendEmail(message(['a@example.com']))).rejects.toBe(bounce);
+    await expect(email.sendEmail(message(['a@example.com']))).rejects.toThrow(
+      'Email delivery failed',
+    );
+    await email.sendEmail(message(['a@example.com']));
+
+    expect(email.outbox).toHaveLength(1);
+  });
+
+  it('clears the outbox and pending failures', async () => {
+    const email = new CapturingEmailService();
+    await email.sendEmail(message(['a@example.com']));
+    email.failNext();
+
+    email.clear();
+    await email.sendEmail(message(['b@example.com']));
+
+    expect(email.outbox).toEqual([message(['b@example.com'])]);
+  });
+});
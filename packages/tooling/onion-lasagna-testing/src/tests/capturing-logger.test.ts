@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Tests for CapturingLogger.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CapturingLogger } from '../capturing-logger';
+
+describe('CapturingLogger', () => {
+  it('records entries at every level', () => {
+    const logger = new CapturingLogger();
+
+    logger.debug('d');
+    logger.info('i', { count: 1 });
+    logger.warn('w');
+    logger.error('e');
+
+    expect(logger.entries.map((entry) => entry.level)).toEqual(['debug', 'info', 'warn', 'error']);
+    expect(logger.entries[1]).toEqual({
+      level: 'info',
+      msg: 'i',
+      data: { count: 1 },
+      bindings: {},
+    });
+  });
+
+  it('shares the record with child loggers and merges their bindings', () => {
+    const logger = new CapturingLogger({ app: 'shop' });
+
+    logger.child({ requestId: 'r1' }).child({ userId: 'u1' }).info('handled');
+
+    expect(logger.entries).toHaveLength(1);
+    expect(logger.entries[0]!.bindings).toEqual({ app: 'shop', requestId: 'r1', userId: 'u1' });
+    expect(logger.hasLogged({ bindings: { requestId: 'r1' } })).toBe(true);
+  });
+
+  it('finds entries by level, message pattern and partial data', () => {
+    const logger = new CapturingLogger();
+    logger.warn('Sync skipped', { sku: 'A-1', reason: { code: 'MISSING', retry: false } });
+    logger.warn('Sync skipped', { sku: 'B-2' });
+    logger.info('Sync finished');
+
+    expect(logger.find({ level: 'warn' })).toHaveLength(2);
+    expect(logger.find({ msg: /^Sync/ })).toHaveLength(3);
+    expect(logger.find({ msg: 'Sync skipped', data: { reason: { code: 'MISSING' } } })).toEqual([
+      logger.entries[0],
+    ]);
+    expect(logger.hasLogged({ level: 'error' })).toBe(false);
+  });
+
+  it('compares arrays and dates by value', () => {
+    const logger = new CapturingLogger();
+    logger.info('batch', { ids: [1, 2], at: new Date(0) });
+
+    expect(logger.hasLogged({ data: { ids: [1, 2], at: new Date(0) } })).toBe(true);
+    expect(logger.hasLogged({ data: { ids: [1] } })).toBe(false);
+  });
+
+  it('assertLogged returns the matching entry', () => {
+    const logger = new CapturingLogger();
+    logger.error('Payment failed', { orderId: 'o1' });
+
+    const entry = logger.assertLogged({ level: 'error', data: { orderId: 'o1' } });
+
+    expect(entry.msg).toBe('Payment failed');
+  });
+
+  it('assertLogged throws with the recorded entries when nothing matches', () => {
+    const logger = new CapturingLogger();
+    logger.info('Order placed', { orderId: 'o1' });
+
+    expect(() => logger.assertLogged({ level: 'error' })).toThrow(
+      /Expected a log entry matching \{"level":"error"\}\nLogged entries:\n {2}info {2}Order placed \{"orderId":"o1"\}/,
+    );
+  });
+
+  it('assertNotLogged throws when an entry matches', () => {
+    const logger = new CapturingLogger();
+    logger.error('boom');
+
+    expect(() => logger.assertNotLogged({ level: 'warn' })).not.toThrow();
+    expect(() => logger.assertNotLogged({ level: 'error' })).toThrow(/found 1/);
+  });
+
+  it('clears entries written through children', () => {
+    const logger = new CapturingLogger();
+    const child = logger.child({ scope: 'job' });
+    child.info('started');
+
+    logger.clear();
+    child.info('again');
+
+    expect(logger.entries.map((entry) => entry.msg)).toEqual(['again']);
+  });
+});
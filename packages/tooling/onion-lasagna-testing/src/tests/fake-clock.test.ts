@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Tests for FakeClock.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FAKE_CLOCK_START, FakeClock } from '../fake-clock';
+
+describe('FakeClock', () => {
+  it('starts at the default instant', () => {
+    expect(new FakeClock().now().toISOString()).toBe(DEFAULT_FAKE_CLOCK_START);
+  });
+
+  it('accepts dates, epoch milliseconds and ISO strings', () => {
+    expect(new FakeClock(new Date(1000)).now().getTime()).toBe(1000);
+    expect(new FakeClock(2000).now().getTime()).toBe(2000);
+    expect(new FakeClock('2025-06-01T12:00:00Z').now().toISOString()).toBe(
+      '2025-06-01T12:00:00.000Z',
+    );
+  });
+
+  it('rejects invalid instants', () => {
+    expect(() => new FakeClock('not a date')).toThrow(RangeError);
+  });
+
+  it('stands still until advanced', () => {
+    const clock = new FakeClock(0);
+
+    expect(clock.now().getTime()).toBe(0);
+    clock.advance(1500);
+    expect(clock.now().getTime()).toBe(1500);
+  });
+
+  it('rejects negative advances', () => {
+    expect(() => new FakeClock(0).advance(-1)).toThrow(RangeError);
+  });
+
+  it('sets the time forwards and backwards', () => {
+    const clock = new FakeClock('2025-06-01T00:00:00Z');
+
+    clock.set('2024-01-01T00:00:00Z');
+    expect(clock.now().toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('returns a fresh date on every call', () => {
+    const clock = new FakeClock(0);
+
+    clock.now().setTime(99_999);
+
+    expect(clock.now().getTime()).toBe(0);
+  });
+});
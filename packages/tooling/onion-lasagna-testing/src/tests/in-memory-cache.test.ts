@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Tests for InMemoryCache.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FakeClock } from '../fake-clock';
+import { InMemoryCache } from '../in-memory-cache';
+
+describe('InMemoryCache', () => {
+  let clock: FakeClock;
+  let cache: InMemoryCache;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    cache = new InMemoryCache(clock);
+  });
+
+  it('stores, reads and deletes values', async () => {
+    await cache.set('user:1', { name: 'Ada' });
+
+    expect(await cache.has('user:1')).toBe(true);
+    expect(await cache.get('user:1')).toEqual({ name: 'Ada' });
+
+    await cache.delete('user:1');
+
+    expect(await cache.has('user:1')).toBe(false);
+    expect(await cache.get('user:1')).toBeUndefined();
+  });
+
+  it('stores JSON copies', async () => {
+    const value = { tags: ['a'], at: new Date('2025-01-01T00:00:00Z') };
+    await cache.set('key', value);
+    value.tags.push('b');
+
+    expect(await cache.get('key')).toEqual({ tags: ['a'], at: '2025-01-01T00:00:00.000Z' });
+  });
+
+  it('expires entries once their ttl has elapsed on the clock', async () => {
+    await cache.set('rates', [1.1], { ttl: 60 });
+
+    clock.advance(59_999);
+    expect(await cache.get('rates')).toEqual([1.1]);
+    expect(cache.ttlOf('rates')).toBe(0.001);
+
+    clock.advance(1);
+    expect(await cache.get('rates')).toBeUndefined();
+    expect(await cache.has('rates')).toBe(false);
+    expect(cache.ttlOf('rates')).toBeUndefined();
+  });
+
+  it('keeps entries without ttl indefinitely', async () => {
+    await cache.set('config', { debug: false });
+
+    clock.advance(365 * 24 * 60 * 60 * 1000);
+
+    expect(await cache.get('config')).toEqual({ debug: false });
+    expect(cache.ttlOf('config')).toBeUndefined();
+  });
+
+  it('restarts the ttl when a key is overwritten', async () => {
+    await cache.set('session', 'a', { ttl: 10 });
+    clock.advance(8000);
+    await cache.set('session', 'b', { ttl: 10 });
+    clock.advance(8000);
+
+    expect(await cache.get('session')).toBe('b');
+  });
+
+  it('lists and counts only unexpired keys', async () => {
+    await cache.set('short', 1, { ttl: 1 });
+    await cache.set('long', 2, { ttl: 100 });
+    clock.advance(1000);
+
+    expect(cache.keys()).toEqual(['long']);
+    expect(cache.size).toBe(1);
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  it('restores a snapshot', async () => {
+    await cache.set('kept', 1);
+    const snapshot = cache.snapshot();
+    await cache.set('added', 2);
+    await cache.delete('kept');
+
+    cache.restore(snapshot);
+
+    expect(cache.keys()).toEqual(['kept']);
+  });
+});
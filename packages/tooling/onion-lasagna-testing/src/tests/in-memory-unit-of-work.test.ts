@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Tests for InMemoryUnitOfWork.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryCache } from '../in-memory-cache';
+import { InMemoryUnitOfWork, type TransactionParticipant } from '../in-memory-unit-of-work';
+
+class Ledger implements TransactionParticipant<number[]> {
+  entries: number[] = [];
+
+  snapshot(): number[] {
+    return [...this.entries];
+  }
+
+  restore(snapshot: number[]): void {
+    this.entries = [...snapshot];
+  }
+}
+
+describe('InMemoryUnitOfWork', () => {
+  let ledger: Ledger;
+  let cache: InMemoryCache;
+  let unitOfWork: InMemoryUnitOfWork;
+
+  beforeEach(() => {
+    ledger = new Ledger();
+    cache = new InMemoryCache();
+    unitOfWork = new InMemoryUnitOfWork([ledger, cache]);
+  });
+
+  it('commits the work and returns its result', async () => {
+    const result = await unitOfWork.atomicExecute(async () => {
+      ledger.entries.push(100);
+      await cache.set('balance', 100);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(ledger.entries).toEqual([100]);
+    expect(await cache.get('balance')).toBe(100);
+    expect(unitOfWork.commits).toBe(1);
+    expect(unitOfWork.rollbacks).toBe(0);
+  });
+
+  it('rolls back every participant and rethrows when the work fails', async () => {
+    ledger.entries.push(1);
+    const failure = new Error('insufficient funds');
+
+    await expect(
+      unitOfWork.atomicExecute(async () => {
+        ledger.entries.push(-500);
+        await cache.set('balance', -499);
+        throw failure;
+      }),
+    ).rejects.toBe(failure);
+
+    expect(ledger.entries).toEqual([1]);
+    expect(await cache.has('balance')).toBe(false);
+    expect(unitOfWork.rollbacks).toBe(1);
+    expect(unitOfWork.commits).toBe(0);
+  });
+
+  it('fails the next commit after the work completed', async () => {
+    const commitFailure = new Error('serialization failure');
+    unitOfWork.failNextCommit(commitFailure);
+
+    await expect(
+      unitOfWork.atomicExecute(async () => {
+        ledger.entries.push(1);
+      }),
+    ).rejects.toBe(commitFailure);
+    await unitOfWork.atomicExecute(async () => {
+      ledger.entries.push(2);
+    });
+
+    expect(ledger.entries).toEqual([2]);
+    expect(unitOfWork.rollbacks).toBe(1);
+    expect(unitOfWork.commits).toBe(1);
+  });
+
+  it('joins nested calls into the outer transaction', async () => {
+    await expect(
+      unitOfWork.atomicExecute(async () => {
+        await unitOfWork.atomicExecute(async () => {
+          ledger.entries.push(1);
+        });
+        expect(unitOfWork.inTransaction).toBe(true);
+        throw new Error('outer failed');
+      }),
+    ).rejects.toThrow('outer failed');
+
+    expect(ledger.entries).toEqual([]);
+    expect(unitOfWork.inTransaction).toBe(false);
+    expect(unitOfWork.commits).toBe(0);
+  });
+
+  it('runs concurrent calls as separate transactions', async () => {
+    let failFirst!: () => void;
+    const first = unitOfWork.atomicExecute(
+      () => new Promise<void>((_, reject) => (failFirst = () => reject(new Error('first failed')))),
+    );
+
+    await unitOfWork.atomicExecute(async () => {
+      expect(unitOfWork.inTransaction).toBe(true);
+    });
+    expect(unitOfWork.commits).toBe(1);
+    expect(unitOfWork.inTransaction).toBe(false);
+
+    failFirst();
+    await expect(first).rejects.toThrow('first failed');
+    expect(unitOfWork.commits).toBe(1);
+    expect(unitOfWork.rollbacks).toBe(1);
+  });
+
+  it('rolls back participants enlisted later', async () => {
+    const late = new Ledger();
+    unitOfWork = new InMemoryUnitOfWork().enlist(late);
+
+    await unitOfWork
+      .atomicExecute(async () => {
+        late.entries.push(1);
+        throw new Error('fail');
+      })
+      .catch(() => undefined);
+
+    expect(late.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Tests for SequenceIdGenerator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SequenceIdGenerator } from '../sequence-id-generator';
+
+describe('SequenceIdGenerator', () => {
+  it('counts up from 1 by default', () => {
+    const ids = new SequenceIdGenerator();
+
+    expect([ids.generate(), ids.generate(), ids.generate()]).toEqual(['1', '2', '3']);
+  });
+
+  it('applies prefix, start and padding', () => {
+    const ids = new SequenceIdGenerator({ prefix: 'order-', start: 9, padLength: 3 });
+
+    expect([ids.generate(), ids.generate()]).toEqual(['order-009', 'order-010']);
+  });
+
+  it('restarts the sequence on reset', () => {
+    const ids = new SequenceIdGenerator({ start: 5 });
+    ids.generate();
+    ids.generate();
+
+    ids.reset();
+
+    expect(ids.generate()).toBe('5');
+  });
+});
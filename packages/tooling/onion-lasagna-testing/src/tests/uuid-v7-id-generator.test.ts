@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Tests for UuidV7IdGenerator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FakeClock } from '../fake-clock';
+import { UuidV7IdGenerator } from '../uuid-v7-id-generator';
+
+const UUID_V7 = /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('UuidV7IdGenerator', () => {
+  it('generates valid UUID v7 values', () => {
+    const id = new UuidV7IdGenerator().generate();
+
+    expect(id).toMatch(UUID_V7);
+  });
+
+  it('encodes the clock time in the timestamp bits', () => {
+    const clock = new FakeClock('2025-01-01T00:00:00Z');
+
+    const id = new UuidV7IdGenerator(clock).generate();
+
+    const timestamp = parseInt(id.replace(/-/g, '').slice(0, 12), 16);
+    expect(timestamp).toBe(clock.now().getTime());
+  });
+
+  it('is reproducible between instances', () => {
+    const first = new UuidV7IdGenerator(new FakeClock(0));
+    const second = new UuidV7IdGenerator(new FakeClock(0));
+
+    expect([first.generate(), first.generate()]).toEqual([second.generate(), second.generate()]);
+  });
+
+  it('sorts in generation order within and across milliseconds', () => {
+    const clock = new FakeClock();
+    const ids = new UuidV7IdGenerator(clock);
+
+    const generated = [ids.generate(), ids.generate()];
+    clock.advance(1);
+    generated.push(ids.generate());
+
+    expect([...generated].sort()).toEqual(generated);
+    expect(new Set(generated).size).toBe(3);
+  });
+
+  it('restarts the counter on reset', () => {
+    const ids = new UuidV7IdGenerator(new FakeClock(0));
+    const first = ids.generate();
+
+    ids.reset();
+
+    expect(ids.generate()).toBe(first);
+  });
+});
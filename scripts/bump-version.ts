@@ -37,6 +37,8 @@ const PACKAGE_DIRS = [
   'packages/clients/onion-lasagna-client',
   'packages/clients/onion-lasagna-axios',
   'packages/patterns/onion-lasagna-saga',
+  'packages/tooling/onion-lasagna-testing',
+  'packages/persistence/onion-lasagna-kysely',
   'packages/clients/onion-lasagna-graphql-client',
   'packages/clients/onion-lasagna-react-query',
   'packages/clients/onion-lasagna-graphql-react-query',
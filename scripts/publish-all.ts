@@ -25,7 +25,7 @@ const ROOT = resolve(import.meta.dirname, '..');
 /**
  * Publish order respects the dependency graph:
  *   Layer 1: core (no @cosmneo deps)
- *   Layer 2: adapters + client + saga (peer-depend on core only)
+ *   Layer 2: adapters + client + saga + testing + kysely (peer-depend on core only)
  *   Layer 3: react-query (peer-depends on core + client)
  */
 const PUBLISH_ORDER = [
@@ -44,6 +44,8 @@ const PUBLISH_ORDER = [
   'packages/clients/onion-lasagna-client',
   'packages/clients/onion-lasagna-axios',
   'packages/patterns/onion-lasagna-saga',
+  'packages/tooling/onion-lasagna-testing',
+  'packages/persistence/onion-lasagna-kysely',
   'packages/clients/onion-lasagna-graphql-client',
   'packages/clients/onion-lasagna-react-query',
   'packages/clients/onion-lasagna-graphql-react-query',